@@ -15,6 +15,10 @@ import Terms from "./pages/Terms";
 import FAQ from "./pages/FAQ";
 import PremiumStatus from "./pages/PremiumStatus";
 import PremiumCheckout from "./pages/PremiumCheckout";
+import Planner from "./pages/Planner";
+import ShoppingList from "./pages/ShoppingList";
+import CookWith from "./pages/CookWith";
+import Coverage from "./pages/Coverage";
 import { PrivacyBanner } from "@/components/PrivacyBanner";
 
 const queryClient = new QueryClient();
@@ -36,6 +40,10 @@ const App = () => (
             <Route path="/faq" element={<FAQ />} />
             <Route path="/premium/status" element={<RequireAuth><PremiumStatus /></RequireAuth>} />
             <Route path="/premium/checkout" element={<RequireAuth><PremiumCheckout /></RequireAuth>} />
+            <Route path="/planner" element={<RequireAuth><Planner /></RequireAuth>} />
+            <Route path="/shopping-list" element={<ShoppingList />} />
+            <Route path="/cook-with" element={<CookWith />} />
+            <Route path="/coverage" element={<Coverage />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
           <PrivacyBanner />
@@ -0,0 +1,82 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { formatDistanceToNow, format } from 'date-fns';
+import { Store, BellRing } from 'lucide-react';
+import { api, type PLZCoverage } from '@/services/api';
+
+interface CoverageIndicatorProps {
+  plz: string;
+}
+
+export function CoverageIndicator({ plz }: CoverageIndicatorProps) {
+  const [coverage, setCoverage] = useState<PLZCoverage[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setCoverage(null);
+    api.getPLZCoverage(plz).then((data) => {
+      if (!cancelled) {
+        setCoverage(data);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [plz]);
+
+  if (!coverage) return null;
+
+  const activeChains = coverage.filter((chain) => chain.active_offers_count > 0);
+
+  if (activeChains.length === 0) {
+    return (
+      <Link
+        to={`/coverage?plz=${plz}`}
+        className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+      >
+        <BellRing className="h-3.5 w-3.5" />
+        No offers for {plz} yet · Get notified
+      </Link>
+    );
+  }
+
+  const lastImportedAt = activeChains
+    .map((chain) => chain.last_imported_at)
+    .filter(Boolean)
+    .sort()
+    .pop();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="link" size="sm" className="h-auto p-0 text-sm text-muted-foreground">
+          <Store className="mr-1 h-3.5 w-3.5" />
+          {activeChains.length} {activeChains.length === 1 ? 'supermarket' : 'supermarkets'}
+          {lastImportedAt && ` · updated ${formatDistanceToNow(new Date(lastImportedAt), { addSuffix: true })}`}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72">
+        <div className="space-y-3">
+          <p className="text-sm font-medium">Offers for PLZ {plz}</p>
+          <ul className="space-y-2">
+            {activeChains.map((chain) => (
+              <li key={chain.chain_id} className="text-sm">
+                <div className="flex justify-between gap-2">
+                  <span className="font-medium">{chain.chain_name}</span>
+                  <span className="text-muted-foreground">{chain.active_offers_count} offers</span>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {chain.valid_until && `Valid until ${format(new Date(chain.valid_until), 'dd.MM.yyyy')}`}
+                  {chain.valid_until && chain.last_imported_at && ' · '}
+                  {chain.last_imported_at && `imported ${formatDistanceToNow(new Date(chain.last_imported_at), { addSuffix: true })}`}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,43 @@
+import { Badge } from '@/components/ui/badge';
+import type { OfferDealRating } from '@/services/api';
+import { TrendingDown, TrendingUp } from 'lucide-react';
+
+interface DealBadgeProps {
+  rating?: OfferDealRating | null;
+  typicalPricePerUnit?: number;
+  unit?: string;
+}
+
+// "Is this a real deal": shown for offers that beat or miss the chain's recent offer prices
+export function DealBadge({ rating, typicalPricePerUnit, unit }: DealBadgeProps) {
+  const typicalHint =
+    typicalPricePerUnit !== undefined && unit ? `Typical offer price: €${typicalPricePerUnit.toFixed(2)}/${unit}` : undefined;
+
+  if (rating === 'lowest') {
+    return (
+      <Badge
+        variant="outline"
+        className="gap-1 text-xs bg-green-50 dark:bg-green-950 border-green-200 dark:border-green-800 text-green-700 dark:text-green-400"
+        title={typicalHint}
+      >
+        <TrendingDown className="h-3 w-3" />
+        Lowest in 90 days
+      </Badge>
+    );
+  }
+
+  if (rating === 'above_typical') {
+    return (
+      <Badge
+        variant="outline"
+        className="gap-1 text-xs border-orange-300 text-orange-700 dark:border-orange-800 dark:text-orange-400"
+        title={typicalHint}
+      >
+        <TrendingUp className="h-3 w-3" />
+        Above typical price
+      </Badge>
+    );
+  }
+
+  return null;
+}
@@ -16,12 +16,16 @@ interface DishCardProps {
     savingsPercent?: number;
     availableOffers?: number;
     ingredientsWithOffers?: number;
+    offerTotal?: number;
+    pricePerServing?: number;
+    servings?: number;
     isFavorite?: boolean;
   };
   onFavorite?: (dishId: string) => void;
+  draggable?: boolean;
 }
 
-export function DishCard({ dish, onFavorite }: DishCardProps) {
+export function DishCard({ dish, onFavorite, draggable = false }: DishCardProps) {
   const navigate = useNavigate();
   const location = useLocation();
   const [searchParams] = useSearchParams();
@@ -45,10 +49,22 @@ export function DishCard({ dish, onFavorite }: DishCardProps) {
     onFavorite?.(dish.dish_id);
   };
 
+  // Lets the meal planner accept this card as a drop
+  const handleDragStart = (e: React.DragEvent) => {
+    e.dataTransfer.setData('application/x-dish-id', dish.dish_id);
+    e.dataTransfer.setData('text/plain', dish.name);
+    e.dataTransfer.effectAllowed = 'copy';
+  };
+
   return (
     <Card 
-      className="overflow-hidden hover:shadow-lg transition-shadow flex flex-col h-full cursor-pointer"
+      className={cn(
+        'overflow-hidden hover:shadow-lg transition-shadow flex flex-col h-full',
+        draggable ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'
+      )}
       onClick={handleCardClick}
+      draggable={draggable}
+      onDragStart={draggable ? handleDragStart : undefined}
     >
       <CardHeader className="pb-3">
         <div className="flex items-start justify-between gap-2">
@@ -118,6 +134,15 @@ export function DishCard({ dish, onFavorite }: DishCardProps) {
             No active offers
           </div>
         )}
+
+        {dish.offerTotal !== undefined && dish.offerTotal > 0 && (
+          <div className="mt-auto text-sm text-muted-foreground">
+            ca. €{dish.offerTotal.toFixed(2)}
+            {dish.servings && dish.servings > 1 && dish.pricePerServing !== undefined && (
+              <span> · €{dish.pricePerServing.toFixed(2)} per serving</span>
+            )}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -1,23 +1,44 @@
+import { useState, useEffect } from 'react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Separator } from '@/components/ui/separator';
-import { Zap, ChefHat } from 'lucide-react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Zap, ChefHat, Leaf } from 'lucide-react';
+import type { Allergen, DietPreference, DishFacetName, DishFacets, PriceBasis, Season } from '@/services/api';
+import { SEASONS } from '@/utils/seasons';
+
+// The slider's top position means "any price"
+export const MAX_PRICE_LIMIT = 50;
 
 interface DishFiltersProps {
   categories: string[];
   chains: string[];
   selectedCategory: string;
   selectedChain: string;
+  selectedSeason: Season | 'all';
+  selectedCuisine: string;
+  facets: DishFacets | null; // Counts per option; null while loading
   maxPrice: number;
+  priceBasis: PriceBasis;
+  matchCount?: number | null; // Live result count for the slider position being dragged
   showQuickMeals: boolean;
   showMealPrep: boolean;
+  allergens: Allergen[];
+  excludedAllergens: string[];
+  diet: DietPreference | null;
   onCategoryChange: (category: string) => void;
   onChainChange: (chain: string) => void;
+  onSeasonChange: (season: Season | 'all') => void;
+  onCuisineChange: (cuisine: string) => void;
   onMaxPriceChange: (price: number) => void;
+  onMaxPriceDrag?: (price: number) => void;
+  onPriceBasisChange: (basis: PriceBasis) => void;
   onQuickMealsChange: (show: boolean) => void;
   onMealPrepChange: (show: boolean) => void;
+  onExcludedAllergensChange: (allergens: string[]) => void;
+  onDietChange: (diet: DietPreference | null) => void;
 }
 
 export function DishFilters({
@@ -25,15 +46,59 @@ export function DishFilters({
   chains,
   selectedCategory,
   selectedChain,
+  selectedSeason,
+  selectedCuisine,
+  facets,
   maxPrice,
+  priceBasis,
+  matchCount,
   showQuickMeals,
   showMealPrep,
+  allergens,
+  excludedAllergens,
+  diet,
   onCategoryChange,
   onChainChange,
+  onSeasonChange,
+  onCuisineChange,
   onMaxPriceChange,
+  onMaxPriceDrag,
+  onPriceBasisChange,
   onQuickMealsChange,
   onMealPrepChange,
+  onExcludedAllergensChange,
+  onDietChange,
 }: DishFiltersProps) {
+  // Slider position while dragging; the filter is only applied on release
+  const [draftPrice, setDraftPrice] = useState(maxPrice);
+
+  useEffect(() => {
+    setDraftPrice(maxPrice);
+  }, [maxPrice]);
+
+  const getCount = (facet: DishFacetName, value: string) =>
+    facets ? facets[facet]?.[value] ?? 0 : undefined;
+
+  // Options without matching dishes stay selectable only while selected
+  const isEmptyOption = (facet: DishFacetName, value: string, selected: boolean) =>
+    !selected && getCount(facet, value) === 0;
+
+  const renderCount = (facet: DishFacetName, value: string) => {
+    const count = getCount(facet, value);
+    return count === undefined ? null : <span className="ml-1 text-xs text-muted-foreground">({count})</span>;
+  };
+
+  const cuisines = Object.keys(facets?.cuisine || {}).sort((a, b) => a.localeCompare(b));
+  if (selectedCuisine !== 'all' && !cuisines.includes(selectedCuisine)) {
+    cuisines.unshift(selectedCuisine);
+  }
+
+  const toggleAllergen = (tag: string, exclude: boolean) => {
+    onExcludedAllergensChange(
+      exclude ? [...excludedAllergens, tag] : excludedAllergens.filter((t) => t !== tag)
+    );
+  };
+
   return (
     <div className="space-y-6 p-4 bg-card rounded-lg border">
       <div className="space-y-2">
@@ -45,8 +110,9 @@ export function DishFilters({
           <SelectContent>
             <SelectItem value="all">All categories</SelectItem>
             {categories.map((cat) => (
-              <SelectItem key={cat} value={cat}>
+              <SelectItem key={cat} value={cat} disabled={isEmptyOption('category', cat, cat === selectedCategory)}>
                 {cat}
+                {renderCount('category', cat)}
               </SelectItem>
             ))}
           </SelectContent>
@@ -62,8 +128,49 @@ export function DishFilters({
           <SelectContent>
             <SelectItem value="all">All</SelectItem>
             {chains.map((chain) => (
-              <SelectItem key={chain} value={chain}>
+              <SelectItem key={chain} value={chain} disabled={isEmptyOption('chain', chain, chain === selectedChain)}>
                 {chain}
+                {renderCount('chain', chain)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Season</Label>
+        <Select value={selectedSeason} onValueChange={(value) => onSeasonChange(value as Season | 'all')}>
+          <SelectTrigger>
+            <SelectValue placeholder="All seasons" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All seasons</SelectItem>
+            {SEASONS.map((season) => (
+              <SelectItem
+                key={season.value}
+                value={season.value}
+                disabled={isEmptyOption('season', season.value, season.value === selectedSeason)}
+              >
+                {season.label}
+                {renderCount('season', season.value)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Cuisine</Label>
+        <Select value={selectedCuisine} onValueChange={onCuisineChange}>
+          <SelectTrigger>
+            <SelectValue placeholder="All cuisines" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All cuisines</SelectItem>
+            {cuisines.map((cuisine) => (
+              <SelectItem key={cuisine} value={cuisine}>
+                {cuisine}
+                {renderCount('cuisine', cuisine)}
               </SelectItem>
             ))}
           </SelectContent>
@@ -79,6 +186,7 @@ export function DishFilters({
             <Checkbox
               id="quick-meals"
               checked={showQuickMeals}
+              disabled={isEmptyOption('quick', 'true', showQuickMeals)}
               onCheckedChange={(checked) => onQuickMealsChange(checked === true)}
             />
             <Label
@@ -87,12 +195,14 @@ export function DishFilters({
             >
               <Zap className="h-4 w-4 text-yellow-500" />
               Quick Meals
+              {renderCount('quick', 'true')}
             </Label>
           </div>
           <div className="flex items-center space-x-2">
             <Checkbox
               id="meal-prep"
               checked={showMealPrep}
+              disabled={isEmptyOption('meal_prep', 'true', showMealPrep)}
               onCheckedChange={(checked) => onMealPrepChange(checked === true)}
             />
             <Label
@@ -101,6 +211,7 @@ export function DishFilters({
             >
               <ChefHat className="h-4 w-4 text-blue-500" />
               Meal Prep
+              {renderCount('meal_prep', 'true')}
             </Label>
           </div>
         </div>
@@ -108,19 +219,91 @@ export function DishFilters({
 
       <Separator />
 
-      {/* <div className="space-y-2">
+      <div className="space-y-3">
+        <Label className="flex items-center gap-2">
+          <Leaf className="h-4 w-4 text-green-600" />
+          Diet
+        </Label>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={diet || 'any'}
+          onValueChange={(value) => value && onDietChange(value === 'any' ? null : (value as DietPreference))}
+          className="justify-start"
+        >
+          <ToggleGroupItem value="any">Any</ToggleGroupItem>
+          <ToggleGroupItem value="vegetarian" disabled={isEmptyOption('diet', 'vegetarian', diet === 'vegetarian')}>
+            Vegetarian
+            {renderCount('diet', 'vegetarian')}
+          </ToggleGroupItem>
+          <ToggleGroupItem value="vegan" disabled={isEmptyOption('diet', 'vegan', diet === 'vegan')}>
+            Vegan
+            {renderCount('diet', 'vegan')}
+          </ToggleGroupItem>
+        </ToggleGroup>
+        {allergens.length > 0 && (
+          <>
+            <Label>Exclude allergens</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {allergens.map((allergen) => (
+                <div key={allergen.allergen_tag} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`allergen-${allergen.allergen_tag}`}
+                    checked={excludedAllergens.includes(allergen.allergen_tag)}
+                    onCheckedChange={(checked) => toggleAllergen(allergen.allergen_tag, checked === true)}
+                  />
+                  <Label
+                    htmlFor={`allergen-${allergen.allergen_tag}`}
+                    className="text-sm font-normal cursor-pointer"
+                  >
+                    {allergen.label}
+                    {renderCount('allergen', allergen.allergen_tag)}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      <Separator />
+
+      <div className="space-y-2">
         <div className="flex items-center justify-between">
           <Label>Max Price</Label>
-          <span className="text-sm font-medium">€{maxPrice}</span>
+          <span className="text-sm font-medium">
+            {draftPrice >= MAX_PRICE_LIMIT ? 'Any' : `€${draftPrice}`}
+          </span>
         </div>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={priceBasis}
+          onValueChange={(value) => value && onPriceBasisChange(value as PriceBasis)}
+          className="justify-start"
+        >
+          <ToggleGroupItem value="total">Whole dish</ToggleGroupItem>
+          <ToggleGroupItem value="per_serving">Per serving</ToggleGroupItem>
+        </ToggleGroup>
         <Slider
-          value={[maxPrice]}
-          onValueChange={([value]) => onMaxPriceChange(value)}
-          max={50}
-          min={5}
+          value={[draftPrice]}
+          onValueChange={([value]) => {
+            setDraftPrice(value);
+            onMaxPriceDrag?.(value);
+          }}
+          onValueCommit={([value]) => onMaxPriceChange(value)}
+          max={MAX_PRICE_LIMIT}
+          min={1}
           step={1}
         />
-      </div> */}
+        {matchCount !== undefined && matchCount !== null && (
+          <p className="text-xs text-muted-foreground">
+            {matchCount} {matchCount === 1 ? 'dish' : 'dishes'} at this price
+          </p>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,222 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { MapPin, Check, ChevronDown, Plus, Settings2, Trash2, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { api, type UserLocation } from '@/services/api';
+import { getLocalLocations, addLocalLocation, removeLocalLocation } from '@/utils/locations';
+
+interface LocationSwitcherProps {
+  userId: string | null;
+  currentPLZ: string;
+  // Same handler as the PLZ input: validates, saves and applies the PLZ
+  onPLZChange: (plz: string) => Promise<boolean | void> | void;
+}
+
+export function LocationSwitcher({ userId, currentPLZ, onPLZChange }: LocationSwitcherProps) {
+  const [locations, setLocations] = useState<UserLocation[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [plz, setPLZ] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadLocations = useCallback(async () => {
+    setLocations(userId ? await api.getUserLocations(userId) : getLocalLocations());
+  }, [userId]);
+
+  useEffect(() => {
+    loadLocations();
+  }, [loadLocations]);
+
+  const activeLocation = locations.find((location) => location.plz === currentPLZ);
+
+  const openDialog = () => {
+    setName('');
+    setPLZ(activeLocation ? '' : currentPLZ);
+    setDialogOpen(true);
+  };
+
+  const handleSwitch = async (location: UserLocation) => {
+    if (location.plz === currentPLZ) return;
+    try {
+      const applied = await onPLZChange(location.plz);
+      if (applied !== false) {
+        toast.success(`Switched to ${location.name}`);
+      }
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to switch location. Please try again.');
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const trimmedPLZ = plz.trim();
+    if (!name.trim()) {
+      toast.error('Please enter a name, e.g. Home or Work');
+      return;
+    }
+    if (!/^\d{5}$/.test(trimmedPLZ)) {
+      toast.error('Please enter a valid 5-digit postal code (e.g., 10115)');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (userId) {
+        await api.addUserLocation(userId, name, trimmedPLZ);
+      } else {
+        if (!(await api.validatePLZ(trimmedPLZ))) {
+          throw new Error('Postal code not found. Please enter a valid German postal code that exists in our database.');
+        }
+        addLocalLocation(name, trimmedPLZ);
+      }
+      toast.success(`Saved ${name.trim()}`);
+      setName('');
+      setPLZ('');
+      await loadLocations();
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to save location. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (location: UserLocation) => {
+    try {
+      if (userId) {
+        await api.removeUserLocation(userId, location.location_id);
+      } else {
+        removeLocalLocation(location.location_id);
+      }
+      await loadLocations();
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to remove location. Please try again.');
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="flex items-center gap-1" title="Switch location">
+            <MapPin className="h-4 w-4" />
+            <span className="hidden sm:inline max-w-[10rem] truncate">
+              {activeLocation ? activeLocation.name : currentPLZ ? `PLZ ${currentPLZ}` : 'Location'}
+            </span>
+            <ChevronDown className="h-4 w-4 hidden sm:block" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-60">
+          <DropdownMenuLabel>Saved locations</DropdownMenuLabel>
+          {locations.length === 0 ? (
+            <DropdownMenuItem disabled>No saved locations yet</DropdownMenuItem>
+          ) : (
+            locations.map((location) => (
+              <DropdownMenuItem
+                key={location.location_id}
+                onClick={() => handleSwitch(location)}
+                className="cursor-pointer"
+              >
+                <Check className={`mr-2 h-4 w-4 ${location.plz === currentPLZ ? 'opacity-100' : 'opacity-0'}`} />
+                <span className="truncate">{location.name}</span>
+                <span className="ml-auto pl-2 text-xs text-muted-foreground">{location.plz}</span>
+              </DropdownMenuItem>
+            ))
+          )}
+          <DropdownMenuSeparator />
+          {currentPLZ && !activeLocation && (
+            <DropdownMenuItem onClick={openDialog} className="cursor-pointer">
+              <Plus className="mr-2 h-4 w-4" />
+              <span>Save PLZ {currentPLZ}</span>
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={openDialog} className="cursor-pointer">
+            <Settings2 className="mr-2 h-4 w-4" />
+            <span>Manage locations</span>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Saved locations</DialogTitle>
+            <DialogDescription>
+              Save the places you shop for, like home, work or your parents, and switch between them in the header.
+            </DialogDescription>
+          </DialogHeader>
+
+          {locations.length > 0 && (
+            <ul className="divide-y rounded-md border">
+              {locations.map((location) => (
+                <li key={location.location_id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                  <div className="min-w-0">
+                    <span className="font-medium">{location.name}</span>
+                    <span className="ml-2 text-muted-foreground">{location.plz}</span>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => handleRemove(location)}
+                    title={`Remove ${location.name}`}
+                    aria-label={`Remove ${location.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleAdd} className="space-y-3">
+            <div className="grid grid-cols-[1fr_7rem] gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="location-name">Name</Label>
+                <Input
+                  id="location-name"
+                  placeholder="e.g. Work"
+                  value={name}
+                  onChange={(e) => setName(e.target.value.slice(0, 40))}
+                  disabled={isSaving}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="location-plz">PLZ</Label>
+                <Input
+                  id="location-plz"
+                  inputMode="numeric"
+                  placeholder="10115"
+                  value={plz}
+                  onChange={(e) => setPLZ(e.target.value.replace(/\D/g, '').slice(0, 5))}
+                  disabled={isSaving}
+                />
+              </div>
+            </div>
+            <Button type="submit" className="w-full" disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save location
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,176 @@
+import { useState, useEffect, useMemo } from 'react';
+import { api, type DishIngredient, type GeoPoint, type NearbyStore } from '@/services/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { StoreMap } from '@/components/StoreMap';
+import { List, Map as MapIcon, MapPin } from 'lucide-react';
+
+interface NearbyStoresProps {
+  plz: string;
+  ingredients: DishIngredient[];
+  chainId?: string | null;
+}
+
+type StoresView = 'list' | 'map';
+
+const RADIUS_OPTIONS = [2, 5, 10, 25];
+
+const CHAIN_COLORS = ['#16a34a', '#2563eb', '#ea580c', '#9333ea', '#0891b2', '#db2777', '#ca8a04'];
+
+export function NearbyStores({ plz, ingredients, chainId }: NearbyStoresProps) {
+  const [radiusKm, setRadiusKm] = useState(5);
+  const [view, setView] = useState<StoresView>('list');
+  const [stores, setStores] = useState<NearbyStore[]>([]);
+  const [center, setCenter] = useState<GeoPoint | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([api.getNearbyStores(plz, radiusKm, chainId), api.getPLZLocation(plz)]).then(([storesData, location]) => {
+      if (!cancelled) {
+        setStores(storesData);
+        setCenter(location);
+        setLoading(false);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [plz, radiusKm, chainId]);
+
+  // Ingredients of the dish each chain has on offer for the PLZ
+  const offersByChain = useMemo(() => {
+    const counts = new Map<string, number>();
+    ingredients.forEach((ing) => {
+      const chains = new Set((ing.all_offers || []).map((offer) => offer.chain_id).filter((id): id is string => !!id));
+      chains.forEach((id) => counts.set(id, (counts.get(id) || 0) + 1));
+    });
+    return counts;
+  }, [ingredients]);
+
+  const chainColors = useMemo(() => {
+    const colors = new Map<string, string>();
+    stores.forEach((store) => {
+      if (!colors.has(store.chain_id)) {
+        colors.set(store.chain_id, CHAIN_COLORS[colors.size % CHAIN_COLORS.length]);
+      }
+    });
+    return colors;
+  }, [stores]);
+
+  // A store has the offers when its chain has them and it belongs to the chain's ad region for the PLZ
+  const offerCount = (store: NearbyStore) => (store.in_user_region === false ? 0 : offersByChain.get(store.chain_id) || 0);
+  const hasOffers = (store: NearbyStore) => offerCount(store) > 0;
+
+  const storesWithOffers = stores.filter(hasOffers).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <CardTitle className="flex items-center gap-2">
+            <MapPin className="h-5 w-5 text-primary" />
+            Nearby Stores
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Select value={String(radiusKm)} onValueChange={(value) => setRadiusKm(Number(value))}>
+              <SelectTrigger className="w-[100px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RADIUS_OPTIONS.map((km) => (
+                  <SelectItem key={km} value={String(km)}>
+                    {km} km
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={view}
+              onValueChange={(value) => value && setView(value as StoresView)}
+            >
+              <ToggleGroupItem value="list" aria-label="List">
+                <List className="h-4 w-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="map" aria-label="Map">
+                <MapIcon className="h-4 w-4" />
+              </ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {stores.length > 0
+            ? `${storesWithOffers} of ${stores.length} stores within ${radiusKm} km of ${plz} have offers for this dish`
+            : `Stores within ${radiusKm} km of ${plz}`}
+        </p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : stores.length === 0 || !center ? (
+          <p className="text-center py-8 text-sm text-muted-foreground">No stores found within {radiusKm} km.</p>
+        ) : view === 'map' ? (
+          <div className="space-y-3">
+            <StoreMap
+              center={center}
+              stores={stores}
+              chainColors={chainColors}
+              hasOffers={hasOffers}
+              offerCount={offerCount}
+            />
+            <div className="flex items-center gap-3 flex-wrap text-xs text-muted-foreground">
+              {Array.from(chainColors.entries()).map(([id, color]) => (
+                <span key={id} className="flex items-center gap-1">
+                  <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: color }} />
+                  {stores.find((store) => store.chain_id === id)?.chain_name}
+                </span>
+              ))}
+              <span>Filled = has offers for this dish</span>
+            </div>
+          </div>
+        ) : (
+          <div className="divide-y">
+            {stores.map((store) => (
+              <div key={store.store_id} className="flex items-center justify-between gap-4 py-2">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">
+                    <span
+                      className="inline-block h-2.5 w-2.5 rounded-full mr-2"
+                      style={{ backgroundColor: chainColors.get(store.chain_id) }}
+                    />
+                    {store.store_name}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {store.chain_name}
+                    {store.street && ` · ${store.street}`}
+                    {(store.plz || store.city) && `, ${[store.plz, store.city].filter(Boolean).join(' ')}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {hasOffers(store) ? (
+                    <Badge variant="secondary" className="text-xs">
+                      {offerCount(store)} on offer
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline" className="text-xs text-muted-foreground">
+                      No offers
+                    </Badge>
+                  )}
+                  <span className="text-sm text-muted-foreground w-16 text-right">{store.distance_km.toFixed(1)} km</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { api, type AppNotification, type PriceWatch } from '@/services/api';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Bell, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+
+interface NotificationBellProps {
+  userId: string;
+}
+
+export function NotificationBell({ userId }: NotificationBellProps) {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [watches, setWatches] = useState<PriceWatch[]>([]);
+  const [emailDigest, setEmailDigest] = useState(false);
+
+  useEffect(() => {
+    api.getUnreadNotificationCount(userId).then(setUnreadCount);
+  }, [userId]);
+
+  const loadData = useCallback(async () => {
+    const [notificationsData, watchesData, digestEnabled] = await Promise.all([
+      api.getNotifications(userId),
+      api.getPriceWatches(userId),
+      api.getAlertEmailDigest(userId),
+    ]);
+    setNotifications(notificationsData);
+    setWatches(watchesData);
+    setEmailDigest(digestEnabled);
+  }, [userId]);
+
+  useEffect(() => {
+    if (open) {
+      loadData();
+    }
+  }, [open, loadData]);
+
+  const markRead = async (notificationIds?: string[]) => {
+    try {
+      await api.markNotificationsRead(userId, notificationIds);
+      const readAt = new Date().toISOString();
+      setNotifications((prev) =>
+        prev.map((n) => (!n.read_at && (!notificationIds || notificationIds.includes(n.notification_id)) ? { ...n, read_at: readAt } : n))
+      );
+      setUnreadCount(notificationIds ? (count) => Math.max(count - notificationIds.length, 0) : 0);
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to update notifications');
+    }
+  };
+
+  const handleOpenNotification = async (notification: AppNotification) => {
+    if (!notification.read_at) {
+      await markRead([notification.notification_id]);
+    }
+    if (notification.link) {
+      setOpen(false);
+      navigate(notification.link);
+    }
+  };
+
+  const handleRemoveWatch = async (watch: PriceWatch) => {
+    try {
+      await api.removePriceWatch(userId, watch.watch_id);
+      setWatches((prev) => prev.filter((w) => w.watch_id !== watch.watch_id));
+      toast.success(`Price alert for ${watch.name} removed`);
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to remove price alert');
+    }
+  };
+
+  const handleEmailDigest = async (enabled: boolean) => {
+    setEmailDigest(enabled);
+    try {
+      await api.updateAlertEmailDigest(userId, enabled);
+    } catch (error: any) {
+      setEmailDigest(!enabled);
+      toast.error(error?.message || 'Failed to save email preference');
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" title="Price alerts">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-semibold flex items-center justify-center">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="end">
+        <Tabs defaultValue="alerts">
+          <div className="flex items-center justify-between gap-2 border-b px-3 py-2">
+            <TabsList className="h-8">
+              <TabsTrigger value="alerts" className="text-xs">Alerts</TabsTrigger>
+              <TabsTrigger value="watches" className="text-xs">Watching ({watches.length})</TabsTrigger>
+            </TabsList>
+            {unreadCount > 0 && (
+              <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => markRead()}>
+                Mark all read
+              </Button>
+            )}
+          </div>
+
+          <TabsContent value="alerts" className="m-0">
+            {notifications.length === 0 ? (
+              <p className="p-6 text-center text-sm text-muted-foreground">
+                No alerts yet. Create a price alert on a dish to get notified when it gets cheap.
+              </p>
+            ) : (
+              <div className="max-h-80 overflow-y-auto divide-y">
+                {notifications.map((notification) => (
+                  <button
+                    key={notification.notification_id}
+                    type="button"
+                    onClick={() => handleOpenNotification(notification)}
+                    className={cn(
+                      'w-full text-left px-3 py-2 hover:bg-muted/50 transition-colors',
+                      !notification.read_at && 'bg-primary/5'
+                    )}
+                  >
+                    <div className="flex items-start gap-2">
+                      {!notification.read_at && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" />}
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium">{notification.title}</p>
+                        {notification.body && <p className="text-xs text-muted-foreground">{notification.body}</p>}
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                        </p>
+                      </div>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="watches" className="m-0">
+            {watches.length === 0 ? (
+              <p className="p-6 text-center text-sm text-muted-foreground">You are not watching any prices.</p>
+            ) : (
+              <div className="max-h-80 overflow-y-auto divide-y">
+                {watches.map((watch) => (
+                  <div key={watch.watch_id} className="flex items-center justify-between gap-2 px-3 py-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{watch.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Max. €{watch.max_price.toFixed(2)}
+                        {watch.dish_id ? ' per serving' : `/${watch.unit}`} · {watch.location_name ? `${watch.location_name} (${watch.plz})` : watch.plz}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 shrink-0"
+                      onClick={() => handleRemoveWatch(watch)}
+                      title="Remove price alert"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+
+        <div className="flex items-center justify-between gap-2 border-t px-3 py-2">
+          <Label htmlFor="alert-email-digest" className="text-xs font-normal">
+            Also send new alerts by email
+          </Label>
+          <Switch id="alert-email-digest" checked={emailDigest} onCheckedChange={handleEmailDigest} />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,67 +1,203 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
-import { MapPin, Loader2 } from 'lucide-react';
+import { Command, CommandEmpty, CommandGroup, CommandItem, CommandList } from '@/components/ui/command';
+import { api, type PostalCodeSuggestion } from '@/services/api';
+import { MapPin, Loader2, LocateFixed } from 'lucide-react';
 import { toast } from 'sonner';
 
 interface PLZInputProps {
-  onPLZChange: (plz: string) => void;
+  // Resolve to false when the PLZ was handled without being applied (no success toast)
+  onPLZChange: (plz: string) => Promise<boolean | void> | void;
   currentPLZ?: string;
 }
 
+const MIN_QUERY_LENGTH = 2;
+
 export function PLZInput({ onPLZChange, currentPLZ }: PLZInputProps) {
   const [plz, setPLZ] = useState(currentPLZ || '');
   const [isLoading, setIsLoading] = useState(false);
+  const [open, setOpen] = useState(false);
+  const [suggestions, setSuggestions] = useState<PostalCodeSuggestion[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [locating, setLocating] = useState(false);
+  const searchRequestRef = useRef(0);
+
+  // Follow PLZ changes made elsewhere (e.g. switching saved locations)
+  useEffect(() => {
+    if (currentPLZ) {
+      setPLZ(currentPLZ);
+    }
+  }, [currentPLZ]);
+
+  // Suggestions while typing (debounced, stale responses ignored)
+  useEffect(() => {
+    const query = plz.trim();
+    if (!open || query.length < MIN_QUERY_LENGTH) {
+      setSuggestions([]);
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      const requestId = ++searchRequestRef.current;
+      const data = await api.searchPostalCodes(query);
+      if (requestId === searchRequestRef.current) {
+        setSuggestions(data);
+        setSearching(false);
+      }
+    }, 200);
+    return () => clearTimeout(timer);
+  }, [plz, open]);
+
+  const applyPLZ = async (value: string, successMessage = 'Location updated') => {
+    setIsLoading(true);
+    try {
+      const applied = await onPLZChange(value);
+      if (applied !== false) {
+        toast.success(successMessage);
+      }
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to update location. Please check your postal code.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
+
     const trimmedPLZ = plz.trim();
-    
+
     if (trimmedPLZ.length !== 5 || !/^\d{5}$/.test(trimmedPLZ)) {
-      toast.error('Please enter a valid 5-digit postal code (e.g., 10115)');
+      toast.error('Please enter a valid 5-digit postal code (e.g., 10115) or pick one from the suggestions');
       return;
     }
-    
+
     const plzNum = parseInt(trimmedPLZ, 10);
     if (plzNum < 1000 || plzNum > 99999) {
       toast.error('Postal code must be between 01000 and 99999');
       return;
     }
 
-    setIsLoading(true);
-    try {
-      await onPLZChange(trimmedPLZ);
-      toast.success('Location updated');
-    } catch (error: any) {
-      toast.error(error?.message || 'Failed to update location. Please check your postal code.');
-    } finally {
-      setIsLoading(false);
+    setOpen(false);
+    await applyPLZ(trimmedPLZ);
+  };
+
+  const handleSelect = (suggestion: PostalCodeSuggestion) => {
+    setPLZ(suggestion.plz);
+    setOpen(false);
+    applyPLZ(suggestion.plz);
+  };
+
+  const handleUseLocation = () => {
+    if (!navigator.geolocation) {
+      toast.error('Your browser does not support location access');
+      return;
     }
+
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      async (position) => {
+        const nearest = await api.getNearestPLZ(position.coords.latitude, position.coords.longitude);
+        setLocating(false);
+        if (!nearest) {
+          toast.error('No supported postal code found near your location');
+          return;
+        }
+        setPLZ(nearest.plz);
+        setOpen(false);
+        await applyPLZ(nearest.plz, `Location set to ${[nearest.plz, nearest.city].filter(Boolean).join(' ')}`);
+      },
+      (error) => {
+        setLocating(false);
+        toast.error(
+          error.code === error.PERMISSION_DENIED
+            ? 'Location access was denied. Please enter your postal code instead.'
+            : 'Could not determine your location. Please enter your postal code instead.'
+        );
+      },
+      { timeout: 10000, maximumAge: 10 * 60 * 1000 }
+    );
   };
 
+  const showSuggestions = open && plz.trim().length >= MIN_QUERY_LENGTH;
+
   return (
     <form onSubmit={handleSubmit} className="flex gap-2">
-      <div className="flex-1">
-        <Label htmlFor="plz" className="sr-only">Postal Code</Label>
+      {/* cmdk handles arrow keys and Enter for the suggestions; without any, Enter submits the form */}
+      <Command shouldFilter={false} className="relative flex-1 overflow-visible bg-transparent">
+        <Label htmlFor="plz" className="sr-only">Postal Code or City</Label>
         <div className="relative">
           <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
             id="plz"
             type="text"
-            placeholder="Enter PLZ (e.g., 10115)"
+            placeholder="Enter PLZ or city (e.g., 10115 or Hannover)"
             value={plz}
             onChange={(e) => {
-              const value = e.target.value.replace(/\D/g, '').slice(0, 5);
-              setPLZ(value);
+              setPLZ(e.target.value.slice(0, 50));
+              setOpen(true);
+            }}
+            onFocus={() => setOpen(true)}
+            onBlur={() => setOpen(false)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') {
+                setOpen(false);
+              }
+              if (e.key === 'Enter' && (!showSuggestions || suggestions.length === 0)) {
+                e.stopPropagation();
+              }
             }}
-            maxLength={5}
-            className="pl-10"
+            autoComplete="off"
+            role="combobox"
+            aria-expanded={showSuggestions}
+            className="pl-10 pr-10"
             disabled={isLoading}
           />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="absolute right-1 top-1/2 -translate-y-1/2 h-8 w-8"
+            onClick={handleUseLocation}
+            disabled={isLoading || locating}
+            title="Use my location"
+            aria-label="Use my location"
+          >
+            {locating ? <Loader2 className="h-4 w-4 animate-spin" /> : <LocateFixed className="h-4 w-4" />}
+          </Button>
         </div>
-      </div>
+        {showSuggestions && (
+          <CommandList className="absolute left-0 right-0 top-full z-50 mt-1 rounded-md border bg-popover shadow-md">
+            {searching && suggestions.length === 0 ? (
+              <div className="py-6 text-center text-sm text-muted-foreground">Searching...</div>
+            ) : (
+              <CommandEmpty>No matching postal code found.</CommandEmpty>
+            )}
+            <CommandGroup>
+              {suggestions.map((suggestion) => (
+                <CommandItem
+                  key={suggestion.plz}
+                  value={suggestion.plz}
+                  onSelect={() => handleSelect(suggestion)}
+                  onMouseDown={(e) => e.preventDefault()}
+                >
+                  <span className="font-medium">{suggestion.plz}</span>
+                  <span className="ml-2 truncate text-muted-foreground">{suggestion.city}</span>
+                  <span className="ml-auto pl-2 shrink-0 text-xs text-muted-foreground">
+                    {suggestion.chains_with_offers > 0
+                      ? `${suggestion.chains_with_offers} ${suggestion.chains_with_offers === 1 ? 'supermarket' : 'supermarkets'} with offers`
+                      : 'No offers yet'}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        )}
+      </Command>
       <Button type="submit" disabled={isLoading}>
         {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
         Update
@@ -0,0 +1,125 @@
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { addDays, addWeeks, format, startOfISOWeek } from 'date-fns';
+import { api, type Plan } from '@/services/api';
+import { Button } from '@/components/ui/button';
+import { CalendarDays, ChevronLeft, ChevronRight, Lock } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { PLAN_DAY_COUNT, toPlanWeekIso, toPlanWeekStartDate } from '@/utils/planWeek';
+
+interface PlannerDropBarProps {
+  userId: string;
+  userPLZ: string;
+}
+
+// Days of a week's meal plan to drop dishes from the dish grid onto
+export function PlannerDropBar({ userId, userPLZ }: PlannerDropBarProps) {
+  const navigate = useNavigate();
+  const [weekStart, setWeekStart] = useState(() => startOfISOWeek(new Date()));
+  const [plan, setPlan] = useState<Plan | null>(null);
+  const [dragOverDay, setDragOverDay] = useState<number | null>(null);
+  // Plan being created for a week, shared by drops that land before it is in state
+  const pendingPlanRef = useRef<{ week: string; promise: Promise<Plan> } | null>(null);
+
+  const isLocked = plan?.status === 'locked';
+
+  useEffect(() => {
+    let cancelled = false;
+    setPlan(null);
+    api.getPlan(userId, toPlanWeekStartDate(weekStart)).then((planData) => {
+      if (!cancelled) {
+        setPlan(planData);
+      }
+    }).catch((error) => {
+      if (!cancelled) {
+        toast.error(error?.message || 'Failed to load meal plan');
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, weekStart]);
+
+  const ensurePlan = (): Promise<Plan> => {
+    if (plan) return Promise.resolve(plan);
+
+    const week = toPlanWeekStartDate(weekStart);
+    if (pendingPlanRef.current?.week !== week) {
+      const promise = api.createPlan(userId, week, toPlanWeekIso(weekStart), userPLZ).then((created) => {
+        setPlan((current) => current || created);
+        return created;
+      });
+      promise.catch(() => {
+        if (pendingPlanRef.current?.promise === promise) {
+          pendingPlanRef.current = null;
+        }
+      });
+      pendingPlanRef.current = { week, promise };
+    }
+    return pendingPlanRef.current.promise;
+  };
+
+  const handleDrop = async (e: React.DragEvent, dayOfWeek: number) => {
+    e.preventDefault();
+    setDragOverDay(null);
+    const dishId = e.dataTransfer.getData('application/x-dish-id');
+    if (!dishId || isLocked) return;
+
+    try {
+      const currentPlan = await ensurePlan();
+      const item = await api.addPlanItem(currentPlan.plan_id, dishId, dayOfWeek);
+      setPlan((current) => current && current.plan_id === currentPlan.plan_id
+        ? { ...current, items: [...current.items, item] }
+        : current);
+      toast.success(`Added ${item.dish_name || 'dish'} to ${format(addDays(weekStart, dayOfWeek), 'EEEE')}`);
+      // Draft plans are re-priced whenever their items change
+      await api.calculatePlanPrices(currentPlan.plan_id, currentPlan.plz || userPLZ);
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to add dish to plan');
+    }
+  };
+
+  // Dragging needs a pointer, so the bar is left out on small (touch) screens
+  return (
+    <div className="mt-3 hidden md:flex items-center gap-2">
+      <Button variant="ghost" size="sm" className="shrink-0" onClick={() => navigate('/planner')}>
+        <CalendarDays className="mr-2 h-4 w-4" />
+        {toPlanWeekIso(weekStart)}
+        {isLocked && <Lock className="ml-1 h-3 w-3" />}
+      </Button>
+      <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => setWeekStart(addWeeks(weekStart, -1))}>
+        <ChevronLeft className="h-4 w-4" />
+      </Button>
+      <div className="grid flex-1 grid-cols-7 gap-1">
+        {Array.from({ length: PLAN_DAY_COUNT }, (_, day) => {
+          const count = (plan?.items || []).filter((item) => item.day_of_week === day).length;
+          return (
+            <div
+              key={day}
+              className={cn(
+                'rounded-md border border-dashed px-1 py-1 text-center text-xs transition-colors',
+                dragOverDay === day && 'border-primary bg-primary/5',
+                isLocked && 'opacity-50'
+              )}
+              title={isLocked ? 'This plan is locked' : 'Drop a dish here to plan it'}
+              onDragOver={(e) => {
+                if (isLocked) return;
+                e.preventDefault();
+                setDragOverDay(day);
+              }}
+              onDragLeave={() => setDragOverDay(null)}
+              onDrop={(e) => handleDrop(e, day)}
+            >
+              <span className="font-medium">{format(addDays(weekStart, day), 'EEE')}</span>
+              <span className="ml-1 text-muted-foreground">{count > 0 ? count : '–'}</span>
+            </div>
+          );
+        })}
+      </div>
+      <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => setWeekStart(addWeeks(weekStart, 1))}>
+        <ChevronRight className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
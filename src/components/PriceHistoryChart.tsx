@@ -0,0 +1,142 @@
+import { useState, useEffect, useMemo } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { api, type DishIngredient, type OfferPricePoint } from '@/services/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LineChart as LineChartIcon } from 'lucide-react';
+
+interface PriceHistoryChartProps {
+  ingredients: DishIngredient[];
+  plz?: string | null;
+  chainId?: string | null;
+}
+
+const CHAIN_COLORS = ['hsl(var(--primary))', '#2563eb', '#ea580c', '#9333ea', '#0891b2', '#db2777'];
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit' });
+
+export function PriceHistoryChart({ ingredients, plz, chainId }: PriceHistoryChartProps) {
+  const [ingredientId, setIngredientId] = useState<string | null>(null);
+  const [history, setHistory] = useState<OfferPricePoint[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Start with the first ingredient that is on offer
+  useEffect(() => {
+    setIngredientId((current) => {
+      if (current && ingredients.some((ing) => ing.ingredient_id === current)) return current;
+      const initial = ingredients.find((ing) => ing.has_offer) || ingredients[0];
+      return initial?.ingredient_id ?? null;
+    });
+  }, [ingredients]);
+
+  useEffect(() => {
+    if (!ingredientId) {
+      setHistory([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    api.getIngredientPriceHistory(ingredientId, plz, chainId).then((data) => {
+      if (!cancelled) {
+        setHistory(data);
+        setLoading(false);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [ingredientId, plz, chainId]);
+
+  // One line per chain with a point where each offer starts (cheapest one if several start that day)
+  const { data, config } = useMemo(() => {
+    const chainKeys = new Map<string, string>();
+    const chartConfig: ChartConfig = {};
+    const rows = new Map<string, Record<string, string | number>>();
+
+    history.forEach((point) => {
+      if (!chainKeys.has(point.chain_id)) {
+        const key = `chain${chainKeys.size}`;
+        chartConfig[key] = { label: point.chain_name, color: CHAIN_COLORS[chainKeys.size % CHAIN_COLORS.length] };
+        chainKeys.set(point.chain_id, key);
+      }
+      const key = chainKeys.get(point.chain_id)!;
+      const row = rows.get(point.valid_from) || { date: point.valid_from };
+      const price = Number(point.price_per_unit.toFixed(4));
+      row[key] = row[key] === undefined ? price : Math.min(row[key] as number, price);
+      rows.set(point.valid_from, row);
+    });
+
+    return { data: Array.from(rows.values()), config: chartConfig };
+  }, [history]);
+
+  if (ingredients.length === 0) return null;
+
+  const unit = history[0]?.unit;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <CardTitle className="flex items-center gap-2">
+            <LineChartIcon className="h-5 w-5 text-primary" />
+            Offer Price History
+          </CardTitle>
+          <Select value={ingredientId ?? undefined} onValueChange={setIngredientId}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue placeholder="Choose an ingredient" />
+            </SelectTrigger>
+            <SelectContent>
+              {ingredients.map((ing) => (
+                <SelectItem key={ing.ingredient_id} value={ing.ingredient_id}>
+                  {ing.ingredient_name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Offer prices of the last 6 months{unit && ` in € per ${unit}`}
+        </p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : data.length === 0 ? (
+          <p className="text-center py-12 text-sm text-muted-foreground">No offers for this ingredient in the last 6 months.</p>
+        ) : (
+          <ChartContainer config={config} className="aspect-auto h-64 w-full">
+            <LineChart data={data} margin={{ left: 8, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} tickFormatter={formatDate} />
+              <YAxis tickLine={false} axisLine={false} width={56} tickFormatter={(value) => `€${value}`} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatDate(value as string)} />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {Object.keys(config).map((key) => (
+                <Line
+                  key={key}
+                  dataKey={key}
+                  type="stepAfter"
+                  stroke={`var(--color-${key})`}
+                  strokeWidth={2}
+                  dot={{ r: 3 }}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
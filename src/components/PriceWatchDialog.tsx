@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BellPlus, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { api, type DishIngredient } from '@/services/api';
+
+interface PriceWatchDialogProps {
+  userId: string;
+  plz: string;
+  dishId: string;
+  dishName: string;
+  pricePerServing?: number | null;
+  ingredients: DishIngredient[];
+}
+
+const DISH_TARGET = 'dish';
+
+// Current per-unit price as a starting point for an ingredient's threshold
+function suggestedIngredientPrice(ingredient: DishIngredient): number | undefined {
+  if (ingredient.has_offer && ingredient.offer_unit_base === ingredient.unit_default) {
+    return ingredient.offer_price_per_unit;
+  }
+  return ingredient.price_baseline_per_unit;
+}
+
+export function PriceWatchDialog({ userId, plz, dishId, dishName, pricePerServing, ingredients }: PriceWatchDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [target, setTarget] = useState(DISH_TARGET);
+  const [maxPrice, setMaxPrice] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const ingredient = ingredients.find((ing) => ing.ingredient_id === target);
+
+  // Prefill the threshold with today's price of the chosen dish or ingredient
+  const prefillMaxPrice = (nextTarget: string) => {
+    const chosen = ingredients.find((ing) => ing.ingredient_id === nextTarget);
+    const suggested = chosen ? suggestedIngredientPrice(chosen) : pricePerServing;
+    setMaxPrice(suggested ? suggested.toFixed(2) : '');
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      prefillMaxPrice(target);
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleTargetChange = (nextTarget: string) => {
+    setTarget(nextTarget);
+    prefillMaxPrice(nextTarget);
+  };
+
+  const price = Number(maxPrice.replace(',', '.'));
+  const isValid = maxPrice.trim() !== '' && Number.isFinite(price) && price > 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    setIsSubmitting(true);
+    try {
+      await api.addPriceWatch(userId, {
+        ...(ingredient ? { ingredient_id: ingredient.ingredient_id } : { dish_id: dishId }),
+        plz,
+        max_price: Math.round(price * 100) / 100,
+      });
+      toast.success(`Price alert created for ${ingredient ? ingredient.ingredient_name : dishName}`);
+      setOpen(false);
+      setTarget(DISH_TARGET);
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to create price alert');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="shrink-0" title="Create price alert">
+          <BellPlus className="h-6 w-6" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Price Alert</DialogTitle>
+          <DialogDescription>
+            Get notified when offers in {plz} bring the price to or below your limit.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="watch-target">Watch</Label>
+            <Select value={target} onValueChange={handleTargetChange}>
+              <SelectTrigger id="watch-target">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DISH_TARGET}>{dishName} (per serving)</SelectItem>
+                {ingredients.map((ing) => (
+                  <SelectItem key={ing.ingredient_id} value={ing.ingredient_id}>
+                    {ing.ingredient_name}
+                    {ing.unit_default && ` (per ${ing.unit_default})`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="watch-max-price">
+              Max. price in € {ingredient ? `per ${ingredient.unit_default}` : 'per serving'}
+            </Label>
+            <Input
+              id="watch-max-price"
+              inputMode="decimal"
+              value={maxPrice}
+              onChange={(e) => setMaxPrice(e.target.value)}
+              placeholder="e.g. 2.50"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !isValid}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create Alert
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,75 @@
+import { useEffect } from 'react';
+import { CircleMarker, MapContainer, Popup, TileLayer, useMap } from 'react-leaflet';
+import { latLngBounds } from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import type { GeoPoint, NearbyStore } from '@/services/api';
+
+// Raster tile URL template, e.g. of a self-hosted tile server. 'none' renders
+// the markers without a tile layer, which works offline.
+const TILE_URL = import.meta.env.VITE_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+const TILE_ATTRIBUTION =
+  import.meta.env.VITE_MAP_TILE_ATTRIBUTION || '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+interface StoreMapProps {
+  center: GeoPoint;
+  stores: NearbyStore[];
+  chainColors: Map<string, string>;
+  hasOffers: (store: NearbyStore) => boolean;
+  offerCount: (store: NearbyStore) => number;
+}
+
+// Zooms to the PLZ and all stores whenever they change
+function FitBounds({ center, stores }: { center: GeoPoint; stores: NearbyStore[] }) {
+  const map = useMap();
+
+  useEffect(() => {
+    const bounds = latLngBounds([[center.lat, center.lon]]);
+    stores.forEach((store) => bounds.extend([store.lat, store.lon]));
+    map.fitBounds(bounds, { padding: [24, 24], maxZoom: 15 });
+  }, [map, center, stores]);
+
+  return null;
+}
+
+export function StoreMap({ center, stores, chainColors, hasOffers, offerCount }: StoreMapProps) {
+  return (
+    <div className="relative z-0 h-80 w-full overflow-hidden rounded-md border bg-muted">
+      <MapContainer center={[center.lat, center.lon]} zoom={13} scrollWheelZoom={false} className="h-full w-full">
+        {TILE_URL !== 'none' && <TileLayer url={TILE_URL} attribution={TILE_ATTRIBUTION} />}
+        <FitBounds center={center} stores={stores} />
+        <CircleMarker
+          center={[center.lat, center.lon]}
+          radius={6}
+          pathOptions={{ color: '#111827', fillColor: '#111827', fillOpacity: 1 }}
+        >
+          <Popup>Your location</Popup>
+        </CircleMarker>
+        {stores.map((store) => {
+          const color = chainColors.get(store.chain_id) || '#6b7280';
+          const withOffers = hasOffers(store);
+          return (
+            <CircleMarker
+              key={store.store_id}
+              center={[store.lat, store.lon]}
+              radius={withOffers ? 9 : 6}
+              pathOptions={{ color, weight: 2, fillColor: color, fillOpacity: withOffers ? 0.8 : 0.15 }}
+            >
+              <Popup>
+                <div className="space-y-0.5">
+                  <p className="font-semibold">{store.store_name}</p>
+                  <p>
+                    {store.street}
+                    {store.street && (store.plz || store.city) && ', '}
+                    {[store.plz, store.city].filter(Boolean).join(' ')}
+                  </p>
+                  <p>{store.distance_km.toFixed(1)} km away</p>
+                  <p>{withOffers ? `${offerCount(store)} ingredients of this dish on offer` : 'No offers for this dish'}</p>
+                </div>
+              </Popup>
+            </CircleMarker>
+          );
+        })}
+      </MapContainer>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api, type StoreSplitOption, type StoreSplitResult } from '@/services/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Store } from 'lucide-react';
+import { formatQuantity } from '@/utils/shoppingList';
+
+interface StoreSplitCardProps {
+  dishes: { dish_id: string; servings?: number }[];
+  plz: string;
+}
+
+const MAX_CHAIN_OPTIONS = [2, 3, 4];
+
+function OptionDetails({ option }: { option: StoreSplitOption }) {
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      {option.assignments.map((assignment) => (
+        <div key={assignment.chain_id} className="rounded-md border p-3">
+          <div className="flex items-center justify-between mb-2">
+            <span className="font-semibold">{assignment.chain_name}</span>
+            <span className="font-semibold">€{assignment.subtotal.toFixed(2)}</span>
+          </div>
+          <ul className="space-y-1 text-sm">
+            {assignment.items.map((item) => (
+              <li key={`${item.ingredient_id}-${item.unit}`} className="flex justify-between gap-2">
+                <span>
+                  {formatQuantity(item.qty, item.unit)} {item.ingredient_name}
+                  {!item.on_offer && (
+                    <span className="ml-1 text-xs text-muted-foreground">(regular price)</span>
+                  )}
+                </span>
+                <span className="whitespace-nowrap">€{item.cost.toFixed(2)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function StoreSplitCard({ dishes, plz }: StoreSplitCardProps) {
+  const [maxChains, setMaxChains] = useState(2);
+  const [result, setResult] = useState<StoreSplitResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSplit = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await api.getStoreSplit(dishes, plz, maxChains);
+      setResult(data);
+    } catch (err: any) {
+      setError(err?.message || 'Failed to compare stores');
+    } finally {
+      setLoading(false);
+    }
+  }, [dishes, plz, maxChains]);
+
+  useEffect(() => {
+    if (dishes.length === 0 || !plz) {
+      setResult(null);
+      return;
+    }
+    loadSplit();
+  }, [dishes, plz, loadSplit]);
+
+  if (dishes.length === 0) return null;
+
+  const isSplit = !!result?.best_split && result.best_split.chains.length > 1;
+
+  return (
+    <Card className="print:hidden">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center justify-between gap-2 flex-wrap">
+          <span className="flex items-center gap-2">
+            <Store className="h-5 w-5 text-primary" />
+            Where to shop
+          </span>
+          <Select value={String(maxChains)} onValueChange={(value) => setMaxChains(Number(value))}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MAX_CHAIN_OPTIONS.map((count) => (
+                <SelectItem key={count} value={String(count)}>
+                  Up to {count} stores
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : !result?.best_single ? (
+          <p className="text-sm text-muted-foreground">No chains with offers found for PLZ {plz}</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="rounded-md border p-3">
+                <p className="text-sm text-muted-foreground">Everything at {result.best_single.chains[0].chain_name}</p>
+                <p className="text-2xl font-bold">€{result.best_single.total.toFixed(2)}</p>
+              </div>
+              <div className="rounded-md border p-3 border-primary/50 bg-primary/5">
+                <p className="text-sm text-muted-foreground">
+                  {isSplit
+                    ? `Split across ${result.best_split!.chains.map((c) => c.chain_name).join(' + ')}`
+                    : 'Best option'}
+                </p>
+                <p className="text-2xl font-bold">€{result.best_split!.total.toFixed(2)}</p>
+              </div>
+            </div>
+
+            {isSplit ? (
+              <p className="text-sm">
+                A second trip saves{' '}
+                <span className="font-semibold text-green-600 dark:text-green-400">
+                  €{result.savings_vs_single.toFixed(2)}
+                </span>
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Splitting your list would not save anything - one store is enough.
+              </p>
+            )}
+
+            <OptionDetails option={result.best_split!} />
+
+            {result.single_chain_options.length > 1 && (
+              <div>
+                <p className="text-sm font-medium mb-2">One-stop totals</p>
+                <div className="flex flex-wrap gap-2">
+                  {result.single_chain_options.map((option) => (
+                    <Badge key={option.chains[0].chain_id} variant="outline">
+                      {option.chains[0].chain_name}: €{option.total.toFixed(2)}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
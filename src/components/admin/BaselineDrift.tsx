@@ -0,0 +1,263 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { Loader2, RefreshCw, Save } from 'lucide-react';
+import { api, type BaselineDrift as BaselineDriftRow, type BaselineSettings, type BaselineSource } from '@/services/api';
+import { cn } from '@/lib/utils';
+
+interface BaselineDriftProps {
+  userId?: string | null;
+}
+
+// Drift (in percent) from which a computed baseline is highlighted
+const DRIFT_WARNING_PERCENT = 20;
+
+export function BaselineDrift({ userId }: BaselineDriftProps) {
+  const [settings, setSettings] = useState<BaselineSettings | null>(null);
+  const [rows, setRows] = useState<BaselineDriftRow[]>([]);
+  const [filter, setFilter] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [settingsData, driftData] = await Promise.all([api.getBaselineSettings(), api.getBaselineDrift()]);
+      setSettings(settingsData);
+      setRows(driftData);
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to load baselines');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateField = (field: 'window_weeks' | 'percentile' | 'min_offers', value: string) => {
+    if (!settings) return;
+    const number = value === '' ? 0 : Number(value);
+    setSettings({ ...settings, [field]: field === 'percentile' ? number / 100 : number });
+  };
+
+  const isValid =
+    !!settings &&
+    Number.isInteger(settings.window_weeks) &&
+    Number.isInteger(settings.min_offers) &&
+    settings.window_weeks > 0 &&
+    settings.min_offers > 0 &&
+    settings.percentile > 0 &&
+    settings.percentile <= 1;
+
+  const handleSave = async () => {
+    if (!settings || !isValid) return;
+    setSaving(true);
+    try {
+      await api.updateBaselineSettings(settings, userId);
+      toast.success('Baseline settings saved and baselines recomputed');
+      await loadData();
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to save baseline settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      const count = await api.refreshBaselines();
+      toast.success(`Recomputed ${count} baselines`);
+      await loadData();
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to recompute baselines');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const query = filter.trim().toLowerCase();
+  const visibleRows = query
+    ? rows.filter(
+        (row) => row.name_canonical.toLowerCase().includes(query) || row.ingredient_id.toLowerCase().includes(query)
+      )
+    : rows;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Baseline Prices</CardTitle>
+          <CardDescription>
+            Savings are measured against a baseline price per ingredient. Use the manual baselines from the
+            ingredients CSV, or baselines computed per region from the offer history; ingredients without enough
+            offers keep their manual baseline.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : !settings ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Baseline settings not found. Run the latest database migrations.
+            </div>
+          ) : (
+            <div className="space-y-6 max-w-md">
+              <div className="space-y-2">
+                <Label htmlFor="baseline-source">Baseline used for pricing</Label>
+                <Select
+                  value={settings.baseline_source}
+                  onValueChange={(value) => setSettings({ ...settings, baseline_source: value as BaselineSource })}
+                >
+                  <SelectTrigger id="baseline-source">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="manual">Manual (ingredients CSV)</SelectItem>
+                    <SelectItem value="computed">Computed from offer history</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="baseline-window">Offer history (weeks)</Label>
+                <Input
+                  id="baseline-window"
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={settings.window_weeks}
+                  onChange={(e) => updateField('window_weeks', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="baseline-percentile">Percentile of per-unit offer prices</Label>
+                <Input
+                  id="baseline-percentile"
+                  type="number"
+                  min={1}
+                  max={100}
+                  step={5}
+                  value={Math.round(settings.percentile * 100)}
+                  onChange={(e) => updateField('percentile', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="baseline-min-offers">Minimum offers per ingredient and region</Label>
+                <Input
+                  id="baseline-min-offers"
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={settings.min_offers}
+                  onChange={(e) => updateField('min_offers', e.target.value)}
+                />
+              </div>
+              {!isValid && (
+                <p className="text-sm text-destructive">
+                  Use whole numbers of 1 or more for weeks and offers and 1-100 for the percentile.
+                </p>
+              )}
+              <div className="flex items-center gap-2 flex-wrap">
+                <Button onClick={handleSave} disabled={saving || !isValid}>
+                  {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                  Save Settings
+                </Button>
+                <Button variant="outline" onClick={handleRefresh} disabled={refreshing}>
+                  {refreshing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+                  Recompute Now
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Baseline Drift</CardTitle>
+          <CardDescription>
+            Computed vs. manual baseline per ingredient and region, largest difference first
+            {rows.length > 0 && ` (${rows.length} computed baselines)`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter by ingredient..."
+            className="max-w-sm"
+          />
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : visibleRows.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              {rows.length === 0 ? 'No computed baselines yet. Import offers or recompute.' : 'No ingredient matches the filter'}
+            </div>
+          ) : (
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Ingredient</TableHead>
+                    <TableHead>Region</TableHead>
+                    <TableHead className="text-right">Manual</TableHead>
+                    <TableHead className="text-right">Computed</TableHead>
+                    <TableHead className="text-right">Drift</TableHead>
+                    <TableHead className="text-right">Offers</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.map((row) => {
+                    const isLarge = row.drift_percent !== null && Math.abs(row.drift_percent) >= DRIFT_WARNING_PERCENT;
+                    return (
+                      <TableRow key={`${row.ingredient_id}-${row.region_id}`}>
+                        <TableCell>
+                          <div className="font-medium">{row.name_canonical}</div>
+                          <div className="text-xs text-muted-foreground font-mono">{row.ingredient_id}</div>
+                        </TableCell>
+                        <TableCell className="font-mono text-sm">{row.region_id}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {row.manual_baseline !== null ? `€${row.manual_baseline.toFixed(2)}/${row.unit_default}` : '–'}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          €{row.computed_baseline.toFixed(2)}/{row.unit_default}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {row.drift_percent !== null ? (
+                            <Badge
+                              variant="outline"
+                              className={cn(isLarge && 'border-orange-300 text-orange-700 dark:border-orange-800 dark:text-orange-400')}
+                            >
+                              {row.drift_percent > 0 ? '+' : ''}
+                              {row.drift_percent.toFixed(1)}%
+                            </Badge>
+                          ) : (
+                            <span className="text-muted-foreground">–</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{row.offers_count}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -17,6 +17,7 @@ const CSV_TYPES = {
   stores: 'Stores',
   store_region_map: 'Store-Region Mapping',
   ingredients: 'Ingredients',
+  ingredient_unit_conversions: 'Ingredient Unit Conversions',
   dishes: 'Dishes',
   dish_ingredients: 'Dish-Ingredients',
   offers: 'Offers',
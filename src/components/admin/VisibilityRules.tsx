@@ -0,0 +1,133 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { Loader2, Save } from 'lucide-react';
+import { api, type DishVisibilityRules } from '@/services/api';
+
+interface VisibilityRulesProps {
+  userId?: string | null;
+}
+
+export function VisibilityRules({ userId }: VisibilityRulesProps) {
+  const [rules, setRules] = useState<DishVisibilityRules | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const loadRules = async () => {
+    setLoading(true);
+    const data = await api.getVisibilityRules();
+    setRules(data);
+    setLoading(false);
+  };
+
+  const updateField = (field: keyof Omit<DishVisibilityRules, 'updated_at'>, value: string) => {
+    if (!rules) return;
+    setRules({ ...rules, [field]: value === '' ? 0 : Number(value) });
+  };
+
+  const isValid =
+    !!rules &&
+    Number.isInteger(rules.min_main_offers) &&
+    Number.isInteger(rules.min_side_offers) &&
+    rules.min_main_offers >= 0 &&
+    rules.min_side_offers >= 0 &&
+    rules.min_savings_percent >= 0 &&
+    rules.min_savings_percent <= 100;
+
+  const handleSave = async () => {
+    if (!rules || !isValid) return;
+    setSaving(true);
+    try {
+      await api.updateVisibilityRules(rules, userId);
+      toast.success('Visibility rules saved. Dish lists use them right away.');
+      await loadRules();
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to save visibility rules');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Dish Visibility</CardTitle>
+        <CardDescription>
+          A dish is listed when enough of its main <em>or</em> side ingredients are on offer in the user's
+          region, and it saves at least the minimum percent against baseline prices.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : !rules ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Visibility rules not found. Run the latest database migrations.
+          </div>
+        ) : (
+          <div className="space-y-6 max-w-md">
+            <div className="space-y-2">
+              <Label htmlFor="min-main-offers">Main ingredients on offer (at least)</Label>
+              <Input
+                id="min-main-offers"
+                type="number"
+                min={0}
+                step={1}
+                value={rules.min_main_offers}
+                onChange={(e) => updateField('min_main_offers', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="min-side-offers">or side ingredients on offer (at least)</Label>
+              <Input
+                id="min-side-offers"
+                type="number"
+                min={0}
+                step={1}
+                value={rules.min_side_offers}
+                onChange={(e) => updateField('min_side_offers', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="min-savings-percent">Minimum savings (%)</Label>
+              <Input
+                id="min-savings-percent"
+                type="number"
+                min={0}
+                max={100}
+                step={0.5}
+                value={rules.min_savings_percent}
+                onChange={(e) => updateField('min_savings_percent', e.target.value)}
+              />
+            </div>
+            {!isValid && (
+              <p className="text-sm text-destructive">
+                Use whole numbers of 0 or more for ingredient counts and 0-100 for the savings percent.
+              </p>
+            )}
+            <div className="flex items-center gap-4">
+              <Button onClick={handleSave} disabled={saving || !isValid}>
+                {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Save Rules
+              </Button>
+              {rules.updated_at && (
+                <span className="text-xs text-muted-foreground">
+                  Last changed {new Date(rules.updated_at).toLocaleString('de-DE')}
+                </span>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
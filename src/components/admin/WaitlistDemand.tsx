@@ -0,0 +1,101 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { api, type WaitlistDemand as WaitlistDemandRow } from '@/services/api';
+
+export function WaitlistDemand() {
+  const [rows, setRows] = useState<WaitlistDemandRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      setRows(await api.getWaitlistDemand());
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to load the waitlist');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const totalPending = rows.reduce((sum, row) => sum + row.pending, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Coverage Waitlist</CardTitle>
+            <CardDescription>
+              Postal codes without offers that visitors asked for, most requested first
+              {rows.length > 0 && ` (${totalPending} people waiting in ${rows.length} PLZs)`}. Everyone waiting is
+              emailed automatically once an import covers their PLZ.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadData} disabled={loading}>
+            {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">Nobody is on the waitlist yet</div>
+        ) : (
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">#</TableHead>
+                  <TableHead>PLZ</TableHead>
+                  <TableHead className="text-right">Waiting</TableHead>
+                  <TableHead className="text-right">Signups</TableHead>
+                  <TableHead>First signup</TableHead>
+                  <TableHead>Latest signup</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row, index) => (
+                  <TableRow key={row.plz}>
+                    <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                    <TableCell>
+                      <div className="font-mono font-medium">{row.plz}</div>
+                      {row.city && <div className="text-xs text-muted-foreground">{row.city}</div>}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{row.pending}</TableCell>
+                    <TableCell className="text-right">{row.signups}</TableCell>
+                    <TableCell className="whitespace-nowrap">{format(new Date(row.first_signup_at), 'dd.MM.yyyy')}</TableCell>
+                    <TableCell className="whitespace-nowrap">{format(new Date(row.last_signup_at), 'dd.MM.yyyy')}</TableCell>
+                    <TableCell>
+                      {row.is_covered ? (
+                        <Badge variant="secondary">Covered</Badge>
+                      ) : row.city ? (
+                        <Badge variant="outline">No current offers</Badge>
+                      ) : (
+                        <Badge variant="outline">Unknown PLZ</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -16,135 +16,195 @@ export type Database = {
     Tables: {
       ad_regions: {
         Row: {
+          chain_id: string
           created_at: string | null
-          description: string | null
-          id: string
-          name: string
+          label: string
           region_id: string
+          updated_at: string | null
         }
         Insert: {
+          chain_id: string
           created_at?: string | null
-          description?: string | null
-          id?: string
-          name: string
+          label: string
           region_id: string
+          updated_at?: string | null
         }
         Update: {
+          chain_id?: string
           created_at?: string | null
-          description?: string | null
-          id?: string
-          name?: string
+          label?: string
           region_id?: string
+          updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "ad_regions_chain_id_fkey"
+            columns: ["chain_id"]
+            isOneToOne: false
+            referencedRelation: "chains"
+            referencedColumns: ["chain_id"]
+          },
+        ]
       }
-      analytics: {
+      baseline_settings: {
         Row: {
-          created_at: string | null
-          event_data: Json | null
-          event_type: string
-          id: string
-          user_id: string | null
+          baseline_source: string
+          id: boolean
+          min_offers: number
+          percentile: number
+          updated_at: string
+          updated_by: string | null
+          window_weeks: number
         }
         Insert: {
-          created_at?: string | null
-          event_data?: Json | null
-          event_type: string
-          id?: string
-          user_id?: string | null
+          baseline_source?: string
+          id?: boolean
+          min_offers?: number
+          percentile?: number
+          updated_at?: string
+          updated_by?: string | null
+          window_weeks?: number
         }
         Update: {
-          created_at?: string | null
-          event_data?: Json | null
-          event_type?: string
-          id?: string
-          user_id?: string | null
+          baseline_source?: string
+          id?: boolean
+          min_offers?: number
+          percentile?: number
+          updated_at?: string
+          updated_by?: string | null
+          window_weeks?: number
         }
         Relationships: [
           {
-            foreignKeyName: "analytics_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "baseline_settings_updated_by_fkey"
+            columns: ["updated_by"]
             isOneToOne: false
-            referencedRelation: "user_profiles"
+            referencedRelation: "users"
             referencedColumns: ["id"]
           },
         ]
       }
-      categories: {
+      chains: {
         Row: {
+          chain_id: string
+          chain_name: string
           created_at: string | null
-          description: string | null
-          id: string
-          name: string
+          updated_at: string | null
         }
         Insert: {
+          chain_id: string
+          chain_name: string
           created_at?: string | null
-          description?: string | null
-          id?: string
-          name: string
+          updated_at?: string | null
         }
         Update: {
+          chain_id?: string
+          chain_name?: string
           created_at?: string | null
-          description?: string | null
-          id?: string
-          name?: string
+          updated_at?: string | null
         }
         Relationships: []
       }
-      chains: {
+      current_best_offers: {
         Row: {
+          active_offers_count: number
           chain_id: string
-          created_at: string | null
-          id: string
-          logo_url: string | null
-          name: string
+          ingredient_id: string
+          offer_id: number
+          pack_size: number
+          price_per_unit: number
+          price_total: number
+          refreshed_at: string
+          region_id: string
+          source: string | null
+          source_ref_id: string | null
+          unit_base: string
+          valid_from: string
+          valid_to: string
         }
         Insert: {
+          active_offers_count?: number
           chain_id: string
-          created_at?: string | null
-          id?: string
-          logo_url?: string | null
-          name: string
+          ingredient_id: string
+          offer_id: number
+          pack_size: number
+          price_per_unit: number
+          price_total: number
+          refreshed_at?: string
+          region_id: string
+          source?: string | null
+          source_ref_id?: string | null
+          unit_base: string
+          valid_from: string
+          valid_to: string
         }
         Update: {
+          active_offers_count?: number
           chain_id?: string
-          created_at?: string | null
-          id?: string
-          logo_url?: string | null
-          name?: string
+          ingredient_id?: string
+          offer_id?: number
+          pack_size?: number
+          price_per_unit?: number
+          price_total?: number
+          refreshed_at?: string
+          region_id?: string
+          source?: string | null
+          source_ref_id?: string | null
+          unit_base?: string
+          valid_from?: string
+          valid_to?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "current_best_offers_chain_id_fkey"
+            columns: ["chain_id"]
+            isOneToOne: false
+            referencedRelation: "chains"
+            referencedColumns: ["chain_id"]
+          },
+          {
+            foreignKeyName: "current_best_offers_ingredient_id_fkey"
+            columns: ["ingredient_id"]
+            isOneToOne: false
+            referencedRelation: "ingredients"
+            referencedColumns: ["ingredient_id"]
+          },
+          {
+            foreignKeyName: "current_best_offers_offer_id_fkey"
+            columns: ["offer_id"]
+            isOneToOne: false
+            referencedRelation: "offers"
+            referencedColumns: ["offer_id"]
+          },
+        ]
       }
       dish_ingredients: {
         Row: {
           created_at: string | null
           dish_id: string
-          id: string
           ingredient_id: string
           optional: boolean | null
-          quantity: number
-          role: string | null
-          unit: string
+          qty: number | null
+          role: Database["public"]["Enums"]["ingredient_role"]
+          unit: string | null
         }
         Insert: {
           created_at?: string | null
           dish_id: string
-          id?: string
           ingredient_id: string
           optional?: boolean | null
-          quantity: number
-          role?: string | null
-          unit: string
+          qty?: number | null
+          role?: Database["public"]["Enums"]["ingredient_role"]
+          unit?: string | null
         }
         Update: {
           created_at?: string | null
           dish_id?: string
-          id?: string
           ingredient_id?: string
           optional?: boolean | null
-          quantity?: number
-          role?: string | null
-          unit?: string
+          qty?: number | null
+          role?: Database["public"]["Enums"]["ingredient_role"]
+          unit?: string | null
         }
         Relationships: [
           {
@@ -152,63 +212,143 @@ export type Database = {
             columns: ["dish_id"]
             isOneToOne: false
             referencedRelation: "dishes"
-            referencedColumns: ["id"]
+            referencedColumns: ["dish_id"]
           },
           {
             foreignKeyName: "dish_ingredients_ingredient_id_fkey"
             columns: ["ingredient_id"]
             isOneToOne: false
             referencedRelation: "ingredients"
+            referencedColumns: ["ingredient_id"]
+          },
+          {
+            foreignKeyName: "dish_ingredients_unit_fkey"
+            columns: ["unit"]
+            isOneToOne: false
+            referencedRelation: "lookups_units"
+            referencedColumns: ["unit"]
+          },
+        ]
+      }
+      dish_visibility_rules: {
+        Row: {
+          id: boolean
+          min_main_offers: number
+          min_savings_percent: number
+          min_side_offers: number
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          id?: boolean
+          min_main_offers?: number
+          min_savings_percent?: number
+          min_side_offers?: number
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          id?: boolean
+          min_main_offers?: number
+          min_savings_percent?: number
+          min_side_offers?: number
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dish_visibility_rules_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
             referencedColumns: ["id"]
           },
         ]
       }
       dishes: {
         Row: {
-          category_id: string | null
-          cook_time: number | null
+          category: string
           created_at: string | null
-          description: string | null
+          cuisine: string | null
           dish_id: string
-          id: string
-          image_url: string | null
+          is_meal_prep: boolean | null
+          is_quick: boolean | null
           name: string
-          prep_time: number | null
-          servings: number | null
+          notes: string | null
+          search_text: string | null
+          search_vector: unknown | null
+          season: string | null
+          servings: number
           updated_at: string | null
         }
         Insert: {
-          category_id?: string | null
-          cook_time?: number | null
+          category: string
           created_at?: string | null
-          description?: string | null
+          cuisine?: string | null
           dish_id: string
-          id?: string
-          image_url?: string | null
+          is_meal_prep?: boolean | null
+          is_quick?: boolean | null
           name: string
-          prep_time?: number | null
-          servings?: number | null
+          notes?: string | null
+          search_text?: string | null
+          search_vector?: unknown | null
+          season?: string | null
+          servings?: number
           updated_at?: string | null
         }
         Update: {
-          category_id?: string | null
-          cook_time?: number | null
+          category?: string
           created_at?: string | null
-          description?: string | null
+          cuisine?: string | null
           dish_id?: string
-          id?: string
-          image_url?: string | null
+          is_meal_prep?: boolean | null
+          is_quick?: boolean | null
           name?: string
-          prep_time?: number | null
-          servings?: number | null
+          notes?: string | null
+          search_text?: string | null
+          search_vector?: unknown | null
+          season?: string | null
+          servings?: number
           updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "dishes_category_id_fkey"
-            columns: ["category_id"]
+            foreignKeyName: "dishes_category_fkey"
+            columns: ["category"]
+            isOneToOne: false
+            referencedRelation: "lookups_categories"
+            referencedColumns: ["category"]
+          },
+        ]
+      }
+      events: {
+        Row: {
+          created_at: string | null
+          event_data: Json | null
+          event_id: string
+          event_type: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          event_data?: Json | null
+          event_id?: string
+          event_type: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          event_data?: Json | null
+          event_id?: string
+          event_type?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "events_user_id_fkey"
+            columns: ["user_id"]
             isOneToOne: false
-            referencedRelation: "categories"
+            referencedRelation: "user_profiles"
             referencedColumns: ["id"]
           },
         ]
@@ -217,19 +357,22 @@ export type Database = {
         Row: {
           created_at: string | null
           dish_id: string
-          id: string
+          location_id: string | null
+          plz: string | null
           user_id: string
         }
         Insert: {
           created_at?: string | null
           dish_id: string
-          id?: string
+          location_id?: string | null
+          plz?: string | null
           user_id: string
         }
         Update: {
           created_at?: string | null
           dish_id?: string
-          id?: string
+          location_id?: string | null
+          plz?: string | null
           user_id?: string
         }
         Relationships: [
@@ -238,7 +381,14 @@ export type Database = {
             columns: ["dish_id"]
             isOneToOne: false
             referencedRelation: "dishes"
-            referencedColumns: ["id"]
+            referencedColumns: ["dish_id"]
+          },
+          {
+            foreignKeyName: "favorites_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "user_locations"
+            referencedColumns: ["location_id"]
           },
           {
             foreignKeyName: "favorites_user_id_fkey"
@@ -249,332 +399,658 @@ export type Database = {
           },
         ]
       }
-      ingredients: {
+      ingredient_region_baselines: {
         Row: {
-          base_price: number | null
-          created_at: string | null
-          id: string
+          computed_at: string
           ingredient_id: string
-          name_canonical: string
-          unit_default: string | null
-          updated_at: string | null
+          offers_count: number
+          price_per_unit: number
+          region_id: string
         }
         Insert: {
-          base_price?: number | null
-          created_at?: string | null
-          id?: string
+          computed_at?: string
           ingredient_id: string
-          name_canonical: string
-          unit_default?: string | null
-          updated_at?: string | null
+          offers_count: number
+          price_per_unit: number
+          region_id: string
         }
         Update: {
-          base_price?: number | null
-          created_at?: string | null
-          id?: string
+          computed_at?: string
           ingredient_id?: string
-          name_canonical?: string
-          unit_default?: string | null
-          updated_at?: string | null
+          offers_count?: number
+          price_per_unit?: number
+          region_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "ingredient_region_baselines_ingredient_id_fkey"
+            columns: ["ingredient_id"]
+            isOneToOne: false
+            referencedRelation: "ingredients"
+            referencedColumns: ["ingredient_id"]
+          },
+        ]
       }
-      offers: {
+      ingredient_unit_conversions: {
         Row: {
-          brand: string | null
-          chain_id: string
           created_at: string | null
-          discount_percent: number | null
-          id: string
-          image_url: string | null
-          import_hash: string | null
-          offer_id: string
-          price: number
-          product_name: string
-          quantity: number | null
-          region_id: string
-          unit: string | null
+          factor: number
+          ingredient_id: string
+          target_unit: string
+          unit: string
           updated_at: string | null
-          valid_from: string
-          valid_until: string
         }
         Insert: {
-          brand?: string | null
-          chain_id: string
           created_at?: string | null
-          discount_percent?: number | null
-          id?: string
-          image_url?: string | null
-          import_hash?: string | null
-          offer_id: string
-          price: number
-          product_name: string
-          quantity?: number | null
-          region_id: string
-          unit?: string | null
+          factor: number
+          ingredient_id: string
+          target_unit: string
+          unit: string
           updated_at?: string | null
-          valid_from: string
-          valid_until: string
         }
         Update: {
-          brand?: string | null
-          chain_id?: string
           created_at?: string | null
-          discount_percent?: number | null
-          id?: string
-          image_url?: string | null
-          import_hash?: string | null
-          offer_id?: string
-          price?: number
-          product_name?: string
-          quantity?: number | null
-          region_id?: string
-          unit?: string | null
+          factor?: number
+          ingredient_id?: string
+          target_unit?: string
+          unit?: string
           updated_at?: string | null
-          valid_from?: string
-          valid_until?: string
         }
         Relationships: [
           {
-            foreignKeyName: "offers_chain_id_fkey"
-            columns: ["chain_id"]
+            foreignKeyName: "ingredient_unit_conversions_ingredient_id_fkey"
+            columns: ["ingredient_id"]
             isOneToOne: false
-            referencedRelation: "chains"
-            referencedColumns: ["id"]
+            referencedRelation: "ingredients"
+            referencedColumns: ["ingredient_id"]
           },
           {
-            foreignKeyName: "offers_region_id_fkey"
-            columns: ["region_id"]
+            foreignKeyName: "ingredient_unit_conversions_target_unit_fkey"
+            columns: ["target_unit"]
             isOneToOne: false
-            referencedRelation: "ad_regions"
-            referencedColumns: ["id"]
+            referencedRelation: "lookups_units"
+            referencedColumns: ["unit"]
+          },
+          {
+            foreignKeyName: "ingredient_unit_conversions_unit_fkey"
+            columns: ["unit"]
+            isOneToOne: false
+            referencedRelation: "lookups_units"
+            referencedColumns: ["unit"]
           },
         ]
       }
-      postal_codes: {
+      ingredients: {
         Row: {
-          city: string
-          created_at: string | null
-          id: string
-          plz: string
-          region_id: string | null
+          allergen_tags: string[] | null
+          density_g_per_ml: number | null
+          diet_class: string | null
+          ingredient_id: string
+          name_canonical: string
+          notes: string | null
+          piece_weight_g: number | null
+          price_baseline_per_unit: number | null
+          unit_default: string
         }
         Insert: {
-          city: string
-          created_at?: string | null
-          id?: string
-          plz: string
-          region_id?: string | null
+          allergen_tags?: string[] | null
+          density_g_per_ml?: number | null
+          diet_class?: string | null
+          ingredient_id: string
+          name_canonical: string
+          notes?: string | null
+          piece_weight_g?: number | null
+          price_baseline_per_unit?: number | null
+          unit_default: string
         }
         Update: {
-          city?: string
-          created_at?: string | null
-          id?: string
-          plz?: string
-          region_id?: string | null
+          allergen_tags?: string[] | null
+          density_g_per_ml?: number | null
+          diet_class?: string | null
+          ingredient_id?: string
+          name_canonical?: string
+          notes?: string | null
+          piece_weight_g?: number | null
+          price_baseline_per_unit?: number | null
+          unit_default?: string
         }
         Relationships: [
           {
-            foreignKeyName: "postal_codes_region_id_fkey"
-            columns: ["region_id"]
+            foreignKeyName: "ingredients_unit_default_fkey"
+            columns: ["unit_default"]
             isOneToOne: false
-            referencedRelation: "ad_regions"
-            referencedColumns: ["id"]
+            referencedRelation: "lookups_units"
+            referencedColumns: ["unit"]
           },
         ]
       }
-      product_map: {
+      lookups_allergens: {
         Row: {
-          created_at: string | null
-          id: string
-          ingredient_id: string
-          match_score: number | null
-          offer_id: string
+          aliases: string[]
+          allergen_tag: string
+          label: string
+          sort_order: number
         }
         Insert: {
-          created_at?: string | null
-          id?: string
-          ingredient_id: string
-          match_score?: number | null
-          offer_id: string
+          aliases?: string[]
+          allergen_tag: string
+          label: string
+          sort_order?: number
         }
         Update: {
-          created_at?: string | null
-          id?: string
-          ingredient_id?: string
-          match_score?: number | null
-          offer_id?: string
+          aliases?: string[]
+          allergen_tag?: string
+          label?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      lookups_categories: {
+        Row: {
+          category: string
+        }
+        Insert: {
+          category: string
+        }
+        Update: {
+          category?: string
+        }
+        Relationships: []
+      }
+      lookups_units: {
+        Row: {
+          base_factor: number | null
+          description: string | null
+          dimension: string | null
+          unit: string
+        }
+        Insert: {
+          base_factor?: number | null
+          description?: string | null
+          dimension?: string | null
+          unit: string
+        }
+        Update: {
+          base_factor?: number | null
+          description?: string | null
+          dimension?: string | null
+          unit?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          emailed_at: string | null
+          kind: string
+          link: string | null
+          notification_id: string
+          price: number | null
+          read_at: string | null
+          title: string
+          user_id: string
+          watch_id: string | null
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          emailed_at?: string | null
+          kind?: string
+          link?: string | null
+          notification_id?: string
+          price?: number | null
+          read_at?: string | null
+          title: string
+          user_id: string
+          watch_id?: string | null
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          emailed_at?: string | null
+          kind?: string
+          link?: string | null
+          notification_id?: string
+          price?: number | null
+          read_at?: string | null
+          title?: string
+          user_id?: string
+          watch_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "product_map_ingredient_id_fkey"
-            columns: ["ingredient_id"]
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
             isOneToOne: false
-            referencedRelation: "ingredients"
+            referencedRelation: "user_profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "product_map_offer_id_fkey"
-            columns: ["offer_id"]
+            foreignKeyName: "notifications_watch_id_fkey"
+            columns: ["watch_id"]
             isOneToOne: false
-            referencedRelation: "offers"
-            referencedColumns: ["id"]
+            referencedRelation: "price_watches"
+            referencedColumns: ["watch_id"]
           },
         ]
       }
-      store_region_map: {
+      offers: {
         Row: {
+          chain_id: string
           created_at: string | null
-          id: string
+          ingredient_id: string
+          offer_hash: string | null
+          offer_id: number
+          pack_size: number
+          price_total: number
           region_id: string
-          store_id: string
+          source: string | null
+          source_ref_id: string | null
+          unit_base: string
+          updated_at: string | null
+          valid_from: string
+          valid_to: string
         }
         Insert: {
+          chain_id: string
           created_at?: string | null
-          id?: string
+          ingredient_id: string
+          offer_hash?: string | null
+          offer_id?: number
+          pack_size?: number
+          price_total: number
           region_id: string
-          store_id: string
+          source?: string | null
+          source_ref_id?: string | null
+          unit_base: string
+          updated_at?: string | null
+          valid_from: string
+          valid_to: string
         }
         Update: {
+          chain_id?: string
           created_at?: string | null
-          id?: string
+          ingredient_id?: string
+          offer_hash?: string | null
+          offer_id?: number
+          pack_size?: number
+          price_total?: number
           region_id?: string
-          store_id?: string
+          source?: string | null
+          source_ref_id?: string | null
+          unit_base?: string
+          updated_at?: string | null
+          valid_from?: string
+          valid_to?: string
         }
         Relationships: [
           {
-            foreignKeyName: "store_region_map_region_id_fkey"
-            columns: ["region_id"]
+            foreignKeyName: "offers_chain_id_fkey"
+            columns: ["chain_id"]
+            isOneToOne: false
+            referencedRelation: "chains"
+            referencedColumns: ["chain_id"]
+          },
+          {
+            foreignKeyName: "offers_ingredient_id_fkey"
+            columns: ["ingredient_id"]
+            isOneToOne: false
+            referencedRelation: "ingredients"
+            referencedColumns: ["ingredient_id"]
+          },
+          {
+            foreignKeyName: "offers_region_id_chain_id_fkey"
+            columns: ["region_id", "chain_id"]
             isOneToOne: false
             referencedRelation: "ad_regions"
-            referencedColumns: ["id"]
+            referencedColumns: ["region_id", "chain_id"]
           },
           {
-            foreignKeyName: "store_region_map_store_id_fkey"
-            columns: ["store_id"]
+            foreignKeyName: "offers_unit_base_fkey"
+            columns: ["unit_base"]
             isOneToOne: false
-            referencedRelation: "stores"
-            referencedColumns: ["id"]
+            referencedRelation: "lookups_units"
+            referencedColumns: ["unit"]
           },
         ]
       }
-      stores: {
+      plan_item_prices: {
         Row: {
-          address: string | null
-          chain_id: string
-          city: string | null
+          baseline_price_per_unit: number | null
+          baseline_total: number | null
           created_at: string | null
-          id: string
-          latitude: number | null
-          longitude: number | null
-          name: string
-          plz: string | null
-          store_id: string
+          ingredient_id: string
+          offer_price_per_unit: number | null
+          offer_ref_id: string | null
+          offer_source: string | null
+          offer_total: number | null
+          plan_item_id: string
+          plan_item_price_id: string
+          qty: number
+          savings_abs: number | null
+          savings_pct: number | null
+          unit: string
         }
         Insert: {
-          address?: string | null
-          chain_id: string
-          city?: string | null
+          baseline_price_per_unit?: number | null
+          baseline_total?: number | null
           created_at?: string | null
-          id?: string
-          latitude?: number | null
-          longitude?: number | null
-          name: string
-          plz?: string | null
-          store_id: string
+          ingredient_id: string
+          offer_price_per_unit?: number | null
+          offer_ref_id?: string | null
+          offer_source?: string | null
+          offer_total?: number | null
+          plan_item_id: string
+          plan_item_price_id?: string
+          qty: number
+          savings_abs?: number | null
+          savings_pct?: number | null
+          unit: string
         }
         Update: {
-          address?: string | null
-          chain_id?: string
-          city?: string | null
+          baseline_price_per_unit?: number | null
+          baseline_total?: number | null
           created_at?: string | null
-          id?: string
-          latitude?: number | null
-          longitude?: number | null
-          name?: string
-          plz?: string | null
-          store_id?: string
+          ingredient_id?: string
+          offer_price_per_unit?: number | null
+          offer_ref_id?: string | null
+          offer_source?: string | null
+          offer_total?: number | null
+          plan_item_id?: string
+          plan_item_price_id?: string
+          qty?: number
+          savings_abs?: number | null
+          savings_pct?: number | null
+          unit?: string
         }
         Relationships: [
           {
-            foreignKeyName: "stores_chain_id_fkey"
-            columns: ["chain_id"]
+            foreignKeyName: "plan_item_prices_ingredient_id_fkey"
+            columns: ["ingredient_id"]
             isOneToOne: false
-            referencedRelation: "chains"
-            referencedColumns: ["id"]
+            referencedRelation: "ingredients"
+            referencedColumns: ["ingredient_id"]
+          },
+          {
+            foreignKeyName: "plan_item_prices_plan_item_id_fkey"
+            columns: ["plan_item_id"]
+            isOneToOne: false
+            referencedRelation: "plan_items"
+            referencedColumns: ["plan_item_id"]
+          },
+          {
+            foreignKeyName: "plan_item_prices_unit_fkey"
+            columns: ["unit"]
+            isOneToOne: false
+            referencedRelation: "lookups_units"
+            referencedColumns: ["unit"]
           },
         ]
       }
-      units: {
+      plan_items: {
         Row: {
-          abbreviation: string | null
           created_at: string | null
-          id: string
-          name: string
+          day_of_week: number | null
+          dish_id: string
+          plan_id: string
+          plan_item_id: string
+          servings: number | null
         }
         Insert: {
-          abbreviation?: string | null
           created_at?: string | null
-          id?: string
-          name: string
+          day_of_week?: number | null
+          dish_id: string
+          plan_id: string
+          plan_item_id?: string
+          servings?: number | null
         }
         Update: {
-          abbreviation?: string | null
           created_at?: string | null
-          id?: string
-          name?: string
+          day_of_week?: number | null
+          dish_id?: string
+          plan_id?: string
+          plan_item_id?: string
+          servings?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "plan_items_dish_id_fkey"
+            columns: ["dish_id"]
+            isOneToOne: false
+            referencedRelation: "dishes"
+            referencedColumns: ["dish_id"]
+          },
+          {
+            foreignKeyName: "plan_items_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "plans"
+            referencedColumns: ["plan_id"]
+          },
+        ]
       }
-      user_profiles: {
+      plan_totals: {
+        Row: {
+          plan_id: string
+          total_baseline: number | null
+          total_offer: number | null
+          total_savings_abs: number | null
+          total_savings_pct: number | null
+          updated_at: string | null
+        }
+        Insert: {
+          plan_id: string
+          total_baseline?: number | null
+          total_offer?: number | null
+          total_savings_abs?: number | null
+          total_savings_pct?: number | null
+          updated_at?: string | null
+        }
+        Update: {
+          plan_id?: string
+          total_baseline?: number | null
+          total_offer?: number | null
+          total_savings_abs?: number | null
+          total_savings_pct?: number | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "plan_totals_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: true
+            referencedRelation: "plans"
+            referencedColumns: ["plan_id"]
+          },
+        ]
+      }
+      plans: {
         Row: {
           created_at: string | null
-          email: string | null
-          id: string
-          last_seen: string | null
+          location_id: string | null
+          locked_at: string | null
+          plan_id: string
           plz: string | null
-          username: string | null
+          status: string
+          updated_at: string | null
+          user_id: string
+          week_iso: string | null
+          week_start_date: string
         }
         Insert: {
           created_at?: string | null
-          email?: string | null
-          id?: string
-          last_seen?: string | null
+          location_id?: string | null
+          locked_at?: string | null
+          plan_id?: string
           plz?: string | null
-          username?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id: string
+          week_iso?: string | null
+          week_start_date: string
         }
         Update: {
           created_at?: string | null
-          email?: string | null
-          id?: string
-          last_seen?: string | null
+          location_id?: string | null
+          locked_at?: string | null
+          plan_id?: string
           plz?: string | null
-          username?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id?: string
+          week_iso?: string | null
+          week_start_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "plans_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "user_locations"
+            referencedColumns: ["location_id"]
+          },
+          {
+            foreignKeyName: "plans_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      plz_waitlist: {
+        Row: {
+          confirm_token: string
+          confirmed_at: string | null
+          created_at: string
+          email: string
+          notified_at: string | null
+          plz: string
+          user_id: string | null
+          waitlist_id: string
+        }
+        Insert: {
+          confirm_token?: string
+          confirmed_at?: string | null
+          created_at?: string
+          email: string
+          notified_at?: string | null
+          plz: string
+          user_id?: string | null
+          waitlist_id?: string
+        }
+        Update: {
+          confirm_token?: string
+          confirmed_at?: string | null
+          created_at?: string
+          email?: string
+          notified_at?: string | null
+          plz?: string
+          user_id?: string | null
+          waitlist_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "plz_waitlist_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      postal_codes: {
+        Row: {
+          city: string | null
+          created_at: string | null
+          lat: number | null
+          lon: number | null
+          plz: string
+          region_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          city?: string | null
+          created_at?: string | null
+          lat?: number | null
+          lon?: number | null
+          plz: string
+          region_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          city?: string | null
+          created_at?: string | null
+          lat?: number | null
+          lon?: number | null
+          plz?: string
+          region_id?: string
+          updated_at?: string | null
         }
         Relationships: []
       }
-      user_roles: {
+      price_watches: {
         Row: {
           created_at: string | null
-          id: string
-          role: Database["public"]["Enums"]["app_role"]
+          dish_id: string | null
+          ingredient_id: string | null
+          last_notified_at: string | null
+          last_notified_price: number | null
+          location_id: string | null
+          max_price: number
+          plz: string
           user_id: string
+          watch_id: string
         }
         Insert: {
           created_at?: string | null
-          id?: string
-          role: Database["public"]["Enums"]["app_role"]
+          dish_id?: string | null
+          ingredient_id?: string | null
+          last_notified_at?: string | null
+          last_notified_price?: number | null
+          location_id?: string | null
+          max_price: number
+          plz: string
           user_id: string
+          watch_id?: string
         }
         Update: {
           created_at?: string | null
-          id?: string
-          role?: Database["public"]["Enums"]["app_role"]
+          dish_id?: string | null
+          ingredient_id?: string | null
+          last_notified_at?: string | null
+          last_notified_price?: number | null
+          location_id?: string | null
+          max_price?: number
+          plz?: string
           user_id?: string
+          watch_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "user_roles_user_id_fkey"
+            foreignKeyName: "price_watches_dish_id_fkey"
+            columns: ["dish_id"]
+            isOneToOne: false
+            referencedRelation: "dishes"
+            referencedColumns: ["dish_id"]
+          },
+          {
+            foreignKeyName: "price_watches_ingredient_id_fkey"
+            columns: ["ingredient_id"]
+            isOneToOne: false
+            referencedRelation: "ingredients"
+            referencedColumns: ["ingredient_id"]
+          },
+          {
+            foreignKeyName: "price_watches_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "user_locations"
+            referencedColumns: ["location_id"]
+          },
+          {
+            foreignKeyName: "price_watches_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "user_profiles"
@@ -582,31 +1058,822 @@ export type Database = {
           },
         ]
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      calculate_dish_price: {
-        Args: { _dish_id: string; _user_plz?: string }
-        Returns: {
-          available_offers: Json
-          base_price: number
-          offer_price: number
-          savings: number
-          savings_percent: number
+      product_map: {
+        Row: {
+          aggregator_product_id: string
+          confidence: number | null
+          created_at: string | null
+          ingredient_id: string
+          notes: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          aggregator_product_id: string
+          confidence?: number | null
+          created_at?: string | null
+          ingredient_id: string
+          notes?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          aggregator_product_id?: string
+          confidence?: number | null
+          created_at?: string | null
+          ingredient_id?: string
+          notes?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_map_ingredient_id_fkey"
+            columns: ["ingredient_id"]
+            isOneToOne: false
+            referencedRelation: "ingredients"
+            referencedColumns: ["ingredient_id"]
+          },
+        ]
+      }
+      store_region_map: {
+        Row: {
+          region_id: string
+          store_id: string
+        }
+        Insert: {
+          region_id: string
+          store_id: string
+        }
+        Update: {
+          region_id?: string
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "store_region_map_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["store_id"]
+          },
+        ]
+      }
+      stores: {
+        Row: {
+          chain_id: string
+          city: string | null
+          created_at: string | null
+          lat: number | null
+          lon: number | null
+          plz: string | null
+          store_id: string
+          store_name: string
+          street: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          chain_id: string
+          city?: string | null
+          created_at?: string | null
+          lat?: number | null
+          lon?: number | null
+          plz?: string | null
+          store_id: string
+          store_name: string
+          street?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          chain_id?: string
+          city?: string | null
+          created_at?: string | null
+          lat?: number | null
+          lon?: number | null
+          plz?: string | null
+          store_id?: string
+          store_name?: string
+          street?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stores_chain_id_fkey"
+            columns: ["chain_id"]
+            isOneToOne: false
+            referencedRelation: "chains"
+            referencedColumns: ["chain_id"]
+          },
+        ]
+      }
+      subscriptions: {
+        Row: {
+          amount_paid: number | null
+          cancelled_at: string | null
+          created_at: string | null
+          duration_days: number
+          expires_at: string
+          payment_id: string | null
+          payment_method: string | null
+          started_at: string
+          status: string
+          subscription_id: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          amount_paid?: number | null
+          cancelled_at?: string | null
+          created_at?: string | null
+          duration_days?: number
+          expires_at: string
+          payment_id?: string | null
+          payment_method?: string | null
+          started_at?: string
+          status?: string
+          subscription_id?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          amount_paid?: number | null
+          cancelled_at?: string | null
+          created_at?: string | null
+          duration_days?: number
+          expires_at?: string
+          payment_id?: string | null
+          payment_method?: string | null
+          started_at?: string
+          status?: string
+          subscription_id?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subscriptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_locations: {
+        Row: {
+          created_at: string
+          location_id: string
+          name: string
+          plz: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          location_id?: string
+          name: string
+          plz: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          location_id?: string
+          name?: string
+          plz?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_locations_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_profiles: {
+        Row: {
+          alert_email_digest: boolean
+          created_at: string | null
+          diet_preference: string | null
+          email: string | null
+          excluded_allergens: string[]
+          id: string
+          last_seen: string | null
+          plz: string | null
+          premium_until: string | null
+          subscription_cancelled_at: string | null
+          subscription_duration_days: number | null
+          subscription_started_at: string | null
+          subscription_status: string | null
+          updated_at: string | null
+          username: string | null
+        }
+        Insert: {
+          alert_email_digest?: boolean
+          created_at?: string | null
+          diet_preference?: string | null
+          email?: string | null
+          excluded_allergens?: string[]
+          id?: string
+          last_seen?: string | null
+          plz?: string | null
+          premium_until?: string | null
+          subscription_cancelled_at?: string | null
+          subscription_duration_days?: number | null
+          subscription_started_at?: string | null
+          subscription_status?: string | null
+          updated_at?: string | null
+          username?: string | null
+        }
+        Update: {
+          alert_email_digest?: boolean
+          created_at?: string | null
+          diet_preference?: string | null
+          email?: string | null
+          excluded_allergens?: string[]
+          id?: string
+          last_seen?: string | null
+          plz?: string | null
+          premium_until?: string | null
+          subscription_cancelled_at?: string | null
+          subscription_duration_days?: number | null
+          subscription_started_at?: string | null
+          subscription_status?: string | null
+          updated_at?: string | null
+          username?: string | null
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          created_at: string | null
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          role?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_roles_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      dish_dietary_info: {
+        Row: {
+          allergens: string[] | null
+          dish_id: string | null
+          is_vegan: boolean | null
+          is_vegetarian: boolean | null
+        }
+        Relationships: []
+      }
+      ingredient_baseline_drift: {
+        Row: {
+          computed_at: string | null
+          computed_baseline: number | null
+          drift_percent: number | null
+          ingredient_id: string | null
+          manual_baseline: number | null
+          name_canonical: string | null
+          offers_count: number | null
+          region_id: string | null
+          unit_default: string | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      activate_premium_subscription: {
+        Args: {
+          p_amount_paid?: number
+          p_duration_days?: number
+          p_payment_id?: string
+          p_payment_method?: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      best_offers_as_of: {
+        Args: {
+          _as_of?: string
+          _region_id?: string
+        }
+        Returns: {
+          active_offers_count: number
+          chain_id: string
+          ingredient_id: string
+          offer_id: number
+          pack_size: number
+          price_per_unit: number
+          price_total: number
+          region_id: string
+          source: string
+          source_ref_id: string
+          unit_base: string
+          valid_from: string
+          valid_to: string
+        }[]
+      }
+      best_offers_for_plz: {
+        Args: {
+          _as_of?: string
+          _user_plz?: string
+        }
+        Returns: {
+          active_offers_count: number
+          chain_id: string
+          ingredient_id: string
+          offer_id: number
+          pack_size: number
+          price_per_unit: number
+          price_total: number
+          region_id: string
+          source: string
+          source_ref_id: string
+          unit_base: string
+          valid_from: string
+          valid_to: string
+        }[]
+      }
+      calculate_dish_aggregated_savings: {
+        Args: {
+          _as_of?: string
+          _chain_id?: string
+          _dish_id: string
+          _user_plz?: string
+        }
+        Returns: {
+          available_offers_count: number
+          dish_id: string
+          ingredients_with_offers_count: number
+          total_aggregated_savings: number
+        }[]
+      }
+      calculate_dish_total_price: {
+        Args: {
+          _as_of?: string
+          _chain_id?: string
+          _dish_id: string
+          _pricing_mode?: string
+          _user_plz?: string
+        }
+        Returns: {
+          baseline_total: number
+          dish_id: string
+          ingredients_with_offers_count: number
+          leftover_total: number
+          offer_total: number
+          price_per_serving: number
+          savings_abs: number
+          savings_percent: number
+          servings: number
+          unconvertible_ingredients: string[]
+        }[]
+      }
+      calculate_ingredient_savings_per_unit: {
+        Args: {
+          _chain_id?: string
+          _ingredient_id: string
+          _unit?: string
+          _user_plz: string
+        }
+        Returns: {
+          base_price_per_unit: number
+          has_offer: boolean
+          ingredient_id: string
+          offer_price_per_unit: number
+          savings_per_unit: number
+          unit: string
+        }[]
+      }
+      calculate_plan_prices: {
+        Args: {
+          _plan_id: string
+          _user_plz?: string
+        }
+        Returns: {
+          plan_id: string
+          total_baseline: number
+          total_offer: number
+          total_savings_abs: number
+          total_savings_pct: number
+        }[]
+      }
+      calculate_shopping_list_chain_costs: {
+        Args: {
+          _dish_ids: string[]
+          _servings?: number[]
+          _user_plz?: string
+        }
+        Returns: {
+          baseline_total: number
+          chain_id: string
+          chain_name: string
+          ingredient_id: string
+          ingredient_name: string
+          offer_price_per_unit: number
+          offer_total: number
+          offer_unit: string
+          qty: number
+          unit: string
+        }[]
+      }
+      cancel_premium_subscription: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      check_email_exists: {
+        Args: {
+          p_email: string
+        }
+        Returns: boolean
+      }
+      check_username_exists: {
+        Args: {
+          p_username: string
+        }
+        Returns: boolean
+      }
+      confirm_waitlist_signup: {
+        Args: {
+          _token: string
+        }
+        Returns: string
+      }
+      convert_unit:
+        | {
+            Args: {
+              from_unit: string
+              qty: number
+              to_unit: string
+            }
+            Returns: number
+          }
+        | {
+            Args: {
+              _ingredient_id: string
+              from_unit: string
+              qty: number
+              to_unit: string
+            }
+            Returns: number
+          }
+      convert_unit_standard: {
+        Args: {
+          _density_g_per_ml: number
+          _piece_weight_g: number
+          from_unit: string
+          qty: number
+          to_unit: string
+        }
+        Returns: number
+      }
+      create_user_profile: {
+        Args: {
+          p_email: string
+          p_plz?: string
+          p_user_id: string
+          p_username?: string
+        }
+        Returns: undefined
+      }
+      dish_passes_visibility_rules: {
+        Args: {
+          _main_with_offers: number
+          _savings_percent: number
+          _side_with_offers: number
+        }
+        Returns: boolean
+      }
+      find_dishes_by_ingredients: {
+        Args: {
+          _chain_id?: string
+          _include_offers?: boolean
+          _ingredient_ids?: string[]
+          _limit?: number
+          _user_plz?: string
+        }
+        Returns: {
+          category: string
+          covered_ingredients: string[]
+          dish_id: string
+          is_meal_prep: boolean
+          is_quick: boolean
+          main_covered: number
+          main_total: number
+          missing_main: string[]
+          missing_secondary: string[]
+          name: string
+          secondary_covered: number
+          secondary_total: number
+        }[]
+      }
+      fold_search_text: {
+        Args: {
+          _text: string
+        }
+        Returns: string
+      }
+      get_dish_facets: {
+        Args: {
+          _as_of?: string
+          _category?: string
+          _chain_id?: string
+          _cuisine?: string
+          _diet?: string
+          _dish_ids?: string[]
+          _exclude_allergens?: string[]
+          _is_meal_prep?: boolean
+          _is_quick?: boolean
+          _max_price?: number
+          _price_basis?: string
+          _search?: string
+          _season?: string
+          _user_plz: string
+        }
+        Returns: {
+          dish_count: number
+          facet: string
+          value: string
+        }[]
+      }
+      get_dishes_with_pricing: {
+        Args: {
+          _as_of?: string
+          _category?: string
+          _chain_id?: string
+          _cuisine?: string
+          _diet?: string
+          _dish_ids?: string[]
+          _exclude_allergens?: string[]
+          _is_meal_prep?: boolean
+          _is_quick?: boolean
+          _limit?: number
+          _max_price?: number
+          _offset?: number
+          _price_basis?: string
+          _search?: string
+          _season?: string
+          _sort_by?: string
+          _sort_dir?: string
+          _user_plz: string
+        }
+        Returns: {
+          available_offers_count: number
+          category: string
+          cuisine: string
+          dish_id: string
+          ingredients_with_offers_count: number
+          is_meal_prep: boolean
+          is_quick: boolean
+          name: string
+          notes: string
+          offer_total: number
+          price_per_serving: number
+          season: string
+          servings: number
+          total_aggregated_savings: number
+          total_count: number
+        }[]
+      }
+      get_ingredient_price_history: {
+        Args: {
+          _chain_id?: string
+          _days?: number
+          _ingredient_id: string
+          _user_plz?: string
+        }
+        Returns: {
+          chain_id: string
+          chain_name: string
+          offer_id: number
+          pack_size: number
+          price_per_unit: number
+          price_total: number
+          region_id: string
+          unit: string
+          unit_base: string
+          valid_from: string
+          valid_to: string
+        }[]
+      }
+      get_nearby_stores: {
+        Args: {
+          _chain_id?: string
+          _limit?: number
+          _radius_km?: number
+          _user_plz: string
+        }
+        Returns: {
+          chain_id: string
+          chain_name: string
+          city: string
+          distance_km: number
+          in_user_region: boolean
+          lat: number
+          lon: number
+          plz: string
+          region_ids: string[]
+          store_id: string
+          store_name: string
+          street: string
+        }[]
+      }
+      get_nearest_plz: {
+        Args: {
+          _lat: number
+          _lon: number
+          _max_distance_km?: number
+        }
+        Returns: {
+          city: string
+          distance_km: number
+          plz: string
+        }[]
+      }
+      get_offer_deal_ratings: {
+        Args: {
+          _days?: number
+          _offer_ids: number[]
+        }
+        Returns: {
+          deal_rating: string
+          history_count: number
+          min_price_per_unit: number
+          offer_id: number
+          price_per_unit: number
+          typical_price_per_unit: number
         }[]
       }
-      has_role: {
+      get_plz_centroid: {
         Args: {
-          _role: Database["public"]["Enums"]["app_role"]
-          _user_id: string
+          _plz: string
+        }
+        Returns: {
+          lat: number
+          lon: number
+        }[]
+      }
+      get_plz_coverage: {
+        Args: {
+          _user_plz: string
+        }
+        Returns: {
+          active_offers_count: number
+          chain_id: string
+          chain_name: string
+          last_imported_at: string
+          region_id: string
+          valid_until: string
+        }[]
+      }
+      get_plz_waitlist_demand: {
+        Args: never
+        Returns: {
+          city: string
+          first_signup_at: string
+          is_covered: boolean
+          last_signup_at: string
+          pending: number
+          plz: string
+          signups: number
+        }[]
+      }
+      get_shopping_list: {
+        Args: {
+          _dish_ids: string[]
+          _servings?: number[]
+        }
+        Returns: {
+          dish_names: string[]
+          ingredient_id: string
+          ingredient_name: string
+          optional: boolean
+          qty: number
+          unit: string
+        }[]
+      }
+      has_premium_access: {
+        Args: {
+          p_user_id: string
         }
         Returns: boolean
       }
+      haversine_km: {
+        Args: {
+          _lat1: number
+          _lat2: number
+          _lon1: number
+          _lon2: number
+        }
+        Returns: number
+      }
+      ingredient_baselines: {
+        Args: {
+          _region_id?: string
+        }
+        Returns: {
+          ingredient_id: string
+          price_baseline_per_unit: number
+          unit_default: string
+        }[]
+      }
+      lock_plan: {
+        Args: {
+          p_plan_id: string
+          p_user_plz?: string
+        }
+        Returns: undefined
+      }
+      normalize_allergen_tags: {
+        Args: {
+          _tags: string[]
+        }
+        Returns: string[]
+      }
+      process_price_watches: {
+        Args: never
+        Returns: number
+      }
+      refresh_current_best_offers: {
+        Args: never
+        Returns: number
+      }
+      refresh_dish_search_document: {
+        Args: {
+          _dish_id: string
+        }
+        Returns: undefined
+      }
+      refresh_ingredient_baselines: {
+        Args: never
+        Returns: number
+      }
+      resolve_plz_regions: {
+        Args: {
+          _max_distance_km?: number
+          _user_plz: string
+        }
+        Returns: {
+          chain_id: string
+          distance_km: number
+          region_id: string
+          store_id: string
+        }[]
+      }
+      search_postal_codes: {
+        Args: {
+          _limit?: number
+          _query: string
+        }
+        Returns: {
+          chains_with_offers: number
+          city: string
+          plz: string
+          region_id: string
+        }[]
+      }
+      season_keys: {
+        Args: {
+          _season: string
+        }
+        Returns: string[]
+      }
+      should_display_dish: {
+        Args: {
+          _chain_id?: string
+          _dish_id: string
+          _user_plz: string
+        }
+        Returns: boolean
+      }
+      unlock_plan: {
+        Args: {
+          p_plan_id: string
+        }
+        Returns: undefined
+      }
+      update_expired_subscriptions: {
+        Args: never
+        Returns: number
+      }
     }
     Enums: {
-      app_role: "admin" | "user"
+      ingredient_role: "main" | "side"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -734,7 +2001,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "user"],
+      ingredient_role: ["main", "side"],
     },
   },
 } as const
@@ -5,12 +5,15 @@ import { Button } from '@/components/ui/button';
 import { CSVImport } from '@/components/admin/CSVImport';
 import { DataTable } from '@/components/admin/DataTable';
 import { FeedbackView } from '@/components/admin/FeedbackView';
+import { VisibilityRules } from '@/components/admin/VisibilityRules';
+import { BaselineDrift } from '@/components/admin/BaselineDrift';
+import { WaitlistDemand } from '@/components/admin/WaitlistDemand';
 import { LogOut, Database } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ThemeToggle } from '@/components/ThemeToggle';
 
 export default function AdminDashboard() {
-  const { isAdmin, loading, signOut } = useAdminAuth();
+  const { isAdmin, loading, userId, signOut } = useAdminAuth();
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -54,6 +57,9 @@ export default function AdminDashboard() {
           <TabsList>
             <TabsTrigger value="import">Import Data</TabsTrigger>
             <TabsTrigger value="view">View Data</TabsTrigger>
+            <TabsTrigger value="visibility">Visibility Rules</TabsTrigger>
+            <TabsTrigger value="baselines">Baselines</TabsTrigger>
+            <TabsTrigger value="waitlist">Waitlist</TabsTrigger>
             <TabsTrigger value="feedback">Feedback</TabsTrigger>
           </TabsList>
 
@@ -65,6 +71,18 @@ export default function AdminDashboard() {
             <DataTable />
           </TabsContent>
 
+          <TabsContent value="visibility" className="space-y-4">
+            <VisibilityRules userId={userId} />
+          </TabsContent>
+
+          <TabsContent value="baselines" className="space-y-4">
+            <BaselineDrift userId={userId} />
+          </TabsContent>
+
+          <TabsContent value="waitlist" className="space-y-4">
+            <WaitlistDemand />
+          </TabsContent>
+
           <TabsContent value="feedback" className="space-y-4">
             <FeedbackView />
           </TabsContent>
@@ -0,0 +1,305 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { api, type Chain, type Ingredient, type IngredientMatchDish } from '@/services/api';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, ChefHat, Check, Plus, X, Zap, Package } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { ThemeToggle } from '@/components/ThemeToggle';
+
+export default function CookWith() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { userId } = useAuth();
+  const [userPLZ, setUserPLZ] = useState<string>(() => {
+    const storedPLZ = localStorage.getItem('guestPLZ');
+    return storedPLZ || '30165';
+  });
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [chains, setChains] = useState<Chain[]>([]);
+  const [results, setResults] = useState<IngredientMatchDish[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [pickerOpen, setPickerOpen] = useState(false);
+
+  const ingredientsParam = searchParams.get('ingredients') || '';
+  const selectedIds = useMemo(() => ingredientsParam.split(',').filter(Boolean), [ingredientsParam]);
+  const includeOffers = searchParams.get('offers') !== '0';
+  const chainId = searchParams.get('chain') || 'all';
+  const ingredientNames = new Map(ingredients.map((i) => [i.ingredient_id, i.name_canonical]));
+
+  useEffect(() => {
+    api.getIngredients().then(setIngredients);
+  }, []);
+
+  useEffect(() => {
+    if (userId) {
+      api.getUserPLZ(userId).then((plz) => {
+        if (plz) {
+          setUserPLZ(plz);
+        }
+      });
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    api.getChains(userPLZ).then(setChains);
+  }, [userPLZ]);
+
+  const loadResults = useCallback(async () => {
+    if (selectedIds.length === 0 && !includeOffers) {
+      setResults([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const data = await api.findDishesByIngredients({
+        ingredientIds: selectedIds,
+        includeOffers,
+        plz: userPLZ,
+        chainId: chainId === 'all' ? null : chainId,
+      });
+      setResults(data);
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to find dishes');
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedIds, includeOffers, chainId, userPLZ]);
+
+  useEffect(() => {
+    loadResults();
+  }, [loadResults]);
+
+  const updateParams = (updates: Record<string, string | null>) => {
+    const next = new URLSearchParams(searchParams);
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value === null || value === '') {
+        next.delete(key);
+      } else {
+        next.set(key, value);
+      }
+    });
+    setSearchParams(next, { replace: true });
+  };
+
+  const toggleIngredient = (ingredientId: string) => {
+    const next = selectedIds.includes(ingredientId)
+      ? selectedIds.filter((id) => id !== ingredientId)
+      : [...selectedIds, ingredientId];
+    updateParams({ ingredients: next.join(',') });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card/50 backdrop-blur sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+              <div className="flex items-center gap-2">
+                <ChefHat className="h-6 w-6 text-primary" />
+                <h1 className="text-2xl font-bold">What can I cook?</h1>
+              </div>
+            </div>
+            <ThemeToggle />
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <aside className="lg:col-span-1">
+            <Card className="sticky top-24">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">Your ingredients</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="space-y-3">
+                  <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+                    <PopoverTrigger asChild>
+                      <Button variant="outline" className="w-full justify-start">
+                        <Plus className="mr-2 h-4 w-4" />
+                        Add ingredients
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-[280px] p-0" align="start">
+                      <Command>
+                        <CommandInput placeholder="Search ingredients..." />
+                        <CommandList>
+                          <CommandEmpty>No ingredient found.</CommandEmpty>
+                          <CommandGroup>
+                            {ingredients.map((ingredient) => (
+                              <CommandItem
+                                key={ingredient.ingredient_id}
+                                value={`${ingredient.name_canonical} ${ingredient.ingredient_id}`}
+                                onSelect={() => toggleIngredient(ingredient.ingredient_id)}
+                              >
+                                <Check
+                                  className={cn(
+                                    'mr-2 h-4 w-4',
+                                    selectedIds.includes(ingredient.ingredient_id) ? 'opacity-100' : 'opacity-0'
+                                  )}
+                                />
+                                {ingredient.name_canonical}
+                              </CommandItem>
+                            ))}
+                          </CommandGroup>
+                        </CommandList>
+                      </Command>
+                    </PopoverContent>
+                  </Popover>
+
+                  {selectedIds.length > 0 ? (
+                    <div className="flex flex-wrap gap-2">
+                      {selectedIds.map((id) => (
+                        <Badge key={id} variant="secondary" className="gap-1">
+                          {ingredientNames.get(id) || id}
+                          <button
+                            type="button"
+                            onClick={() => toggleIngredient(id)}
+                            aria-label={`Remove ${ingredientNames.get(id) || id}`}
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </Badge>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Pick what you have at home or want to use up.</p>
+                  )}
+                </div>
+
+                <div className="space-y-3">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="include-offers"
+                      checked={includeOffers}
+                      onCheckedChange={(checked) => updateParams({ offers: checked ? null : '0' })}
+                    />
+                    <Label htmlFor="include-offers" className="cursor-pointer">
+                      Everything on offer this week
+                    </Label>
+                  </div>
+                  <Select
+                    value={chainId}
+                    onValueChange={(value) => updateParams({ chain: value === 'all' ? null : value })}
+                    disabled={!includeOffers}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="All chains" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All chains</SelectItem>
+                      {chains.map((chain) => (
+                        <SelectItem key={chain.chain_id} value={chain.chain_id}>
+                          {chain.chain_name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {userPLZ && <p className="text-xs text-muted-foreground">Offers for PLZ {userPLZ}</p>}
+                </div>
+              </CardContent>
+            </Card>
+          </aside>
+
+          <section className="lg:col-span-2">
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+              </div>
+            ) : selectedIds.length === 0 && !includeOffers ? (
+              <p className="text-muted-foreground text-center py-12">
+                Add some ingredients or include this week's offers to see what you can cook.
+              </p>
+            ) : results.length === 0 ? (
+              <p className="text-muted-foreground text-center py-12">No dishes use these ingredients.</p>
+            ) : (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  {results.length} dishes, best main ingredient coverage first
+                </p>
+                {results.map((dish) => {
+                  const mainPercent = dish.main_total > 0 ? (dish.main_covered / dish.main_total) * 100 : 0;
+                  return (
+                    <Card key={dish.dish_id}>
+                      <CardContent className="pt-6 space-y-3">
+                        <div className="flex items-start justify-between gap-2">
+                          <div>
+                            <Link to={`/dish/${dish.dish_id}`} className="text-lg font-semibold hover:underline">
+                              {dish.name}
+                            </Link>
+                            <div className="flex flex-wrap gap-2 mt-1">
+                              <Badge variant="outline">{dish.category}</Badge>
+                              {dish.is_quick && (
+                                <Badge variant="secondary" className="gap-1">
+                                  <Zap className="h-3 w-3" />
+                                  Quick
+                                </Badge>
+                              )}
+                              {dish.is_meal_prep && (
+                                <Badge variant="secondary" className="gap-1">
+                                  <Package className="h-3 w-3" />
+                                  Meal Prep
+                                </Badge>
+                              )}
+                            </div>
+                          </div>
+                          <div className="text-right text-sm whitespace-nowrap">
+                            <p className="font-semibold">
+                              {dish.main_covered}/{dish.main_total} main
+                            </p>
+                            <p className="text-muted-foreground">
+                              {dish.secondary_covered}/{dish.secondary_total} other
+                            </p>
+                          </div>
+                        </div>
+
+                        {dish.main_total > 0 && <Progress value={mainPercent} className="h-2" />}
+
+                        <p className="text-sm">
+                          <span className="text-green-600 dark:text-green-400 font-medium">You have: </span>
+                          {dish.covered_ingredients.join(', ')}
+                        </p>
+                        {(dish.missing_main.length > 0 || dish.missing_secondary.length > 0) && (
+                          <p className="text-sm">
+                            <span className="text-muted-foreground font-medium">Missing: </span>
+                            {[...dish.missing_main, ...dish.missing_secondary].map((name, index) => (
+                              <span key={name} className={cn(index < dish.missing_main.length && 'font-semibold')}>
+                                {index > 0 && ', '}
+                                {name}
+                              </span>
+                            ))}
+                          </p>
+                        )}
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            )}
+          </section>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { api, type PLZCoverage } from '@/services/api';
+import { PLZInput } from '@/components/PLZInput';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, MapPin, BellRing, CheckCircle2, Loader2 } from 'lucide-react';
+import { formatDistanceToNow, format } from 'date-fns';
+import { toast } from 'sonner';
+import { ThemeToggle } from '@/components/ThemeToggle';
+
+export default function Coverage() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { userId, userProfile } = useAuth();
+  const plz = (searchParams.get('plz') || '').trim();
+  const confirmToken = searchParams.get('confirm');
+  const [knownPLZ, setKnownPLZ] = useState(false);
+  const [coverage, setCoverage] = useState<PLZCoverage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [joining, setJoining] = useState(false);
+  const [joined, setJoined] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    if (userProfile?.email) {
+      setEmail((current) => current || userProfile.email || '');
+    }
+  }, [userProfile?.email]);
+
+  // Confirmation link mailed by join-waitlist
+  useEffect(() => {
+    if (!confirmToken) return;
+    api.confirmWaitlistSignup(confirmToken)
+      .then((confirmedPLZ) => {
+        if (confirmedPLZ) {
+          toast.success(`Confirmed. We'll email you once ${confirmedPLZ} is covered.`);
+        } else {
+          toast.error('This confirmation link is not valid');
+        }
+      })
+      .catch((error) => toast.error(error?.message || 'Failed to confirm the waitlist signup'))
+      .finally(() => {
+        setSearchParams((current) => {
+          const next = new URLSearchParams(current);
+          next.delete('confirm');
+          return next;
+        }, { replace: true });
+      });
+  }, [confirmToken, setSearchParams]);
+
+  const loadCoverage = useCallback(async () => {
+    setJoined(false);
+    if (!/^\d{5}$/.test(plz)) {
+      setKnownPLZ(false);
+      setCoverage([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const [isValid, data] = await Promise.all([api.validatePLZ(plz), api.getPLZCoverage(plz)]);
+      setKnownPLZ(isValid);
+      setCoverage(isValid ? data : []);
+    } finally {
+      setLoading(false);
+    }
+  }, [plz]);
+
+  useEffect(() => {
+    loadCoverage();
+  }, [loadCoverage]);
+
+  const activeChains = coverage.filter((chain) => chain.active_offers_count > 0);
+  const isCovered = knownPLZ && activeChains.length > 0;
+
+  const handleShowDishes = async () => {
+    setApplying(true);
+    try {
+      if (userId) {
+        await api.updateUserPLZ(userId, plz);
+      } else {
+        localStorage.setItem('guestPLZ', plz);
+      }
+      navigate('/');
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to update location. Please try again.');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const handleJoinWaitlist = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email.trim())) {
+      toast.error('Please enter a valid email address');
+      return;
+    }
+
+    setJoining(true);
+    try {
+      await api.joinWaitlist(plz, email);
+      setJoined(true);
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to join the waitlist');
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  // Checking another PLZ stays on this page; it only applies from "Show dishes"
+  const handlePLZChange = async (newPLZ: string) => {
+    setSearchParams({ plz: newPLZ });
+    return false;
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card/50 backdrop-blur sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+              <div className="flex items-center gap-2">
+                <MapPin className="h-6 w-6 text-primary" />
+                <h1 className="text-2xl font-bold">Coverage</h1>
+              </div>
+            </div>
+            <ThemeToggle />
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-2xl space-y-6">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : isCovered ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>Good news: we have offers for {plz}</CardTitle>
+              <CardDescription>
+                {activeChains.length} {activeChains.length === 1 ? 'supermarket has' : 'supermarkets have'} current offers in your area
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ul className="divide-y rounded-md border">
+                {activeChains.map((chain) => (
+                  <li key={chain.chain_id} className="flex items-center justify-between gap-4 p-3 text-sm">
+                    <div>
+                      <div className="font-medium">{chain.chain_name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {chain.valid_until && `Valid until ${format(new Date(chain.valid_until), 'dd.MM.yyyy')}`}
+                        {chain.valid_until && chain.last_imported_at && ' · '}
+                        {chain.last_imported_at && `updated ${formatDistanceToNow(new Date(chain.last_imported_at), { addSuffix: true })}`}
+                      </div>
+                    </div>
+                    <span className="shrink-0 text-muted-foreground">{chain.active_offers_count} offers</span>
+                  </li>
+                ))}
+              </ul>
+              <Button onClick={handleShowDishes} disabled={applying}>
+                {applying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Show dishes for {plz}
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                {!plz
+                  ? 'Which area are you in?'
+                  : knownPLZ
+                    ? `No offers for ${plz} yet`
+                    : `We don't cover ${plz} yet`}
+              </CardTitle>
+              <CardDescription>
+                {!plz
+                  ? 'Enter your postal code to see whether we have supermarket offers for your area.'
+                  : 'ThriftyWe is growing region by region. Leave your email and we will let you know as soon as we have supermarket offers for your area.'}
+              </CardDescription>
+            </CardHeader>
+            {/^\d{5}$/.test(plz) && (
+              <CardContent>
+                {joined ? (
+                  <div className="flex items-start gap-3 rounded-md border bg-muted/50 p-4 text-sm">
+                    <CheckCircle2 className="h-5 w-5 shrink-0 text-primary" />
+                    <p>
+                      Almost done. We've sent a confirmation link to <span className="font-medium">{email.trim()}</span>;
+                      {' '}once you confirm, we'll email you when {plz} is covered.
+                    </p>
+                  </div>
+                ) : (
+                  <form onSubmit={handleJoinWaitlist} className="space-y-2">
+                    <Label htmlFor="waitlist-email">Notify me when my area is covered</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="waitlist-email"
+                        type="email"
+                        placeholder="you@example.com"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        disabled={joining}
+                        required
+                      />
+                      <Button type="submit" disabled={joining}>
+                        {joining ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <BellRing className="mr-2 h-4 w-4" />}
+                        Notify me
+                      </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      We only use your email for this one notification.
+                    </p>
+                  </form>
+                )}
+              </CardContent>
+            )}
+          </Card>
+        )}
+
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">Check another postal code</p>
+          <PLZInput key={plz} onPLZChange={handlePLZChange} currentPLZ={plz} />
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate, Link, useLocation, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
-import { api, type Dish, type DishIngredient, type DishPricing } from '@/services/api';
+import { api, type Allergen, type Dish, type DishDietaryInfo, type DishIngredient, type DishPricing, type DishPrice, type PricingMode } from '@/services/api';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -16,14 +16,22 @@ import {
   AlertCircle,
   CheckCircle2,
   LogIn,
-  Info
+  Info,
+  Leaf,
+  TriangleAlert
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { ThemeToggle } from '@/components/ThemeToggle';
+import { PriceWatchDialog } from '@/components/PriceWatchDialog';
 import { AdPlaceholder } from '@/components/AdPlaceholder';
+import { DealBadge } from '@/components/DealBadge';
+import { PriceHistoryChart } from '@/components/PriceHistoryChart';
+import { NearbyStores } from '@/components/NearbyStores';
 import { getLocalFavorites, addLocalFavorite, removeLocalFavorite, isLocalFavorite } from '@/utils/favorites';
+import { getOfferAsOfDate, parseOfferWeek } from '@/utils/offerWeek';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 
 export default function DishDetail() {
   const { dishId } = useParams<{ dishId: string }>();
@@ -34,6 +42,9 @@ export default function DishDetail() {
   const [dish, setDish] = useState<Dish | null>(null);
   const [ingredients, setIngredients] = useState<DishIngredient[]>([]);
   const [pricing, setPricing] = useState<DishPricing | null>(null);
+  const [dishPrice, setDishPrice] = useState<DishPrice | null>(null);
+  const [dietaryInfo, setDietaryInfo] = useState<DishDietaryInfo | null>(null);
+  const [allergenLabels, setAllergenLabels] = useState<Map<string, string>>(new Map());
   // Use localStorage for PLZ when not authenticated
   const [userPLZ, setUserPLZ] = useState<string>(() => {
     const storedPLZ = localStorage.getItem('guestPLZ');
@@ -43,6 +54,11 @@ export default function DishDetail() {
   const [isFavorite, setIsFavorite] = useState(false);
   const [selectedChainName, setSelectedChainName] = useState<string | null>(null);
   const [selectedChainId, setSelectedChainId] = useState<string | null>(null);
+  const [pricingMode, setPricingMode] = useState<PricingMode>(() =>
+    localStorage.getItem('pricingMode') === 'whole_packs' ? 'whole_packs' : 'pro_rata'
+  );
+  // Same offer week as the dish list this page was opened from
+  const asOf = getOfferAsOfDate(parseOfferWeek(searchParams.get('week')));
 
   // Always scroll to top when detail page loads
   useEffect(() => {
@@ -79,7 +95,7 @@ export default function DishDetail() {
     if (dishId) {
       loadDishData();
     }
-  }, [dishId, userPLZ, selectedChainId, userId]);
+  }, [dishId, userPLZ, selectedChainId, userId, asOf]);
 
   const loadUserPLZ = async () => {
     if (!userId) return;
@@ -97,11 +113,14 @@ export default function DishDetail() {
 
     setLoading(true);
     try {
-      const [dishData, ingredientsData, pricingData, favorites] = await Promise.all([
+      const [dishData, ingredientsData, pricingData, priceData, favorites, dietaryData, allergensData] = await Promise.all([
         api.getDishById(dishId),
-        api.getDishIngredients(dishId, userPLZ || undefined, selectedChainId || undefined),
-        api.getDishPricing(dishId, userPLZ || undefined, selectedChainId || undefined),
+        api.getDishIngredients(dishId, userPLZ || undefined, selectedChainId || undefined, pricingMode, asOf),
+        api.getDishPricing(dishId, userPLZ || undefined, selectedChainId || undefined, asOf),
+        api.getDishPrice(dishId, userPLZ || undefined, selectedChainId || undefined, pricingMode, asOf),
         userId ? api.getFavorites(userId) : Promise.resolve([]),
+        api.getDishDietaryInfo(dishId),
+        api.getAllergens(),
       ]);
 
       if (!dishData) {
@@ -113,6 +132,9 @@ export default function DishDetail() {
       setDish(dishData);
       setIngredients(ingredientsData);
       setPricing(pricingData);
+      setDishPrice(priceData);
+      setDietaryInfo(dietaryData);
+      setAllergenLabels(new Map(allergensData.map((a: Allergen) => [a.allergen_tag, a.label])));
       
       // Check if favorite (from database if logged in, from localStorage if not)
       if (userId) {
@@ -127,6 +149,29 @@ export default function DishDetail() {
     }
   };
 
+  // Re-price ingredients and totals without reloading the whole page
+  const loadPricing = async (mode: PricingMode) => {
+    if (!dishId) return;
+    try {
+      const [ingredientsData, priceData] = await Promise.all([
+        api.getDishIngredients(dishId, userPLZ || undefined, selectedChainId || undefined, mode, asOf),
+        api.getDishPrice(dishId, userPLZ || undefined, selectedChainId || undefined, mode, asOf),
+      ]);
+      setIngredients(ingredientsData);
+      setDishPrice(priceData);
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to update prices');
+    }
+  };
+
+  const handlePricingModeChange = (mode: PricingMode) => {
+    setPricingMode(mode);
+    localStorage.setItem('pricingMode', mode);
+    if (dish) {
+      loadPricing(mode);
+    }
+  };
+
   const handleFavorite = async () => {
     if (!dishId) return;
 
@@ -138,7 +183,7 @@ export default function DishDetail() {
           setIsFavorite(false);
           toast.success('Removed from favorites');
         } else {
-          await api.addFavorite(userId, dishId);
+          await api.addFavorite(userId, dishId, userPLZ);
           setIsFavorite(true);
           toast.success('Added to favorites');
         }
@@ -189,7 +234,10 @@ export default function DishDetail() {
   const requiredIngredients = ingredients.filter((ing) => !ing.optional);
   const optionalIngredients = ingredients.filter((ing) => ing.optional);
 
-  const totalAggregatedSavings = pricing?.total_aggregated_savings ?? 0;
+  const totalSavings = dishPrice?.savings_abs ?? 0;
+  const unconvertibleNames = (dishPrice?.unconvertible_ingredients || []).map((id) =>
+    ingredients.find((ing) => ing.ingredient_id === id)?.ingredient_name || id
+  );
 
   return (
     <div className="min-h-screen bg-background">
@@ -267,6 +315,16 @@ export default function DishDetail() {
                       )}
                     />
                   </Button>
+                  {userId && userPLZ && (
+                    <PriceWatchDialog
+                      userId={userId}
+                      plz={userPLZ}
+                      dishId={dish.dish_id}
+                      dishName={dish.name}
+                      pricePerServing={dishPrice?.price_per_serving}
+                      ingredients={requiredIngredients}
+                    />
+                  )}
                 </div>
                 <div className="flex items-center gap-2 flex-wrap">
                   <Badge variant="secondary">{dish.category}</Badge>
@@ -288,17 +346,85 @@ export default function DishDetail() {
                   {dish.season && (
                     <Badge variant="outline">Season: {dish.season}</Badge>
                   )}
+                  {dietaryInfo?.is_vegan ? (
+                    <Badge variant="outline" className="border-green-500 text-green-600 dark:text-green-400">
+                      <Leaf className="h-3 w-3 mr-1" />
+                      Vegan
+                    </Badge>
+                  ) : dietaryInfo?.is_vegetarian ? (
+                    <Badge variant="outline" className="border-green-500 text-green-600 dark:text-green-400">
+                      <Leaf className="h-3 w-3 mr-1" />
+                      Vegetarian
+                    </Badge>
+                  ) : null}
                 </div>
+                {dietaryInfo && dietaryInfo.allergens.length > 0 && (
+                  <div className="flex items-center gap-2 flex-wrap mt-3">
+                    <span className="text-sm text-muted-foreground">Contains:</span>
+                    {dietaryInfo.allergens.map((tag) => (
+                      <Badge key={tag} variant="outline" className="border-orange-500 text-orange-600 dark:text-orange-400">
+                        <TriangleAlert className="h-3 w-3 mr-1" />
+                        {allergenLabels.get(tag) || tag}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              {totalAggregatedSavings > 0 && (
+              {dishPrice && dishPrice.offer_total > 0 && (
+                <div className="flex items-end gap-6 flex-wrap">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Dish total</p>
+                    <p className="text-3xl font-bold">
+                      €{Number(dishPrice.offer_total).toFixed(2)}
+                      {dishPrice.baseline_total > dishPrice.offer_total && (
+                        <span className="ml-2 text-lg font-normal text-muted-foreground line-through">
+                          €{Number(dishPrice.baseline_total).toFixed(2)}
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">
+                      Per serving ({dishPrice.servings} {dishPrice.servings === 1 ? 'serving' : 'servings'})
+                    </p>
+                    <p className="text-xl font-semibold">€{Number(dishPrice.price_per_serving).toFixed(2)}</p>
+                  </div>
+                  {pricingMode === 'whole_packs' && dishPrice.leftover_total > 0 && (
+                    <div>
+                      <p className="text-sm text-muted-foreground">Left over</p>
+                      <p className="text-xl font-semibold text-muted-foreground">€{Number(dishPrice.leftover_total).toFixed(2)}</p>
+                    </div>
+                  )}
+                  <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    size="sm"
+                    value={pricingMode}
+                    onValueChange={(value) => value && handlePricingModeChange(value as PricingMode)}
+                    className="ml-auto"
+                  >
+                    <ToggleGroupItem value="pro_rata">Pro-rata</ToggleGroupItem>
+                    <ToggleGroupItem value="whole_packs">Whole packs</ToggleGroupItem>
+                  </ToggleGroup>
+                </div>
+              )}
+
+              {unconvertibleNames.length > 0 && (
+                <p className="text-sm text-amber-600 dark:text-amber-400 flex items-center gap-2">
+                  <AlertCircle className="h-4 w-4 shrink-0" />
+                  Left out of the totals and savings (unit can't be converted): {unconvertibleNames.join(', ')}
+                </p>
+              )}
+
+              {totalSavings > 0 && (
                 <div className="flex items-center gap-2">
                   <Badge variant="default" className="bg-green-600 hover:bg-green-700 text-white text-lg px-4 py-2 flex items-center gap-2">
                     <CheckCircle2 className="h-5 w-5" />
-                    <span>Total Savings: €{totalAggregatedSavings.toFixed(2)}</span>
+                    <span>You save €{totalSavings.toFixed(2)} ({Number(dishPrice!.savings_percent).toFixed(0)}%)</span>
                     <Popover>
                       <PopoverTrigger asChild>
                         <Button
@@ -321,15 +447,15 @@ export default function DishDetail() {
                       </PopoverContent>
                     </Popover>
                   </Badge>
-                  {pricing && pricing.ingredients_with_offers_count > 0 && (
+                  {dishPrice && dishPrice.ingredients_with_offers_count > 0 && (
                     <Badge variant="outline" className="text-sm">
-                      {pricing.ingredients_with_offers_count} {pricing.ingredients_with_offers_count === 1 ? 'ingredient' : 'ingredients'} on offer
+                      {dishPrice.ingredients_with_offers_count} {dishPrice.ingredients_with_offers_count === 1 ? 'ingredient' : 'ingredients'} on offer
                     </Badge>
                   )}
                 </div>
               )}
 
-              {pricing && pricing.available_offers_count > 0 && totalAggregatedSavings === 0 && (
+              {pricing && pricing.available_offers_count > 0 && totalSavings === 0 && (
                 <div className="flex items-center gap-2">
                   <Badge variant="outline" className="text-sm">
                     {pricing.available_offers_count} {pricing.available_offers_count === 1 ? 'offer' : 'offers'} available
@@ -340,6 +466,7 @@ export default function DishDetail() {
               {userPLZ && (
                 <p className="text-sm text-muted-foreground">
                   Offers for PLZ {userPLZ}
+                  {asOf && ` valid on ${new Date(asOf).toLocaleDateString('de-DE')}`}
                 </p>
               )}
               {!userPLZ && (
@@ -437,6 +564,23 @@ export default function DishDetail() {
                             </div>
                           </div>
                           
+                          {ing.offer_cost !== undefined && (
+                            <div className="flex items-center gap-3 flex-wrap text-sm">
+                              <span>
+                                <span className="text-muted-foreground">{ing.qty} {ing.unit}:</span>{' '}
+                                <span className="font-semibold">€{ing.offer_cost.toFixed(2)}</span>
+                              </span>
+                              {pricingMode === 'whole_packs' && ing.packs_needed !== undefined && (
+                                <span className="text-muted-foreground">
+                                  {ing.packs_needed} × {ing.offer_pack_size} {ing.offer_unit_base}
+                                  {ing.leftover_qty !== undefined && ing.leftover_qty > 0 && (
+                                    <> · {Number(ing.leftover_qty.toFixed(3))} {ing.offer_unit_base} left over (€{(ing.leftover_cost ?? 0).toFixed(2)})</>
+                                  )}
+                                </span>
+                              )}
+                            </div>
+                          )}
+
                           {ing.has_offer && ing.all_offers && ing.all_offers.length > 0 && (
                             <div className="pt-2 border-t space-y-2">
                               <div className="text-xs font-semibold text-muted-foreground mb-2">
@@ -467,6 +611,11 @@ export default function DishDetail() {
                                                 {offer.source}
                                               </span>
                                             )}
+                                            <DealBadge
+                                              rating={offer.deal_rating}
+                                              typicalPricePerUnit={offer.typical_price_per_unit}
+                                              unit={offer.unit_base}
+                                            />
                                           </div>
                                           {offer.valid_from && offer.valid_to && (
                                             <div className="text-muted-foreground mt-0.5">
@@ -600,6 +749,23 @@ export default function DishDetail() {
                               </div>
                             </div>
                             
+                            {ing.offer_cost !== undefined && (
+                              <div className="flex items-center gap-3 flex-wrap text-sm">
+                                <span>
+                                  <span className="text-muted-foreground">{ing.qty} {ing.unit}:</span>{' '}
+                                  <span className="font-semibold">€{ing.offer_cost.toFixed(2)}</span>
+                                </span>
+                                {pricingMode === 'whole_packs' && ing.packs_needed !== undefined && (
+                                  <span className="text-muted-foreground">
+                                    {ing.packs_needed} × {ing.offer_pack_size} {ing.offer_unit_base}
+                                    {ing.leftover_qty !== undefined && ing.leftover_qty > 0 && (
+                                      <> · {Number(ing.leftover_qty.toFixed(3))} {ing.offer_unit_base} left over (€{(ing.leftover_cost ?? 0).toFixed(2)})</>
+                                    )}
+                                  </span>
+                                )}
+                              </div>
+                            )}
+
                             {ing.has_offer && ing.all_offers && ing.all_offers.length > 0 && (
                               <div className="pt-2 border-t space-y-2">
                                 <div className="text-xs font-semibold text-muted-foreground mb-2">
@@ -625,6 +791,11 @@ export default function DishDetail() {
                                                   {offer.source}
                                                 </span>
                                               )}
+                                              <DealBadge
+                                                rating={offer.deal_rating}
+                                                typicalPricePerUnit={offer.typical_price_per_unit}
+                                                unit={offer.unit_base}
+                                              />
                                             </div>
                                             {offer.valid_from && offer.valid_to && (
                                               <div className="text-muted-foreground mt-0.5">
@@ -671,6 +842,16 @@ export default function DishDetail() {
           </CardContent>
         </Card>
 
+        <div className="mt-6">
+          <PriceHistoryChart ingredients={ingredients} plz={userPLZ} chainId={selectedChainId} />
+        </div>
+
+        {userPLZ && (
+          <div className="mt-6">
+            <NearbyStores plz={userPLZ} ingredients={ingredients} chainId={selectedChainId} />
+          </div>
+        )}
+
         {/* Bottom Banner Ad */}
         <div className="mt-8">
           <AdPlaceholder slot="detail-bottom-banner" format="banner" />
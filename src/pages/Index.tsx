@@ -1,11 +1,16 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { Link, useNavigate, useSearchParams, useLocation } from 'react-router-dom';
 import useAuth from '@/hooks/useAuth';
-import { api, type Dish, type DishFilters } from '@/services/api';
+import { api, type FavoriteLocation, type Allergen, type DietPreference, type Dish, type DishFacets, type DishFilters, type DishSortKey, type PriceBasis, type Season } from '@/services/api';
 import { PLZInput } from '@/components/PLZInput';
-import { DishFilters as DishFiltersComponent } from '@/components/DishFilters';
+import { CoverageIndicator } from '@/components/CoverageIndicator';
+import { LocationSwitcher } from '@/components/LocationSwitcher';
+import { DishFilters as DishFiltersComponent, MAX_PRICE_LIMIT } from '@/components/DishFilters';
 import { DishCard } from '@/components/DishCard';
+import { PlannerDropBar } from '@/components/PlannerDropBar';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   Pagination,
@@ -16,7 +21,7 @@ import {
   PaginationNext,
   PaginationPrevious,
 } from '@/components/ui/pagination';
-import { ShoppingCart, Sparkles, LogOut, ArrowUpDown, Heart, User, ChevronDown, LogIn, Crown } from 'lucide-react';
+import { ShoppingCart, Sparkles, LogOut, ArrowUpDown, Heart, User, ChevronDown, LogIn, Crown, CalendarDays, ListChecks, Search, X, ChefHat } from 'lucide-react';
 import { toast } from 'sonner';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
@@ -29,9 +34,12 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { ThemeToggle } from '@/components/ThemeToggle';
+import { NotificationBell } from '@/components/NotificationBell';
 import { FeedbackDialog } from '@/components/FeedbackDialog';
 import { AdPlaceholder } from '@/components/AdPlaceholder';
 import { getLocalFavorites, addLocalFavorite, removeLocalFavorite, isLocalFavorite } from '@/utils/favorites';
+import { SEASONS, getCurrentSeason } from '@/utils/seasons';
+import { getOfferAsOfDate, parseOfferWeek, type OfferWeek } from '@/utils/offerWeek';
 
 export default function Index() {
   const { userId, loading: authLoading, updatePLZ, signOut, userProfile, isPremium } = useAuth();
@@ -41,15 +49,41 @@ export default function Index() {
   const scrollRestoredRef = useRef(false);
   
   const [dishes, setDishes] = useState<Dish[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
   const [categories, setCategories] = useState<string[]>([]);
   const [chains, setChains] = useState<string[]>([]);
+  const [allergens, setAllergens] = useState<Allergen[]>([]);
   
   const [selectedCategory, setSelectedCategory] = useState(() => searchParams.get('category') || 'all');
   const [selectedChain, setSelectedChain] = useState(() => searchParams.get('chain') || 'all');
+  // Defaults to the current season; 'all' is kept in the URL to turn it off
+  const [selectedSeason, setSelectedSeason] = useState<Season | 'all'>(() => {
+    const season = searchParams.get('season');
+    if (season === 'all' || SEASONS.some((s) => s.value === season)) {
+      return season as Season | 'all';
+    }
+    return getCurrentSeason();
+  });
+  const [selectedCuisine, setSelectedCuisine] = useState(() => searchParams.get('cuisine') || 'all');
+  // Next week prices dishes with the flyers valid from next Monday
+  const [offerWeek, setOfferWeek] = useState<OfferWeek>(() => parseOfferWeek(searchParams.get('week')));
+  const [facets, setFacets] = useState<DishFacets | null>(null);
+  const facetsRequestRef = useRef(0);
+  const dishesRequestRef = useRef(0);
   const [maxPrice, setMaxPrice] = useState(() => parseInt(searchParams.get('maxPrice') || '30', 10));
+  const [priceBasis, setPriceBasis] = useState<PriceBasis>(() => (searchParams.get('priceBasis') as PriceBasis) || 'total');
+  const [liveCount, setLiveCount] = useState<number | null>(null);
+  const liveCountTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const liveCountRequestRef = useRef(0);
+  const [searchQuery, setSearchQuery] = useState(() => searchParams.get('q') || '');
+  const [searchInput, setSearchInput] = useState(searchQuery);
   const [showQuickMeals, setShowQuickMeals] = useState(() => searchParams.get('quickMeals') === 'true');
   const [showMealPrep, setShowMealPrep] = useState(() => searchParams.get('mealPrep') === 'true');
-  const [sortBy, setSortBy] = useState<'savings' | 'name'>(() => (searchParams.get('sortBy') as 'savings' | 'name') || 'savings');
+  const [excludedAllergens, setExcludedAllergens] = useState<string[]>(
+    () => (searchParams.get('allergens') || '').split(',').filter(Boolean)
+  );
+  const [diet, setDiet] = useState<DietPreference | null>(() => (searchParams.get('diet') as DietPreference) || null);
+  const [sortBy, setSortBy] = useState<DishSortKey>(() => (searchParams.get('sortBy') as DishSortKey) || 'savings');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>(() => (searchParams.get('sortDir') as 'asc' | 'desc') || 'desc');
   const [loading, setLoading] = useState(true);
   // Use localStorage for PLZ when not authenticated, otherwise use user's PLZ
@@ -62,17 +96,25 @@ export default function Index() {
     return view || 'all';
   });
   const [favoriteDishIds, setFavoriteDishIds] = useState<string[]>([]);
+  const [favoriteLocations, setFavoriteLocations] = useState<Record<string, FavoriteLocation>>({});
   
   const itemsPerPage = 12;
   const [currentPage, setCurrentPage] = useState(() => parseInt(searchParams.get('page') || '1', 10));
 
-  const updateURLParams = (updates: {
+  const updateURLParams = useCallback((updates: {
     category?: string;
     chain?: string;
+    season?: Season | 'all';
+    cuisine?: string;
+    week?: OfferWeek;
     maxPrice?: number;
+    priceBasis?: PriceBasis;
+    q?: string;
     quickMeals?: boolean;
     mealPrep?: boolean;
-    sortBy?: 'savings' | 'name';
+    allergens?: string[];
+    diet?: DietPreference | null;
+    sortBy?: DishSortKey;
     sortDir?: 'asc' | 'desc';
     view?: 'all' | 'favorites';
     page?: number;
@@ -95,6 +137,30 @@ export default function Index() {
       }
     }
     
+    if (updates.season !== undefined) {
+      if (updates.season === getCurrentSeason()) {
+        newParams.delete('season');
+      } else {
+        newParams.set('season', updates.season);
+      }
+    }
+    
+    if (updates.cuisine !== undefined) {
+      if (updates.cuisine === 'all') {
+        newParams.delete('cuisine');
+      } else {
+        newParams.set('cuisine', updates.cuisine);
+      }
+    }
+    
+    if (updates.week !== undefined) {
+      if (updates.week === 'this') {
+        newParams.delete('week');
+      } else {
+        newParams.set('week', updates.week);
+      }
+    }
+    
     if (updates.maxPrice !== undefined) {
       if (updates.maxPrice === 30) {
         newParams.delete('maxPrice');
@@ -103,6 +169,22 @@ export default function Index() {
       }
     }
     
+    if (updates.priceBasis !== undefined) {
+      if (updates.priceBasis === 'total') {
+        newParams.delete('priceBasis');
+      } else {
+        newParams.set('priceBasis', updates.priceBasis);
+      }
+    }
+    
+    if (updates.q !== undefined) {
+      if (!updates.q) {
+        newParams.delete('q');
+      } else {
+        newParams.set('q', updates.q);
+      }
+    }
+    
     if (updates.quickMeals !== undefined) {
       if (!updates.quickMeals) {
         newParams.delete('quickMeals');
@@ -119,6 +201,22 @@ export default function Index() {
       }
     }
     
+    if (updates.allergens !== undefined) {
+      if (updates.allergens.length === 0) {
+        newParams.delete('allergens');
+      } else {
+        newParams.set('allergens', updates.allergens.join(','));
+      }
+    }
+    
+    if (updates.diet !== undefined) {
+      if (!updates.diet) {
+        newParams.delete('diet');
+      } else {
+        newParams.set('diet', updates.diet);
+      }
+    }
+    
     if (updates.sortBy !== undefined) {
       if (updates.sortBy === 'savings') {
         newParams.delete('sortBy');
@@ -152,7 +250,80 @@ export default function Index() {
     }
     
     setSearchParams(newParams, { replace: true });
-  };
+  }, [searchParams, setSearchParams]);
+
+  const buildFilters = useCallback((favorites: string[], price: number): DishFilters => ({
+    category: selectedCategory !== 'all' ? selectedCategory : undefined,
+    chain: selectedChain !== 'all' ? selectedChain : undefined,
+    season: selectedSeason !== 'all' ? selectedSeason : undefined,
+    cuisine: selectedCuisine !== 'all' ? selectedCuisine : undefined,
+    asOf: getOfferAsOfDate(offerWeek),
+    maxPrice: price < MAX_PRICE_LIMIT ? price : undefined,
+    priceBasis,
+    search: searchQuery || undefined,
+    plz: userPLZ || undefined,
+    isQuick: showQuickMeals ? true : undefined,
+    isMealPrep: showMealPrep ? true : undefined,
+    excludeAllergens: excludedAllergens.length > 0 ? excludedAllergens : undefined,
+    diet: diet || undefined,
+    // Favorites view works for both logged-in and logged-out users
+    dishIds: viewMode === 'favorites' ? favorites : undefined,
+  }), [selectedCategory, selectedChain, selectedSeason, selectedCuisine, offerWeek, priceBasis, searchQuery, userPLZ, showQuickMeals, showMealPrep, excludedAllergens, diet, viewMode]);
+
+  const loadDishes = useCallback(async () => {
+    const requestId = ++dishesRequestRef.current;
+    setLoading(true);
+    try {
+      // Load favorites (from database if logged in, from localStorage if not)
+      let favorites: string[] = [];
+      if (userId) {
+        favorites = await api.getFavorites(userId);
+        setFavoriteDishIds(favorites);
+      } else {
+        favorites = getLocalFavorites();
+        setFavoriteDishIds(favorites);
+      }
+
+      const result = await api.getDishes(buildFilters(favorites, maxPrice), {
+        page: currentPage,
+        pageSize: itemsPerPage,
+        sortBy,
+        sortDir: sortDirection,
+      });
+      // A newer load has started meanwhile
+      if (requestId !== dishesRequestRef.current) return;
+
+      // The requested page no longer exists (e.g. fewer offers than last time)
+      if (currentPage > 1 && result.dishes.length === 0) {
+        setCurrentPage(1);
+        updateURLParams({ page: 1 });
+        return;
+      }
+
+      setDishes(result.dishes.map((dish) => ({
+        ...dish,
+        isFavorite: favorites.includes(dish.dish_id),
+      })));
+      setTotalCount(result.total_count);
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to load dishes. Please refresh the page.');
+    } finally {
+      if (requestId === dishesRequestRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [buildFilters, maxPrice, userId, currentPage, sortBy, sortDirection, updateURLParams]);
+
+  // Facet counts only depend on the filters, not on sorting or the page. loadDishes
+  // sets favoriteDishIds on every load, so the favorites are compared by content.
+  const favoritesKey = viewMode === 'favorites' ? favoriteDishIds.join(',') : '';
+  const loadFacets = useCallback(async () => {
+    const requestId = ++facetsRequestRef.current;
+    const data = await api.getDishFacets(buildFilters(favoritesKey ? favoritesKey.split(',') : [], maxPrice));
+    if (requestId === facetsRequestRef.current) {
+      setFacets(data);
+    }
+  }, [buildFilters, favoritesKey, maxPrice]);
 
   useEffect(() => {
     if (userId) {
@@ -160,10 +331,10 @@ export default function Index() {
     }
   }, [userId]);
 
-  // Load filter options whenever PLZ changes (works with or without auth)
+  // Load filter options whenever PLZ or offer week changes (works with or without auth)
   useEffect(() => {
     loadFilterOptions();
-  }, [userPLZ]);
+  }, [userPLZ, offerWeek]);
 
   // Load favorites (from database if logged in, from localStorage if not)
   useEffect(() => {
@@ -185,10 +356,26 @@ export default function Index() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [searchParams]);
 
+  // Apply the search once the user stops typing
+  useEffect(() => {
+    const query = searchInput.trim();
+    if (query === searchQuery) return;
+    const timeoutId = setTimeout(() => {
+      setSearchQuery(query);
+      setCurrentPage(1);
+      updateURLParams({ q: query, page: 1 });
+    }, 300);
+    return () => clearTimeout(timeoutId);
+  }, [searchInput, searchQuery, updateURLParams]);
+
   // Load dishes whenever filters change (works with or without auth)
   useEffect(() => {
     loadDishes();
-  }, [selectedCategory, selectedChain, maxPrice, userPLZ, showQuickMeals, showMealPrep, viewMode, userId]);
+  }, [loadDishes]);
+
+  useEffect(() => {
+    loadFacets();
+  }, [loadFacets]);
 
   // Restore scroll position when returning from dish detail
   useEffect(() => {
@@ -273,18 +460,31 @@ export default function Index() {
       if (plz) {
         setUserPLZ(plz);
       }
+
+      // Saved diet and allergen preferences apply unless the URL sets its own
+      if (!searchParams.has('allergens') && !searchParams.has('diet')) {
+        const preferences = await api.getDietaryPreferences(userId);
+        if (preferences && (preferences.excluded_allergens.length > 0 || preferences.diet)) {
+          setExcludedAllergens(preferences.excluded_allergens);
+          setDiet(preferences.diet);
+          setCurrentPage(1);
+          updateURLParams({ allergens: preferences.excluded_allergens, diet: preferences.diet, page: 1 });
+        }
+      }
     } catch (error) {
     }
   };
 
   const loadFilterOptions = async () => {
     try {
-      const [categoriesData, chainsData] = await Promise.all([
+      const [categoriesData, chainsData, allergensData] = await Promise.all([
         api.getCategories(),
-        api.getChains(userPLZ || undefined), // Pass PLZ to filter chains by region
+        api.getChains(userPLZ || undefined, getOfferAsOfDate(offerWeek)), // Pass PLZ to filter chains by region
+        api.getAllergens(),
       ]);
 
       setCategories(categoriesData);
+      setAllergens(allergensData);
       setChains(chainsData.map((c) => c.chain_name));
       
       if (selectedChain !== 'all' && chainsData.length > 0) {
@@ -300,103 +500,37 @@ export default function Index() {
   const loadFavorites = async () => {
     if (!userId) return;
     try {
-      const favorites = await api.getFavorites(userId);
+      const [favorites, locations] = await Promise.all([
+        api.getFavorites(userId),
+        api.getFavoriteLocations(userId),
+      ]);
       setFavoriteDishIds(favorites);
+      setFavoriteLocations(Object.fromEntries(locations.map((location) => [location.dish_id, location])));
     } catch (error) {
     }
   };
 
-  const loadDishes = async () => {
-    setLoading(true);
-    try {
-      const filters: DishFilters = {
-        category: selectedCategory !== 'all' ? selectedCategory : undefined,
-        chain: selectedChain !== 'all' ? selectedChain : undefined,
-        maxPrice,
-        plz: userPLZ || undefined,
-        isQuick: showQuickMeals ? true : undefined,
-        isMealPrep: showMealPrep ? true : undefined,
-      };
-
-      let dishesData = await api.getDishes(filters, 10000); 
-
-      // Load favorites (from database if logged in, from localStorage if not)
-      let favorites: string[] = [];
-      if (userId) {
-        favorites = await api.getFavorites(userId);
-        setFavoriteDishIds(favorites);
-      } else {
-        favorites = getLocalFavorites();
-        setFavoriteDishIds(favorites);
-      }
-
-      // Filter by favorites view if enabled (works for both logged-in and logged-out users)
-      if (viewMode === 'favorites') {
-        dishesData = dishesData.filter((dish) => favorites.includes(dish.dish_id));
-      }
-
-      const dishesWithFavorites: Dish[] = dishesData.map((dish) => ({
-        ...dish,
-        isFavorite: favorites.includes(dish.dish_id),
-      }));
-
-      const sortedDishes = sortDishes(dishesWithFavorites, sortBy, sortDirection);
-
-      setDishes(sortedDishes);
-      
-      if (currentPage > 1) {
-        const totalPages = Math.ceil(sortedDishes.length / itemsPerPage);
-        if (currentPage > totalPages) {
-          setCurrentPage(1);
-          updateURLParams({ page: 1 });
-        }
-      }
-    } catch (error: any) {
-      toast.error(error?.message || 'Failed to load dishes. Please refresh the page.');
-    } finally {
-      setLoading(false);
-    }
-  };
-
-      const sortDishes = (dishes: Dish[], sort: typeof sortBy, direction: 'asc' | 'desc'): Dish[] => {
-    const sorted = [...dishes];
-    switch (sort) {
-      case 'savings':
-        if (direction === 'desc') {
-          return sorted.sort((a, b) => (b.totalAggregatedSavings || 0) - (a.totalAggregatedSavings || 0));
-        } else {
-          return sorted.sort((a, b) => (a.totalAggregatedSavings || 0) - (b.totalAggregatedSavings || 0));
-        }
-      case 'name':
-        if (direction === 'asc') {
-          return sorted.sort((a, b) => a.name.localeCompare(b.name));
-        } else {
-          return sorted.sort((a, b) => b.name.localeCompare(a.name));
-        }
-      default:
-        return sorted;
-    }
-  };
-
-  const handleSortChange = (value: typeof sortBy) => {
-    const newDirection = value === 'savings' ? 'desc' : 'asc';
+  const handleSortChange = (value: DishSortKey) => {
+    const newDirection = value === 'savings' || value === 'offers' ? 'desc' : 'asc';
     setSortBy(value);
     setSortDirection(newDirection);
-    updateURLParams({ sortBy: value, sortDir: newDirection });
-    setDishes((currentDishes) => sortDishes([...currentDishes], value, newDirection));
+    setCurrentPage(1);
+    updateURLParams({ sortBy: value, sortDir: newDirection, page: 1 });
   };
 
   const handleSortDirectionToggle = () => {
     const newDirection = sortDirection === 'asc' ? 'desc' : 'asc';
     setSortDirection(newDirection);
-    updateURLParams({ sortDir: newDirection });
-    setDishes((currentDishes) => sortDishes([...currentDishes], sortBy, newDirection));
+    setCurrentPage(1);
+    updateURLParams({ sortDir: newDirection, page: 1 });
   };
 
   const handlePLZChange = async (plz: string) => {
     const isValid = await api.validatePLZ(plz);
     if (!isValid) {
-      throw new Error('Postal code not found. Please enter a valid postal code that exists in our database.');
+      // Not a PLZ we know: explain and offer the waitlist instead of an error
+      navigate(`/coverage?plz=${plz}`);
+      return false;
     }
 
     try {
@@ -423,7 +557,7 @@ export default function Index() {
           await api.removeFavorite(userId, dishId);
           toast.success('Removed from favorites');
         } else {
-          await api.addFavorite(userId, dishId);
+          await api.addFavorite(userId, dishId, userPLZ);
           toast.success('Added to favorites');
         }
         
@@ -488,12 +622,58 @@ export default function Index() {
     updateURLParams({ chain, page: 1 });
   };
 
+  const handleSeasonChange = (season: Season | 'all') => {
+    setSelectedSeason(season);
+    setCurrentPage(1);
+    updateURLParams({ season, page: 1 });
+  };
+
+  const handleCuisineChange = (cuisine: string) => {
+    setSelectedCuisine(cuisine);
+    setCurrentPage(1);
+    updateURLParams({ cuisine, page: 1 });
+  };
+
+  const handleOfferWeekChange = (week: OfferWeek) => {
+    setOfferWeek(week);
+    setCurrentPage(1);
+    updateURLParams({ week, page: 1 });
+  };
+
   const handleMaxPriceChange = (price: number) => {
+    if (liveCountTimerRef.current) {
+      clearTimeout(liveCountTimerRef.current);
+    }
+    liveCountRequestRef.current++;
+    setLiveCount(null);
     setMaxPrice(price);
     setCurrentPage(1);
     updateURLParams({ maxPrice: price, page: 1 });
   };
 
+  // Count matching dishes while the slider is dragged (debounced, stale responses ignored)
+  const handleMaxPriceDrag = (price: number) => {
+    if (liveCountTimerRef.current) {
+      clearTimeout(liveCountTimerRef.current);
+    }
+    liveCountTimerRef.current = setTimeout(async () => {
+      const requestId = ++liveCountRequestRef.current;
+      try {
+        const count = await api.countDishes(buildFilters(favoriteDishIds, price));
+        if (requestId === liveCountRequestRef.current) {
+          setLiveCount(count);
+        }
+      } catch (error) {
+      }
+    }, 200);
+  };
+
+  const handlePriceBasisChange = (basis: PriceBasis) => {
+    setPriceBasis(basis);
+    setCurrentPage(1);
+    updateURLParams({ priceBasis: basis, page: 1 });
+  };
+
   const handleQuickMealsChange = (show: boolean) => {
     setShowQuickMeals(show);
     setCurrentPage(1);
@@ -506,16 +686,36 @@ export default function Index() {
     updateURLParams({ mealPrep: show, page: 1 });
   };
 
+  // Logged-in users keep their diet and allergen choices as defaults
+  const saveDietaryPreferences = (nextAllergens: string[], nextDiet: DietPreference | null) => {
+    if (!userId) return;
+    api.updateDietaryPreferences(userId, { excluded_allergens: nextAllergens, diet: nextDiet }).catch((error) => {
+      toast.error(error?.message || 'Failed to save dietary preferences');
+    });
+  };
+
+  const handleExcludedAllergensChange = (tags: string[]) => {
+    setExcludedAllergens(tags);
+    setCurrentPage(1);
+    updateURLParams({ allergens: tags, page: 1 });
+    saveDietaryPreferences(tags, diet);
+  };
+
+  const handleDietChange = (value: DietPreference | null) => {
+    setDiet(value);
+    setCurrentPage(1);
+    updateURLParams({ diet: value, page: 1 });
+    saveDietaryPreferences(excludedAllergens, value);
+  };
+
   const handleViewModeChange = (mode: 'all' | 'favorites') => {
     setViewMode(mode);
     setCurrentPage(1);
     updateURLParams({ view: mode, page: 1 });
   };
 
-  const totalPages = Math.ceil(dishes.length / itemsPerPage);
-  const startIndex = (currentPage - 1) * itemsPerPage;
-  const endIndex = startIndex + itemsPerPage;
-  const paginatedDishes = dishes.slice(startIndex, endIndex);
+  const totalPages = Math.ceil(totalCount / itemsPerPage);
+  const paginatedDishes = dishes;
 
   const handlePageChange = (page: number) => {
     setCurrentPage(page);
@@ -609,7 +809,9 @@ export default function Index() {
               <h1 className="text-2xl font-bold">ThriftyWe</h1>
             </div>
             <div className="flex items-center gap-2">
+              <LocationSwitcher userId={userId} currentPLZ={userPLZ} onPLZChange={handlePLZChange} />
               <ThemeToggle />
+              {userId && <NotificationBell userId={userId} />}
               {userId ? (
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
@@ -655,6 +857,13 @@ export default function Index() {
                       </div>
                     </DropdownMenuLabel>
                     <DropdownMenuSeparator />
+                    <DropdownMenuItem 
+                      onClick={() => navigate('/planner')} 
+                      className="cursor-pointer"
+                    >
+                      <CalendarDays className="mr-2 h-4 w-4" />
+                      <span>Meal Planner</span>
+                    </DropdownMenuItem>
                     {isPremium ? (
                       <DropdownMenuItem 
                         onClick={() => navigate('/premium/status')} 
@@ -708,7 +917,31 @@ export default function Index() {
             <div className="max-w-md mx-auto">
               <PLZInput onPLZChange={handlePLZChange} currentPLZ={userPLZ} />
             </div>
-            {userPLZ && <p className="text-sm text-muted-foreground">Showing deals for PLZ {userPLZ}</p>}
+            {userPLZ && (
+              <div className="flex flex-wrap items-center justify-center gap-x-3 gap-y-1">
+                <p className="text-sm text-muted-foreground">Showing deals for PLZ {userPLZ}</p>
+                <CoverageIndicator plz={userPLZ} />
+              </div>
+            )}
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              value={offerWeek}
+              onValueChange={(value) => value && handleOfferWeekChange(value as OfferWeek)}
+              aria-label="Offer week"
+            >
+              <ToggleGroupItem value="this">This week</ToggleGroupItem>
+              <ToggleGroupItem value="next">Next week</ToggleGroupItem>
+            </ToggleGroup>
+            {offerWeek === 'next' && (
+              <p className="text-xs text-muted-foreground">
+                Prices use offers valid on {new Date(getOfferAsOfDate('next')!).toLocaleDateString('de-DE')}
+              </p>
+            )}
+            <Button variant="outline" onClick={() => navigate('/cook-with')}>
+              <ChefHat className="mr-2 h-4 w-4" />
+              What can I cook with what's on sale?
+            </Button>
           </div>
         </div>
       </section>
@@ -727,14 +960,28 @@ export default function Index() {
                 chains={chains}
                 selectedCategory={selectedCategory}
                 selectedChain={selectedChain}
+                selectedSeason={selectedSeason}
+                selectedCuisine={selectedCuisine}
+                facets={facets}
                 maxPrice={maxPrice}
+                priceBasis={priceBasis}
+                matchCount={liveCount}
                 showQuickMeals={showQuickMeals}
                 showMealPrep={showMealPrep}
+                allergens={allergens}
+                excludedAllergens={excludedAllergens}
+                diet={diet}
                 onCategoryChange={handleCategoryChange}
                 onChainChange={handleChainChange}
+                onSeasonChange={handleSeasonChange}
+                onCuisineChange={handleCuisineChange}
                 onMaxPriceChange={handleMaxPriceChange}
+                onMaxPriceDrag={handleMaxPriceDrag}
+                onPriceBasisChange={handlePriceBasisChange}
                 onQuickMealsChange={handleQuickMealsChange}
                 onMealPrepChange={handleMealPrepChange}
+                onExcludedAllergensChange={handleExcludedAllergensChange}
+                onDietChange={handleDietChange}
               />
               {/* Sidebar Ad */}
               <AdPlaceholder slot="sidebar" format="sidebar" className="hidden lg:block" />
@@ -748,8 +995,32 @@ export default function Index() {
               {/* Pagination at top - sticky (both mobile and desktop) */}
               <div className="sticky top-[73px] z-10 bg-background/95 backdrop-blur-sm border-b pb-4 mb-6 -mx-4 px-4">
                 {renderPagination()}
+                {userId && <PlannerDropBar userId={userId} userPLZ={userPLZ} />}
               </div>
               
+              <div className="relative mb-4">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  type="search"
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  placeholder="Search dishes or ingredients, e.g. Käse, Lasagne..."
+                  className="pl-9 pr-9"
+                  aria-label="Search dishes"
+                />
+                {searchInput && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="absolute right-1 top-1/2 -translate-y-1/2 h-7 w-7"
+                    onClick={() => setSearchInput('')}
+                    title="Clear search"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+
               <div className="mb-6 flex items-center justify-between flex-wrap gap-4">
                 <div className="flex-1">
                   <TabsList className="mb-4">
@@ -769,12 +1040,23 @@ export default function Index() {
                   </TabsList>
                   <p className="text-muted-foreground">
                     {viewMode === 'favorites' 
-                      ? `${dishes.length} ${dishes.length === 1 ? 'favorite dish' : 'favorite dishes'}`
-                      : `${dishes.length} ${dishes.length === 1 ? 'dish' : 'dishes'} found`}
+                      ? `${totalCount} ${totalCount === 1 ? 'favorite dish' : 'favorite dishes'}`
+                      : `${totalCount} ${totalCount === 1 ? 'dish' : 'dishes'} found`}
+                    {searchQuery && ` matching "${searchQuery}"`}
                     {userPLZ && ` for PLZ ${userPLZ}`}
                   </p>
                 </div>
                 <div className="flex items-center gap-2">
+                  {viewMode === 'favorites' && favoriteDishIds.length > 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => navigate('/shopping-list?source=favorites')}
+                    >
+                      <ListChecks className="mr-2 h-4 w-4" />
+                      Shopping List
+                    </Button>
+                  )}
                   <Button
                     variant="ghost"
                     size="icon"
@@ -791,6 +1073,8 @@ export default function Index() {
                     <SelectContent>
                       <SelectItem value="savings">Savings</SelectItem>
                       <SelectItem value="name">Name</SelectItem>
+                      <SelectItem value="price">Price</SelectItem>
+                      <SelectItem value="offers">Offers</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -804,6 +1088,7 @@ export default function Index() {
                         key={dish.dish_id}
                         dish={dish} 
                         onFavorite={handleFavorite} 
+                        draggable={!!userId}
                       />
                     ))}
                   </div>
@@ -837,13 +1122,32 @@ export default function Index() {
               <TabsContent value="favorites" className="mt-0">
                 <div className="space-y-4">
                   <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4">
-                    {paginatedDishes.map((dish) => (
-                      <DishCard 
-                        key={dish.dish_id}
-                        dish={dish} 
-                        onFavorite={handleFavorite} 
-                      />
-                    ))}
+                    {paginatedDishes.map((dish) => {
+                      const savedFor = favoriteLocations[dish.dish_id];
+                      // Favorites saved for another location are priced here for the current PLZ
+                      return (
+                        <div key={dish.dish_id} className="space-y-1">
+                          <DishCard 
+                            dish={dish} 
+                            onFavorite={handleFavorite} 
+                            draggable={!!userId}
+                          />
+                          {savedFor?.plz && savedFor.plz !== userPLZ && (
+                            <p className="px-1 text-xs text-muted-foreground">
+                              Saved for {savedFor.location_name ? `${savedFor.location_name} (${savedFor.plz})` : `PLZ ${savedFor.plz}`}
+                              {' · '}
+                              <button
+                                type="button"
+                                className="text-primary hover:underline"
+                                onClick={() => handlePLZChange(savedFor.plz!).catch((error) => toast.error(error?.message))}
+                              >
+                                Show prices there
+                              </button>
+                            </p>
+                          )}
+                        </div>
+                      );
+                    })}
                   </div>
                   {/* Inline Ads - every 6 dishes */}
                   {Array.from({ length: Math.ceil(paginatedDishes.length / 6) }, (_, i) => i + 1).map((adIndex) => (
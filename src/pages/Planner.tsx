@@ -0,0 +1,412 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { addDays, addWeeks, format, startOfISOWeek } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { api, type Plan, type PlanItem } from '@/services/api';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  ArrowLeft,
+  CalendarDays,
+  ChevronLeft,
+  ChevronRight,
+  Lock,
+  LockOpen,
+  Minus,
+  Plus,
+  RefreshCw,
+  ShoppingCart,
+  X,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { ThemeToggle } from '@/components/ThemeToggle';
+import { PLAN_DAY_COUNT, toPlanWeekIso, toPlanWeekStartDate } from '@/utils/planWeek';
+
+export default function Planner() {
+  const { userId } = useAuth();
+  const navigate = useNavigate();
+  const [weekStart, setWeekStart] = useState(() => startOfISOWeek(new Date()));
+  const [plan, setPlan] = useState<Plan | null>(null);
+  const [userPLZ, setUserPLZ] = useState<string>(() => {
+    const storedPLZ = localStorage.getItem('guestPLZ');
+    return storedPLZ || '30165';
+  });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dragOverDay, setDragOverDay] = useState<number | null>(null);
+
+  const isLocked = plan?.status === 'locked';
+
+  useEffect(() => {
+    if (userId) {
+      api.getUserPLZ(userId).then((plz) => {
+        if (plz) {
+          setUserPLZ(plz);
+        }
+      });
+    }
+  }, [userId]);
+
+  // Prices are stored with the plan (plan_item_prices), so viewing it does not
+  // re-price; draft plans are re-priced when their items change or on refresh
+  const loadPlan = useCallback(async () => {
+    if (!userId) return;
+    setLoading(true);
+    try {
+      const planData = await api.getPlan(userId, toPlanWeekStartDate(weekStart));
+      setPlan(planData);
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to load meal plan');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, weekStart]);
+
+  useEffect(() => {
+    loadPlan();
+  }, [loadPlan]);
+
+  // Plans are priced for the PLZ they were created for (see plans.plz)
+  const refreshPrices = async (planId: string, plz = plan?.plz || userPLZ) => {
+    if (!userId) return;
+    try {
+      await api.calculatePlanPrices(planId, plz);
+      const planData = await api.getPlan(userId, toPlanWeekStartDate(weekStart));
+      setPlan(planData);
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to calculate plan prices');
+    }
+  };
+
+  const handleRefreshPrices = async () => {
+    if (!plan) return;
+    setSaving(true);
+    await refreshPrices(plan.plan_id);
+    setSaving(false);
+  };
+
+  // Dishes are added by dragging them from the dish grid (see PlannerDropBar);
+  // here planned dishes are moved to another day
+  const handleDrop = async (e: React.DragEvent, dayOfWeek: number) => {
+    e.preventDefault();
+    setDragOverDay(null);
+    const planItemId = e.dataTransfer.getData('application/x-plan-item-id');
+    if (isLocked || !planItemId) return;
+
+    setSaving(true);
+    try {
+      await api.updatePlanItem(planItemId, { day_of_week: dayOfWeek });
+      setPlan((current) => current && {
+        ...current,
+        items: current.items.map((item) =>
+          item.plan_item_id === planItemId ? { ...item, day_of_week: dayOfWeek } : item
+        ),
+      });
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to update plan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleServingsChange = async (item: PlanItem, servings: number) => {
+    if (servings < 1 || isLocked) return;
+    try {
+      await api.updatePlanItem(item.plan_item_id, { servings });
+      setPlan((current) => current && {
+        ...current,
+        items: current.items.map((i) =>
+          i.plan_item_id === item.plan_item_id ? { ...i, servings } : i
+        ),
+      });
+      refreshPrices(item.plan_id);
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to update servings');
+    }
+  };
+
+  const handleRemove = async (item: PlanItem) => {
+    if (isLocked) return;
+    try {
+      await api.removePlanItem(item.plan_item_id);
+      setPlan((current) => current && {
+        ...current,
+        items: current.items.filter((i) => i.plan_item_id !== item.plan_item_id),
+      });
+      refreshPrices(item.plan_id);
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to remove dish');
+    }
+  };
+
+  const handleToggleLock = async () => {
+    if (!plan) return;
+    setSaving(true);
+    try {
+      if (isLocked) {
+        await api.unlockPlan(plan.plan_id);
+        // Unlocking drops the frozen prices, so the draft is priced again
+        await refreshPrices(plan.plan_id);
+        toast.success('Plan unlocked');
+      } else {
+        await api.lockPlan(plan.plan_id, plan.plz || userPLZ);
+        await loadPlan();
+        toast.success('Plan locked - this week\'s offer prices are frozen');
+      }
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to update plan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUseCurrentPLZ = async () => {
+    if (!plan) return;
+    setSaving(true);
+    try {
+      await api.updatePlanPLZ(plan.plan_id, userPLZ);
+      await refreshPrices(plan.plan_id, userPLZ);
+      toast.success(`Plan is now priced for PLZ ${userPLZ}`);
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to update plan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const weekEnd = addDays(weekStart, PLAN_DAY_COUNT - 1);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card/50 backdrop-blur sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+              <div className="flex items-center gap-2">
+                <CalendarDays className="h-6 w-6 text-primary" />
+                <h1 className="text-2xl font-bold">Meal Planner</h1>
+              </div>
+            </div>
+            <ThemeToggle />
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="mb-6 flex items-center justify-between flex-wrap gap-4">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => setWeekStart(addWeeks(weekStart, -1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <div className="text-center min-w-[200px]">
+              <p className="font-semibold">{toPlanWeekIso(weekStart)}</p>
+              <p className="text-sm text-muted-foreground">
+                {format(weekStart, 'dd.MM.')} - {format(weekEnd, 'dd.MM.yyyy')}
+              </p>
+            </div>
+            <Button variant="outline" size="icon" onClick={() => setWeekStart(addWeeks(weekStart, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              onClick={() => navigate(`/shopping-list?plan=${plan!.plan_id}`)}
+              disabled={!plan || plan.items.length === 0}
+            >
+              <ShoppingCart className="mr-2 h-4 w-4" />
+              Shopping List
+            </Button>
+            {!isLocked && (
+              <Button
+                variant="outline"
+                onClick={handleRefreshPrices}
+                disabled={!plan || plan.items.length === 0 || saving}
+                title="Re-price the plan with today's offers"
+              >
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Refresh Prices
+              </Button>
+            )}
+            {isLocked && plan?.locked_at && (
+              <Badge variant="outline">
+                Prices frozen {new Date(plan.locked_at).toLocaleDateString('de-DE')}
+              </Badge>
+            )}
+            <Button
+              variant={isLocked ? 'outline' : 'default'}
+              onClick={handleToggleLock}
+              disabled={!plan || plan.items.length === 0 || saving}
+            >
+              {isLocked ? <LockOpen className="mr-2 h-4 w-4" /> : <Lock className="mr-2 h-4 w-4" />}
+              {isLocked ? 'Unlock Plan' : 'Lock Plan'}
+            </Button>
+          </div>
+        </div>
+
+        {!loading && plan?.plz && (
+          <p className="mb-4 text-sm text-muted-foreground">
+            Priced for {plan.location_name ? `${plan.location_name} (${plan.plz})` : `PLZ ${plan.plz}`}
+            {!isLocked && plan.plz !== userPLZ && (
+              <>
+                {' · '}
+                <button
+                  type="button"
+                  className="text-primary hover:underline disabled:opacity-50"
+                  onClick={handleUseCurrentPLZ}
+                  disabled={saving}
+                >
+                  Price for PLZ {userPLZ} instead
+                </button>
+              </>
+            )}
+          </p>
+        )}
+
+        {!loading && plan?.totals && plan.items.length > 0 && (
+          <Card className="mb-6">
+            <CardContent className="pt-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <p className="text-sm text-muted-foreground">Week total</p>
+                  <p className="text-2xl font-bold">€{Number(plan.totals.total_offer).toFixed(2)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Regular price</p>
+                  <p className="text-2xl font-bold text-muted-foreground">€{Number(plan.totals.total_baseline).toFixed(2)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">You save</p>
+                  <p className="text-2xl font-bold text-green-600 dark:text-green-400">
+                    €{Number(plan.totals.total_savings_abs).toFixed(2)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Savings</p>
+                  <p className="text-2xl font-bold text-green-600 dark:text-green-400">
+                    {Number(plan.totals.total_savings_pct).toFixed(0)}%
+                  </p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-7 gap-2 mb-8">
+            {Array.from({ length: PLAN_DAY_COUNT }, (_, day) => {
+              const dayItems = (plan?.items || []).filter((item) => item.day_of_week === day);
+              return (
+                <Card
+                  key={day}
+                  className={cn(
+                    'min-h-[180px] transition-colors',
+                    dragOverDay === day && !isLocked && 'border-primary bg-primary/5'
+                  )}
+                  onDragOver={(e) => {
+                    if (isLocked) return;
+                    e.preventDefault();
+                    setDragOverDay(day);
+                  }}
+                  onDragLeave={() => setDragOverDay(null)}
+                  onDrop={(e) => handleDrop(e, day)}
+                >
+                  <CardHeader className="p-3 pb-2">
+                    <CardTitle className="text-sm">
+                      {format(addDays(weekStart, day), 'EEE dd.MM.')}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="p-3 pt-0 space-y-2">
+                    {dayItems.map((item) => (
+                      <div
+                        key={item.plan_item_id}
+                        className={cn(
+                          'p-2 rounded-md border bg-card text-xs space-y-1',
+                          !isLocked && 'cursor-grab active:cursor-grabbing'
+                        )}
+                        draggable={!isLocked}
+                        onDragStart={(e) => {
+                          e.dataTransfer.setData('application/x-plan-item-id', item.plan_item_id);
+                          e.dataTransfer.effectAllowed = 'move';
+                        }}
+                      >
+                        <div className="flex items-start justify-between gap-1">
+                          <span className="font-medium line-clamp-2">{item.dish_name || item.dish_id}</span>
+                          {!isLocked && (
+                            <button
+                              type="button"
+                              onClick={() => handleRemove(item)}
+                              className="text-muted-foreground hover:text-destructive shrink-0"
+                              title="Remove from plan"
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-1 text-muted-foreground">
+                          {!isLocked && (
+                            <button
+                              type="button"
+                              onClick={() => handleServingsChange(item, item.servings - 1)}
+                              disabled={item.servings <= 1}
+                              className="hover:text-foreground disabled:opacity-50"
+                            >
+                              <Minus className="h-3 w-3" />
+                            </button>
+                          )}
+                          <span>{item.servings} {item.servings === 1 ? 'serving' : 'servings'}</span>
+                          {!isLocked && (
+                            <button
+                              type="button"
+                              onClick={() => handleServingsChange(item, item.servings + 1)}
+                              className="hover:text-foreground"
+                            >
+                              <Plus className="h-3 w-3" />
+                            </button>
+                          )}
+                        </div>
+                        {item.offer_total !== undefined && (
+                          <div className="font-semibold">
+                            €{item.offer_total.toFixed(2)}
+                            {item.baseline_total !== undefined && item.baseline_total > item.offer_total && (
+                              <span className="ml-1 font-normal text-muted-foreground line-through">
+                                €{item.baseline_total.toFixed(2)}
+                              </span>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                    {dayItems.length === 0 && (
+                      <p className="text-xs text-muted-foreground italic">Nothing planned</p>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        {!isLocked && (
+          <div className="flex items-center justify-between gap-4 flex-wrap rounded-lg border border-dashed p-4">
+            <p className="text-sm text-muted-foreground">
+              Add dishes by dragging them from the dish list onto a day of the meal plan bar
+            </p>
+            <Button variant="outline" onClick={() => navigate('/')}>
+              Browse Dishes
+            </Button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { api, type ShoppingList as ShoppingListData } from '@/services/api';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, ListChecks, Copy, FileText, FileSpreadsheet, Printer } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { ThemeToggle } from '@/components/ThemeToggle';
+import { StoreSplitCard } from '@/components/StoreSplitCard';
+import { getLocalFavorites } from '@/utils/favorites';
+import {
+  downloadTextFile,
+  formatQuantity,
+  getGroupLabel,
+  shoppingListToCSV,
+  shoppingListToText,
+} from '@/utils/shoppingList';
+
+export default function ShoppingList() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { userId, loading: authLoading } = useAuth();
+  const planId = searchParams.get('plan');
+  const [list, setList] = useState<ShoppingListData | null>(null);
+  const [listDishes, setListDishes] = useState<{ dish_id: string; servings?: number }[]>([]);
+  const [title, setTitle] = useState('Shopping List');
+  const [userPLZ, setUserPLZ] = useState<string>(() => {
+    const storedPLZ = localStorage.getItem('guestPLZ');
+    return storedPLZ || '30165';
+  });
+  // A plan's list is priced for the plan's PLZ, not the one currently in use
+  const [listPLZ, setListPLZ] = useState<{ plz: string; name?: string | null } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (userId) {
+      api.getUserPLZ(userId).then((plz) => {
+        if (plz) {
+          setUserPLZ(plz);
+        }
+      });
+    }
+  }, [userId]);
+
+  const loadShoppingList = useCallback(async () => {
+    setLoading(true);
+    try {
+      let dishes: { dish_id: string; servings?: number }[] = [];
+      let pricedFor: { plz: string; name?: string | null } = { plz: userPLZ };
+
+      if (planId) {
+        if (!userId) {
+          toast.error('Please sign in to see the shopping list of your plan');
+          setList(null);
+          return;
+        }
+        const plan = await api.getPlanById(planId);
+        if (!plan) {
+          toast.error('Meal plan not found');
+          setList(null);
+          return;
+        }
+        dishes = plan.items.map((item) => ({ dish_id: item.dish_id, servings: item.servings }));
+        setTitle(`Shopping List ${plan.week_iso || plan.week_start_date}`);
+        if (plan.plz) {
+          pricedFor = { plz: plan.plz, name: plan.location_name };
+        }
+      } else {
+        const favorites = userId ? await api.getFavorites(userId) : getLocalFavorites();
+        dishes = favorites.map((dishId) => ({ dish_id: dishId }));
+        setTitle('Shopping List - Favorites');
+      }
+
+      const listData = await api.getShoppingList(dishes, pricedFor.plz);
+      setList(listData);
+      setListPLZ(pricedFor);
+      setListDishes(dishes);
+      setChecked(new Set());
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to create shopping list');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, planId, userPLZ]);
+
+  useEffect(() => {
+    if (!authLoading) {
+      loadShoppingList();
+    }
+  }, [authLoading, loadShoppingList]);
+
+  const toggleItem = (key: string) => {
+    setChecked((current) => {
+      const next = new Set(current);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleCopy = async () => {
+    if (!list) return;
+    try {
+      await navigator.clipboard.writeText(shoppingListToText(list));
+      toast.success('Shopping list copied to clipboard');
+    } catch (error) {
+      toast.error('Failed to copy shopping list');
+    }
+  };
+
+  const handleDownloadText = () => {
+    if (!list) return;
+    downloadTextFile(shoppingListToText(list), 'shopping-list.txt');
+  };
+
+  const handleDownloadCSV = () => {
+    if (!list) return;
+    downloadTextFile(shoppingListToCSV(list), 'shopping-list.csv', 'text/csv');
+  };
+
+  const isEmpty = !list || list.item_count === 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card/50 backdrop-blur sticky top-0 z-10 print:hidden">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" size="icon" onClick={() => navigate(planId ? '/planner' : '/')}>
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+              <div className="flex items-center gap-2">
+                <ListChecks className="h-6 w-6 text-primary" />
+                <h1 className="text-2xl font-bold">Shopping List</h1>
+              </div>
+            </div>
+            <ThemeToggle />
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-3xl print:py-0">
+        <div className="mb-6 flex items-center justify-between flex-wrap gap-4">
+          <div>
+            <h2 className="text-xl font-semibold">{title}</h2>
+            <p className="text-sm text-muted-foreground">
+              Cheapest current offers
+              {listPLZ?.plz && (listPLZ.name ? ` for ${listPLZ.name} (${listPLZ.plz})` : ` for PLZ ${listPLZ.plz}`)}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 flex-wrap print:hidden">
+            <Button variant="outline" size="sm" onClick={handleCopy} disabled={isEmpty}>
+              <Copy className="mr-2 h-4 w-4" />
+              Copy
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleDownloadText} disabled={isEmpty}>
+              <FileText className="mr-2 h-4 w-4" />
+              Text
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleDownloadCSV} disabled={isEmpty}>
+              <FileSpreadsheet className="mr-2 h-4 w-4" />
+              CSV
+            </Button>
+            <Button size="sm" onClick={() => window.print()} disabled={isEmpty}>
+              <Printer className="mr-2 h-4 w-4" />
+              Print
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+          </div>
+        ) : isEmpty ? (
+          <p className="text-muted-foreground text-center py-12">
+            {planId ? 'Your plan has no dishes yet.' : 'Add some favorites to build a shopping list.'}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {list.groups.map((group) => (
+              <Card key={group.chain_id || 'no-offer'} className="print:shadow-none print:border-0">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-lg flex items-center justify-between">
+                    <span>{getGroupLabel(group.chain_name)}</span>
+                    {group.estimated_total > 0 && (
+                      <span className="text-base font-semibold">ca. €{group.estimated_total.toFixed(2)}</span>
+                    )}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {group.items.map((item) => {
+                    const key = `${item.ingredient_id}-${item.unit}`;
+                    const isChecked = checked.has(key);
+                    return (
+                      <div key={key} className="flex items-start gap-3">
+                        <Checkbox
+                          id={key}
+                          checked={isChecked}
+                          onCheckedChange={() => toggleItem(key)}
+                          className="mt-1"
+                        />
+                        <label htmlFor={key} className="flex-1 cursor-pointer">
+                          <div className={cn('flex items-center justify-between gap-2', isChecked && 'line-through text-muted-foreground')}>
+                            <span>
+                              <span className="font-medium">{formatQuantity(item.qty, item.unit)}</span>{' '}
+                              {item.ingredient_name}
+                              {item.optional && (
+                                <Badge variant="outline" className="ml-2 text-xs">optional</Badge>
+                              )}
+                            </span>
+                            {item.estimated_cost !== undefined && (
+                              <span className="text-sm whitespace-nowrap">€{item.estimated_cost.toFixed(2)}</span>
+                            )}
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            {item.offer && `€${Number(item.offer.price_total).toFixed(2)} / ${item.offer.pack_size} ${item.offer.unit_base} · `}
+                            {item.dish_names.join(', ')}
+                          </p>
+                        </label>
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            ))}
+
+            {list.estimated_total > 0 && (
+              <div className="flex justify-between items-center px-2 pt-2 text-lg font-bold">
+                <span>Estimated total</span>
+                <span>€{list.estimated_total.toFixed(2)}</span>
+              </div>
+            )}
+
+            <StoreSplitCard dishes={listDishes} plz={listPLZ?.plz || userPLZ} />
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
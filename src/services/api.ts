@@ -1,4 +1,8 @@
+import type { QueryData } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { optimizeStoreSplit } from '@/utils/storeSplit';
+import { createUnitConverter, type UnitConverter, type UnitDimension } from '@/utils/unitConversion';
 
 export interface Dish {
   dish_id: string;
@@ -9,10 +13,13 @@ export interface Dish {
   season?: string;
   cuisine?: string;
   notes?: string;
+  servings?: number;
   totalAggregatedSavings?: number;
   savingsPercent?: number;
   availableOffers?: number;
   ingredientsWithOffers?: number;
+  offerTotal?: number; // Pro-rata total of the recipe at current offers
+  pricePerServing?: number;
   isFavorite?: boolean;
 }
 
@@ -22,6 +29,7 @@ export interface Ingredient {
   unit_default: string;
   price_baseline_per_unit?: number;
   allergen_tags?: string[];
+  diet_class?: 'vegan' | 'vegetarian' | 'omnivore' | null;
   notes?: string;
 }
 
@@ -54,13 +62,62 @@ export interface Store {
   lon?: number;
 }
 
+export type PriceBasis = 'total' | 'per_serving';
+
+export type DietPreference = 'vegetarian' | 'vegan';
+
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
+
+export interface Allergen {
+  allergen_tag: string;
+  label: string;
+}
+
+export interface DishDietaryInfo {
+  allergens: string[]; // Normalized allergen tags (see lookups_allergens)
+  is_vegetarian: boolean;
+  is_vegan: boolean;
+}
+
+export interface DietaryPreferences {
+  excluded_allergens: string[];
+  diet: DietPreference | null;
+}
+
 export interface DishFilters {
   category?: string;
   chain?: string;
-  maxPrice?: number;
+  maxPrice?: number; // Compared with the offer total or the price per serving, see priceBasis
+  priceBasis?: PriceBasis;
   plz?: string;
   isQuick?: boolean;
   isMealPrep?: boolean;
+  dishIds?: string[]; // Only these dishes (e.g. favorites)
+  search?: string; // Full-text search over dish name, cuisine, notes and ingredients
+  excludeAllergens?: string[]; // Hide dishes containing any of these allergen tags
+  diet?: DietPreference;
+  season?: Season; // Dishes without a season (or all-year) match every season
+  cuisine?: string;
+  asOf?: string | null; // ISO date (YYYY-MM-DD) the offers must be valid on; today when unset
+}
+
+export type DishFacetName = 'category' | 'season' | 'cuisine' | 'quick' | 'meal_prep' | 'diet' | 'allergen' | 'chain';
+
+// Visible dishes per filter option, each counted with all other active filters applied
+export type DishFacets = Partial<Record<DishFacetName, Record<string, number>>>;
+
+export type DishSortKey = 'name' | 'savings' | 'price' | 'offers';
+
+export interface DishQueryOptions {
+  page?: number; // 1-based
+  pageSize?: number;
+  sortBy?: DishSortKey;
+  sortDir?: 'asc' | 'desc';
+}
+
+export interface DishListResult {
+  dishes: Dish[];
+  total_count: number; // All matching dishes, not just this page
 }
 
 export interface DishPricing {
@@ -70,6 +127,19 @@ export interface DishPricing {
   available_offers_count: number;
 }
 
+export interface DishPrice {
+  dish_id: string;
+  servings: number;
+  baseline_total: number;
+  offer_total: number;
+  price_per_serving: number;
+  savings_abs: number;
+  savings_percent: number;
+  ingredients_with_offers_count: number;
+  unconvertible_ingredients: string[]; // Ingredient IDs that could not be priced
+  leftover_total: number; // Value of unused pack contents (whole_packs mode only)
+}
+
 export interface IngredientSavings {
   ingredient_id: string;
   ingredient_name: string;
@@ -93,9 +163,31 @@ export interface IngredientOffer {
   chain_name?: string; // Chain name for display
   price_per_unit?: number; // Calculated: price_total / pack_size
   calculated_price_for_qty?: number; // Calculated price for the required qty in this dish
-  is_lowest_price: boolean; // Whether this is the best price (selected chain offer or overall lowest)
+  is_lowest_price: boolean; // Whether prices are based on this offer (cheapest per unit, of the selected chain if any)
+  deal_rating?: OfferDealRating | null; // Compared with the chain's offers of the last 90 days
+  typical_price_per_unit?: number; // Median per-unit price of those offers
+}
+
+// How an offer compares with the same chain's earlier offers for the ingredient
+export type OfferDealRating = 'lowest' | 'typical' | 'above_typical';
+
+// One offer in an ingredient's price history; price_per_unit is in the ingredient's default unit
+export interface OfferPricePoint {
+  offer_id: number;
+  region_id: string;
+  chain_id: string;
+  chain_name: string;
+  valid_from: string;
+  valid_to: string;
+  price_total: number;
+  pack_size: number;
+  unit_base: string;
+  price_per_unit: number;
+  unit: string;
 }
 
+export type IngredientRole = 'main' | 'side';
+
 export interface DishIngredient {
   dish_id: string;
   ingredient_id: string;
@@ -104,7 +196,7 @@ export interface DishIngredient {
   unit?: string;
   unit_default?: string;
   optional: boolean;
-  role?: string;
+  role?: IngredientRole;
   price_baseline_per_unit?: number;
   offer_price_per_unit?: number;
   savings_per_unit?: number;
@@ -117,123 +209,395 @@ export interface DishIngredient {
   offer_unit_base?: string;
   offer_price_total?: number;
   price_per_unit_baseline?: number;
+  offer_cost?: number; // Cost of the dish's qty at the best offer, per pricing mode
+  packs_needed?: number; // Whole packs of the best offer covering the dish's qty
+  leftover_qty?: number; // Unused part of those packs, in the offer's unit_base
+  leftover_cost?: number; // Value of the leftover at the offer's per-unit price
 }
 
-class ApiService {
-  async getDishes(filters?: DishFilters, limit = 50): Promise<Dish[]> {
-    try {
-      let query = supabase
-        .from('dishes')
-        .select('*')
-        .order('name', { ascending: true })
-        .limit(limit);
+// 'pro_rata' charges only the needed quantity, 'whole_packs' every pack that has to be bought
+export type PricingMode = 'pro_rata' | 'whole_packs';
 
-      if (filters?.category && filters.category !== 'all') {
-        query = query.eq('category', filters.category);
-      }
+export interface PlanItem {
+  plan_item_id: string;
+  plan_id: string;
+  day_of_week: number; // 0 = Monday ... 6 = Sunday
+  dish_id: string;
+  dish_name?: string;
+  servings: number;
+  baseline_total?: number;
+  offer_total?: number;
+}
 
-      if (filters?.isQuick !== undefined) {
-        query = query.eq('is_quick', filters.isQuick);
-      }
+export interface PlanTotals {
+  plan_id: string;
+  total_baseline: number;
+  total_offer: number;
+  total_savings_abs: number;
+  total_savings_pct: number;
+}
 
-      if (filters?.isMealPrep !== undefined) {
-        query = query.eq('is_meal_prep', filters.isMealPrep);
-      }
+export interface Plan {
+  plan_id: string;
+  user_id: string;
+  week_start_date: string;
+  week_iso?: string;
+  status: 'draft' | 'locked';
+  locked_at?: string | null;
+  plz?: string | null; // PLZ the plan is priced for
+  location_name?: string | null; // Saved location of that PLZ
+  items: PlanItem[];
+  totals?: PlanTotals | null;
+}
+
+export interface ShoppingListItem {
+  ingredient_id: string;
+  ingredient_name: string;
+  qty: number;
+  unit: string;
+  optional: boolean;
+  dish_names: string[];
+  offer?: IngredientOffer; // Cheapest current offer, if any
+  estimated_cost?: number; // qty priced at the offer's per-unit price
+}
 
-      const { data, error } = await query;
+export interface ShoppingListGroup {
+  chain_id: string | null; // null = no current offer
+  chain_name: string | null;
+  items: ShoppingListItem[];
+  estimated_total: number;
+}
 
-      if (error) throw error;
+export interface ShoppingList {
+  groups: ShoppingListGroup[];
+  item_count: number;
+  estimated_total: number;
+}
 
-      if (filters?.plz) {
-        const isValidPLZ = await this.validatePLZ(filters.plz);
-        if (!isValidPLZ) {
-          throw new Error('Postal code not found. Please enter a valid postal code that exists in our database.');
-        }
+export interface StoreSplitLineCost {
+  ingredient_id: string;
+  ingredient_name: string;
+  qty: number;
+  unit: string;
+  chain_id: string;
+  chain_name: string;
+  offer_price_per_unit: number | null;
+  offer_unit: string | null;
+  offer_total: number | null; // null = chain has no current offer
+  baseline_total: number;
+}
+
+export interface StoreSplitItem {
+  ingredient_id: string;
+  ingredient_name: string;
+  qty: number;
+  unit: string;
+  cost: number;
+  on_offer: boolean;
+}
+
+export interface StoreSplitOption {
+  chains: { chain_id: string; chain_name: string }[];
+  total: number;
+  assignments: {
+    chain_id: string;
+    chain_name: string;
+    items: StoreSplitItem[];
+    subtotal: number;
+  }[];
+}
+
+export interface StoreSplitResult {
+  single_chain_options: StoreSplitOption[]; // Cheapest first
+  best_single: StoreSplitOption | null;
+  best_split: StoreSplitOption | null; // Cheapest option with at most maxChains chains
+  savings_vs_single: number;
+}
+
+// Admin-configurable rule deciding which dishes are listed (see dish_visibility_rules)
+export interface DishVisibilityRules {
+  min_main_offers: number; // Main ingredients on offer needed to show a dish ...
+  min_side_offers: number; // ... or side ingredients on offer
+  min_savings_percent: number; // Required in both cases
+  updated_at?: string | null;
+}
+
+export type BaselineSource = 'manual' | 'computed';
+
+// Which baseline pricing uses and how computed baselines are derived (see baseline_settings)
+export interface BaselineSettings {
+  baseline_source: BaselineSource;
+  window_weeks: number; // Offers of the last N weeks ...
+  percentile: number; // ... at this percentile of their per-unit prices (0-1)
+  min_offers: number; // Fewer offers in the window = manual baseline
+  updated_at?: string | null;
+}
+
+// Manual vs. computed baseline of an ingredient in one region
+export interface BaselineDrift {
+  ingredient_id: string;
+  name_canonical: string;
+  region_id: string;
+  unit_default: string;
+  manual_baseline: number | null;
+  computed_baseline: number;
+  drift_percent: number | null; // Relative to the manual baseline
+  offers_count: number;
+  computed_at: string;
+}
+
+// Price alert: a dish (offer price per serving) or an ingredient (offer price per unit_default) watched for a PLZ
+export interface PriceWatch {
+  watch_id: string;
+  dish_id: string | null;
+  ingredient_id: string | null;
+  name: string; // Dish or ingredient name
+  unit?: string | null; // Ingredient's unit_default
+  plz: string;
+  location_name?: string | null; // Saved location of the PLZ
+  max_price: number;
+  last_notified_at: string | null;
+  last_notified_price: number | null;
+  created_at: string;
+}
+
+export interface NewPriceWatch {
+  dish_id?: string;
+  ingredient_id?: string;
+  plz: string;
+  max_price: number;
+}
+
+export interface AppNotification {
+  notification_id: string;
+  watch_id: string | null;
+  kind: 'price_drop';
+  title: string;
+  body: string | null;
+  link: string | null; // App path, e.g. /dish/<dish_id>
+  price: number | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+export interface NearbyStore extends GeoPoint {
+  store_id: string;
+  chain_id: string;
+  chain_name: string;
+  store_name: string;
+  plz: string | null;
+  city: string | null;
+  street: string | null;
+  distance_km: number;
+  region_ids: string[]; // Ad regions from store_region_map
+  in_user_region: boolean | null; // Has the offers its chain has for the PLZ (null = no region mapping)
+}
+
+export interface PostalCodeSuggestion {
+  plz: string;
+  city: string | null;
+  region_id: string;
+  chains_with_offers: number; // Chains with current offers in the PLZ's region (a hint; see getPLZCoverage)
+}
+
+export interface NearestPLZ {
+  plz: string;
+  city: string | null;
+  distance_km: number;
+}
+
+export interface PLZCoverage {
+  chain_id: string;
+  chain_name: string;
+  region_id: string;
+  active_offers_count: number; // Offers valid today
+  valid_until: string | null; // Latest end date of today's offers
+  last_imported_at: string | null;
+}
+
+export interface WaitlistDemand {
+  plz: string;
+  city: string | null;
+  signups: number;
+  pending: number; // Not notified yet
+  first_signup_at: string;
+  last_signup_at: string;
+  is_covered: boolean; // Known PLZ with offers valid today
+}
+
+export interface UserLocation {
+  location_id: string;
+  name: string;
+  plz: string;
+  created_at?: string;
+}
+
+// Where a favorite was priced when it was saved (null plz: before locations existed)
+export interface FavoriteLocation {
+  dish_id: string;
+  plz: string | null;
+  location_name: string | null;
+}
+
+export interface PLZRegion {
+  chain_id: string;
+  region_id: string;
+  store_id: string | null; // Nearest store the region comes from; null = the PLZ's own region
+  distance_km: number | null;
+}
+
+export interface IngredientMatchQuery {
+  ingredientIds?: string[]; // Ingredients the user has or wants to use
+  includeOffers?: boolean; // Also count everything currently on offer for plz
+  plz?: string | null;
+  chainId?: string | null; // Restrict offers to one chain
+  limit?: number;
+}
+
+export interface IngredientMatchDish {
+  dish_id: string;
+  name: string;
+  category: string;
+  is_quick: boolean;
+  is_meal_prep: boolean;
+  main_total: number;
+  main_covered: number;
+  secondary_total: number;
+  secondary_covered: number;
+  covered_ingredients: string[];
+  missing_main: string[];
+  missing_secondary: string[];
+}
+
+const PLAN_SELECT =
+  'plan_id, user_id, week_start_date, week_iso, status, locked_at, plz, user_locations(name), plan_totals(*), plan_items(plan_item_id, plan_id, day_of_week, dish_id, servings, dishes(name), plan_item_prices(baseline_total, offer_total))';
+
+const selectPlans = () => supabase.from('plans').select(PLAN_SELECT);
+
+type PlanRow = QueryData<ReturnType<typeof selectPlans>>[number];
+
+// Offer row of best_offers_for_plz / best_offers_as_of with the chain's name
+type ActiveOffer = Omit<Database['public']['Functions']['best_offers_for_plz']['Returns'][number], 'region_id' | 'active_offers_count'> & {
+  chain_name: string | null;
+};
+
+class ApiService {
+  async getDishes(filters?: DishFilters, options: DishQueryOptions = {}): Promise<DishListResult> {
+    try {
+      if (!filters?.plz) {
+        return { dishes: [], total_count: 0 };
       }
-      let regionId: string | null = null;
-      if (filters?.plz) {
-        const { data: postalData } = await supabase
-          .from('postal_codes')
-          .select('region_id')
-          .eq('plz', filters.plz)
-          .limit(1);
-        if (postalData && postalData.length > 0) {
-          regionId = postalData[0].region_id;
-        }
+
+      const isValidPLZ = await this.validatePLZ(filters.plz);
+      if (!isValidPLZ) {
+        throw new Error('Postal code not found. Please enter a valid postal code that exists in our database.');
       }
 
       let chainId: string | null = null;
-      if (filters?.chain && filters.chain !== 'all') {
+      if (filters.chain && filters.chain !== 'all') {
         const chain = await this.getChainByName(filters.chain);
-        if (chain) {
-          chainId = chain.chain_id;
+        if (!chain) {
+          return { dishes: [], total_count: 0 };
         }
+        chainId = chain.chain_id;
       }
 
-      const dishesWithSavings = await Promise.all(
-        (data || []).map(async (dish) => {
-          const pricing = await this.getDishPricing(dish.dish_id, filters?.plz, chainId);
-          
-          let shouldDisplay = false;
-          if (regionId) {
-            const { data: displayData, error: displayError } = await supabase.rpc('should_display_dish', {
-              _dish_id: dish.dish_id,
-              _region_id: regionId,
-              _chain_id: chainId,
-            });
-            if (!displayError && displayData !== null) {
-              shouldDisplay = displayData;
-            }
-          }
-          
-          return {
-            ...dish,
-            totalAggregatedSavings: pricing?.total_aggregated_savings ?? 0,
-            ingredientsWithOffers: pricing?.ingredients_with_offers_count ?? 0,
-            availableOffers: pricing?.available_offers_count ?? 0,
-            shouldDisplay,
-          };
-        })
-      );
+      const page = Math.max(options.page ?? 1, 1);
+      const pageSize = options.pageSize ?? 50;
+      const { data, error } = await supabase.rpc('get_dishes_with_pricing', {
+        ...this.dishFilterParams(filters, chainId),
+        _sort_by: options.sortBy || 'name',
+        _sort_dir: options.sortDir || 'asc',
+        _limit: pageSize,
+        _offset: (page - 1) * pageSize,
+      });
 
-      let filtered = dishesWithSavings;
-      if (filters?.plz && regionId) {
-        filtered = dishesWithSavings.filter((d) => d.shouldDisplay);
-      } else {
-        filtered = [];
+      if (error) throw error;
+
+      const rows = data || [];
+      const dishes = rows.map((row) => ({
+        dish_id: row.dish_id,
+        name: row.name,
+        category: row.category,
+        is_quick: row.is_quick,
+        is_meal_prep: row.is_meal_prep,
+        season: row.season ?? undefined,
+        cuisine: row.cuisine ?? undefined,
+        notes: row.notes ?? undefined,
+        servings: row.servings,
+        totalAggregatedSavings: Number(row.total_aggregated_savings) || 0,
+        ingredientsWithOffers: row.ingredients_with_offers_count ?? 0,
+        availableOffers: row.available_offers_count ?? 0,
+        offerTotal: Number(row.offer_total) || 0,
+        pricePerServing: Number(row.price_per_serving) || 0,
+      }));
+
+      return { dishes, total_count: rows.length > 0 ? Number(rows[0].total_count) : 0 };
+    } catch (error: any) {
+      throw new Error(error?.message || 'Failed to load dishes. Please try again.');
+    }
+  }
+
+  async getDishFacets(filters?: DishFilters): Promise<DishFacets> {
+    try {
+      if (!filters?.plz) {
+        return {};
       }
 
-      if (filters?.chain && filters.chain !== 'all') {
+      let chainId: string | null = null;
+      if (filters.chain && filters.chain !== 'all') {
         const chain = await this.getChainByName(filters.chain);
-        if (chain && regionId) {
-          const dishesWithChainFilter = await Promise.all(
-            filtered.map(async (dish) => {
-              const { data: displayData, error: displayError } = await supabase.rpc('should_display_dish', {
-                _dish_id: dish.dish_id,
-                _region_id: regionId,
-                _chain_id: chain.chain_id,
-              });
-              if (!displayError && displayData !== null) {
-                return displayData ? dish : null;
-              }
-              return null;
-            })
-          );
-          
-          filtered = dishesWithChainFilter.filter((d) => d !== null) as typeof filtered;
-        } else if (chain && !regionId) {
-          filtered = [];
-        } else {
-          filtered = [];
+        if (!chain) {
+          return {};
         }
+        chainId = chain.chain_id;
       }
 
-      return filtered.map(({ shouldDisplay, ...dish }) => dish);
-    } catch (error: any) {
-      throw new Error(error?.message || 'Failed to load dishes. Please try again.');
+      const { data, error } = await supabase.rpc('get_dish_facets', this.dishFilterParams(filters, chainId));
+
+      if (error) throw error;
+
+      const facets: DishFacets = {};
+      (data || []).forEach((row: { facet: DishFacetName; value: string; dish_count: number }) => {
+        facets[row.facet] = { ...facets[row.facet], [row.value]: Number(row.dish_count) || 0 };
+      });
+      return facets;
+    } catch (error) {
+      return {};
     }
   }
 
+  // Filter arguments shared by get_dishes_with_pricing and get_dish_facets
+  private dishFilterParams(filters: DishFilters, chainId: string | null) {
+    return {
+      _user_plz: filters.plz,
+      _chain_id: chainId,
+      _category: filters.category && filters.category !== 'all' ? filters.category : null,
+      _is_quick: filters.isQuick ?? null,
+      _is_meal_prep: filters.isMealPrep ?? null,
+      _dish_ids: filters.dishIds ?? null,
+      _max_price: filters.maxPrice ?? null,
+      _price_basis: filters.priceBasis || 'total',
+      _search: filters.search?.trim() || null,
+      _exclude_allergens: filters.excludeAllergens?.length ? filters.excludeAllergens : null,
+      _diet: filters.diet ?? null,
+      _season: filters.season ?? null,
+      _cuisine: filters.cuisine || null,
+      _as_of: filters.asOf || null,
+    };
+  }
+
+  // Number of dishes matching the filters, without loading them (e.g. while dragging the price slider)
+  async countDishes(filters?: DishFilters): Promise<number> {
+    const result = await this.getDishes(filters, { pageSize: 1 });
+    return result.total_count;
+  }
+
   async getDishById(dishId: string): Promise<Dish | null> {
     try {
       const { data, error } = await supabase
@@ -249,16 +613,22 @@ class ApiService {
     }
   }
 
-  async getDishIngredients(dishId: string, plz?: string | null, chainId?: string | null): Promise<DishIngredient[]> {
+  async getDishIngredients(
+    dishId: string,
+    plz?: string | null,
+    chainId?: string | null,
+    pricingMode: PricingMode = 'pro_rata',
+    asOf?: string | null
+  ): Promise<DishIngredient[]> {
     try {
-      let regionIds: string[] = [];
+      let baselineRegionId: string | null = null;
       if (plz) {
         const { data: postalData } = await supabase
           .from('postal_codes')
           .select('region_id')
           .eq('plz', plz);
-        if (postalData) {
-          regionIds = postalData.map((p) => p.region_id);
+        if (postalData && postalData.length > 0) {
+          baselineRegionId = postalData[0].region_id;
         }
       }
 
@@ -271,7 +641,7 @@ class ApiService {
       if (diError) throw diError;
       if (!dishIngredients) return [];
 
-      const ingredientIds = dishIngredients.map((di: any) => di.ingredient_id);
+      const ingredientIds = dishIngredients.map((di) => di.ingredient_id);
       const { data: ingredientsData, error: ingError } = await supabase
         .from('ingredients')
         .select('ingredient_id, name_canonical, price_baseline_per_unit, unit_default')
@@ -279,70 +649,30 @@ class ApiService {
 
       if (ingError) throw ingError;
 
+      // Same baseline as the pricing functions (computed for the region when configured)
+      const baselines = await this.getBaselinePrices(ingredientIds, baselineRegionId);
       const ingredientsMap = new Map(
-        (ingredientsData || []).map((ing: any) => [ing.ingredient_id, ing])
+        (ingredientsData || []).map((ing) => [
+          ing.ingredient_id,
+          { ...ing, price_baseline_per_unit: baselines.get(ing.ingredient_id) ?? ing.price_baseline_per_unit },
+        ])
       );
 
-      const today = new Date().toISOString().split('T')[0];
-
-      const allOffersByIngredient = new Map<string, any[]>();
-      
-      if (regionIds.length > 0 && ingredientIds.length > 0) {
-        const { data: offersData } = await supabase
-          .from('offers')
-          .select('ingredient_id, price_total, pack_size, unit_base, source, valid_from, valid_to, offer_id, source_ref_id, chain_id')
-          .in('ingredient_id', ingredientIds)
-          .in('region_id', regionIds)
-          .lte('valid_from', today)
-          .gte('valid_to', today)
-          .order('price_total', { ascending: true });
-
-        const uniqueChainIds = offersData ? Array.from(new Set(offersData.map((o: any) => o.chain_id).filter(Boolean))) : [];
-        const chainNameMap = new Map<string, string>();
-        if (uniqueChainIds.length > 0) {
-          const { data: chainsData } = await supabase
-            .from('chains')
-            .select('chain_id, chain_name')
-            .in('chain_id', uniqueChainIds);
-          
-          if (chainsData) {
-            chainsData.forEach((chain: any) => {
-              chainNameMap.set(chain.chain_id, chain.chain_name);
-            });
-          }
-        }
-
-        if (offersData) {
-          for (const offer of offersData) {
-            const offerWithChainName = {
-              ...offer,
-              chain_name: offer.chain_id ? chainNameMap.get(offer.chain_id) || null : null,
-            };
-            if (!allOffersByIngredient.has(offer.ingredient_id)) {
-              allOffersByIngredient.set(offer.ingredient_id, []);
-            }
-            allOffersByIngredient.get(offer.ingredient_id)!.push(offerWithChainName);
-          }
-        }
-      }
+      const allOffersByIngredient = await this.getActiveOffersByIngredient(ingredientIds, plz, asOf);
+      const convertUnit = await this.getUnitConverter(ingredientIds);
+      const dealRatings = await this.getOfferDealRatings(
+        Array.from(allOffersByIngredient.values()).flat().map((offer) => offer.offer_id)
+      );
 
-      const lowestPriceOfferMap = new Map<string, any>();
+      const lowestPriceOfferMap = new Map<string, ActiveOffer>();
       for (const [ingredientId, offers] of allOffersByIngredient.entries()) {
-        if (offers.length > 0) {
-          if (chainId) {
-            const selectedChainOffers = offers.filter((o: any) => o.chain_id === chainId);
-            if (selectedChainOffers.length > 0) {
-              lowestPriceOfferMap.set(ingredientId, selectedChainOffers[0]);
-            } else {
-              lowestPriceOfferMap.set(ingredientId, offers[0]);
-            }
-          } else {
-            lowestPriceOfferMap.set(ingredientId, offers[0]);
-          }
+        const bestOffer = this.pickBestOffer(offers, chainId);
+        if (bestOffer) {
+          lowestPriceOfferMap.set(ingredientId, bestOffer);
         }
       }
 
-      return dishIngredients.map((di: any) => {
+      return dishIngredients.map((di) => {
         const ingredient = ingredientsMap.get(di.ingredient_id);
         const allOffers = allOffersByIngredient.get(di.ingredient_id) || [];
         const lowestPriceOffer = lowestPriceOfferMap.get(di.ingredient_id);
@@ -361,7 +691,7 @@ class ApiService {
           }
         }
 
-        const sortedOffers = [...allOffers].sort((a: any, b: any) => {
+        const sortedOffers = [...allOffers].sort((a, b) => {
           if (chainId) {
             const aIsSelectedChain = a.chain_id === chainId;
             const bIsSelectedChain = b.chain_id === chainId;
@@ -369,7 +699,7 @@ class ApiService {
             if (aIsSelectedChain && !bIsSelectedChain) return -1;
             if (!aIsSelectedChain && bIsSelectedChain) return 1;
             
-            const priceDiff = a.price_total - b.price_total;
+            const priceDiff = a.price_per_unit - b.price_per_unit;
             if (priceDiff !== 0) return priceDiff;
             
             const chainNameA = (a.chain_name || '').toLowerCase();
@@ -379,7 +709,7 @@ class ApiService {
             
             return a.offer_id - b.offer_id;
           }
-          const priceDiff = a.price_total - b.price_total;
+          const priceDiff = a.price_per_unit - b.price_per_unit;
           if (priceDiff !== 0) return priceDiff;
           
           const chainNameA = (a.chain_name || '').toLowerCase();
@@ -391,12 +721,11 @@ class ApiService {
         });
 
         const calculationOffer = lowestPriceOfferMap.get(di.ingredient_id);
-        const processedOffers: IngredientOffer[] = sortedOffers.map((offer: any) => {
+        const processedOffers: IngredientOffer[] = sortedOffers.map((offer) => {
           const pricePerUnit = offer.pack_size > 0 ? offer.price_total / offer.pack_size : 0;
+          const packCost = this.calculatePackCost(di.qty, di.unit, offer, pricingMode, convertUnit, di.ingredient_id);
           
-          const isFromSelectedChain = chainId && offer.chain_id === chainId;
-          const isLowestPriceForCalculation = calculationOffer && offer.offer_id === calculationOffer.offer_id;
-          const isBestPrice = isFromSelectedChain || (isLowestPriceForCalculation && !chainId);
+          const isBestPrice = !!calculationOffer && offer.offer_id === calculationOffer.offer_id;
 
           return {
             offer_id: offer.offer_id,
@@ -410,11 +739,17 @@ class ApiService {
             chain_id: offer.chain_id,
             chain_name: offer.chain_name,
             price_per_unit: pricePerUnit,
-            calculated_price_for_qty: undefined,
+            calculated_price_for_qty: packCost?.cost,
             is_lowest_price: isBestPrice,
+            deal_rating: dealRatings.get(offer.offer_id)?.deal_rating ?? null,
+            typical_price_per_unit: dealRatings.get(offer.offer_id)?.typical_price_per_unit,
           };
         });
 
+        const bestOfferCost = lowestPriceOffer
+          ? this.calculatePackCost(di.qty, di.unit, lowestPriceOffer, pricingMode, convertUnit, di.ingredient_id)
+          : null;
+
         return {
           dish_id: di.dish_id,
           ingredient_id: di.ingredient_id,
@@ -436,6 +771,10 @@ class ApiService {
           offer_unit_base: lowestPriceOffer?.unit_base,
           offer_price_total: lowestPriceOffer?.price_total,
           price_per_unit_baseline: basePricePerUnit,
+          offer_cost: bestOfferCost?.cost,
+          packs_needed: bestOfferCost?.packs,
+          leftover_qty: bestOfferCost?.leftoverQty,
+          leftover_cost: bestOfferCost?.leftoverCost,
         };
       });
     } catch (error: any) {
@@ -443,35 +782,194 @@ class ApiService {
     }
   }
 
-  private convertUnitForPricing(qty: number, fromUnit: string, toUnit: string): number | null {
-    const from = fromUnit.toLowerCase().trim();
-    const to = toUnit.toLowerCase().trim();
+  // Best active offer per chain for each ingredient for the PLZ, each chain in its region (see
+  // resolve_plz_regions), valid today or on asOf, cheapest per unit first, with chain names attached
+  private async getActiveOffersByIngredient(
+    ingredientIds: string[],
+    plz?: string | null,
+    asOf?: string | null
+  ): Promise<Map<string, ActiveOffer[]>> {
+    const allOffersByIngredient = new Map<string, ActiveOffer[]>();
+
+    if (!plz || ingredientIds.length === 0) {
+      return allOffersByIngredient;
+    }
+
+    const { data: offersData } = await this.bestOffers(asOf, plz)
+      .select('ingredient_id, price_total, pack_size, price_per_unit, unit_base, source, valid_from, valid_to, offer_id, source_ref_id, chain_id')
+      .in('ingredient_id', ingredientIds)
+      .order('price_per_unit', { ascending: true });
+
+    const uniqueChainIds = offersData ? Array.from(new Set(offersData.map((o) => o.chain_id).filter(Boolean))) : [];
+    const chainNameMap = new Map<string, string>();
+    if (uniqueChainIds.length > 0) {
+      const { data: chainsData } = await supabase
+        .from('chains')
+        .select('chain_id, chain_name')
+        .in('chain_id', uniqueChainIds);
+
+      if (chainsData) {
+        chainsData.forEach((chain) => {
+          chainNameMap.set(chain.chain_id, chain.chain_name);
+        });
+      }
+    }
+
+    if (offersData) {
+      for (const offer of offersData) {
+        const offerWithChainName = {
+          ...offer,
+          chain_name: offer.chain_id ? chainNameMap.get(offer.chain_id) || null : null,
+        };
+        if (!allOffersByIngredient.has(offer.ingredient_id)) {
+          allOffersByIngredient.set(offer.ingredient_id, []);
+        }
+        allOffersByIngredient.get(offer.ingredient_id)!.push(offerWithChainName);
+      }
+    }
+
+    return allOffersByIngredient;
+  }
+
+  // Effective baseline per ingredient for a region (see ingredient_baselines); empty on error
+  private async getBaselinePrices(ingredientIds: string[], regionId: string | null): Promise<Map<string, number>> {
+    const baselines = new Map<string, number>();
+    if (ingredientIds.length === 0) {
+      return baselines;
+    }
+
+    const { data, error } = await supabase.rpc('ingredient_baselines', { _region_id: regionId })
+      .select('ingredient_id, price_baseline_per_unit')
+      .in('ingredient_id', ingredientIds);
+    if (error || !data) {
+      return baselines;
+    }
+
+    data.forEach((row) => {
+      if (row.price_baseline_per_unit !== null) {
+        baselines.set(row.ingredient_id, Number(row.price_baseline_per_unit));
+      }
+    });
+    return baselines;
+  }
+
+  // Deal rating per offer ID; offers without earlier offers to compare with are left out
+  private async getOfferDealRatings(
+    offerIds: number[]
+  ): Promise<Map<number, { deal_rating: OfferDealRating | null; typical_price_per_unit?: number }>> {
+    const ratings = new Map<number, { deal_rating: OfferDealRating | null; typical_price_per_unit?: number }>();
+    if (offerIds.length === 0) {
+      return ratings;
+    }
+
+    const { data, error } = await supabase.rpc('get_offer_deal_ratings', { _offer_ids: offerIds });
+    if (error || !data) {
+      return ratings;
+    }
 
-    if (from === to) return qty;
+    data.forEach((row) => {
+      if (row.deal_rating) {
+        ratings.set(row.offer_id, {
+          deal_rating: row.deal_rating as OfferDealRating,
+          typical_price_per_unit: row.typical_price_per_unit !== null ? Number(row.typical_price_per_unit) : undefined,
+        });
+      }
+    });
+    return ratings;
+  }
 
-    if (from === 'g' && to === 'kg') return qty / 1000.0;
-    if (from === 'kg' && to === 'g') return qty * 1000.0;
+  // Best offer per (region, chain, ingredient): today's snapshot, or the offers valid on asOf.
+  // With a PLZ only each chain's region for it (see best_offers_for_plz).
+  private bestOffers(asOf?: string | null, plz?: string | null) {
+    if (plz) {
+      return supabase.rpc('best_offers_for_plz', { _as_of: asOf || null, _user_plz: plz });
+    }
+    return supabase.rpc('best_offers_as_of', { _as_of: asOf || null });
+  }
 
-    if (from === 'ml' && to === 'l') return qty / 1000.0;
-    if (from === 'l' && to === 'ml') return qty * 1000.0;
+  // The offer used for pricing, as in calculate_dish_total_price: the cheapest per unit, only
+  // of the selected chain when one is selected (without one the baseline applies)
+  private pickBestOffer(offers: ActiveOffer[], chainId?: string | null): ActiveOffer | null {
+    const candidates = chainId ? offers.filter((o) => o.chain_id === chainId) : offers;
+    return candidates[0] ?? null;
+  }
 
-    if ((from === 'stück' || from === 'st') && (to === 'stück' || to === 'st')) {
-      return qty;
+  // Cost of qty at an offer: pro-rata at the per-unit price, or rounded up to whole packs
+  private calculatePackCost(
+    qty: number | null | undefined,
+    unit: string | null | undefined,
+    offer: ActiveOffer | null | undefined,
+    pricingMode: PricingMode,
+    convertUnit: UnitConverter,
+    ingredientId?: string
+  ): { cost: number; packs: number; leftoverQty: number; leftoverCost: number } | null {
+    if (!qty || !unit || !offer || !(offer.pack_size > 0)) return null;
+
+    const qtyInOfferUnit = convertUnit(qty, unit, offer.unit_base, ingredientId);
+    if (qtyInOfferUnit === null) return null;
+
+    const pricePerUnit = offer.price_total / offer.pack_size;
+    // Small tolerance so float noise (e.g. 0.30000000000000004) does not add a pack
+    const packs = Math.ceil(qtyInOfferUnit / offer.pack_size - 1e-9);
+    const leftoverQty = packs * offer.pack_size - qtyInOfferUnit;
+
+    if (pricingMode === 'whole_packs') {
+      return {
+        cost: packs * offer.price_total,
+        packs,
+        leftoverQty,
+        leftoverCost: leftoverQty * pricePerUnit,
+      };
     }
+    return { cost: qtyInOfferUnit * pricePerUnit, packs, leftoverQty: 0, leftoverCost: 0 };
+  }
 
-    return null;
+  // Converter backed by lookups_units plus the ingredients' densities, piece weights and custom units
+  private async getUnitConverter(ingredientIds: string[]): Promise<UnitConverter> {
+    const [unitsResult, ingredientsResult, conversionsResult] = await Promise.all([
+      supabase.from('lookups_units').select('unit, dimension, base_factor'),
+      ingredientIds.length > 0
+        ? supabase.from('ingredients')
+            .select('ingredient_id, density_g_per_ml, piece_weight_g')
+            .in('ingredient_id', ingredientIds)
+        : Promise.resolve({ data: [] }),
+      ingredientIds.length > 0
+        ? supabase.from('ingredient_unit_conversions')
+            .select('ingredient_id, unit, factor, target_unit')
+            .in('ingredient_id', ingredientIds)
+        : Promise.resolve({ data: [] }),
+    ]);
+
+    const conversions = conversionsResult.data || [];
+    return createUnitConverter(
+      (unitsResult.data || []).map((u) => ({
+        unit: u.unit,
+        dimension: u.dimension as UnitDimension,
+        base_factor: u.base_factor !== null ? Number(u.base_factor) : null,
+      })),
+      (ingredientsResult.data || []).map((i) => ({
+        ingredient_id: i.ingredient_id,
+        density_g_per_ml: i.density_g_per_ml !== null ? Number(i.density_g_per_ml) : null,
+        piece_weight_g: i.piece_weight_g !== null ? Number(i.piece_weight_g) : null,
+        conversions: conversions
+          .filter((c) => c.ingredient_id === i.ingredient_id)
+          .map((c) => ({ unit: c.unit, factor: Number(c.factor), target_unit: c.target_unit })),
+      }))
+    );
   }
 
   async getDishPricing(
     dishId: string,
     plz?: string | null,
-    chainId?: string | null
+    chainId?: string | null,
+    asOf?: string | null
   ): Promise<DishPricing | null> {
     try {
       const { data, error } = await supabase.rpc('calculate_dish_aggregated_savings', {
         _dish_id: dishId,
         _user_plz: plz || null,
         _chain_id: chainId || null,
+        _as_of: asOf || null,
       });
 
       if (error) {
@@ -488,42 +986,98 @@ class ApiService {
     }
   }
 
-  async getIngredientSavings(
-    ingredientId: string,
-    regionId: string,
-    unit?: string | null
-  ): Promise<IngredientSavings | null> {
+  async getDishPrice(
+    dishId: string,
+    plz?: string | null,
+    chainId?: string | null,
+    pricingMode: PricingMode = 'pro_rata',
+    asOf?: string | null
+  ): Promise<DishPrice | null> {
     try {
-      const { data, error } = await supabase.rpc('calculate_ingredient_savings_per_unit', {
-        _ingredient_id: ingredientId,
-        _region_id: regionId,
-        _unit: unit || null,
+      const { data, error } = await supabase.rpc('calculate_dish_total_price', {
+        _dish_id: dishId,
+        _user_plz: plz || null,
+        _chain_id: chainId || null,
+        _pricing_mode: pricingMode,
+        _as_of: asOf || null,
       });
 
-      if (error) {
-        throw error;
-      }
-      
-      if (!data || data.length === 0) {
-        return null;
-      }
+      if (error) throw error;
+      if (!data || data.length === 0) return null;
 
-      const result = data[0];
       return {
-        ingredient_id: result.ingredient_id,
-        ingredient_name: '',
-        base_price_per_unit: result.base_price_per_unit,
-        offer_price_per_unit: result.offer_price_per_unit,
-        savings_per_unit: result.savings_per_unit,
-        unit: result.unit,
-        has_offer: result.has_offer,
+        ...data[0],
+        unconvertible_ingredients: data[0].unconvertible_ingredients || [],
       };
     } catch (error: any) {
       return null;
     }
   }
 
-  async dishHasChainOffers(
+  // Offers of an ingredient over the last days (incl. expired ones), oldest first, optionally for one
+  // PLZ's region and one chain
+  async getIngredientPriceHistory(
+    ingredientId: string,
+    plz?: string | null,
+    chainId?: string | null,
+    days = 180
+  ): Promise<OfferPricePoint[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_ingredient_price_history', {
+        _ingredient_id: ingredientId,
+        _user_plz: plz || null,
+        _chain_id: chainId || null,
+        _days: days,
+      });
+
+      if (error) throw error;
+      return (data || []).map((row) => ({
+        ...row,
+        price_total: Number(row.price_total),
+        pack_size: Number(row.pack_size),
+        price_per_unit: Number(row.price_per_unit),
+      }));
+    } catch (error: any) {
+      return [];
+    }
+  }
+
+  async getIngredientSavings(
+    ingredientId: string,
+    plz: string,
+    unit?: string | null
+  ): Promise<IngredientSavings | null> {
+    try {
+      const { data, error } = await supabase.rpc('calculate_ingredient_savings_per_unit', {
+        _ingredient_id: ingredientId,
+        _user_plz: plz,
+        _unit: unit || null,
+      });
+
+      if (error) {
+        throw error;
+      }
+      
+      if (!data || data.length === 0) {
+        return null;
+      }
+
+      const result = data[0];
+      return {
+        ingredient_id: result.ingredient_id,
+        ingredient_name: '',
+        base_price_per_unit: result.base_price_per_unit,
+        offer_price_per_unit: result.offer_price_per_unit,
+        savings_per_unit: result.savings_per_unit,
+        unit: result.unit,
+        has_offer: result.has_offer,
+      };
+    } catch (error: any) {
+      return null;
+    }
+  }
+
+  async dishHasChainOffers(
     dishId: string,
     chainId: string,
     plz?: string | null
@@ -531,13 +1085,8 @@ class ApiService {
     try {
       let regionIds: string[] = [];
       if (plz) {
-        const { data: postalData } = await supabase
-          .from('postal_codes')
-          .select('region_id')
-          .eq('plz', plz);
-        if (postalData) {
-          regionIds = postalData.map((p) => p.region_id);
-        }
+        const plzRegions = await this.getPLZRegions(plz);
+        regionIds = plzRegions.filter((r) => r.chain_id === chainId).map((r) => r.region_id);
       }
 
       if (regionIds.length === 0) {
@@ -568,6 +1117,7 @@ class ApiService {
         .select('offer_id')
         .in('ingredient_id', ingredientIds)
         .in('region_id', regionIds)
+        .eq('chain_id', chainId)
         .lte('valid_from', today)
         .gte('valid_to', today)
         .limit(1);
@@ -591,37 +1141,89 @@ class ApiService {
     }
   }
 
-  async getChains(plz?: string | null): Promise<Chain[]> {
+  async getAllergens(): Promise<Allergen[]> {
     try {
-      let chainIds: string[] = [];
-      const today = new Date().toISOString().split('T')[0];
-      
-      if (plz) {
-        const { data: postalData } = await supabase
-          .from('postal_codes')
-          .select('region_id')
-          .eq('plz', plz);
+      const { data, error } = await supabase.from('lookups_allergens')
+        .select('allergen_tag, label')
+        .order('sort_order');
 
-        if (postalData && postalData.length > 0) {
-          const regionIds = postalData.map((p) => p.region_id);
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      return [];
+    }
+  }
 
-          const { data: offersData } = await supabase
-            .from('offers')
-            .select('chain_id')
-            .in('region_id', regionIds)
-            .lte('valid_from', today)
-            .gte('valid_to', today);
+  async getDishDietaryInfo(dishId: string): Promise<DishDietaryInfo | null> {
+    try {
+      const { data, error } = await supabase.from('dish_dietary_info')
+        .select('allergens, is_vegetarian, is_vegan')
+        .eq('dish_id', dishId)
+        .maybeSingle();
 
-          if (offersData && offersData.length > 0) {
-            chainIds = [...new Set(offersData.map((o) => o.chain_id).filter(Boolean))];
-          }
+      if (error) throw error;
+      if (!data) return null;
+      return {
+        allergens: data.allergens || [],
+        is_vegetarian: !!data.is_vegetarian,
+        is_vegan: !!data.is_vegan,
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async getIngredients(): Promise<Ingredient[]> {
+    try {
+      const { data, error } = await supabase
+        .from('ingredients')
+        .select('ingredient_id, name_canonical, unit_default')
+        .order('name_canonical');
+
+      if (error) throw error;
+      return (data || []) as Ingredient[];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  async findDishesByIngredients(query: IngredientMatchQuery): Promise<IngredientMatchDish[]> {
+    try {
+      const { data, error } = await supabase.rpc('find_dishes_by_ingredients', {
+        _ingredient_ids: query.ingredientIds?.length ? query.ingredientIds : null,
+        _user_plz: query.plz || null,
+        _chain_id: query.chainId || null,
+        _include_offers: !!query.includeOffers,
+        _limit: query.limit ?? 50,
+      });
+
+      if (error) throw error;
+      return (data || []).map((row) => ({
+        ...row,
+        covered_ingredients: row.covered_ingredients || [],
+        missing_main: row.missing_main || [],
+        missing_secondary: row.missing_secondary || [],
+      }));
+    } catch (error: any) {
+      throw new Error(error?.message || 'Failed to find dishes for these ingredients');
+    }
+  }
+
+  // Chains with offers for the PLZ (any region when unset), valid today or on asOf
+  async getChains(plz?: string | null, asOf?: string | null): Promise<Chain[]> {
+    try {
+      let chainIds: string[] = [];
+
+      if (plz) {
+        const { data: offersData } = await this.bestOffers(asOf, plz)
+          .select('chain_id');
+
+        if (offersData && offersData.length > 0) {
+          chainIds = [...new Set(offersData.map((o) => o.chain_id).filter(Boolean))];
         }
       } else {
-        const { data: offersData } = await supabase
-          .from('offers')
-          .select('chain_id')
-          .lte('valid_from', today)
-          .gte('valid_to', today);
+        const { data: offersData } = await this.bestOffers(asOf)
+          .select('chain_id');
 
         if (offersData && offersData.length > 0) {
           chainIds = [...new Set(offersData.map((o) => o.chain_id).filter(Boolean))];
@@ -660,9 +1262,58 @@ class ApiService {
     }
   }
 
+  // Stores within radiusKm of the PLZ's centroid, nearest first
+  async getNearbyStores(plz: string, radiusKm: number = 10, chainId?: string | null): Promise<NearbyStore[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_nearby_stores', {
+        _user_plz: plz,
+        _radius_km: radiusKm,
+        _chain_id: chainId || null,
+      });
+
+      if (error) throw error;
+      return (data || []).map((row) => ({
+        ...row,
+        lat: Number(row.lat),
+        lon: Number(row.lon),
+        distance_km: Number(row.distance_km),
+        region_ids: row.region_ids || [],
+      }));
+    } catch (error) {
+      return [];
+    }
+  }
+
+  // Ad region per chain for a PLZ: the region of the chain's nearest store, else the PLZ's region
+  async getPLZRegions(plz: string): Promise<PLZRegion[]> {
+    try {
+      const { data, error } = await supabase.rpc('resolve_plz_regions', { _user_plz: plz });
+
+      if (error) throw error;
+      return (data || []).map((row) => ({
+        ...row,
+        distance_km: row.distance_km !== null ? Number(row.distance_km) : null,
+      }));
+    } catch (error) {
+      return [];
+    }
+  }
+
+  async getPLZLocation(plz: string): Promise<GeoPoint | null> {
+    try {
+      const { data, error } = await supabase.rpc('get_plz_centroid', { _plz: plz });
+
+      if (error) throw error;
+      const row = data?.[0];
+      return row ? { lat: Number(row.lat), lon: Number(row.lon) } : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
   async checkEmailExists(email: string): Promise<boolean> {
     try {
-      const { data, error } = await (supabase.rpc as any)('check_email_exists', {
+      const { data, error } = await supabase.rpc('check_email_exists', {
         p_email: email,
       });
 
@@ -677,7 +1328,7 @@ class ApiService {
 
   async checkUsernameExists(username: string): Promise<boolean> {
     try {
-      const { data, error } = await (supabase.rpc as any)('check_username_exists', {
+      const { data, error } = await supabase.rpc('check_username_exists', {
         p_username: username,
       });
 
@@ -705,6 +1356,72 @@ class ApiService {
     }
   }
 
+  // PLZs by PLZ prefix or city name (umlauts folded, small typos tolerated)
+  async searchPostalCodes(query: string, limit = 50): Promise<PostalCodeSuggestion[]> {
+    try {
+      const { data, error } = await supabase.rpc('search_postal_codes', {
+        _query: query,
+        _limit: limit,
+      });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  // Nearest known PLZ to a position, e.g. from the browser's geolocation
+  async getNearestPLZ(lat: number, lon: number): Promise<NearestPLZ | null> {
+    try {
+      const { data, error } = await supabase.rpc('get_nearest_plz', { _lat: lat, _lon: lon });
+
+      if (error) throw error;
+      const row = data?.[0];
+      return row ? { ...row, distance_km: Number(row.distance_km) } : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Chains with offers for a PLZ and how fresh they are; empty when the PLZ is not covered
+  async getPLZCoverage(plz: string): Promise<PLZCoverage[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_plz_coverage', { _user_plz: plz });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  // join-waitlist mails a confirmation link (see confirmWaitlistSignup); signing
+  // up twice for the same PLZ with the same email is not an error
+  async joinWaitlist(plz: string, email: string): Promise<void> {
+    try {
+      const { error } = await supabase.functions.invoke('join-waitlist', {
+        body: { plz, email: email.trim() },
+      });
+
+      if (error) throw error;
+    } catch (error: any) {
+      throw new Error(error?.message || 'Failed to join the waitlist');
+    }
+  }
+
+  // PLZ of the confirmed signup, null for an unknown token
+  async confirmWaitlistSignup(token: string): Promise<string | null> {
+    try {
+      const { data, error } = await supabase.rpc('confirm_waitlist_signup', { _token: token });
+
+      if (error) throw error;
+      return data;
+    } catch (error: any) {
+      throw new Error(error?.message || 'Failed to confirm the waitlist signup');
+    }
+  }
+
   async validatePLZ(plz: string): Promise<boolean> {
     try {
       const { data, error } = await supabase
@@ -738,6 +1455,90 @@ class ApiService {
     }
   }
 
+  // Saved locations, oldest first
+  async getUserLocations(userId: string): Promise<UserLocation[]> {
+    try {
+      const { data, error } = await supabase.from('user_locations')
+        .select('location_id, name, plz, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  async addUserLocation(userId: string, name: string, plz: string): Promise<UserLocation> {
+    try {
+      const isValid = await this.validatePLZ(plz);
+      if (!isValid) {
+        throw new Error('Postal code not found. Please enter a valid German postal code that exists in our database.');
+      }
+
+      const { data, error } = await supabase.from('user_locations')
+        .insert({ user_id: userId, name: name.trim(), plz })
+        .select('location_id, name, plz, created_at')
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        throw new Error('You already have a location with this name');
+      }
+      throw new Error(error?.message || 'Failed to save location. Please try again.');
+    }
+  }
+
+  async removeUserLocation(userId: string, locationId: string): Promise<void> {
+    try {
+      const { error } = await supabase.from('user_locations')
+        .delete()
+        .eq('user_id', userId)
+        .eq('location_id', locationId);
+
+      if (error) throw error;
+    } catch (error: any) {
+      throw new Error(error?.message || 'Failed to remove location. Please try again.');
+    }
+  }
+
+  async getDietaryPreferences(userId: string): Promise<DietaryPreferences | null> {
+    try {
+      const { data, error } = await supabase.from('user_profiles')
+        .select('excluded_allergens, diet_preference')
+        .eq('id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+      return {
+        excluded_allergens: data.excluded_allergens || [],
+        diet: (data.diet_preference as DietPreference) || null,
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async updateDietaryPreferences(userId: string, preferences: DietaryPreferences): Promise<void> {
+    try {
+      const { error } = await supabase.from('user_profiles')
+        .update({
+          excluded_allergens: preferences.excluded_allergens,
+          diet_preference: preferences.diet,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', userId);
+
+      if (error) throw error;
+    } catch (error: any) {
+      throw new Error(error?.message || 'Failed to save dietary preferences. Please try again.');
+    }
+  }
+
   async getFavorites(userId: string): Promise<string[]> {
     try {
       const { data, error } = await supabase
@@ -752,11 +1553,11 @@ class ApiService {
     }
   }
 
-  async addFavorite(userId: string, dishId: string): Promise<void> {
+  // plz: where the dish was priced (defaults to the user's current PLZ)
+  async addFavorite(userId: string, dishId: string, plz?: string | null): Promise<void> {
     try {
-      const { error } = await supabase
-        .from('favorites')
-        .insert({ user_id: userId, dish_id: dishId });
+      const { error } = await supabase.from('favorites')
+        .insert({ user_id: userId, dish_id: dishId, plz: plz || null });
 
       if (error) throw error;
     } catch (error: any) {
@@ -767,6 +1568,23 @@ class ApiService {
     }
   }
 
+  async getFavoriteLocations(userId: string): Promise<FavoriteLocation[]> {
+    try {
+      const { data, error } = await supabase.from('favorites')
+        .select('dish_id, plz, user_locations(name)')
+        .eq('user_id', userId);
+
+      if (error) throw error;
+      return (data || []).map((row) => ({
+        dish_id: row.dish_id,
+        plz: row.plz,
+        location_name: row.user_locations?.name || null,
+      }));
+    } catch (error) {
+      return [];
+    }
+  }
+
   async removeFavorite(userId: string, dishId: string): Promise<void> {
     try {
       const { error } = await supabase
@@ -797,6 +1615,563 @@ class ApiService {
     }
   }
 
+  // Price alerts
+  async getPriceWatches(userId: string): Promise<PriceWatch[]> {
+    try {
+      const { data, error } = await supabase.from('price_watches')
+        .select('*, dishes(name), ingredients(name_canonical, unit_default), user_locations(name)')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map((row) => ({
+        watch_id: row.watch_id,
+        dish_id: row.dish_id,
+        ingredient_id: row.ingredient_id,
+        name: row.dishes?.name || row.ingredients?.name_canonical || row.dish_id || row.ingredient_id,
+        unit: row.ingredients?.unit_default || null,
+        plz: row.plz,
+        location_name: row.user_locations?.name || null,
+        max_price: Number(row.max_price),
+        last_notified_at: row.last_notified_at,
+        last_notified_price: row.last_notified_price !== null ? Number(row.last_notified_price) : null,
+        created_at: row.created_at,
+      }));
+    } catch (error) {
+      return [];
+    }
+  }
+
+  async addPriceWatch(userId: string, watch: NewPriceWatch): Promise<void> {
+    try {
+      const { error } = await supabase.from('price_watches')
+        .insert({
+          user_id: userId,
+          dish_id: watch.dish_id || null,
+          ingredient_id: watch.ingredient_id || null,
+          plz: watch.plz,
+          max_price: watch.max_price,
+        });
+
+      if (error) throw error;
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        throw new Error('You already have a price alert for this in your area');
+      }
+      throw new Error(error?.message || 'Failed to create price alert. Please try again.');
+    }
+  }
+
+  async removePriceWatch(userId: string, watchId: string): Promise<void> {
+    try {
+      const { error } = await supabase.from('price_watches')
+        .delete()
+        .eq('user_id', userId)
+        .eq('watch_id', watchId);
+
+      if (error) throw error;
+    } catch (error: any) {
+      throw new Error(error?.message || 'Failed to remove price alert. Please try again.');
+    }
+  }
+
+  async getNotifications(userId: string, limit: number = 20): Promise<AppNotification[]> {
+    try {
+      const { data, error } = await supabase.from('notifications')
+        .select('notification_id, watch_id, kind, title, body, link, price, read_at, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return (data || []).map((row) => ({
+        ...row,
+        kind: row.kind as AppNotification['kind'],
+        price: row.price !== null ? Number(row.price) : null,
+      }));
+    } catch (error) {
+      return [];
+    }
+  }
+
+  async getUnreadNotificationCount(userId: string): Promise<number> {
+    try {
+      const { count, error } = await supabase.from('notifications')
+        .select('notification_id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .is('read_at', null);
+
+      if (error) throw error;
+      return count || 0;
+    } catch (error) {
+      return 0;
+    }
+  }
+
+  // Marks the given notifications as read, or all unread ones
+  async markNotificationsRead(userId: string, notificationIds?: string[]): Promise<void> {
+    try {
+      let query = supabase.from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .is('read_at', null);
+
+      if (notificationIds) {
+        query = query.in('notification_id', notificationIds);
+      }
+
+      const { error } = await query;
+      if (error) throw error;
+    } catch (error: any) {
+      throw new Error(error?.message || 'Failed to update notifications. Please try again.');
+    }
+  }
+
+  async getAlertEmailDigest(userId: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.from('user_profiles')
+        .select('alert_email_digest')
+        .eq('id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return !!data?.alert_email_digest;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async updateAlertEmailDigest(userId: string, enabled: boolean): Promise<void> {
+    try {
+      const { error } = await supabase.from('user_profiles')
+        .update({ alert_email_digest: enabled, updated_at: new Date().toISOString() })
+        .eq('id', userId);
+
+      if (error) throw error;
+    } catch (error: any) {
+      throw new Error(error?.message || 'Failed to save email preference. Please try again.');
+    }
+  }
+
+  // Meal planner
+  async getPlan(userId: string, weekStartDate: string): Promise<Plan | null> {
+    try {
+      const { data, error } = await selectPlans()
+        .eq('user_id', userId)
+        .eq('week_start_date', weekStartDate)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? this.mapPlan(data) : null;
+    } catch (error: any) {
+      throw new Error(error?.message || 'Failed to load meal plan');
+    }
+  }
+
+  async getPlanById(planId: string): Promise<Plan | null> {
+    try {
+      const { data, error } = await selectPlans()
+        .eq('plan_id', planId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? this.mapPlan(data) : null;
+    } catch (error: any) {
+      throw new Error(error?.message || 'Failed to load meal plan');
+    }
+  }
+
+  private mapPlan(data: PlanRow): Plan {
+    const { plan_items, plan_totals, user_locations, ...plan } = data;
+    const sumPrices = (prices: { baseline_total: number | null; offer_total: number | null }[], key: 'baseline_total' | 'offer_total') =>
+      prices.length > 0 ? prices.reduce((sum, p) => sum + (p[key] || 0), 0) : undefined;
+
+    return {
+      ...plan,
+      status: plan.status as Plan['status'],
+      location_name: user_locations?.name || null,
+      totals: Array.isArray(plan_totals) ? plan_totals[0] || null : plan_totals,
+      items: (plan_items || []).map(({ dishes, plan_item_prices, ...item }) => ({
+        ...item,
+        dish_name: dishes?.name,
+        baseline_total: sumPrices(plan_item_prices || [], 'baseline_total'),
+        offer_total: sumPrices(plan_item_prices || [], 'offer_total'),
+      })),
+    };
+  }
+
+  async createPlan(userId: string, weekStartDate: string, weekIso: string, plz?: string | null): Promise<Plan> {
+    try {
+      const { data, error } = await supabase.from('plans')
+        .insert({
+          user_id: userId,
+          week_start_date: weekStartDate,
+          week_iso: weekIso,
+          status: 'draft',
+          plz: plz || null,
+        })
+        .select('plan_id, user_id, week_start_date, week_iso, status, locked_at, plz, user_locations(name)')
+        .single();
+
+      if (error) throw error;
+      const { user_locations, ...plan } = data;
+      return { ...plan, status: plan.status as Plan['status'], location_name: user_locations?.name || null, items: [] };
+    } catch (error: any) {
+      // Created meanwhile (e.g. in another tab): use that plan
+      if (error?.code === '23505') {
+        const existing = await this.getPlan(userId, weekStartDate);
+        if (existing) return existing;
+      }
+      throw new Error(error?.message || 'Failed to create meal plan');
+    }
+  }
+
+  async addPlanItem(planId: string, dishId: string, dayOfWeek: number, servings = 1): Promise<PlanItem> {
+    try {
+      const { data, error } = await supabase.from('plan_items')
+        .insert({
+          plan_id: planId,
+          dish_id: dishId,
+          day_of_week: dayOfWeek,
+          servings,
+        })
+        .select('plan_item_id, plan_id, day_of_week, dish_id, servings, dishes(name)')
+        .single();
+
+      if (error) throw error;
+      const { dishes, ...item } = data;
+      return { ...item, dish_name: dishes?.name };
+    } catch (error: any) {
+      throw new Error(error?.message || 'Failed to add dish to plan');
+    }
+  }
+
+  async updatePlanItem(
+    planItemId: string,
+    updates: { day_of_week?: number; servings?: number }
+  ): Promise<void> {
+    try {
+      const { error } = await supabase.from('plan_items')
+        .update(updates)
+        .eq('plan_item_id', planItemId);
+
+      if (error) throw error;
+    } catch (error: any) {
+      throw new Error(error?.message || 'Failed to update plan');
+    }
+  }
+
+  async removePlanItem(planItemId: string): Promise<void> {
+    try {
+      const { error } = await supabase.from('plan_items')
+        .delete()
+        .eq('plan_item_id', planItemId);
+
+      if (error) throw error;
+    } catch (error: any) {
+      throw new Error(error?.message || 'Failed to remove dish from plan');
+    }
+  }
+
+  // Prices the plan for another PLZ from now on (drafts only)
+  async updatePlanPLZ(planId: string, plz: string): Promise<void> {
+    try {
+      const { error } = await supabase.from('plans')
+        .update({ plz, updated_at: new Date().toISOString() })
+        .eq('plan_id', planId)
+        .eq('status', 'draft');
+
+      if (error) throw error;
+    } catch (error: any) {
+      throw new Error(error?.message || 'Failed to update the plan location');
+    }
+  }
+
+  async calculatePlanPrices(planId: string, plz?: string | null): Promise<PlanTotals | null> {
+    try {
+      const { data, error } = await supabase.rpc('calculate_plan_prices', {
+        _plan_id: planId,
+        _user_plz: plz || null,
+      });
+
+      if (error) throw error;
+      if (!data || data.length === 0) return null;
+      return data[0];
+    } catch (error: any) {
+      throw new Error(error?.message || 'Failed to calculate plan prices');
+    }
+  }
+
+  async lockPlan(planId: string, plz?: string | null): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('lock_plan', {
+        p_plan_id: planId,
+        p_user_plz: plz || null,
+      });
+
+      if (error) throw error;
+    } catch (error: any) {
+      throw new Error(error?.message || 'Failed to lock plan');
+    }
+  }
+
+  async unlockPlan(planId: string): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('unlock_plan', {
+        p_plan_id: planId,
+      });
+
+      if (error) throw error;
+    } catch (error: any) {
+      throw new Error(error?.message || 'Failed to unlock plan');
+    }
+  }
+
+  // Shopping list
+  async getShoppingList(
+    dishes: { dish_id: string; servings?: number }[],
+    plz?: string | null,
+    chainId?: string | null
+  ): Promise<ShoppingList> {
+    try {
+      if (dishes.length === 0) {
+        return { groups: [], item_count: 0, estimated_total: 0 };
+      }
+
+      const { data, error } = await supabase.rpc('get_shopping_list', {
+        _dish_ids: dishes.map((d) => d.dish_id),
+        _servings: dishes.map((d) => d.servings ?? null),
+      });
+
+      if (error) throw error;
+      const lines = data || [];
+
+      const ingredientIds = Array.from(new Set(lines.map((line) => line.ingredient_id)));
+      const allOffersByIngredient = await this.getActiveOffersByIngredient(ingredientIds, plz);
+      const convertUnit = await this.getUnitConverter(ingredientIds);
+
+      const groupsByChain = new Map<string, ShoppingListGroup>();
+      for (const line of lines) {
+        const bestOffer = this.pickBestOffer(allOffersByIngredient.get(line.ingredient_id) || [], chainId);
+        const item: ShoppingListItem = {
+          ingredient_id: line.ingredient_id,
+          ingredient_name: line.ingredient_name,
+          qty: Number(line.qty),
+          unit: line.unit,
+          optional: line.optional || false,
+          dish_names: line.dish_names || [],
+        };
+
+        if (bestOffer) {
+          const pricePerUnit = bestOffer.pack_size > 0 ? bestOffer.price_total / bestOffer.pack_size : 0;
+          const qtyInOfferUnit = convertUnit(item.qty, item.unit, bestOffer.unit_base, item.ingredient_id);
+          item.offer = {
+            offer_id: bestOffer.offer_id,
+            price_total: bestOffer.price_total,
+            pack_size: bestOffer.pack_size,
+            unit_base: bestOffer.unit_base,
+            source: bestOffer.source,
+            valid_from: bestOffer.valid_from,
+            valid_to: bestOffer.valid_to,
+            source_ref_id: bestOffer.source_ref_id,
+            chain_id: bestOffer.chain_id,
+            chain_name: bestOffer.chain_name,
+            price_per_unit: pricePerUnit,
+            calculated_price_for_qty: qtyInOfferUnit !== null ? qtyInOfferUnit * pricePerUnit : undefined,
+            // Picked by pickBestOffer, so it is the one the item is priced with
+            is_lowest_price: true,
+          };
+          item.estimated_cost = item.offer.calculated_price_for_qty;
+        }
+
+        const groupKey = bestOffer?.chain_id || '';
+        if (!groupsByChain.has(groupKey)) {
+          groupsByChain.set(groupKey, {
+            chain_id: bestOffer?.chain_id || null,
+            chain_name: bestOffer?.chain_name || null,
+            items: [],
+            estimated_total: 0,
+          });
+        }
+        const group = groupsByChain.get(groupKey)!;
+        group.items.push(item);
+        group.estimated_total += item.estimated_cost ?? 0;
+      }
+
+      // Chains alphabetically, ingredients without an offer last
+      const groups = Array.from(groupsByChain.values()).sort((a, b) => {
+        if (!a.chain_id) return 1;
+        if (!b.chain_id) return -1;
+        return (a.chain_name || '').localeCompare(b.chain_name || '');
+      });
+
+      return {
+        groups,
+        item_count: lines.length,
+        estimated_total: groups.reduce((sum, g) => sum + g.estimated_total, 0),
+      };
+    } catch (error: any) {
+      throw new Error(error?.message || 'Failed to create shopping list');
+    }
+  }
+
+  async getStoreSplit(
+    dishes: { dish_id: string; servings?: number }[],
+    plz: string,
+    maxChains = 2
+  ): Promise<StoreSplitResult> {
+    try {
+      const { data, error } = await supabase.rpc('calculate_shopping_list_chain_costs', {
+        _dish_ids: dishes.map((d) => d.dish_id),
+        _servings: dishes.map((d) => d.servings ?? null),
+        _user_plz: plz,
+      });
+
+      if (error) throw error;
+      return optimizeStoreSplit(data || [], maxChains);
+    } catch (error: any) {
+      throw new Error(error?.message || 'Failed to compare stores');
+    }
+  }
+
+  async getVisibilityRules(): Promise<DishVisibilityRules | null> {
+    try {
+      const { data, error } = await supabase.from('dish_visibility_rules')
+        .select('min_main_offers, min_side_offers, min_savings_percent, updated_at')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+      return {
+        min_main_offers: Number(data.min_main_offers),
+        min_side_offers: Number(data.min_side_offers),
+        min_savings_percent: Number(data.min_savings_percent),
+        updated_at: data.updated_at,
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async updateVisibilityRules(rules: DishVisibilityRules, userId?: string | null): Promise<void> {
+    try {
+      const { data, error } = await supabase.from('dish_visibility_rules')
+        .update({
+          min_main_offers: rules.min_main_offers,
+          min_side_offers: rules.min_side_offers,
+          min_savings_percent: rules.min_savings_percent,
+          updated_at: new Date().toISOString(),
+          updated_by: userId ?? null,
+        })
+        .eq('id', true)
+        .select('id');
+
+      if (error) throw error;
+      // RLS silently filters the update for non-admins
+      if (!data || data.length === 0) {
+        throw new Error('Only admins can change the visibility rules');
+      }
+    } catch (error: any) {
+      throw new Error(error?.message || 'Failed to save visibility rules');
+    }
+  }
+
+  async getBaselineSettings(): Promise<BaselineSettings | null> {
+    try {
+      const { data, error } = await supabase.from('baseline_settings')
+        .select('baseline_source, window_weeks, percentile, min_offers, updated_at')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+      return {
+        baseline_source: data.baseline_source as BaselineSource,
+        window_weeks: Number(data.window_weeks),
+        percentile: Number(data.percentile),
+        min_offers: Number(data.min_offers),
+        updated_at: data.updated_at,
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Saves the settings and recomputes the baselines so they match the new window and percentile
+  async updateBaselineSettings(settings: BaselineSettings, userId?: string | null): Promise<void> {
+    try {
+      const { data, error } = await supabase.from('baseline_settings')
+        .update({
+          baseline_source: settings.baseline_source,
+          window_weeks: settings.window_weeks,
+          percentile: settings.percentile,
+          min_offers: settings.min_offers,
+          updated_at: new Date().toISOString(),
+          updated_by: userId ?? null,
+        })
+        .eq('id', true)
+        .select('id');
+
+      if (error) throw error;
+      // RLS silently filters the update for non-admins
+      if (!data || data.length === 0) {
+        throw new Error('Only admins can change the baseline settings');
+      }
+
+      await this.refreshBaselines();
+    } catch (error: any) {
+      throw new Error(error?.message || 'Failed to save baseline settings');
+    }
+  }
+
+  // Recomputes the derived baselines; returns the number of ingredient/region baselines
+  async refreshBaselines(): Promise<number> {
+    try {
+      const { data, error } = await supabase.rpc('refresh_ingredient_baselines');
+      if (error) throw error;
+      return Number(data) || 0;
+    } catch (error: any) {
+      throw new Error(error?.message || 'Failed to recompute baselines');
+    }
+  }
+
+  // Largest drift first; ingredients without a manual baseline last
+  async getBaselineDrift(): Promise<BaselineDrift[]> {
+    try {
+      const { data, error } = await supabase.from('ingredient_baseline_drift')
+        .select('*')
+        .order('name_canonical', { ascending: true })
+        .order('region_id', { ascending: true });
+
+      if (error) throw error;
+      return (data || [])
+        .map((row) => ({
+          ...row,
+          manual_baseline: row.manual_baseline !== null ? Number(row.manual_baseline) : null,
+          computed_baseline: Number(row.computed_baseline),
+          drift_percent: row.drift_percent !== null ? Number(row.drift_percent) : null,
+        }))
+        .sort((a: BaselineDrift, b: BaselineDrift) => {
+          if (a.drift_percent === null) return b.drift_percent === null ? 0 : 1;
+          if (b.drift_percent === null) return -1;
+          return Math.abs(b.drift_percent) - Math.abs(a.drift_percent);
+        });
+    } catch (error: any) {
+      throw new Error(error?.message || 'Failed to load baseline drift');
+    }
+  }
+
+  // Waitlist signups per PLZ, most requested first (admins only)
+  async getWaitlistDemand(): Promise<WaitlistDemand[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_plz_waitlist_demand');
+
+      if (error) throw error;
+      return data || [];
+    } catch (error: any) {
+      throw new Error(error?.message || 'Failed to load the waitlist');
+    }
+  }
+
   async getTableData(tableName: string, limit = 50, offset = 0): Promise<{ data: any[]; count: number }> {
     try {
       const { count, error: countError } = await supabase
@@ -0,0 +1,60 @@
+// Utility functions for managing saved locations in localStorage (for logged-out users)
+
+import type { UserLocation } from '@/services/api';
+
+const LOCAL_LOCATIONS_KEY = 'guestLocations';
+
+/**
+ * Get all saved locations from localStorage, oldest first
+ */
+export function getLocalLocations(): UserLocation[] {
+  try {
+    const stored = localStorage.getItem(LOCAL_LOCATIONS_KEY);
+    if (stored) {
+      const locations = JSON.parse(stored);
+      return Array.isArray(locations) ? locations : [];
+    }
+  } catch (error) {
+    console.error('Error reading locations from localStorage:', error);
+  }
+  return [];
+}
+
+/**
+ * Save locations to localStorage
+ */
+export function saveLocalLocations(locations: UserLocation[]): void {
+  try {
+    localStorage.setItem(LOCAL_LOCATIONS_KEY, JSON.stringify(locations));
+  } catch (error) {
+    console.error('Error saving locations to localStorage:', error);
+  }
+}
+
+/**
+ * Add a named location to localStorage (names are unique, case-insensitive)
+ */
+export function addLocalLocation(name: string, plz: string): UserLocation {
+  const locations = getLocalLocations();
+  const trimmedName = name.trim();
+  if (locations.some((location) => location.name.toLowerCase() === trimmedName.toLowerCase())) {
+    throw new Error('You already have a location with this name');
+  }
+
+  const location: UserLocation = {
+    location_id: crypto.randomUUID(),
+    name: trimmedName,
+    plz,
+    created_at: new Date().toISOString(),
+  };
+  saveLocalLocations([...locations, location]);
+  return location;
+}
+
+/**
+ * Remove a location from localStorage
+ */
+export function removeLocalLocation(locationId: string): void {
+  const locations = getLocalLocations();
+  saveLocalLocations(locations.filter((location) => location.location_id !== locationId));
+}
@@ -0,0 +1,18 @@
+// Offer week helpers for browsing dishes with this week's or next week's flyers
+
+import { addWeeks, format, startOfISOWeek } from 'date-fns';
+
+export type OfferWeek = 'this' | 'next';
+
+/**
+ * As-of date passed to the pricing API: null for this week (today's offers),
+ * next Monday as YYYY-MM-DD for next week
+ */
+export function getOfferAsOfDate(week: OfferWeek, date: Date = new Date()): string | null {
+  if (week !== 'next') return null;
+  return format(startOfISOWeek(addWeeks(date, 1)), 'yyyy-MM-dd');
+}
+
+export function parseOfferWeek(value: string | null): OfferWeek {
+  return value === 'next' ? 'next' : 'this';
+}
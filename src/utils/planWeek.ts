@@ -0,0 +1,15 @@
+// Week helpers for meal plans, which are kept per ISO week starting on Monday
+
+import { format, getISOWeek, getISOWeekYear } from 'date-fns';
+
+export const PLAN_DAY_COUNT = 7;
+
+/** plans.week_start_date for the week starting on weekStart, as YYYY-MM-DD */
+export function toPlanWeekStartDate(weekStart: Date): string {
+  return format(weekStart, 'yyyy-MM-dd');
+}
+
+/** plans.week_iso, e.g. 2026-W43 */
+export function toPlanWeekIso(weekStart: Date): string {
+  return `${getISOWeekYear(weekStart)}-W${String(getISOWeek(weekStart)).padStart(2, '0')}`;
+}
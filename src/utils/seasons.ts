@@ -0,0 +1,22 @@
+// Season helpers for the dish filter (meteorological seasons, northern hemisphere)
+
+import type { Season } from '@/services/api';
+
+export const SEASONS: { value: Season; label: string }[] = [
+  { value: 'spring', label: 'Spring' },
+  { value: 'summer', label: 'Summer' },
+  { value: 'autumn', label: 'Autumn' },
+  { value: 'winter', label: 'Winter' },
+];
+
+/**
+ * Season of the given date: March-May spring, June-August summer,
+ * September-November autumn, December-February winter
+ */
+export function getCurrentSeason(date: Date = new Date()): Season {
+  const month = date.getMonth() + 1;
+  if (month >= 3 && month <= 5) return 'spring';
+  if (month >= 6 && month <= 8) return 'summer';
+  if (month >= 9 && month <= 11) return 'autumn';
+  return 'winter';
+}
@@ -0,0 +1,95 @@
+// Utility functions for exporting a shopping list as plain text or CSV
+
+import type { ShoppingList, ShoppingListItem } from '@/services/api';
+
+const NO_OFFER_LABEL = 'No current offer';
+
+/**
+ * Format a quantity with at most two decimals and German decimal separator
+ */
+export function formatQuantity(qty: number, unit: string): string {
+  const rounded = Math.round(qty * 100) / 100;
+  return `${rounded.toLocaleString('de-DE')} ${unit}`;
+}
+
+/**
+ * Display name of a shopping list group
+ */
+export function getGroupLabel(chainName: string | null): string {
+  return chainName || NO_OFFER_LABEL;
+}
+
+function formatItemLine(item: ShoppingListItem): string {
+  let line = `[ ] ${formatQuantity(item.qty, item.unit)} ${item.ingredient_name}`;
+  if (item.optional) {
+    line += ' (optional)';
+  }
+  if (item.estimated_cost !== undefined) {
+    line += ` – ca. €${item.estimated_cost.toFixed(2)}`;
+  }
+  return line;
+}
+
+/**
+ * Render the shopping list as plain text, one section per chain
+ */
+export function shoppingListToText(list: ShoppingList): string {
+  const sections = list.groups.map((group) => {
+    const header = getGroupLabel(group.chain_name);
+    const lines = group.items.map(formatItemLine);
+    return [header, ...lines].join('\n');
+  });
+
+  if (list.estimated_total > 0) {
+    sections.push(`Estimated total: €${list.estimated_total.toFixed(2)}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+function escapeCSV(value: string | number | undefined): string {
+  if (value === undefined || value === null) return '';
+  const str = String(value);
+  if (/[",;\n]/.test(str)) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+/**
+ * Render the shopping list as CSV (one row per ingredient)
+ */
+export function shoppingListToCSV(list: ShoppingList): string {
+  const header = ['chain', 'ingredient', 'qty', 'unit', 'optional', 'offer_price', 'offer_pack_size', 'offer_unit', 'estimated_cost', 'dishes'];
+  const rows = list.groups.flatMap((group) =>
+    group.items.map((item) => [
+      group.chain_name || '',
+      item.ingredient_name,
+      Math.round(item.qty * 1000) / 1000,
+      item.unit,
+      item.optional ? 'true' : 'false',
+      item.offer?.price_total,
+      item.offer?.pack_size,
+      item.offer?.unit_base,
+      item.estimated_cost !== undefined ? item.estimated_cost.toFixed(2) : undefined,
+      item.dish_names.join(' | '),
+    ])
+  );
+
+  return [header, ...rows].map((row) => row.map(escapeCSV).join(',')).join('\n');
+}
+
+/**
+ * Trigger a browser download of the given text content
+ */
+export function downloadTextFile(content: string, filename: string, mimeType = 'text/plain'): void {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
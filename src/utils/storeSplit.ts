@@ -0,0 +1,118 @@
+// Store-split optimizer: finds the cheapest way to buy a shopping list at up to N chains
+
+import type { StoreSplitLineCost, StoreSplitOption, StoreSplitItem, StoreSplitResult } from '@/services/api';
+
+interface LineKey {
+  ingredient_id: string;
+  ingredient_name: string;
+  qty: number;
+  unit: string;
+  baseline_total: number;
+  costs: Map<string, number>; // chain_id -> offer total (only chains with an offer)
+}
+
+function groupLines(rows: StoreSplitLineCost[]): LineKey[] {
+  const lines = new Map<string, LineKey>();
+  for (const row of rows) {
+    const key = `${row.ingredient_id}|${row.unit}`;
+    if (!lines.has(key)) {
+      lines.set(key, {
+        ingredient_id: row.ingredient_id,
+        ingredient_name: row.ingredient_name,
+        qty: Number(row.qty),
+        unit: row.unit,
+        baseline_total: Number(row.baseline_total) || 0,
+        costs: new Map(),
+      });
+    }
+    if (row.offer_total !== null && row.offer_total !== undefined) {
+      lines.get(key)!.costs.set(row.chain_id, Number(row.offer_total));
+    }
+  }
+  return Array.from(lines.values());
+}
+
+function combinations<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  if (items.length < size) return [];
+  const [first, ...rest] = items;
+  return [
+    ...combinations(rest, size - 1).map((combo) => [first, ...combo]),
+    ...combinations(rest, size),
+  ];
+}
+
+/**
+ * Price a shopping list at a fixed set of chains. Each line goes to the chain
+ * where it is cheapest; a chain without an offer sells it at the regular price.
+ */
+function priceOption(lines: LineKey[], chains: { chain_id: string; chain_name: string }[]): StoreSplitOption {
+  const assignments = chains.map((chain) => ({ ...chain, items: [] as StoreSplitItem[], subtotal: 0 }));
+
+  for (const line of lines) {
+    let bestIndex = 0;
+    let bestCost = Infinity;
+    let onOffer = false;
+    chains.forEach((chain, index) => {
+      const offerCost = line.costs.get(chain.chain_id);
+      const cost = offerCost ?? line.baseline_total;
+      if (cost < bestCost || (cost === bestCost && offerCost !== undefined && !onOffer)) {
+        bestIndex = index;
+        bestCost = cost;
+        onOffer = offerCost !== undefined;
+      }
+    });
+
+    assignments[bestIndex].items.push({
+      ingredient_id: line.ingredient_id,
+      ingredient_name: line.ingredient_name,
+      qty: line.qty,
+      unit: line.unit,
+      cost: bestCost,
+      on_offer: onOffer,
+    });
+    assignments[bestIndex].subtotal += bestCost;
+  }
+
+  return {
+    chains,
+    total: assignments.reduce((sum, a) => sum + a.subtotal, 0),
+    assignments: assignments.filter((a) => a.items.length > 0),
+  };
+}
+
+/**
+ * Compare buying everything at one chain with splitting across at most maxChains chains
+ */
+export function optimizeStoreSplit(rows: StoreSplitLineCost[], maxChains: number): StoreSplitResult {
+  const lines = groupLines(rows);
+  const chainMap = new Map<string, string>();
+  rows.forEach((row) => chainMap.set(row.chain_id, row.chain_name));
+  const chains = Array.from(chainMap.entries())
+    .map(([chain_id, chain_name]) => ({ chain_id, chain_name }))
+    .sort((a, b) => a.chain_name.localeCompare(b.chain_name));
+
+  const singleChainOptions = chains
+    .map((chain) => priceOption(lines, [chain]))
+    .sort((a, b) => a.total - b.total);
+
+  let bestSplit: StoreSplitOption | null = singleChainOptions[0] || null;
+  for (let size = 2; size <= Math.min(maxChains, chains.length); size++) {
+    for (const combo of combinations(chains, size)) {
+      const option = priceOption(lines, combo);
+      // Only count a chain as a stop if something is bought there
+      option.chains = option.assignments.map(({ chain_id, chain_name }) => ({ chain_id, chain_name }));
+      if (!bestSplit || option.total < bestSplit.total - 0.005) {
+        bestSplit = option;
+      }
+    }
+  }
+
+  const bestSingle = singleChainOptions[0] || null;
+  return {
+    single_chain_options: singleChainOptions,
+    best_single: bestSingle,
+    best_split: bestSplit,
+    savings_vs_single: bestSingle && bestSplit ? Math.max(bestSingle.total - bestSplit.total, 0) : 0,
+  };
+}
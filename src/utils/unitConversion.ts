@@ -0,0 +1,95 @@
+// Unit conversion driven by lookups_units, ingredient densities/piece weights and
+// ingredient_unit_conversions (mirrors convert_unit in the database)
+
+export type UnitDimension = 'mass' | 'volume' | 'count';
+
+export interface UnitDefinition {
+  unit: string;
+  dimension: UnitDimension | null;
+  base_factor: number | null;
+}
+
+export interface IngredientConversionData {
+  ingredient_id: string;
+  density_g_per_ml?: number | null;
+  piece_weight_g?: number | null;
+  conversions: { unit: string; factor: number; target_unit: string }[];
+}
+
+/**
+ * Converts qty between units; returns null if the conversion is not possible
+ */
+export type UnitConverter = (
+  qty: number,
+  fromUnit: string,
+  toUnit: string,
+  ingredientId?: string
+) => number | null;
+
+const normalize = (unit: string) => unit.toLowerCase().trim();
+
+export function createUnitConverter(
+  units: UnitDefinition[],
+  ingredients: IngredientConversionData[] = []
+): UnitConverter {
+  const unitMap = new Map<string, UnitDefinition>();
+  units.forEach((u) => {
+    if (u.dimension && u.base_factor && u.base_factor > 0) {
+      unitMap.set(normalize(u.unit), u);
+    }
+  });
+  const ingredientMap = new Map(ingredients.map((i) => [i.ingredient_id, i]));
+
+  const convertStandard = (
+    qty: number,
+    fromUnit: string,
+    toUnit: string,
+    density?: number | null,
+    pieceWeight?: number | null
+  ): number | null => {
+    if (normalize(fromUnit) === normalize(toUnit)) return qty;
+
+    const from = unitMap.get(normalize(fromUnit));
+    const to = unitMap.get(normalize(toUnit));
+    if (!from || !to) return null;
+
+    const baseQty = qty * from.base_factor!;
+    if (from.dimension === to.dimension) {
+      return baseQty / to.base_factor!;
+    }
+
+    // Different dimensions: go through grams
+    let grams: number | null = null;
+    if (from.dimension === 'mass') grams = baseQty;
+    else if (from.dimension === 'volume' && density) grams = baseQty * density;
+    else if (from.dimension === 'count' && pieceWeight) grams = baseQty * pieceWeight;
+    if (grams === null) return null;
+
+    if (to.dimension === 'mass') return grams / to.base_factor!;
+    if (to.dimension === 'volume' && density) return grams / density / to.base_factor!;
+    if (to.dimension === 'count' && pieceWeight) return grams / pieceWeight / to.base_factor!;
+    return null;
+  };
+
+  return (qty, fromUnit, toUnit, ingredientId) => {
+    if (qty === null || qty === undefined || !fromUnit || !toUnit) return null;
+    if (normalize(fromUnit) === normalize(toUnit)) return qty;
+
+    const ingredient = ingredientId ? ingredientMap.get(ingredientId) : undefined;
+    if (!ingredient) {
+      return convertStandard(qty, fromUnit, toUnit);
+    }
+
+    const fromConversion = ingredient.conversions.find((c) => normalize(c.unit) === normalize(fromUnit));
+    const toConversion = ingredient.conversions.find((c) => normalize(c.unit) === normalize(toUnit));
+
+    const converted = convertStandard(
+      qty * (fromConversion?.factor ?? 1),
+      fromConversion?.target_unit ?? fromUnit,
+      toConversion?.target_unit ?? toUnit,
+      ingredient.density_g_per_ml,
+      ingredient.piece_weight_g
+    );
+    return converted === null ? null : converted / (toConversion?.factor ?? 1);
+  };
+}
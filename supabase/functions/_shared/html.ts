@@ -0,0 +1,11 @@
+// Escapes text for HTML email bodies and attribute values, e.g. user names
+// and notification texts that may contain <, > or quotes
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
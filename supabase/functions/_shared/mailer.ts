@@ -0,0 +1,71 @@
+// Pluggable mailer for Edge Functions. MAILER selects the implementation:
+// 'resend' sends through the Resend API, anything else (default 'stub')
+// only logs and keeps the messages, for local development and testing.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface StubMailer extends Mailer {
+  sent: MailMessage[];
+}
+
+export function createStubMailer(): StubMailer {
+  const sent: MailMessage[] = [];
+  return {
+    name: 'stub',
+    sent,
+    async send(message: MailMessage) {
+      sent.push(message);
+      console.log(`[stub mailer] To: ${message.to} | Subject: ${message.subject}\n${message.text}`);
+    },
+  };
+}
+
+export function createResendMailer(apiKey: string, from: string): Mailer {
+  return {
+    name: 'resend',
+    async send(message: MailMessage) {
+      const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          from,
+          to: [message.to],
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Resend API error ${response.status}: ${await response.text()}`);
+      }
+    },
+  };
+}
+
+export function createMailer(): Mailer {
+  const mailer = Deno.env.get('MAILER') ?? 'stub';
+
+  if (mailer === 'resend') {
+    const apiKey = Deno.env.get('RESEND_API_KEY');
+    if (!apiKey) {
+      throw new Error('RESEND_API_KEY not configured');
+    }
+    return createResendMailer(apiKey, Deno.env.get('MAIL_FROM') || 'ThriftyWe <alerts@thriftywe.de>');
+  }
+
+  return createStubMailer();
+}
@@ -79,14 +79,15 @@ function getExpectedColumns(tableType: string): string[] {
     'ad_regions': ['region_id', 'chain_id', 'label'],
     'chains': ['chain_id', 'chain_name'],
     'dish_ingredients': ['dish_id', 'ingredient_id', 'qty', 'unit', 'optional', 'role'], // qty and unit are optional (for assignment only, not calculations)
-    'dishes': ['dish_id', 'name', 'category', 'is_quick', 'is_meal_prep', 'season', 'cuisine', 'notes'],
-    'ingredients': ['ingredient_id', 'name_canonical', 'unit_default', 'price_baseline_per_unit', 'allergen_tags', 'notes'],
+    'dishes': ['dish_id', 'name', 'category', 'is_quick', 'is_meal_prep', 'season', 'cuisine', 'notes', 'servings'],
+    'ingredients': ['ingredient_id', 'name_canonical', 'unit_default', 'price_baseline_per_unit', 'allergen_tags', 'notes', 'density_g_per_ml', 'piece_weight_g', 'diet_class'],
+    'ingredient_unit_conversions': ['ingredient_id', 'unit', 'factor', 'target_unit'],
     'offers': ['region_id', 'ingredient_id', 'price_total', 'pack_size', 'unit_base', 'valid_from', 'valid_to', 'source', 'source_ref_id', 'chain_id'],
-    'postal_codes': ['plz', 'region_id', 'city'],
+    'postal_codes': ['plz', 'region_id', 'city', 'lat', 'lon'], // lat/lon (PLZ centroid) are optional
     'store_region_map': ['store_id', 'region_id'],
     'stores': ['store_id', 'chain_id', 'store_name', 'plz', 'city', 'street', 'lat', 'lon'],
     'lookups_categories': ['category'],
-    'lookups_units': ['unit', 'description'],
+    'lookups_units': ['unit', 'description', 'dimension', 'base_factor'],
   };
   
   return expectedColumns[tableType] || [];
@@ -96,9 +97,10 @@ function getRequiredFields(tableType: string): Set<string> {
   const requiredFields: Record<string, string[]> = {
     'ad_regions': ['region_id', 'chain_id', 'label'],
     'chains': ['chain_id', 'chain_name'],
-    'dish_ingredients': ['dish_id', 'ingredient_id', 'optional', 'role'], // qty and unit are optional (for assignment only, not calculations)
+    'dish_ingredients': ['dish_id', 'ingredient_id', 'optional'], // qty and unit are optional (for assignment only, not calculations); role defaults to side
     'dishes': ['dish_id', 'name', 'category', 'is_quick', 'is_meal_prep'],
     'ingredients': ['ingredient_id', 'name_canonical', 'unit_default', 'price_baseline_per_unit'],
+    'ingredient_unit_conversions': ['ingredient_id', 'unit', 'factor', 'target_unit'],
     'offers': ['region_id', 'ingredient_id', 'price_total', 'unit_base', 'source', 'chain_id'],
     'postal_codes': ['plz', 'region_id', 'city'],
     'store_region_map': ['store_id', 'region_id'],
@@ -167,7 +169,15 @@ function validateRow(
         !(tableType === 'offers' && header === 'pack_size') &&
         !(tableType === 'dish_ingredients' && (header === 'qty' || header === 'unit')) &&
         !requiredFields.has(header)) {
-      rowData[header] = null;
+      // servings is NOT NULL - an empty value means the default of 1 serving;
+      // role is NOT NULL - an empty value means a side ingredient
+      if (tableType === 'dishes' && header === 'servings') {
+        rowData[header] = 1;
+      } else if (tableType === 'dish_ingredients' && header === 'role') {
+        rowData[header] = 'side';
+      } else {
+        rowData[header] = null;
+      }
       continue;
     }
 
@@ -244,6 +254,12 @@ function validateRow(
       case 'dishes':
         if (header === 'is_quick' || header === 'is_meal_prep') {
           rowData[header] = value.toUpperCase() === 'TRUE';
+        } else if (header === 'servings') {
+          const num = parseInt(value, 10);
+          if (isNaN(num) || num <= 0 || String(num) !== value) {
+            return { valid: false, error: `Invalid servings: "${value}". Must be a whole number greater than 0 (e.g., 4), or leave empty for 1.` };
+          }
+          rowData[header] = num;
         } else {
           rowData[header] = value;
         }
@@ -273,6 +289,16 @@ function validateRow(
           }
         } else if (header === 'optional') {
           rowData[header] = value.toUpperCase() === 'TRUE';
+        } else if (header === 'role') {
+          // role is the ingredient_role enum; German labels are still accepted
+          const role = value.toLowerCase();
+          if (role === 'main' || role === 'hauptzutat') {
+            rowData[header] = 'main';
+          } else if (role === 'side' || role === 'secondary' || role === 'nebenzutat') {
+            rowData[header] = 'side';
+          } else {
+            return { valid: false, error: `Invalid role: "${value}". Must be main (Hauptzutat) or side (Nebenzutat), or leave empty for side.` };
+          }
         } else {
           rowData[header] = value;
         }
@@ -291,6 +317,48 @@ function validateRow(
           rowData[header] = num;
         } else if (header === 'allergen_tags') {
           rowData[header] = value ? value.split(',').map(t => t.trim()) : null;
+        } else if (header === 'density_g_per_ml' || header === 'piece_weight_g') {
+          // Optional conversion data - empty values are handled above
+          const num = parseFloat(value.replace(',', '.'));
+          if (isNaN(num) || num <= 0) {
+            return { valid: false, error: `Invalid ${header}: "${value}". Must be a number greater than 0 (e.g., 0.92 or 0,92), or leave empty.` };
+          }
+          rowData[header] = num;
+        } else if (header === 'diet_class') {
+          const dietClass = value.toLowerCase();
+          if (!['vegan', 'vegetarian', 'omnivore'].includes(dietClass)) {
+            return { valid: false, error: `Invalid diet_class: "${value}". Must be vegan, vegetarian or omnivore, or leave empty.` };
+          }
+          rowData[header] = dietClass;
+        } else {
+          rowData[header] = value;
+        }
+        break;
+
+      case 'ingredient_unit_conversions':
+        if (header === 'factor') {
+          const num = parseFloat(value.replace(',', '.'));
+          if (isNaN(num) || num <= 0) {
+            return { valid: false, error: `Invalid factor: "${value}". Must be a number greater than 0 (e.g., 5 or 0,5).` };
+          }
+          rowData[header] = num;
+        } else {
+          rowData[header] = value;
+        }
+        break;
+
+      case 'lookups_units':
+        if (header === 'dimension') {
+          if (!['mass', 'volume', 'count'].includes(value)) {
+            return { valid: false, error: `Invalid dimension: "${value}". Must be mass, volume or count, or leave empty.` };
+          }
+          rowData[header] = value;
+        } else if (header === 'base_factor') {
+          const num = parseFloat(value.replace(',', '.'));
+          if (isNaN(num) || num <= 0) {
+            return { valid: false, error: `Invalid base_factor: "${value}". Must be a number greater than 0 (e.g., 1000 for kg), or leave empty.` };
+          }
+          rowData[header] = num;
         } else {
           rowData[header] = value;
         }
@@ -667,6 +735,17 @@ serve(async (req) => {
           .select();
         insertError = error;
         if (data) insertedCount = data.length;
+      } else if (tableType === 'ingredient_unit_conversions') {
+        // Composite primary key (ingredient_id, unit)
+        const { error, data } = await supabaseClient
+          .from(tableType)
+          .upsert(validRows, { 
+            onConflict: 'ingredient_id,unit',
+            ignoreDuplicates: false 
+          })
+          .select();
+        insertError = error;
+        if (data) insertedCount = data.length;
       } else if (tableType === 'dishes') {
         // Dishes uses dish_id as primary key
         const { error, data } = await supabaseClient
@@ -842,6 +921,39 @@ serve(async (req) => {
         if (data) insertedCount = data.length;
       }
 
+      // Pricing reads the current_best_offers snapshot, so rebuild it after new offers arrive
+      if (tableType === 'offers' && insertedCount > 0) {
+        const { error: refreshError } = await supabaseClient.rpc('refresh_current_best_offers');
+        if (refreshError) {
+          result.errors.push(`Warning: Offers were imported, but the current offer snapshot could not be refreshed: ${refreshError.message}`);
+        }
+
+        // Derived baselines come from the offer history too
+        const { error: baselineError } = await supabaseClient.rpc('refresh_ingredient_baselines');
+        if (baselineError) {
+          result.errors.push(`Warning: Offers were imported, but the derived baselines could not be recomputed: ${baselineError.message}`);
+        }
+
+        // Price alerts: notify watchers whose threshold is met, then mail digests to users who opted in
+        const { data: alertCount, error: alertError } = await supabaseClient.rpc('process_price_watches');
+        if (alertError) {
+          result.errors.push(`Warning: Offers were imported, but price alerts could not be processed: ${alertError.message}`);
+        } else if (alertCount > 0) {
+          const { error: digestError } = await supabaseClient.functions.invoke('send-alert-digests');
+          if (digestError) {
+            result.errors.push(`Warning: ${alertCount} price alerts were created, but the email digests could not be sent: ${digestError.message}`);
+          }
+        }
+      }
+
+      // New offers or postal codes can cover PLZs people are waiting for
+      if ((tableType === 'offers' || tableType === 'postal_codes') && insertedCount > 0) {
+        const { error: waitlistError } = await supabaseClient.functions.invoke('notify-waitlist');
+        if (waitlistError) {
+          result.errors.push(`Warning: Data was imported, but the waitlist could not be notified: ${waitlistError.message}`);
+        }
+      }
+
       if (insertError && insertedCount === 0) {
         const errorAny = insertError as any;
         result.imported = insertedCount;
@@ -857,6 +969,11 @@ serve(async (req) => {
             result.errors.push('Import Error: Unit not found');
             result.errors.push(`The unit_default value in your CSV does not exist in the lookups_units table.`);
             result.errors.push(`Fix: Import "Units (Lookup)" CSV file first, then verify unit names match exactly.`);
+          } else if (tableType === 'ingredient_unit_conversions') {
+            result.errors.push('Import Error: Reference data missing');
+            result.errors.push(`One or more references in your CSV do not exist:`);
+            result.errors.push(`- ingredient_id must exist in ingredients table (import ingredients first)`);
+            result.errors.push(`- unit and target_unit must exist in lookups_units table (import units lookup first)`);
           } else if (tableType === 'dishes') {
             result.errors.push('Import Error: Category not found');
             result.errors.push(`The category value in your CSV does not exist in the lookups_categories table.`);
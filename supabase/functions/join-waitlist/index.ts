@@ -0,0 +1,94 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createMailer, type MailMessage } from '../_shared/mailer.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function buildConfirmMail(plz: string, email: string, confirmToken: string, frontendUrl: string): MailMessage {
+  const url = `${frontendUrl}/coverage?plz=${plz}&confirm=${confirmToken}`;
+
+  return {
+    to: email,
+    subject: `Confirm your ThriftyWe notification for ${plz}`,
+    text: `Hi there,\n\nplease confirm that we may email you once ThriftyWe has supermarket offers for ${plz}:\n\n${url}\n\n`
+      + `If you did not ask for this, ignore this email and you won't hear from us.`,
+    html: `<p>Hi there,</p><p>please <a href="${url}">confirm</a> that we may email you once ThriftyWe has supermarket offers for ${plz}.</p>`
+      + `<p>If you did not ask for this, ignore this email and you won't hear from us.</p>`,
+  };
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { plz, email } = await req.json();
+    const trimmedEmail = typeof email === 'string' ? email.trim() : '';
+
+    if (typeof plz !== 'string' || !/^\d{5}$/.test(plz) || !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(trimmedEmail)) {
+      return new Response(
+        JSON.stringify({ error: 'A 5-digit PLZ and a valid email are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Signed-in visitors are linked to their signup; anyone else joins anonymously
+    let userId: string | null = null;
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader) {
+      const userClient = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+        { global: { headers: { Authorization: authHeader } } }
+      );
+      const { data: { user } } = await userClient.auth.getUser();
+      userId = user?.id ?? null;
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const { data, error } = await supabaseClient
+      .from('plz_waitlist')
+      .insert({ plz, email: trimmedEmail, user_id: userId })
+      .select('confirm_token')
+      .single();
+
+    // Signed up before: no second confirmation mail, so the endpoint cannot
+    // be used to flood an address
+    if (error?.code === '23505') {
+      return new Response(
+        JSON.stringify({ joined: true }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (error) throw error;
+
+    const frontendUrl = Deno.env.get('FRONTEND_URL') || 'http://localhost:8080';
+    await createMailer().send(buildConfirmMail(plz, trimmedEmail, data.confirm_token, frontendUrl));
+
+    return new Response(
+      JSON.stringify({ joined: true }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: any) {
+    console.error('Error joining waitlist:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to join the waitlist' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,132 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createMailer, type MailMessage, type StubMailer } from '../_shared/mailer.ts';
+import { escapeHtml } from '../_shared/html.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface WaitlistDemandRow {
+  plz: string;
+  city: string | null;
+  pending: number;
+  is_covered: boolean;
+}
+
+interface WaitlistEntry {
+  waitlist_id: string;
+  plz: string;
+  email: string;
+}
+
+function buildCoveredMail(entry: WaitlistEntry, city: string | null, frontendUrl: string): MailMessage {
+  const place = city ? `${entry.plz} ${city}` : entry.plz;
+  const url = `${frontendUrl}/coverage?plz=${entry.plz}`;
+
+  return {
+    to: entry.email,
+    subject: `ThriftyWe now covers ${place}`,
+    text: `Hi there,\n\ngood news: ThriftyWe now has supermarket offers for ${place}. `
+      + `See which dishes are cheap this week:\n\n${url}\n\n`
+      + `You get this email because you asked and confirmed to be notified when your area is covered. We won't email you about it again.`,
+    html: `<p>Hi there,</p><p>good news: ThriftyWe now has supermarket offers for ${escapeHtml(place)}. `
+      + `<a href="${url}">See which dishes are cheap this week</a>.</p>`
+      + `<p>You get this email because you asked and confirmed to be notified when your area is covered. We won't email you about it again.</p>`,
+  };
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    // Only the service role (import-csv, scheduler) may send waitlist emails
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const authHeader = req.headers.get('Authorization');
+    if (!serviceRoleKey || authHeader !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const mailer = createMailer();
+    const frontendUrl = Deno.env.get('FRONTEND_URL') || 'http://localhost:8080';
+
+    const { data: demand, error: demandError } = await supabaseClient.rpc('get_plz_waitlist_demand');
+    if (demandError) throw demandError;
+
+    const coveredPLZs = new Map<string, string | null>();
+    ((demand || []) as WaitlistDemandRow[]).forEach((row) => {
+      if (row.is_covered && row.pending > 0) {
+        coveredPLZs.set(row.plz, row.city);
+      }
+    });
+
+    const errors: string[] = [];
+    let sentCount = 0;
+
+    if (coveredPLZs.size > 0) {
+      const { data, error } = await supabaseClient
+        .from('plz_waitlist')
+        .select('waitlist_id, plz, email')
+        .not('confirmed_at', 'is', null)
+        .is('notified_at', null)
+        .in('plz', Array.from(coveredPLZs.keys()));
+
+      if (error) throw error;
+
+      for (const entry of (data || []) as WaitlistEntry[]) {
+        try {
+          await mailer.send(buildCoveredMail(entry, coveredPLZs.get(entry.plz) ?? null, frontendUrl));
+        } catch (sendError: any) {
+          errors.push(`Failed to notify ${entry.email}: ${sendError.message}`);
+          continue;
+        }
+
+        const { error: updateError } = await supabaseClient
+          .from('plz_waitlist')
+          .update({ notified_at: new Date().toISOString() })
+          .eq('waitlist_id', entry.waitlist_id);
+
+        if (updateError) {
+          errors.push(`Notified ${entry.email}, but the waitlist entry could not be updated: ${updateError.message}`);
+        }
+        sentCount++;
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        mailer: mailer.name,
+        covered_plzs: coveredPLZs.size,
+        notified: sentCount,
+        errors,
+        // The stub mailer returns what it would have sent, for local testing
+        ...(mailer.name === 'stub' ? { preview: (mailer as StubMailer).sent } : {}),
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: any) {
+    console.error('Error notifying waitlist:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to notify waitlist' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,142 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createMailer, type MailMessage, type StubMailer } from '../_shared/mailer.ts';
+import { escapeHtml } from '../_shared/html.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Runs after offers imports (import-csv). The nightly process_price_watches()
+// pg_cron job does not call it, so alerts created at night are mailed with the
+// next import's digest unless this function is also scheduled (see README).
+
+// Older unsent notifications are not mailed anymore (e.g. after opting in later)
+const DIGEST_MAX_AGE_DAYS = 7;
+
+interface DigestNotification {
+  notification_id: string;
+  user_id: string;
+  title: string;
+  body: string | null;
+  link: string | null;
+  created_at: string;
+  user_profiles: { email: string | null; username: string | null };
+}
+
+function buildDigest(email: string, username: string | null, notifications: DigestNotification[], frontendUrl: string): MailMessage {
+  const count = notifications.length;
+  const subject = count === 1 ? `Price alert: ${notifications[0].title}` : `${count} new price alerts`;
+  const lines = notifications.map((n) => {
+    const url = n.link ? `${frontendUrl}${n.link}` : frontendUrl;
+    return `- ${n.title}\n  ${n.body ?? ''}\n  ${url}`;
+  });
+  const items = notifications.map((n) => {
+    const url = n.link ? `${frontendUrl}${n.link}` : frontendUrl;
+    return `<li><a href="${escapeHtml(url)}">${escapeHtml(n.title)}</a><br />${escapeHtml(n.body ?? '')}</li>`;
+  });
+
+  return {
+    to: email,
+    subject,
+    text: `Hi ${username || 'there'},\n\nyour price alerts on ThriftyWe:\n\n${lines.join('\n\n')}\n\n`
+      + `You get this email because you enabled price alert emails. You can turn them off under the bell icon in the app.`,
+    html: `<p>Hi ${escapeHtml(username || 'there')},</p><p>your price alerts on ThriftyWe:</p><ul>${items.join('')}</ul>`
+      + `<p>You get this email because you enabled price alert emails. You can turn them off under the bell icon in the app.</p>`,
+  };
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    // Only the service role (import-csv, scheduler) may send digests
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const authHeader = req.headers.get('Authorization');
+    if (!serviceRoleKey || authHeader !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const mailer = createMailer();
+    const frontendUrl = Deno.env.get('FRONTEND_URL') || 'http://localhost:8080';
+    const since = new Date(Date.now() - DIGEST_MAX_AGE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data, error } = await supabaseClient
+      .from('notifications')
+      .select('notification_id, user_id, title, body, link, created_at, user_profiles!inner(email, username, alert_email_digest)')
+      .is('emailed_at', null)
+      .gte('created_at', since)
+      .eq('user_profiles.alert_email_digest', true)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    const byUser = new Map<string, DigestNotification[]>();
+    ((data || []) as DigestNotification[]).forEach((notification) => {
+      const list = byUser.get(notification.user_id) || [];
+      list.push(notification);
+      byUser.set(notification.user_id, list);
+    });
+
+    const errors: string[] = [];
+    let sentCount = 0;
+
+    for (const notifications of byUser.values()) {
+      const { email, username } = notifications[0].user_profiles;
+      if (!email) continue;
+
+      try {
+        await mailer.send(buildDigest(email, username, notifications, frontendUrl));
+      } catch (sendError: any) {
+        errors.push(`Failed to send digest to ${email}: ${sendError.message}`);
+        continue;
+      }
+
+      const { error: updateError } = await supabaseClient
+        .from('notifications')
+        .update({ emailed_at: new Date().toISOString() })
+        .in('notification_id', notifications.map((n) => n.notification_id));
+
+      if (updateError) {
+        errors.push(`Digest sent to ${email}, but notifications could not be marked as emailed: ${updateError.message}`);
+      }
+      sentCount++;
+    }
+
+    return new Response(
+      JSON.stringify({
+        mailer: mailer.name,
+        digests: sentCount,
+        notifications: (data || []).length,
+        errors,
+        // The stub mailer returns what it would have sent, for local testing
+        ...(mailer.name === 'stub' ? { preview: (mailer as StubMailer).sent } : {}),
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: any) {
+    console.error('Error sending alert digests:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to send alert digests' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,221 @@
+-- ============================================================================
+-- Weekly Meal Planner
+-- Wires up the existing plans / plan_items / plan_item_prices tables:
+-- one plan per user and week, editable while in draft, frozen when locked
+-- ============================================================================
+
+-- Only 'draft' and 'locked' plans exist
+UPDATE plans SET status = 'draft' WHERE status IS NULL OR status NOT IN ('draft', 'locked');
+
+ALTER TABLE plans
+ALTER COLUMN status SET NOT NULL;
+
+ALTER TABLE plans
+DROP CONSTRAINT IF EXISTS plans_status_check;
+
+ALTER TABLE plans
+ADD CONSTRAINT plans_status_check CHECK (status IN ('draft', 'locked'));
+
+-- A user has at most one plan per week
+CREATE UNIQUE INDEX IF NOT EXISTS idx_plans_user_week
+ON plans(user_id, week_start_date);
+
+-- Servings must be positive
+ALTER TABLE plan_items
+DROP CONSTRAINT IF EXISTS plan_items_servings_check;
+
+ALTER TABLE plan_items
+ADD CONSTRAINT plan_items_servings_check CHECK (servings > 0);
+
+CREATE INDEX IF NOT EXISTS idx_plan_items_plan ON plan_items(plan_id);
+CREATE INDEX IF NOT EXISTS idx_plan_item_prices_plan_item ON plan_item_prices(plan_item_id);
+
+-- ============================================================================
+-- LOCKED PLANS ARE READ-ONLY
+-- ============================================================================
+
+-- Reject changes to items of a locked plan
+CREATE OR REPLACE FUNCTION prevent_locked_plan_item_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_plan_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_plan_id := OLD.plan_id;
+  ELSE
+    v_plan_id := NEW.plan_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM plans
+    WHERE plan_id = v_plan_id
+      AND status = 'locked'
+  ) THEN
+    RAISE EXCEPTION 'Plan % is locked and cannot be changed', v_plan_id;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_plan_items_not_locked ON plan_items;
+CREATE TRIGGER check_plan_items_not_locked
+  BEFORE INSERT OR UPDATE OR DELETE ON plan_items
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_locked_plan_item_changes();
+
+-- The "Users can manage own plans" policy allows updating any column, so
+-- status and locked_at are guarded here: only lock_plan / unlock_plan (which
+-- run as the table owner and freeze or discard the prices) may change them
+CREATE OR REPLACE FUNCTION prevent_direct_plan_status_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      IF NEW.status <> 'draft' OR NEW.locked_at IS NOT NULL THEN
+        RAISE EXCEPTION 'New plans must be drafts; use lock_plan to lock a plan';
+      END IF;
+    ELSIF NEW.status IS DISTINCT FROM OLD.status OR NEW.locked_at IS DISTINCT FROM OLD.locked_at THEN
+      RAISE EXCEPTION 'Use lock_plan / unlock_plan to change the status of plan %', OLD.plan_id;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_plan_status_change ON plans;
+CREATE TRIGGER check_plan_status_change
+  BEFORE INSERT OR UPDATE ON plans
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_direct_plan_status_changes();
+
+-- ============================================================================
+-- LOCK / UNLOCK
+-- ============================================================================
+
+-- Lock a plan and freeze the current offer prices of every planned ingredient
+-- into plan_item_prices. Quantities are scaled by the item's servings.
+CREATE OR REPLACE FUNCTION lock_plan(
+  p_plan_id UUID,
+  p_user_plz TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_region_id TEXT;
+  v_status TEXT;
+BEGIN
+  SELECT status INTO v_status
+  FROM plans
+  WHERE plan_id = p_plan_id
+    AND user_id = auth.uid();
+
+  IF v_status IS NULL THEN
+    RAISE EXCEPTION 'Plan not found';
+  END IF;
+
+  IF v_status = 'locked' THEN
+    RAISE EXCEPTION 'Plan is already locked';
+  END IF;
+
+  IF p_user_plz IS NOT NULL AND p_user_plz != '' THEN
+    SELECT region_id INTO v_region_id
+    FROM postal_codes
+    WHERE plz = p_user_plz
+    LIMIT 1;
+  END IF;
+
+  -- Replace any earlier snapshot of this plan
+  DELETE FROM plan_item_prices
+  WHERE plan_item_id IN (
+    SELECT plan_item_id FROM plan_items WHERE plan_id = p_plan_id
+  );
+
+  INSERT INTO plan_item_prices (
+    plan_item_id,
+    ingredient_id,
+    qty,
+    unit,
+    baseline_price_per_unit,
+    offer_price_per_unit,
+    offer_source,
+    offer_ref_id
+  )
+  SELECT
+    pi.plan_item_id,
+    di.ingredient_id,
+    di.qty * COALESCE(pi.servings, 1),
+    di.unit,
+    i.price_baseline_per_unit,
+    best_offer.price_per_unit,
+    best_offer.source,
+    best_offer.source_ref_id
+  FROM plan_items pi
+  JOIN dish_ingredients di ON di.dish_id = pi.dish_id
+  JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+  LEFT JOIN LATERAL (
+    SELECT
+      o.price_total / o.pack_size AS price_per_unit,
+      o.source,
+      o.source_ref_id
+    FROM offers o
+    WHERE o.ingredient_id = di.ingredient_id
+      AND o.region_id = v_region_id
+      AND o.valid_from <= CURRENT_DATE
+      AND o.valid_to >= CURRENT_DATE
+      AND o.pack_size > 0
+    ORDER BY o.price_total / o.pack_size ASC
+    LIMIT 1
+  ) best_offer ON TRUE
+  WHERE pi.plan_id = p_plan_id
+    AND di.qty IS NOT NULL
+    AND di.unit IS NOT NULL;
+
+  UPDATE plans
+  SET
+    status = 'locked',
+    locked_at = NOW()
+  WHERE plan_id = p_plan_id;
+END;
+$$;
+
+-- Unlock a plan so it can be edited again. The frozen prices are discarded.
+CREATE OR REPLACE FUNCTION unlock_plan(p_plan_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM plans
+    WHERE plan_id = p_plan_id
+      AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Plan not found';
+  END IF;
+
+  DELETE FROM plan_item_prices
+  WHERE plan_item_id IN (
+    SELECT plan_item_id FROM plan_items WHERE plan_id = p_plan_id
+  );
+
+  UPDATE plans
+  SET
+    status = 'draft',
+    locked_at = NULL
+  WHERE plan_id = p_plan_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION lock_plan TO authenticated;
+GRANT EXECUTE ON FUNCTION unlock_plan TO authenticated;
+
+COMMENT ON COLUMN plans.status IS 'draft (editable) or locked (prices frozen in plan_item_prices)';
+COMMENT ON COLUMN plan_items.day_of_week IS 'Day within the plan week: 0 = Monday ... 6 = Sunday';
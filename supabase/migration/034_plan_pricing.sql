@@ -0,0 +1,245 @@
+-- ============================================================================
+-- Server-side Plan Pricing
+-- Prices every plan item for the user's PLZ into plan_item_prices and rolls
+-- the results up into plan_totals
+-- ============================================================================
+
+-- Per-unit prices are often per g or ml (e.g. €0.0049/g), which two
+-- decimals would store as 0.00
+ALTER TABLE plan_item_prices
+ALTER COLUMN baseline_price_per_unit TYPE DECIMAL(12, 6),
+ALTER COLUMN offer_price_per_unit TYPE DECIMAL(12, 6);
+
+-- Price all items of a plan. Draft plans are re-priced on every call;
+-- locked plans keep their frozen prices and only return the stored totals.
+CREATE OR REPLACE FUNCTION calculate_plan_prices(
+  _plan_id UUID,
+  _user_plz TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  plan_id UUID,
+  total_baseline DECIMAL(10, 2),
+  total_offer DECIMAL(10, 2),
+  total_savings_abs DECIMAL(10, 2),
+  total_savings_pct DECIMAL(5, 2)
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _region_id TEXT;
+  _status TEXT;
+  _today DATE := CURRENT_DATE;
+BEGIN
+  SELECT p.status INTO _status
+  FROM plans p
+  WHERE p.plan_id = _plan_id
+    AND p.user_id = auth.uid();
+
+  IF _status IS NULL THEN
+    RAISE EXCEPTION 'Plan not found';
+  END IF;
+
+  IF _status = 'draft' THEN
+    -- Get region_id from PLZ if provided
+    IF _user_plz IS NOT NULL AND _user_plz != '' THEN
+      SELECT pc.region_id INTO _region_id
+      FROM postal_codes pc
+      WHERE pc.plz = _user_plz
+      LIMIT 1;
+    END IF;
+
+    DELETE FROM plan_item_prices
+    WHERE plan_item_id IN (
+      SELECT pi.plan_item_id FROM plan_items pi WHERE pi.plan_id = _plan_id
+    );
+
+    -- One row per (plan item, ingredient): quantities are scaled by servings,
+    -- baseline is priced in the ingredient's default unit, the offer in the
+    -- offer's base unit. Ingredients without an offer cost their baseline.
+    INSERT INTO plan_item_prices (
+      plan_item_id,
+      ingredient_id,
+      qty,
+      unit,
+      baseline_price_per_unit,
+      baseline_total,
+      offer_price_per_unit,
+      offer_total,
+      offer_source,
+      offer_ref_id,
+      savings_abs,
+      savings_pct
+    )
+    SELECT
+      priced.plan_item_id,
+      priced.ingredient_id,
+      priced.qty,
+      priced.unit,
+      priced.baseline_price_per_unit,
+      ROUND(priced.baseline_total, 2),
+      priced.offer_price_per_unit,
+      ROUND(priced.offer_total, 2),
+      priced.offer_source,
+      priced.offer_ref_id,
+      ROUND(GREATEST(priced.baseline_total - priced.offer_total, 0), 2),
+      CASE WHEN priced.baseline_total > 0 THEN
+        ROUND(GREATEST(priced.baseline_total - priced.offer_total, 0) / priced.baseline_total * 100, 2)
+      ELSE 0 END
+    FROM (
+      SELECT
+        items.*,
+        COALESCE(
+          convert_unit(items.qty, items.unit, best_offer.unit_base) * best_offer.price_per_unit,
+          items.baseline_total
+        ) AS offer_total,
+        best_offer.price_per_unit AS offer_price_per_unit,
+        best_offer.source AS offer_source,
+        best_offer.source_ref_id AS offer_ref_id
+      FROM (
+        SELECT
+          pi.plan_item_id,
+          di.ingredient_id,
+          di.qty * COALESCE(pi.servings, 1) AS qty,
+          di.unit,
+          i.price_baseline_per_unit AS baseline_price_per_unit,
+          COALESCE(
+            convert_unit(di.qty * COALESCE(pi.servings, 1), di.unit, i.unit_default) * i.price_baseline_per_unit,
+            0
+          ) AS baseline_total
+        FROM plan_items pi
+        JOIN dish_ingredients di ON di.dish_id = pi.dish_id
+        JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+        WHERE pi.plan_id = _plan_id
+          AND di.qty IS NOT NULL
+          AND di.unit IS NOT NULL
+      ) items
+      LEFT JOIN LATERAL (
+        SELECT
+          o.price_total / o.pack_size AS price_per_unit,
+          o.unit_base,
+          o.source,
+          o.source_ref_id
+        FROM offers o
+        WHERE o.ingredient_id = items.ingredient_id
+          AND o.region_id = _region_id
+          AND o.valid_from <= _today
+          AND o.valid_to >= _today
+          AND o.pack_size > 0
+        ORDER BY o.price_total / o.pack_size ASC
+        LIMIT 1
+      ) best_offer ON TRUE
+    ) priced;
+
+    -- Roll up into plan_totals
+    INSERT INTO plan_totals (
+      plan_id,
+      total_baseline,
+      total_offer,
+      total_savings_abs,
+      total_savings_pct
+    )
+    SELECT
+      _plan_id,
+      COALESCE(SUM(pip.baseline_total), 0),
+      COALESCE(SUM(pip.offer_total), 0),
+      COALESCE(SUM(pip.savings_abs), 0),
+      CASE WHEN COALESCE(SUM(pip.baseline_total), 0) > 0 THEN
+        ROUND(SUM(pip.savings_abs) / SUM(pip.baseline_total) * 100, 2)
+      ELSE 0 END
+    FROM plan_item_prices pip
+    JOIN plan_items pi ON pi.plan_item_id = pip.plan_item_id
+    WHERE pi.plan_id = _plan_id
+    ON CONFLICT ON CONSTRAINT plan_totals_pkey DO UPDATE SET
+      total_baseline = EXCLUDED.total_baseline,
+      total_offer = EXCLUDED.total_offer,
+      total_savings_abs = EXCLUDED.total_savings_abs,
+      total_savings_pct = EXCLUDED.total_savings_pct;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    pt.plan_id,
+    pt.total_baseline,
+    pt.total_offer,
+    pt.total_savings_abs,
+    pt.total_savings_pct
+  FROM plan_totals pt
+  WHERE pt.plan_id = _plan_id;
+END;
+$$;
+
+-- Lock a plan: price it one last time, then freeze the result
+CREATE OR REPLACE FUNCTION lock_plan(
+  p_plan_id UUID,
+  p_user_plz TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT status INTO v_status
+  FROM plans
+  WHERE plan_id = p_plan_id
+    AND user_id = auth.uid();
+
+  IF v_status IS NULL THEN
+    RAISE EXCEPTION 'Plan not found';
+  END IF;
+
+  IF v_status = 'locked' THEN
+    RAISE EXCEPTION 'Plan is already locked';
+  END IF;
+
+  PERFORM calculate_plan_prices(p_plan_id, p_user_plz);
+
+  UPDATE plans
+  SET
+    status = 'locked',
+    locked_at = NOW()
+  WHERE plan_id = p_plan_id;
+END;
+$$;
+
+-- Unlock a plan so it can be edited again. Frozen prices and totals are discarded.
+CREATE OR REPLACE FUNCTION unlock_plan(p_plan_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM plans
+    WHERE plan_id = p_plan_id
+      AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Plan not found';
+  END IF;
+
+  DELETE FROM plan_item_prices
+  WHERE plan_item_id IN (
+    SELECT plan_item_id FROM plan_items WHERE plan_id = p_plan_id
+  );
+
+  DELETE FROM plan_totals
+  WHERE plan_id = p_plan_id;
+
+  UPDATE plans
+  SET
+    status = 'draft',
+    locked_at = NULL
+  WHERE plan_id = p_plan_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION calculate_plan_prices TO authenticated;
+
+COMMENT ON FUNCTION calculate_plan_prices(UUID, TEXT) IS
+  'Prices every plan item for the given PLZ into plan_item_prices and rolls them up into plan_totals. '
+  'Locked plans are not re-priced.';
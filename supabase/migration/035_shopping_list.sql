@@ -0,0 +1,92 @@
+-- ============================================================================
+-- Consolidated Shopping List
+-- Merges the ingredients of several dishes into one list, adding up
+-- quantities of the same ingredient across units with convert_unit
+-- ============================================================================
+
+-- Merge dish_ingredients for a set of dishes. _servings is parallel to
+-- _dish_ids (missing entries count as 1 serving). Quantities of an ingredient
+-- are summed in the smallest unit any of the dishes uses for it, so
+-- 200 g + 0.5 kg becomes 700 g. Quantities that cannot be converted into
+-- that unit stay on their own line.
+CREATE OR REPLACE FUNCTION get_shopping_list(
+  _dish_ids TEXT[],
+  _servings INTEGER[] DEFAULT NULL
+)
+RETURNS TABLE (
+  ingredient_id TEXT,
+  ingredient_name TEXT,
+  qty DECIMAL(10, 3),
+  unit TEXT,
+  optional BOOLEAN,
+  dish_names TEXT[]
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH requested AS (
+    SELECT
+      req.dish_id,
+      SUM(COALESCE(req.servings, 1)) AS servings
+    FROM unnest(_dish_ids, COALESCE(_servings, ARRAY[]::INTEGER[])) AS req(dish_id, servings)
+    WHERE req.dish_id IS NOT NULL
+    GROUP BY req.dish_id
+  ),
+  needed AS (
+    SELECT
+      di.ingredient_id,
+      di.qty * r.servings AS qty,
+      di.unit,
+      COALESCE(di.optional, FALSE) AS optional,
+      d.name AS dish_name,
+      i.unit_default
+    FROM requested r
+    JOIN dishes d ON d.dish_id = r.dish_id
+    JOIN dish_ingredients di ON di.dish_id = r.dish_id
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    WHERE di.qty IS NOT NULL
+      AND di.unit IS NOT NULL
+  ),
+  target AS (
+    SELECT DISTINCT ON (n.ingredient_id)
+      n.ingredient_id,
+      n.unit AS target_unit
+    FROM needed n
+    ORDER BY n.ingredient_id, convert_unit(1, n.unit, n.unit_default) ASC NULLS LAST, n.unit
+  ),
+  converted AS (
+    SELECT
+      n.*,
+      t.target_unit,
+      CASE
+        WHEN lower(n.unit) = lower(t.target_unit) THEN n.qty
+        ELSE convert_unit(n.qty, n.unit, t.target_unit)
+      END AS target_qty
+    FROM needed n
+    JOIN target t ON t.ingredient_id = n.ingredient_id
+  )
+  SELECT
+    c.ingredient_id,
+    i.name_canonical,
+    ROUND(SUM(COALESCE(c.target_qty, c.qty)), 3)::DECIMAL(10, 3),
+    CASE WHEN c.target_qty IS NULL THEN c.unit ELSE c.target_unit END,
+    bool_and(c.optional),
+    ARRAY_AGG(DISTINCT c.dish_name ORDER BY c.dish_name)
+  FROM converted c
+  JOIN ingredients i ON i.ingredient_id = c.ingredient_id
+  GROUP BY
+    c.ingredient_id,
+    i.name_canonical,
+    CASE WHEN c.target_qty IS NULL THEN c.unit ELSE c.target_unit END
+  ORDER BY i.name_canonical;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_shopping_list TO anon, authenticated;
+
+COMMENT ON FUNCTION get_shopping_list(TEXT[], INTEGER[]) IS
+  'Merges dish_ingredients of the given dishes (scaled by servings) into one shopping list, '
+  'summing quantities of the same ingredient with convert_unit';
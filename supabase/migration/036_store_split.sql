@@ -0,0 +1,92 @@
+-- ============================================================================
+-- Store-Split Shopping Optimizer
+-- Prices every shopping list line at every chain that advertises in the
+-- user's region, so the client can compare one-stop shopping with splitting
+-- the list across several chains
+-- ============================================================================
+
+-- One row per (shopping list line, chain with ad_regions for the PLZ's region).
+-- offer_total uses that chain's lowest per-unit active offer and is NULL when
+-- the chain has no offer for the ingredient; baseline_total is the regular
+-- price of the line.
+CREATE OR REPLACE FUNCTION calculate_shopping_list_chain_costs(
+  _dish_ids TEXT[],
+  _servings INTEGER[] DEFAULT NULL,
+  _user_plz TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  ingredient_id TEXT,
+  ingredient_name TEXT,
+  qty DECIMAL(10, 3),
+  unit TEXT,
+  chain_id TEXT,
+  chain_name TEXT,
+  offer_price_per_unit DECIMAL(10, 4),
+  offer_unit TEXT,
+  offer_total DECIMAL(10, 2),
+  baseline_total DECIMAL(10, 2)
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _region_id TEXT;
+  _today DATE := CURRENT_DATE;
+BEGIN
+  IF _user_plz IS NULL OR _user_plz = '' THEN
+    RETURN;
+  END IF;
+
+  SELECT pc.region_id INTO _region_id
+  FROM postal_codes pc
+  WHERE pc.plz = _user_plz
+  LIMIT 1;
+
+  IF _region_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    sl.ingredient_id,
+    sl.ingredient_name,
+    sl.qty,
+    sl.unit,
+    c.chain_id,
+    c.chain_name,
+    best_offer.price_per_unit::DECIMAL(10, 4),
+    best_offer.unit_base,
+    ROUND(convert_unit(sl.qty, sl.unit, best_offer.unit_base) * best_offer.price_per_unit, 2)::DECIMAL(10, 2),
+    ROUND(COALESCE(convert_unit(sl.qty, sl.unit, i.unit_default) * i.price_baseline_per_unit, 0), 2)::DECIMAL(10, 2)
+  FROM get_shopping_list(_dish_ids, _servings) sl
+  JOIN ingredients i ON i.ingredient_id = sl.ingredient_id
+  CROSS JOIN (
+    SELECT DISTINCT ch.chain_id, ch.chain_name
+    FROM ad_regions ar
+    JOIN chains ch ON ch.chain_id = ar.chain_id
+    WHERE ar.region_id = _region_id
+  ) c
+  LEFT JOIN LATERAL (
+    SELECT
+      o.price_total / o.pack_size AS price_per_unit,
+      o.unit_base
+    FROM offers o
+    WHERE o.ingredient_id = sl.ingredient_id
+      AND o.chain_id = c.chain_id
+      AND o.region_id = _region_id
+      AND o.valid_from <= _today
+      AND o.valid_to >= _today
+      AND o.pack_size > 0
+    ORDER BY o.price_total / o.pack_size ASC
+    LIMIT 1
+  ) best_offer ON TRUE
+  ORDER BY sl.ingredient_name, c.chain_name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION calculate_shopping_list_chain_costs TO anon, authenticated;
+
+COMMENT ON FUNCTION calculate_shopping_list_chain_costs(TEXT[], INTEGER[], TEXT) IS
+  'Prices each merged shopping list line at every chain with ad_regions for the PLZ''s region '
+  '(lowest per-unit active offer, NULL if none) alongside the baseline price';
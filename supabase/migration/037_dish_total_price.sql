@@ -0,0 +1,152 @@
+-- ============================================================================
+-- Real Dish Total Price
+-- Replaces the deprecated calculate_dish_price with a total based on the
+-- actual dish_ingredients quantities, and adds dishes.servings so totals can
+-- be shown per serving
+-- ============================================================================
+
+-- Number of servings the dish_ingredients quantities of a dish are for
+ALTER TABLE dishes
+ADD COLUMN IF NOT EXISTS servings INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE dishes
+DROP CONSTRAINT IF EXISTS dishes_servings_check;
+
+ALTER TABLE dishes
+ADD CONSTRAINT dishes_servings_check CHECK (servings > 0);
+
+-- ============================================================================
+-- DISH TOTAL PRICE
+-- ============================================================================
+
+-- Whether convert_unit can convert between two units. For any other pair it
+-- returns the quantity unchanged, which would price e.g. 2 EL as 2 kg.
+CREATE OR REPLACE FUNCTION units_convertible(_from_unit TEXT, _to_unit TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _from_unit = _to_unit
+    OR (_from_unit IN ('g', 'kg') AND _to_unit IN ('g', 'kg'))
+    OR (_from_unit IN ('ml', 'l') AND _to_unit IN ('ml', 'l'))
+    OR (_from_unit IN ('Stück', 'st') AND _to_unit IN ('Stück', 'st'));
+$$;
+
+-- Price a dish from its real quantities. Baseline is priced in the
+-- ingredient's default unit; the offer side uses the lowest per-unit active
+-- offer (optionally of one chain) and falls back to baseline. Optional
+-- ingredients are not counted. Ingredients whose quantity cannot be converted
+-- into the unit being priced are returned in unconvertible_ingredients and
+-- left out of both totals.
+CREATE OR REPLACE FUNCTION calculate_dish_total_price(
+  _dish_id TEXT,
+  _user_plz TEXT DEFAULT NULL,
+  _chain_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  dish_id TEXT,
+  servings INTEGER,
+  baseline_total DECIMAL(10, 2),
+  offer_total DECIMAL(10, 2),
+  price_per_serving DECIMAL(10, 2),
+  savings_abs DECIMAL(10, 2),
+  savings_percent DECIMAL(5, 2),
+  ingredients_with_offers_count INTEGER,
+  unconvertible_ingredients TEXT[]
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _region_id TEXT;
+  _today DATE := CURRENT_DATE;
+BEGIN
+  -- Get region_id from PLZ if provided
+  IF _user_plz IS NOT NULL AND _user_plz != '' THEN
+    SELECT pc.region_id INTO _region_id
+    FROM postal_codes pc
+    WHERE pc.plz = _user_plz
+    LIMIT 1;
+  END IF;
+
+  RETURN QUERY
+  WITH ingredient_lines AS (
+    SELECT
+      di.ingredient_id,
+      convert_unit(di.qty, di.unit, i.unit_default) * i.price_baseline_per_unit AS line_baseline,
+      best_offer.price_per_unit IS NOT NULL AS has_offer,
+      convert_unit(di.qty, di.unit, best_offer.unit_base) * best_offer.price_per_unit AS line_offer,
+      NOT units_convertible(di.unit, i.unit_default)
+        OR (best_offer.price_per_unit IS NOT NULL AND NOT units_convertible(di.unit, best_offer.unit_base))
+        AS is_unconvertible
+    FROM dish_ingredients di
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    LEFT JOIN LATERAL (
+      SELECT
+        o.price_total / o.pack_size AS price_per_unit,
+        o.unit_base
+      FROM offers o
+      WHERE o.ingredient_id = di.ingredient_id
+        AND o.region_id = _region_id
+        AND o.valid_from <= _today
+        AND o.valid_to >= _today
+        AND (_chain_id IS NULL OR o.chain_id = _chain_id)
+        AND o.pack_size > 0
+      ORDER BY o.price_total / o.pack_size ASC
+      LIMIT 1
+    ) best_offer ON TRUE
+    WHERE di.dish_id = _dish_id
+      AND COALESCE(di.optional, FALSE) = FALSE
+      AND di.qty IS NOT NULL
+      AND di.unit IS NOT NULL
+  ),
+  priced AS (
+    SELECT
+      l.ingredient_id,
+      l.has_offer,
+      l.is_unconvertible,
+      -- Without a baseline price the offer is the best reference we have.
+      -- Unconvertible lines count in neither total.
+      CASE WHEN l.is_unconvertible THEN 0 ELSE COALESCE(l.line_baseline, l.line_offer, 0) END AS line_baseline,
+      CASE WHEN l.is_unconvertible THEN 0 ELSE COALESCE(l.line_offer, l.line_baseline, 0) END AS line_offer
+    FROM ingredient_lines l
+  ),
+  totals AS (
+    SELECT
+      COALESCE(SUM(p.line_baseline), 0) AS baseline_total,
+      COALESCE(SUM(p.line_offer), 0) AS offer_total,
+      COUNT(*) FILTER (WHERE p.has_offer)::INTEGER AS ingredients_with_offers,
+      COALESCE(
+        ARRAY_AGG(p.ingredient_id ORDER BY p.ingredient_id) FILTER (WHERE p.is_unconvertible),
+        ARRAY[]::TEXT[]
+      ) AS unconvertible
+    FROM priced p
+  )
+  SELECT
+    d.dish_id,
+    d.servings,
+    ROUND(t.baseline_total, 2)::DECIMAL(10, 2),
+    ROUND(t.offer_total, 2)::DECIMAL(10, 2),
+    ROUND(t.offer_total / d.servings, 2)::DECIMAL(10, 2),
+    ROUND(GREATEST(t.baseline_total - t.offer_total, 0), 2)::DECIMAL(10, 2),
+    CASE WHEN t.baseline_total > 0 THEN
+      ROUND(GREATEST(t.baseline_total - t.offer_total, 0) / t.baseline_total * 100, 2)::DECIMAL(5, 2)
+    ELSE 0::DECIMAL(5, 2) END,
+    t.ingredients_with_offers,
+    t.unconvertible
+  FROM dishes d
+  CROSS JOIN totals t
+  WHERE d.dish_id = _dish_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION calculate_dish_total_price TO anon, authenticated;
+
+-- The deprecated per-dish price is superseded by calculate_dish_total_price
+DROP FUNCTION IF EXISTS calculate_dish_price(TEXT, TEXT);
+
+COMMENT ON COLUMN dishes.servings IS 'Number of servings the dish_ingredients quantities are for';
+COMMENT ON FUNCTION calculate_dish_total_price(TEXT, TEXT, TEXT) IS
+  'Baseline and offer totals of a dish from its real ingredient quantities, with price per serving and savings percent. '
+  'Ingredients whose units cannot be converted are listed in unconvertible_ingredients and left out of both totals.';
@@ -0,0 +1,152 @@
+-- ============================================================================
+-- Pack-Size Aware Dish Pricing
+-- Adds a 'whole_packs' mode to calculate_dish_total_price that charges for
+-- every pack of the chosen offer that has to be bought, and reports the
+-- value of what is left over
+-- ============================================================================
+
+-- The signature changes, so the old version has to go first
+DROP FUNCTION IF EXISTS calculate_dish_total_price(TEXT, TEXT, TEXT);
+
+-- _pricing_mode:
+--   'pro_rata'    - offer cost is the needed quantity at the offer's per-unit price
+--   'whole_packs' - offer cost is the number of packs needed times the pack price;
+--                   leftover_total is the value of the unused part of those packs
+CREATE OR REPLACE FUNCTION calculate_dish_total_price(
+  _dish_id TEXT,
+  _user_plz TEXT DEFAULT NULL,
+  _chain_id TEXT DEFAULT NULL,
+  _pricing_mode TEXT DEFAULT 'pro_rata'
+)
+RETURNS TABLE (
+  dish_id TEXT,
+  servings INTEGER,
+  baseline_total DECIMAL(10, 2),
+  offer_total DECIMAL(10, 2),
+  price_per_serving DECIMAL(10, 2),
+  savings_abs DECIMAL(10, 2),
+  savings_percent DECIMAL(5, 2),
+  ingredients_with_offers_count INTEGER,
+  unconvertible_ingredients TEXT[],
+  leftover_total DECIMAL(10, 2)
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _region_id TEXT;
+  _today DATE := CURRENT_DATE;
+BEGIN
+  IF _pricing_mode NOT IN ('pro_rata', 'whole_packs') THEN
+    RAISE EXCEPTION 'Invalid pricing mode: %', _pricing_mode;
+  END IF;
+
+  -- Get region_id from PLZ if provided
+  IF _user_plz IS NOT NULL AND _user_plz != '' THEN
+    SELECT pc.region_id INTO _region_id
+    FROM postal_codes pc
+    WHERE pc.plz = _user_plz
+    LIMIT 1;
+  END IF;
+
+  RETURN QUERY
+  WITH ingredient_lines AS (
+    SELECT
+      di.ingredient_id,
+      convert_unit(di.qty, di.unit, i.unit_default) * i.price_baseline_per_unit AS line_baseline,
+      best_offer.price_per_unit IS NOT NULL AS has_offer,
+      best_offer.price_per_unit,
+      best_offer.price_total,
+      best_offer.pack_size,
+      convert_unit(di.qty, di.unit, best_offer.unit_base) AS offer_qty,
+      NOT units_convertible(di.unit, i.unit_default)
+        OR (best_offer.price_per_unit IS NOT NULL AND NOT units_convertible(di.unit, best_offer.unit_base))
+        AS is_unconvertible
+    FROM dish_ingredients di
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    LEFT JOIN LATERAL (
+      SELECT
+        o.price_total / o.pack_size AS price_per_unit,
+        o.price_total,
+        o.pack_size,
+        o.unit_base
+      FROM offers o
+      WHERE o.ingredient_id = di.ingredient_id
+        AND o.region_id = _region_id
+        AND o.valid_from <= _today
+        AND o.valid_to >= _today
+        AND (_chain_id IS NULL OR o.chain_id = _chain_id)
+        AND o.pack_size > 0
+      ORDER BY o.price_total / o.pack_size ASC
+      LIMIT 1
+    ) best_offer ON TRUE
+    WHERE di.dish_id = _dish_id
+      AND COALESCE(di.optional, FALSE) = FALSE
+      AND di.qty IS NOT NULL
+      AND di.unit IS NOT NULL
+  ),
+  offer_lines AS (
+    SELECT
+      l.*,
+      CEIL(l.offer_qty / l.pack_size) AS packs,
+      CASE
+        WHEN _pricing_mode = 'whole_packs' THEN CEIL(l.offer_qty / l.pack_size) * l.price_total
+        ELSE l.offer_qty * l.price_per_unit
+      END AS line_offer
+    FROM ingredient_lines l
+  ),
+  priced AS (
+    SELECT
+      l.ingredient_id,
+      l.has_offer,
+      l.is_unconvertible,
+      -- Without a baseline price the offer is the best reference we have.
+      -- Unconvertible lines count in neither total.
+      CASE WHEN l.is_unconvertible THEN 0 ELSE COALESCE(l.line_baseline, l.line_offer, 0) END AS line_baseline,
+      CASE WHEN l.is_unconvertible THEN 0 ELSE COALESCE(l.line_offer, l.line_baseline, 0) END AS line_offer,
+      -- What is left of the bought packs, valued at the offer's per-unit price
+      CASE
+        WHEN _pricing_mode = 'whole_packs' THEN
+          COALESCE((l.packs * l.pack_size - l.offer_qty) * l.price_per_unit, 0)
+        ELSE 0
+      END AS line_leftover
+    FROM offer_lines l
+  ),
+  totals AS (
+    SELECT
+      COALESCE(SUM(p.line_baseline), 0) AS baseline_total,
+      COALESCE(SUM(p.line_offer), 0) AS offer_total,
+      COUNT(*) FILTER (WHERE p.has_offer)::INTEGER AS ingredients_with_offers,
+      COALESCE(
+        ARRAY_AGG(p.ingredient_id ORDER BY p.ingredient_id) FILTER (WHERE p.is_unconvertible),
+        ARRAY[]::TEXT[]
+      ) AS unconvertible,
+      COALESCE(SUM(p.line_leftover), 0) AS leftover
+    FROM priced p
+  )
+  SELECT
+    d.dish_id,
+    d.servings,
+    ROUND(t.baseline_total, 2)::DECIMAL(10, 2),
+    ROUND(t.offer_total, 2)::DECIMAL(10, 2),
+    ROUND(t.offer_total / d.servings, 2)::DECIMAL(10, 2),
+    ROUND(GREATEST(t.baseline_total - t.offer_total, 0), 2)::DECIMAL(10, 2),
+    CASE WHEN t.baseline_total > 0 THEN
+      ROUND(GREATEST(t.baseline_total - t.offer_total, 0) / t.baseline_total * 100, 2)::DECIMAL(5, 2)
+    ELSE 0::DECIMAL(5, 2) END,
+    t.ingredients_with_offers,
+    t.unconvertible,
+    ROUND(t.leftover, 2)::DECIMAL(10, 2)
+  FROM dishes d
+  CROSS JOIN totals t
+  WHERE d.dish_id = _dish_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION calculate_dish_total_price TO anon, authenticated;
+
+COMMENT ON FUNCTION calculate_dish_total_price(TEXT, TEXT, TEXT, TEXT) IS
+  'Baseline and offer totals of a dish from its real ingredient quantities, with price per serving and savings percent. '
+  'In whole_packs mode the offer side is rounded up to whole packs and leftover_total holds the value of the unused rest. '
+  'Ingredients whose units cannot be converted are listed in unconvertible_ingredients and left out of both totals.';
@@ -0,0 +1,709 @@
+-- ============================================================================
+-- Table-Driven Unit Conversion
+-- lookups_units carries a dimension and a factor to its base unit, ingredients
+-- can carry a density and a piece weight, and ingredient-specific units
+-- (1 Zehe garlic = 5 g, 1 EL oil = 10 ml) live in ingredient_unit_conversions.
+-- convert_unit returns NULL whenever a conversion is not possible.
+-- ============================================================================
+
+-- Dimension and factor to the dimension's base unit (mass: g, volume: ml, count: Stück)
+ALTER TABLE lookups_units
+ADD COLUMN IF NOT EXISTS dimension TEXT,
+ADD COLUMN IF NOT EXISTS base_factor DECIMAL(12, 6);
+
+ALTER TABLE lookups_units
+DROP CONSTRAINT IF EXISTS lookups_units_dimension_check;
+
+ALTER TABLE lookups_units
+ADD CONSTRAINT lookups_units_dimension_check CHECK (dimension IN ('mass', 'volume', 'count'));
+
+ALTER TABLE lookups_units
+DROP CONSTRAINT IF EXISTS lookups_units_base_factor_check;
+
+ALTER TABLE lookups_units
+ADD CONSTRAINT lookups_units_base_factor_check CHECK (
+  (dimension IS NULL AND base_factor IS NULL)
+  OR (dimension IS NOT NULL AND base_factor > 0)
+);
+
+-- Units the old hard-coded convert_unit knew about, plus spoons.
+-- Bund and Zehe have no generic size and only convert per ingredient.
+INSERT INTO lookups_units (unit, description, dimension, base_factor) VALUES
+  ('g', 'Gramm', 'mass', 1),
+  ('kg', 'Kilogramm', 'mass', 1000),
+  ('ml', 'Milliliter', 'volume', 1),
+  ('l', 'Liter', 'volume', 1000),
+  ('Stück', 'Stück', 'count', 1),
+  ('st', 'Stück', 'count', 1),
+  ('EL', 'Esslöffel', 'volume', 15),
+  ('TL', 'Teelöffel', 'volume', 5)
+ON CONFLICT (unit) DO UPDATE SET
+  dimension = EXCLUDED.dimension,
+  base_factor = EXCLUDED.base_factor;
+
+INSERT INTO lookups_units (unit, description) VALUES
+  ('Bund', 'Bund'),
+  ('Zehe', 'Zehe')
+ON CONFLICT (unit) DO NOTHING;
+
+-- Per-ingredient physical properties for converting between dimensions
+ALTER TABLE ingredients
+ADD COLUMN IF NOT EXISTS density_g_per_ml DECIMAL(10, 4),
+ADD COLUMN IF NOT EXISTS piece_weight_g DECIMAL(10, 2);
+
+ALTER TABLE ingredients
+DROP CONSTRAINT IF EXISTS ingredients_density_check;
+
+ALTER TABLE ingredients
+ADD CONSTRAINT ingredients_density_check CHECK (density_g_per_ml IS NULL OR density_g_per_ml > 0);
+
+ALTER TABLE ingredients
+DROP CONSTRAINT IF EXISTS ingredients_piece_weight_check;
+
+ALTER TABLE ingredients
+ADD CONSTRAINT ingredients_piece_weight_check CHECK (piece_weight_g IS NULL OR piece_weight_g > 0);
+
+-- Ingredient-specific units: 1 <unit> of the ingredient = factor <target_unit>
+CREATE TABLE IF NOT EXISTS ingredient_unit_conversions (
+  ingredient_id TEXT NOT NULL REFERENCES ingredients(ingredient_id) ON DELETE CASCADE ON UPDATE CASCADE,
+  unit TEXT NOT NULL REFERENCES lookups_units(unit) ON DELETE CASCADE ON UPDATE CASCADE,
+  factor DECIMAL(12, 4) NOT NULL CHECK (factor > 0),
+  target_unit TEXT NOT NULL REFERENCES lookups_units(unit) ON DELETE CASCADE ON UPDATE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (ingredient_id, unit),
+  CHECK (unit <> target_unit)
+);
+
+DROP TRIGGER IF EXISTS update_ingredient_unit_conversions_updated_at ON ingredient_unit_conversions;
+CREATE TRIGGER update_ingredient_unit_conversions_updated_at BEFORE UPDATE ON ingredient_unit_conversions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE ingredient_unit_conversions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Ingredient unit conversions are publicly readable" ON ingredient_unit_conversions;
+CREATE POLICY "Ingredient unit conversions are publicly readable"
+  ON ingredient_unit_conversions
+  FOR SELECT
+  TO public
+  USING (true);
+
+DROP POLICY IF EXISTS "Service role can insert ingredient_unit_conversions" ON ingredient_unit_conversions;
+CREATE POLICY "Service role can insert ingredient_unit_conversions"
+  ON ingredient_unit_conversions
+  FOR INSERT
+  TO service_role
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Service role can update ingredient_unit_conversions" ON ingredient_unit_conversions;
+CREATE POLICY "Service role can update ingredient_unit_conversions"
+  ON ingredient_unit_conversions
+  FOR UPDATE
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Common defaults; admins can adjust them via the CSV import
+INSERT INTO ingredient_unit_conversions (ingredient_id, unit, factor, target_unit)
+SELECT i.ingredient_id, 'Zehe', 5, 'g'
+FROM ingredients i
+WHERE i.name_canonical ILIKE 'knoblauch%'
+ON CONFLICT (ingredient_id, unit) DO NOTHING;
+
+INSERT INTO ingredient_unit_conversions (ingredient_id, unit, factor, target_unit)
+SELECT i.ingredient_id, 'EL', 10, 'ml'
+FROM ingredients i
+WHERE i.name_canonical ILIKE '%öl'
+ON CONFLICT (ingredient_id, unit) DO NOTHING;
+
+-- ============================================================================
+-- UNIT CONVERSION FUNCTIONS
+-- ============================================================================
+
+-- Convert between units known to lookups_units. Same-dimension conversions use
+-- base_factor; volume/count <-> mass need a density or piece weight.
+-- Returns NULL if the conversion is not possible.
+CREATE OR REPLACE FUNCTION convert_unit_standard(
+  qty DECIMAL,
+  from_unit TEXT,
+  to_unit TEXT,
+  _density_g_per_ml DECIMAL,
+  _piece_weight_g DECIMAL
+) RETURNS DECIMAL AS $$
+DECLARE
+  _from_dimension TEXT;
+  _from_factor DECIMAL;
+  _to_dimension TEXT;
+  _to_factor DECIMAL;
+  _base_qty DECIMAL;
+  _grams DECIMAL;
+BEGIN
+  IF qty IS NULL OR from_unit IS NULL OR to_unit IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF LOWER(TRIM(from_unit)) = LOWER(TRIM(to_unit)) THEN
+    RETURN qty;
+  END IF;
+
+  SELECT lu.dimension, lu.base_factor INTO _from_dimension, _from_factor
+  FROM lookups_units lu
+  WHERE LOWER(lu.unit) = LOWER(TRIM(from_unit))
+    AND lu.dimension IS NOT NULL
+  LIMIT 1;
+
+  SELECT lu.dimension, lu.base_factor INTO _to_dimension, _to_factor
+  FROM lookups_units lu
+  WHERE LOWER(lu.unit) = LOWER(TRIM(to_unit))
+    AND lu.dimension IS NOT NULL
+  LIMIT 1;
+
+  IF _from_dimension IS NULL OR _to_dimension IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  _base_qty := qty * _from_factor;
+
+  IF _from_dimension = _to_dimension THEN
+    RETURN _base_qty / _to_factor;
+  END IF;
+
+  -- Different dimensions: go through grams
+  _grams := CASE _from_dimension
+    WHEN 'mass' THEN _base_qty
+    WHEN 'volume' THEN _base_qty * _density_g_per_ml
+    WHEN 'count' THEN _base_qty * _piece_weight_g
+  END;
+
+  RETURN CASE _to_dimension
+    WHEN 'mass' THEN _grams / _to_factor
+    WHEN 'volume' THEN _grams / NULLIF(_density_g_per_ml, 0) / _to_factor
+    WHEN 'count' THEN _grams / NULLIF(_piece_weight_g, 0) / _to_factor
+  END;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Convert a quantity of one ingredient. Ingredient-specific units are
+-- resolved first, then the ingredient's density and piece weight are used
+-- for conversions across dimensions. Returns NULL if not possible.
+CREATE OR REPLACE FUNCTION convert_unit(
+  qty DECIMAL,
+  from_unit TEXT,
+  to_unit TEXT,
+  _ingredient_id TEXT
+) RETURNS DECIMAL AS $$
+DECLARE
+  _density DECIMAL;
+  _piece_weight DECIMAL;
+  _from_factor DECIMAL := 1;
+  _from_unit TEXT := from_unit;
+  _to_factor DECIMAL := 1;
+  _to_unit TEXT := to_unit;
+BEGIN
+  IF qty IS NULL OR from_unit IS NULL OR to_unit IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF LOWER(TRIM(from_unit)) = LOWER(TRIM(to_unit)) THEN
+    RETURN qty;
+  END IF;
+
+  IF _ingredient_id IS NOT NULL THEN
+    SELECT i.density_g_per_ml, i.piece_weight_g INTO _density, _piece_weight
+    FROM ingredients i
+    WHERE i.ingredient_id = _ingredient_id;
+
+    SELECT iuc.factor, iuc.target_unit INTO _from_factor, _from_unit
+    FROM ingredient_unit_conversions iuc
+    WHERE iuc.ingredient_id = _ingredient_id
+      AND LOWER(iuc.unit) = LOWER(TRIM(from_unit));
+
+    IF NOT FOUND THEN
+      _from_factor := 1;
+      _from_unit := from_unit;
+    END IF;
+
+    SELECT iuc.factor, iuc.target_unit INTO _to_factor, _to_unit
+    FROM ingredient_unit_conversions iuc
+    WHERE iuc.ingredient_id = _ingredient_id
+      AND LOWER(iuc.unit) = LOWER(TRIM(to_unit));
+
+    IF NOT FOUND THEN
+      _to_factor := 1;
+      _to_unit := to_unit;
+    END IF;
+  END IF;
+
+  RETURN convert_unit_standard(qty * _from_factor, _from_unit, _to_unit, _density, _piece_weight) / _to_factor;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Generic conversion without ingredient context (same dimension only)
+CREATE OR REPLACE FUNCTION convert_unit(
+  qty DECIMAL,
+  from_unit TEXT,
+  to_unit TEXT
+) RETURNS DECIMAL AS $$
+BEGIN
+  RETURN convert_unit_standard(qty, from_unit, to_unit, NULL, NULL);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================================================
+-- PRICING FUNCTIONS USE INGREDIENT-AWARE CONVERSIONS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION calculate_dish_total_price(
+  _dish_id TEXT,
+  _user_plz TEXT DEFAULT NULL,
+  _chain_id TEXT DEFAULT NULL,
+  _pricing_mode TEXT DEFAULT 'pro_rata'
+)
+RETURNS TABLE (
+  dish_id TEXT,
+  servings INTEGER,
+  baseline_total DECIMAL(10, 2),
+  offer_total DECIMAL(10, 2),
+  price_per_serving DECIMAL(10, 2),
+  savings_abs DECIMAL(10, 2),
+  savings_percent DECIMAL(5, 2),
+  ingredients_with_offers_count INTEGER,
+  unconvertible_ingredients TEXT[],
+  leftover_total DECIMAL(10, 2)
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _region_id TEXT;
+  _today DATE := CURRENT_DATE;
+BEGIN
+  IF _pricing_mode NOT IN ('pro_rata', 'whole_packs') THEN
+    RAISE EXCEPTION 'Invalid pricing mode: %', _pricing_mode;
+  END IF;
+
+  -- Get region_id from PLZ if provided
+  IF _user_plz IS NOT NULL AND _user_plz != '' THEN
+    SELECT pc.region_id INTO _region_id
+    FROM postal_codes pc
+    WHERE pc.plz = _user_plz
+    LIMIT 1;
+  END IF;
+
+  RETURN QUERY
+  WITH ingredient_lines AS (
+    SELECT
+      di.ingredient_id,
+      convert_unit(di.qty, di.unit, i.unit_default, di.ingredient_id) * i.price_baseline_per_unit AS line_baseline,
+      best_offer.price_per_unit IS NOT NULL AS has_offer,
+      best_offer.price_per_unit,
+      best_offer.price_total,
+      best_offer.pack_size,
+      convert_unit(di.qty, di.unit, best_offer.unit_base, di.ingredient_id) AS offer_qty,
+      convert_unit(di.qty, di.unit, i.unit_default, di.ingredient_id) IS NULL
+        OR (best_offer.price_per_unit IS NOT NULL AND convert_unit(di.qty, di.unit, best_offer.unit_base, di.ingredient_id) IS NULL)
+        AS is_unconvertible
+    FROM dish_ingredients di
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    LEFT JOIN LATERAL (
+      SELECT
+        o.price_total / o.pack_size AS price_per_unit,
+        o.price_total,
+        o.pack_size,
+        o.unit_base
+      FROM offers o
+      WHERE o.ingredient_id = di.ingredient_id
+        AND o.region_id = _region_id
+        AND o.valid_from <= _today
+        AND o.valid_to >= _today
+        AND (_chain_id IS NULL OR o.chain_id = _chain_id)
+        AND o.pack_size > 0
+      ORDER BY o.price_total / o.pack_size ASC
+      LIMIT 1
+    ) best_offer ON TRUE
+    WHERE di.dish_id = _dish_id
+      AND COALESCE(di.optional, FALSE) = FALSE
+      AND di.qty IS NOT NULL
+      AND di.unit IS NOT NULL
+  ),
+  offer_lines AS (
+    SELECT
+      l.*,
+      CEIL(l.offer_qty / l.pack_size) AS packs,
+      CASE
+        WHEN _pricing_mode = 'whole_packs' THEN CEIL(l.offer_qty / l.pack_size) * l.price_total
+        ELSE l.offer_qty * l.price_per_unit
+      END AS line_offer
+    FROM ingredient_lines l
+  ),
+  priced AS (
+    SELECT
+      l.ingredient_id,
+      l.has_offer,
+      l.is_unconvertible,
+      -- Without a baseline price the offer is the best reference we have.
+      -- Unconvertible lines count in neither total.
+      CASE WHEN l.is_unconvertible THEN 0 ELSE COALESCE(l.line_baseline, l.line_offer, 0) END AS line_baseline,
+      CASE WHEN l.is_unconvertible THEN 0 ELSE COALESCE(l.line_offer, l.line_baseline, 0) END AS line_offer,
+      -- What is left of the bought packs, valued at the offer's per-unit price
+      CASE
+        WHEN _pricing_mode = 'whole_packs' THEN
+          COALESCE((l.packs * l.pack_size - l.offer_qty) * l.price_per_unit, 0)
+        ELSE 0
+      END AS line_leftover
+    FROM offer_lines l
+  ),
+  totals AS (
+    SELECT
+      COALESCE(SUM(p.line_baseline), 0) AS baseline_total,
+      COALESCE(SUM(p.line_offer), 0) AS offer_total,
+      COUNT(*) FILTER (WHERE p.has_offer)::INTEGER AS ingredients_with_offers,
+      COALESCE(
+        ARRAY_AGG(p.ingredient_id ORDER BY p.ingredient_id) FILTER (WHERE p.is_unconvertible),
+        ARRAY[]::TEXT[]
+      ) AS unconvertible,
+      COALESCE(SUM(p.line_leftover), 0) AS leftover
+    FROM priced p
+  )
+  SELECT
+    d.dish_id,
+    d.servings,
+    ROUND(t.baseline_total, 2)::DECIMAL(10, 2),
+    ROUND(t.offer_total, 2)::DECIMAL(10, 2),
+    ROUND(t.offer_total / d.servings, 2)::DECIMAL(10, 2),
+    ROUND(GREATEST(t.baseline_total - t.offer_total, 0), 2)::DECIMAL(10, 2),
+    CASE WHEN t.baseline_total > 0 THEN
+      ROUND(GREATEST(t.baseline_total - t.offer_total, 0) / t.baseline_total * 100, 2)::DECIMAL(5, 2)
+    ELSE 0::DECIMAL(5, 2) END,
+    t.ingredients_with_offers,
+    t.unconvertible,
+    ROUND(t.leftover, 2)::DECIMAL(10, 2)
+  FROM dishes d
+  CROSS JOIN totals t
+  WHERE d.dish_id = _dish_id;
+END;
+$$;
+
+-- convert_unit now returns NULL for pairs it cannot convert
+DROP FUNCTION IF EXISTS units_convertible(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION get_shopping_list(
+  _dish_ids TEXT[],
+  _servings INTEGER[] DEFAULT NULL
+)
+RETURNS TABLE (
+  ingredient_id TEXT,
+  ingredient_name TEXT,
+  qty DECIMAL(10, 3),
+  unit TEXT,
+  optional BOOLEAN,
+  dish_names TEXT[]
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH requested AS (
+    SELECT
+      req.dish_id,
+      SUM(req.servings) AS servings
+    FROM unnest(_dish_ids, COALESCE(_servings, ARRAY[]::INTEGER[])) AS req(dish_id, servings)
+    WHERE req.dish_id IS NOT NULL
+    GROUP BY req.dish_id
+  ),
+  needed AS (
+    SELECT
+      di.ingredient_id,
+      di.qty * COALESCE(r.servings, d.servings) / d.servings AS qty,
+      di.unit,
+      COALESCE(di.optional, FALSE) AS optional,
+      d.name AS dish_name,
+      i.unit_default
+    FROM requested r
+    JOIN dishes d ON d.dish_id = r.dish_id
+    JOIN dish_ingredients di ON di.dish_id = r.dish_id
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    WHERE di.qty IS NOT NULL
+      AND di.unit IS NOT NULL
+  ),
+  target AS (
+    SELECT DISTINCT ON (n.ingredient_id)
+      n.ingredient_id,
+      n.unit AS target_unit
+    FROM needed n
+    ORDER BY n.ingredient_id, convert_unit(1, n.unit, n.unit_default, n.ingredient_id) ASC NULLS LAST, n.unit
+  ),
+  converted AS (
+    SELECT
+      n.*,
+      t.target_unit,
+      CASE
+        WHEN lower(n.unit) = lower(t.target_unit) THEN n.qty
+        ELSE convert_unit(n.qty, n.unit, t.target_unit, n.ingredient_id)
+      END AS target_qty
+    FROM needed n
+    JOIN target t ON t.ingredient_id = n.ingredient_id
+  )
+  SELECT
+    c.ingredient_id,
+    i.name_canonical,
+    ROUND(SUM(COALESCE(c.target_qty, c.qty)), 3)::DECIMAL(10, 3),
+    CASE WHEN c.target_qty IS NULL THEN c.unit ELSE c.target_unit END,
+    bool_and(c.optional),
+    ARRAY_AGG(DISTINCT c.dish_name ORDER BY c.dish_name)
+  FROM converted c
+  JOIN ingredients i ON i.ingredient_id = c.ingredient_id
+  GROUP BY
+    c.ingredient_id,
+    i.name_canonical,
+    CASE WHEN c.target_qty IS NULL THEN c.unit ELSE c.target_unit END
+  ORDER BY i.name_canonical;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION calculate_shopping_list_chain_costs(
+  _dish_ids TEXT[],
+  _servings INTEGER[] DEFAULT NULL,
+  _user_plz TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  ingredient_id TEXT,
+  ingredient_name TEXT,
+  qty DECIMAL(10, 3),
+  unit TEXT,
+  chain_id TEXT,
+  chain_name TEXT,
+  offer_price_per_unit DECIMAL(10, 4),
+  offer_unit TEXT,
+  offer_total DECIMAL(10, 2),
+  baseline_total DECIMAL(10, 2)
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _region_id TEXT;
+  _today DATE := CURRENT_DATE;
+BEGIN
+  IF _user_plz IS NULL OR _user_plz = '' THEN
+    RETURN;
+  END IF;
+
+  SELECT pc.region_id INTO _region_id
+  FROM postal_codes pc
+  WHERE pc.plz = _user_plz
+  LIMIT 1;
+
+  IF _region_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    sl.ingredient_id,
+    sl.ingredient_name,
+    sl.qty,
+    sl.unit,
+    c.chain_id,
+    c.chain_name,
+    best_offer.price_per_unit::DECIMAL(10, 4),
+    best_offer.unit_base,
+    ROUND(convert_unit(sl.qty, sl.unit, best_offer.unit_base, sl.ingredient_id) * best_offer.price_per_unit, 2)::DECIMAL(10, 2),
+    ROUND(COALESCE(convert_unit(sl.qty, sl.unit, i.unit_default, sl.ingredient_id) * i.price_baseline_per_unit, 0), 2)::DECIMAL(10, 2)
+  FROM get_shopping_list(_dish_ids, _servings) sl
+  JOIN ingredients i ON i.ingredient_id = sl.ingredient_id
+  CROSS JOIN (
+    SELECT DISTINCT ch.chain_id, ch.chain_name
+    FROM ad_regions ar
+    JOIN chains ch ON ch.chain_id = ar.chain_id
+    WHERE ar.region_id = _region_id
+  ) c
+  LEFT JOIN LATERAL (
+    SELECT
+      o.price_total / o.pack_size AS price_per_unit,
+      o.unit_base
+    FROM offers o
+    WHERE o.ingredient_id = sl.ingredient_id
+      AND o.chain_id = c.chain_id
+      AND o.region_id = _region_id
+      AND o.valid_from <= _today
+      AND o.valid_to >= _today
+      AND o.pack_size > 0
+    ORDER BY o.price_total / o.pack_size ASC
+    LIMIT 1
+  ) best_offer ON TRUE
+  ORDER BY sl.ingredient_name, c.chain_name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION calculate_plan_prices(
+  _plan_id UUID,
+  _user_plz TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  plan_id UUID,
+  total_baseline DECIMAL(10, 2),
+  total_offer DECIMAL(10, 2),
+  total_savings_abs DECIMAL(10, 2),
+  total_savings_pct DECIMAL(5, 2)
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _region_id TEXT;
+  _status TEXT;
+  _today DATE := CURRENT_DATE;
+BEGIN
+  SELECT p.status INTO _status
+  FROM plans p
+  WHERE p.plan_id = _plan_id
+    AND p.user_id = auth.uid();
+
+  IF _status IS NULL THEN
+    RAISE EXCEPTION 'Plan not found';
+  END IF;
+
+  IF _status = 'draft' THEN
+    -- Get region_id from PLZ if provided
+    IF _user_plz IS NOT NULL AND _user_plz != '' THEN
+      SELECT pc.region_id INTO _region_id
+      FROM postal_codes pc
+      WHERE pc.plz = _user_plz
+      LIMIT 1;
+    END IF;
+
+    DELETE FROM plan_item_prices
+    WHERE plan_item_id IN (
+      SELECT pi.plan_item_id FROM plan_items pi WHERE pi.plan_id = _plan_id
+    );
+
+    -- One row per (plan item, ingredient): recipe quantities are scaled from
+    -- the dish's servings to the planned servings, baseline is priced in the
+    -- ingredient's default unit, the offer in the offer's base unit.
+    -- Ingredients without an offer cost their baseline.
+    INSERT INTO plan_item_prices (
+      plan_item_id,
+      ingredient_id,
+      qty,
+      unit,
+      baseline_price_per_unit,
+      baseline_total,
+      offer_price_per_unit,
+      offer_total,
+      offer_source,
+      offer_ref_id,
+      savings_abs,
+      savings_pct
+    )
+    SELECT
+      priced.plan_item_id,
+      priced.ingredient_id,
+      priced.qty,
+      priced.unit,
+      priced.baseline_price_per_unit,
+      ROUND(priced.baseline_total, 2),
+      priced.offer_price_per_unit,
+      ROUND(priced.offer_total, 2),
+      priced.offer_source,
+      priced.offer_ref_id,
+      ROUND(GREATEST(priced.baseline_total - priced.offer_total, 0), 2),
+      CASE WHEN priced.baseline_total > 0 THEN
+        ROUND(GREATEST(priced.baseline_total - priced.offer_total, 0) / priced.baseline_total * 100, 2)
+      ELSE 0 END
+    FROM (
+      SELECT
+        items.*,
+        COALESCE(
+          convert_unit(items.qty, items.unit, best_offer.unit_base, items.ingredient_id) * best_offer.price_per_unit,
+          items.baseline_total
+        ) AS offer_total,
+        best_offer.price_per_unit AS offer_price_per_unit,
+        best_offer.source AS offer_source,
+        best_offer.source_ref_id AS offer_ref_id
+      FROM (
+        SELECT
+          pi.plan_item_id,
+          di.ingredient_id,
+          di.qty * COALESCE(pi.servings, 1) / d.servings AS qty,
+          di.unit,
+          i.price_baseline_per_unit AS baseline_price_per_unit,
+          COALESCE(
+            convert_unit(di.qty * COALESCE(pi.servings, 1) / d.servings, di.unit, i.unit_default, di.ingredient_id) * i.price_baseline_per_unit,
+            0
+          ) AS baseline_total
+        FROM plan_items pi
+        JOIN dishes d ON d.dish_id = pi.dish_id
+        JOIN dish_ingredients di ON di.dish_id = pi.dish_id
+        JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+        WHERE pi.plan_id = _plan_id
+          AND di.qty IS NOT NULL
+          AND di.unit IS NOT NULL
+      ) items
+      LEFT JOIN LATERAL (
+        SELECT
+          o.price_total / o.pack_size AS price_per_unit,
+          o.unit_base,
+          o.source,
+          o.source_ref_id
+        FROM offers o
+        WHERE o.ingredient_id = items.ingredient_id
+          AND o.region_id = _region_id
+          AND o.valid_from <= _today
+          AND o.valid_to >= _today
+          AND o.pack_size > 0
+        ORDER BY o.price_total / o.pack_size ASC
+        LIMIT 1
+      ) best_offer ON TRUE
+    ) priced;
+
+    -- Roll up into plan_totals
+    INSERT INTO plan_totals (
+      plan_id,
+      total_baseline,
+      total_offer,
+      total_savings_abs,
+      total_savings_pct
+    )
+    SELECT
+      _plan_id,
+      COALESCE(SUM(pip.baseline_total), 0),
+      COALESCE(SUM(pip.offer_total), 0),
+      COALESCE(SUM(pip.savings_abs), 0),
+      CASE WHEN COALESCE(SUM(pip.baseline_total), 0) > 0 THEN
+        ROUND(SUM(pip.savings_abs) / SUM(pip.baseline_total) * 100, 2)
+      ELSE 0 END
+    FROM plan_item_prices pip
+    JOIN plan_items pi ON pi.plan_item_id = pip.plan_item_id
+    WHERE pi.plan_id = _plan_id
+    ON CONFLICT ON CONSTRAINT plan_totals_pkey DO UPDATE SET
+      total_baseline = EXCLUDED.total_baseline,
+      total_offer = EXCLUDED.total_offer,
+      total_savings_abs = EXCLUDED.total_savings_abs,
+      total_savings_pct = EXCLUDED.total_savings_pct;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    pt.plan_id,
+    pt.total_baseline,
+    pt.total_offer,
+    pt.total_savings_abs,
+    pt.total_savings_pct
+  FROM plan_totals pt
+  WHERE pt.plan_id = _plan_id;
+END;
+$$;
+
+COMMENT ON COLUMN lookups_units.dimension IS 'mass, volume or count; NULL for units without a generic size (Bund, Zehe)';
+COMMENT ON COLUMN lookups_units.base_factor IS 'Factor to the dimension''s base unit: g, ml or Stück';
+COMMENT ON COLUMN ingredients.density_g_per_ml IS 'Grams per milliliter, used to convert between volume and mass';
+COMMENT ON COLUMN ingredients.piece_weight_g IS 'Weight of one piece in grams, used to convert between count and mass';
+COMMENT ON TABLE ingredient_unit_conversions IS 'Ingredient-specific units: 1 unit of the ingredient equals factor target_unit (e.g. 1 Zehe garlic = 5 g)';
+COMMENT ON FUNCTION convert_unit(DECIMAL, TEXT, TEXT, TEXT) IS
+  'Converts a quantity of an ingredient using lookups_units, ingredient_unit_conversions and the ingredient''s density/piece weight; NULL if not convertible';
@@ -0,0 +1,172 @@
+-- ============================================================================
+-- Batch Dish Listing
+-- Returns all visible dishes for a PLZ with their savings and offer counts in
+-- a single query, replacing one calculate_dish_aggregated_savings and
+-- should_display_dish call per dish. Supports sorting and pagination.
+-- ============================================================================
+
+-- Same rules as calculate_dish_aggregated_savings (savings, offer counts) and
+-- should_display_dish (>= 1 main or >= 2 secondary ingredients on offer),
+-- evaluated for all dishes at once. total_count is the number of matching
+-- dishes before _limit/_offset are applied.
+CREATE OR REPLACE FUNCTION get_dishes_with_pricing(
+  _user_plz TEXT,
+  _chain_id TEXT DEFAULT NULL,
+  _category TEXT DEFAULT NULL,
+  _is_quick BOOLEAN DEFAULT NULL,
+  _is_meal_prep BOOLEAN DEFAULT NULL,
+  _sort_by TEXT DEFAULT 'name',
+  _sort_dir TEXT DEFAULT 'asc',
+  _limit INTEGER DEFAULT NULL,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  dish_id TEXT,
+  name TEXT,
+  category TEXT,
+  is_quick BOOLEAN,
+  is_meal_prep BOOLEAN,
+  season TEXT,
+  cuisine TEXT,
+  notes TEXT,
+  servings INTEGER,
+  total_aggregated_savings DECIMAL(10, 2),
+  ingredients_with_offers_count INTEGER,
+  available_offers_count INTEGER,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _region_id TEXT;
+  _today DATE := CURRENT_DATE;
+BEGIN
+  IF _sort_by NOT IN ('name', 'savings', 'offers') THEN
+    RAISE EXCEPTION 'Invalid sort key: %. Use name, savings or offers', _sort_by;
+  END IF;
+
+  IF _sort_dir NOT IN ('asc', 'desc') THEN
+    RAISE EXCEPTION 'Invalid sort direction: %. Use asc or desc', _sort_dir;
+  END IF;
+
+  IF _user_plz IS NULL OR _user_plz = '' THEN
+    RETURN;
+  END IF;
+
+  SELECT pc.region_id INTO _region_id
+  FROM postal_codes pc
+  WHERE pc.plz = _user_plz
+  LIMIT 1;
+
+  IF _region_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH active_offers AS (
+    SELECT
+      o.offer_id,
+      o.ingredient_id,
+      CASE WHEN o.pack_size > 0 THEN o.price_total / o.pack_size END AS price_per_unit
+    FROM offers o
+    WHERE o.region_id = _region_id
+      AND o.valid_from <= _today
+      AND o.valid_to >= _today
+      AND (_chain_id IS NULL OR o.chain_id = _chain_id)
+  ),
+  ingredient_offers AS (
+    SELECT
+      ao.ingredient_id,
+      MIN(ao.price_per_unit) AS min_price_per_unit
+    FROM active_offers ao
+    GROUP BY ao.ingredient_id
+  ),
+  dish_stats AS (
+    SELECT
+      di.dish_id,
+      COALESCE(SUM(
+        CASE WHEN i.price_baseline_per_unit > 0 AND io.min_price_per_unit < i.price_baseline_per_unit
+          THEN i.price_baseline_per_unit - io.min_price_per_unit
+        END
+      ), 0) AS savings,
+      COUNT(*) FILTER (
+        WHERE i.price_baseline_per_unit > 0 AND io.min_price_per_unit < i.price_baseline_per_unit
+      )::INTEGER AS ingredients_with_offers,
+      COUNT(*) FILTER (
+        WHERE io.ingredient_id IS NOT NULL
+          AND LOWER(TRIM(COALESCE(di.role, ''))) IN ('main', 'hauptzutat')
+      ) AS main_with_offers,
+      COUNT(*) FILTER (
+        WHERE io.ingredient_id IS NOT NULL
+          AND LOWER(TRIM(COALESCE(di.role, ''))) NOT IN ('main', 'hauptzutat')
+      ) AS secondary_with_offers
+    FROM dish_ingredients di
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    LEFT JOIN ingredient_offers io ON io.ingredient_id = di.ingredient_id
+    GROUP BY di.dish_id
+  ),
+  offer_counts AS (
+    SELECT
+      di.dish_id,
+      COUNT(DISTINCT ao.offer_id)::INTEGER AS offers_count
+    FROM dish_ingredients di
+    JOIN active_offers ao ON ao.ingredient_id = di.ingredient_id
+    GROUP BY di.dish_id
+  ),
+  visible AS (
+    SELECT
+      d.dish_id,
+      d.name,
+      d.category,
+      d.is_quick,
+      d.is_meal_prep,
+      d.season,
+      d.cuisine,
+      d.notes,
+      d.servings,
+      ROUND(ds.savings, 2)::DECIMAL(10, 2) AS savings,
+      ds.ingredients_with_offers,
+      COALESCE(oc.offers_count, 0) AS offers_count
+    FROM dishes d
+    JOIN dish_stats ds ON ds.dish_id = d.dish_id
+    LEFT JOIN offer_counts oc ON oc.dish_id = d.dish_id
+    WHERE (_category IS NULL OR d.category = _category)
+      AND (_is_quick IS NULL OR d.is_quick = _is_quick)
+      AND (_is_meal_prep IS NULL OR d.is_meal_prep = _is_meal_prep)
+      AND (ds.main_with_offers >= 1 OR ds.secondary_with_offers >= 2)
+  )
+  SELECT
+    v.dish_id,
+    v.name,
+    v.category,
+    v.is_quick,
+    v.is_meal_prep,
+    v.season,
+    v.cuisine,
+    v.notes,
+    v.servings,
+    v.savings,
+    v.ingredients_with_offers,
+    v.offers_count,
+    COUNT(*) OVER ()
+  FROM visible v
+  ORDER BY
+    CASE WHEN _sort_by = 'savings' AND _sort_dir = 'asc' THEN v.savings END ASC,
+    CASE WHEN _sort_by = 'savings' AND _sort_dir = 'desc' THEN v.savings END DESC,
+    CASE WHEN _sort_by = 'offers' AND _sort_dir = 'asc' THEN v.offers_count END ASC,
+    CASE WHEN _sort_by = 'offers' AND _sort_dir = 'desc' THEN v.offers_count END DESC,
+    CASE WHEN _sort_by = 'name' AND _sort_dir = 'desc' THEN v.name END DESC,
+    v.name ASC,
+    v.dish_id ASC
+  LIMIT _limit
+  OFFSET COALESCE(_offset, 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_dishes_with_pricing TO anon, authenticated;
+
+COMMENT ON FUNCTION get_dishes_with_pricing(TEXT, TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT, TEXT, INTEGER, INTEGER) IS
+  'Visible dishes for a PLZ (optionally one chain) with aggregated savings and offer counts, '
+  'filtered, sorted (name, savings, offers) and paginated in one query; total_count ignores the page';
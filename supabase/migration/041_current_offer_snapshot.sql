@@ -0,0 +1,787 @@
+-- ============================================================================
+-- Current Offer Snapshot
+-- current_best_offers holds the cheapest active offer per (region, chain,
+-- ingredient). It is refreshed after every offers import and at midnight, and
+-- all pricing functions read from it instead of scanning the full offers
+-- history. Readers still check the validity dates, so an offer that ended drops
+-- out even if the nightly refresh did not run.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS current_best_offers (
+  region_id TEXT NOT NULL,
+  chain_id TEXT NOT NULL REFERENCES chains(chain_id) ON DELETE CASCADE ON UPDATE CASCADE,
+  ingredient_id TEXT NOT NULL REFERENCES ingredients(ingredient_id) ON DELETE CASCADE ON UPDATE CASCADE,
+  offer_id INTEGER NOT NULL REFERENCES offers(offer_id) ON DELETE CASCADE,
+  price_total DECIMAL(10, 2) NOT NULL,
+  pack_size DECIMAL(10, 3) NOT NULL,
+  unit_base TEXT NOT NULL,
+  price_per_unit DECIMAL(12, 6) NOT NULL,
+  valid_from DATE NOT NULL,
+  valid_to DATE NOT NULL,
+  source TEXT,
+  source_ref_id TEXT,
+  active_offers_count INTEGER NOT NULL DEFAULT 1, -- All active offers of this chain for the ingredient
+  refreshed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (region_id, chain_id, ingredient_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_current_best_offers_ingredient ON current_best_offers(ingredient_id, region_id);
+
+ALTER TABLE current_best_offers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Current best offers are publicly readable" ON current_best_offers;
+CREATE POLICY "Current best offers are publicly readable"
+  ON current_best_offers
+  FOR SELECT
+  TO public
+  USING (true);
+
+-- Rebuild the snapshot from offers valid today. Runs in one transaction, so
+-- readers keep seeing the previous snapshot until it commits.
+CREATE OR REPLACE FUNCTION refresh_current_best_offers()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _today DATE := CURRENT_DATE;
+  _count INTEGER;
+BEGIN
+  -- WHERE TRUE: pg-safeupdate rejects unqualified DELETEs in API sessions;
+  -- TRUNCATE would block readers until the rebuild commits
+  DELETE FROM current_best_offers WHERE TRUE;
+
+  INSERT INTO current_best_offers (
+    region_id,
+    chain_id,
+    ingredient_id,
+    offer_id,
+    price_total,
+    pack_size,
+    unit_base,
+    price_per_unit,
+    valid_from,
+    valid_to,
+    source,
+    source_ref_id,
+    active_offers_count
+  )
+  SELECT DISTINCT ON (o.region_id, o.chain_id, o.ingredient_id)
+    o.region_id,
+    o.chain_id,
+    o.ingredient_id,
+    o.offer_id,
+    o.price_total,
+    o.pack_size,
+    o.unit_base,
+    o.price_total / o.pack_size,
+    o.valid_from,
+    o.valid_to,
+    o.source,
+    o.source_ref_id,
+    COUNT(*) OVER (PARTITION BY o.region_id, o.chain_id, o.ingredient_id)::INTEGER
+  FROM offers o
+  WHERE o.valid_from <= _today
+    AND o.valid_to >= _today
+    AND o.pack_size > 0
+  ORDER BY o.region_id, o.chain_id, o.ingredient_id, o.price_total / o.pack_size ASC, o.offer_id ASC;
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_current_best_offers() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refresh_current_best_offers() TO service_role;
+
+SELECT refresh_current_best_offers();
+
+-- Nightly refresh so offers starting at midnight take effect. Without pg_cron
+-- (e.g. local development) only offers imports refresh the snapshot: ended
+-- offers are still filtered out on read, but new ones appear late.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'refresh-current-best-offers',
+      '0 0 * * *',
+      'SELECT public.refresh_current_best_offers()'
+    );
+  ELSE
+    RAISE WARNING 'pg_cron is not enabled: current_best_offers is not refreshed nightly. Enable pg_cron and re-run this migration, or schedule SELECT refresh_current_best_offers() daily.';
+  END IF;
+END;
+$$;
+
+-- ============================================================================
+-- PRICING FUNCTIONS READ FROM THE SNAPSHOT
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION calculate_ingredient_savings_per_unit(
+  _ingredient_id TEXT,
+  _region_id TEXT,
+  _chain_id TEXT DEFAULT NULL,
+  _unit TEXT DEFAULT NULL  -- Optional: if provided, ensures unit matches
+)
+RETURNS TABLE (
+  ingredient_id TEXT,
+  base_price_per_unit DECIMAL(10, 4),
+  offer_price_per_unit DECIMAL(10, 4),
+  savings_per_unit DECIMAL(10, 4),
+  unit TEXT,
+  has_offer BOOLEAN
+) AS $$
+DECLARE
+  _ingredient_unit TEXT;
+  _base_price DECIMAL(10, 4);
+  _lowest_offer_price_per_unit DECIMAL(10, 4);
+BEGIN
+  -- Get ingredient's default unit and base price
+  SELECT i.unit_default, i.price_baseline_per_unit
+  INTO _ingredient_unit, _base_price
+  FROM ingredients i
+  WHERE i.ingredient_id = _ingredient_id;
+
+  -- If ingredient not found, return empty
+  IF _ingredient_unit IS NULL OR _base_price IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- If unit parameter provided, check if it matches ingredient's default unit
+  IF _unit IS NOT NULL AND _unit != '' THEN
+    IF LOWER(TRIM(_unit)) != LOWER(TRIM(_ingredient_unit)) THEN
+      IF convert_unit(1.0, _unit, _ingredient_unit) IS NULL THEN
+        RETURN;
+      END IF;
+    END IF;
+  END IF;
+
+  -- Get lowest offer price per unit for this ingredient in this region (optionally filtered by chain_id)
+  SELECT MIN(o.price_per_unit)
+  INTO _lowest_offer_price_per_unit
+  FROM current_best_offers o
+  WHERE o.ingredient_id = _ingredient_id
+    AND o.region_id = _region_id
+    AND o.valid_from <= CURRENT_DATE
+    AND o.valid_to >= CURRENT_DATE
+    AND (_chain_id IS NULL OR o.chain_id = _chain_id);
+
+  -- Return results
+  RETURN QUERY SELECT
+    _ingredient_id::TEXT,
+    COALESCE(_base_price, 0)::DECIMAL(10, 4),
+    COALESCE(_lowest_offer_price_per_unit, _base_price)::DECIMAL(10, 4),
+    CASE 
+      WHEN _lowest_offer_price_per_unit IS NOT NULL AND _lowest_offer_price_per_unit < _base_price THEN
+        (_base_price - _lowest_offer_price_per_unit)::DECIMAL(10, 4)
+      ELSE
+        0::DECIMAL(10, 4)
+    END,
+    _ingredient_unit::TEXT,
+    (_lowest_offer_price_per_unit IS NOT NULL)::BOOLEAN;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION calculate_dish_aggregated_savings(
+  _dish_id TEXT,
+  _user_plz TEXT DEFAULT NULL,
+  _chain_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  dish_id TEXT,
+  total_aggregated_savings DECIMAL(10, 2),
+  ingredients_with_offers_count INTEGER,
+  available_offers_count INTEGER
+) AS $$
+DECLARE
+  _region_id TEXT;
+  _total_savings DECIMAL(10, 2) := 0;
+  _ingredients_with_offers INTEGER := 0;
+  _offers_count INTEGER := 0;
+  _ingredient_savings RECORD;
+BEGIN
+  -- Get region_id from PLZ if provided
+  IF _user_plz IS NOT NULL AND _user_plz != '' THEN
+    SELECT region_id INTO _region_id
+    FROM postal_codes
+    WHERE plz = _user_plz
+    LIMIT 1;
+  END IF;
+
+  -- If no region provided, return zeros
+  IF _region_id IS NULL THEN
+    RETURN QUERY SELECT
+      _dish_id,
+      0::DECIMAL(10, 2),
+      0,
+      0;
+    RETURN;
+  END IF;
+
+  -- Calculate per-unit savings for each ingredient and aggregate
+  -- Includes both main and side ingredients (no optional filter)
+  FOR _ingredient_savings IN
+    SELECT 
+      di.ingredient_id,
+      COALESCE(i.price_baseline_per_unit, 0) as baseline_price,
+      COALESCE(MIN(o.price_per_unit), i.price_baseline_per_unit) as offer_price
+    FROM dish_ingredients di
+    JOIN ingredients i ON di.ingredient_id = i.ingredient_id
+    LEFT JOIN current_best_offers o ON 
+      o.ingredient_id = di.ingredient_id
+      AND o.region_id = _region_id
+      AND o.valid_from <= CURRENT_DATE
+      AND o.valid_to >= CURRENT_DATE
+      AND (_chain_id IS NULL OR o.chain_id = _chain_id)
+    WHERE di.dish_id = _dish_id
+      AND i.price_baseline_per_unit IS NOT NULL
+      AND i.price_baseline_per_unit > 0
+    GROUP BY di.ingredient_id, i.price_baseline_per_unit
+  LOOP
+    -- Calculate savings per unit
+    IF _ingredient_savings.baseline_price > 0 AND _ingredient_savings.offer_price < _ingredient_savings.baseline_price THEN
+      _total_savings := _total_savings + (_ingredient_savings.baseline_price - _ingredient_savings.offer_price);
+      _ingredients_with_offers := _ingredients_with_offers + 1;
+    END IF;
+  END LOOP;
+
+  -- Count total available offers for this dish (optionally filtered by chain_id)
+  SELECT COALESCE(SUM(o.active_offers_count), 0) INTO _offers_count
+  FROM dish_ingredients di
+  JOIN current_best_offers o ON o.ingredient_id = di.ingredient_id
+  WHERE di.dish_id = _dish_id
+    AND o.region_id = _region_id
+    AND o.valid_from <= CURRENT_DATE
+    AND o.valid_to >= CURRENT_DATE
+    AND (_chain_id IS NULL OR o.chain_id = _chain_id);
+
+  -- Return results
+  RETURN QUERY SELECT
+    _dish_id,
+    ROUND(COALESCE(_total_savings, 0), 2)::DECIMAL(10, 2),
+    COALESCE(_ingredients_with_offers, 0),
+    COALESCE(_offers_count, 0);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION calculate_dish_total_price(
+  _dish_id TEXT,
+  _user_plz TEXT DEFAULT NULL,
+  _chain_id TEXT DEFAULT NULL,
+  _pricing_mode TEXT DEFAULT 'pro_rata'
+)
+RETURNS TABLE (
+  dish_id TEXT,
+  servings INTEGER,
+  baseline_total DECIMAL(10, 2),
+  offer_total DECIMAL(10, 2),
+  price_per_serving DECIMAL(10, 2),
+  savings_abs DECIMAL(10, 2),
+  savings_percent DECIMAL(5, 2),
+  ingredients_with_offers_count INTEGER,
+  unconvertible_ingredients TEXT[],
+  leftover_total DECIMAL(10, 2)
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _region_id TEXT;
+BEGIN
+  IF _pricing_mode NOT IN ('pro_rata', 'whole_packs') THEN
+    RAISE EXCEPTION 'Invalid pricing mode: %', _pricing_mode;
+  END IF;
+
+  -- Get region_id from PLZ if provided
+  IF _user_plz IS NOT NULL AND _user_plz != '' THEN
+    SELECT pc.region_id INTO _region_id
+    FROM postal_codes pc
+    WHERE pc.plz = _user_plz
+    LIMIT 1;
+  END IF;
+
+  RETURN QUERY
+  WITH ingredient_lines AS (
+    SELECT
+      di.ingredient_id,
+      convert_unit(di.qty, di.unit, i.unit_default, di.ingredient_id) * i.price_baseline_per_unit AS line_baseline,
+      best_offer.price_per_unit IS NOT NULL AS has_offer,
+      best_offer.price_per_unit,
+      best_offer.price_total,
+      best_offer.pack_size,
+      convert_unit(di.qty, di.unit, best_offer.unit_base, di.ingredient_id) AS offer_qty,
+      convert_unit(di.qty, di.unit, i.unit_default, di.ingredient_id) IS NULL
+        OR (best_offer.price_per_unit IS NOT NULL AND convert_unit(di.qty, di.unit, best_offer.unit_base, di.ingredient_id) IS NULL)
+        AS is_unconvertible
+    FROM dish_ingredients di
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    LEFT JOIN LATERAL (
+      SELECT
+        o.price_per_unit,
+        o.price_total,
+        o.pack_size,
+        o.unit_base
+      FROM current_best_offers o
+      WHERE o.ingredient_id = di.ingredient_id
+        AND o.region_id = _region_id
+        AND o.valid_from <= CURRENT_DATE
+        AND o.valid_to >= CURRENT_DATE
+        AND (_chain_id IS NULL OR o.chain_id = _chain_id)
+      ORDER BY o.price_per_unit ASC
+      LIMIT 1
+    ) best_offer ON TRUE
+    WHERE di.dish_id = _dish_id
+      AND COALESCE(di.optional, FALSE) = FALSE
+      AND di.qty IS NOT NULL
+      AND di.unit IS NOT NULL
+  ),
+  offer_lines AS (
+    SELECT
+      l.*,
+      CEIL(l.offer_qty / l.pack_size) AS packs,
+      CASE
+        WHEN _pricing_mode = 'whole_packs' THEN CEIL(l.offer_qty / l.pack_size) * l.price_total
+        ELSE l.offer_qty * l.price_per_unit
+      END AS line_offer
+    FROM ingredient_lines l
+  ),
+  priced AS (
+    SELECT
+      l.ingredient_id,
+      l.has_offer,
+      l.is_unconvertible,
+      -- Without a baseline price the offer is the best reference we have.
+      -- Unconvertible lines count in neither total.
+      CASE WHEN l.is_unconvertible THEN 0 ELSE COALESCE(l.line_baseline, l.line_offer, 0) END AS line_baseline,
+      CASE WHEN l.is_unconvertible THEN 0 ELSE COALESCE(l.line_offer, l.line_baseline, 0) END AS line_offer,
+      -- What is left of the bought packs, valued at the offer's per-unit price
+      CASE
+        WHEN _pricing_mode = 'whole_packs' THEN
+          COALESCE((l.packs * l.pack_size - l.offer_qty) * l.price_per_unit, 0)
+        ELSE 0
+      END AS line_leftover
+    FROM offer_lines l
+  ),
+  totals AS (
+    SELECT
+      COALESCE(SUM(p.line_baseline), 0) AS baseline_total,
+      COALESCE(SUM(p.line_offer), 0) AS offer_total,
+      COUNT(*) FILTER (WHERE p.has_offer)::INTEGER AS ingredients_with_offers,
+      COALESCE(
+        ARRAY_AGG(p.ingredient_id ORDER BY p.ingredient_id) FILTER (WHERE p.is_unconvertible),
+        ARRAY[]::TEXT[]
+      ) AS unconvertible,
+      COALESCE(SUM(p.line_leftover), 0) AS leftover
+    FROM priced p
+  )
+  SELECT
+    d.dish_id,
+    d.servings,
+    ROUND(t.baseline_total, 2)::DECIMAL(10, 2),
+    ROUND(t.offer_total, 2)::DECIMAL(10, 2),
+    ROUND(t.offer_total / d.servings, 2)::DECIMAL(10, 2),
+    ROUND(GREATEST(t.baseline_total - t.offer_total, 0), 2)::DECIMAL(10, 2),
+    CASE WHEN t.baseline_total > 0 THEN
+      ROUND(GREATEST(t.baseline_total - t.offer_total, 0) / t.baseline_total * 100, 2)::DECIMAL(5, 2)
+    ELSE 0::DECIMAL(5, 2) END,
+    t.ingredients_with_offers,
+    t.unconvertible,
+    ROUND(t.leftover, 2)::DECIMAL(10, 2)
+  FROM dishes d
+  CROSS JOIN totals t
+  WHERE d.dish_id = _dish_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION calculate_shopping_list_chain_costs(
+  _dish_ids TEXT[],
+  _servings INTEGER[] DEFAULT NULL,
+  _user_plz TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  ingredient_id TEXT,
+  ingredient_name TEXT,
+  qty DECIMAL(10, 3),
+  unit TEXT,
+  chain_id TEXT,
+  chain_name TEXT,
+  offer_price_per_unit DECIMAL(10, 4),
+  offer_unit TEXT,
+  offer_total DECIMAL(10, 2),
+  baseline_total DECIMAL(10, 2)
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _region_id TEXT;
+BEGIN
+  IF _user_plz IS NULL OR _user_plz = '' THEN
+    RETURN;
+  END IF;
+
+  SELECT pc.region_id INTO _region_id
+  FROM postal_codes pc
+  WHERE pc.plz = _user_plz
+  LIMIT 1;
+
+  IF _region_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    sl.ingredient_id,
+    sl.ingredient_name,
+    sl.qty,
+    sl.unit,
+    c.chain_id,
+    c.chain_name,
+    best_offer.price_per_unit::DECIMAL(10, 4),
+    best_offer.unit_base,
+    ROUND(convert_unit(sl.qty, sl.unit, best_offer.unit_base, sl.ingredient_id) * best_offer.price_per_unit, 2)::DECIMAL(10, 2),
+    ROUND(COALESCE(convert_unit(sl.qty, sl.unit, i.unit_default, sl.ingredient_id) * i.price_baseline_per_unit, 0), 2)::DECIMAL(10, 2)
+  FROM get_shopping_list(_dish_ids, _servings) sl
+  JOIN ingredients i ON i.ingredient_id = sl.ingredient_id
+  CROSS JOIN (
+    SELECT DISTINCT ch.chain_id, ch.chain_name
+    FROM ad_regions ar
+    JOIN chains ch ON ch.chain_id = ar.chain_id
+    WHERE ar.region_id = _region_id
+  ) c
+  LEFT JOIN LATERAL (
+    SELECT
+      o.price_per_unit,
+      o.unit_base
+    FROM current_best_offers o
+    WHERE o.ingredient_id = sl.ingredient_id
+      AND o.chain_id = c.chain_id
+      AND o.region_id = _region_id
+      AND o.valid_from <= CURRENT_DATE
+      AND o.valid_to >= CURRENT_DATE
+    ORDER BY o.price_per_unit ASC
+    LIMIT 1
+  ) best_offer ON TRUE
+  ORDER BY sl.ingredient_name, c.chain_name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION calculate_plan_prices(
+  _plan_id UUID,
+  _user_plz TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  plan_id UUID,
+  total_baseline DECIMAL(10, 2),
+  total_offer DECIMAL(10, 2),
+  total_savings_abs DECIMAL(10, 2),
+  total_savings_pct DECIMAL(5, 2)
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _region_id TEXT;
+  _status TEXT;
+BEGIN
+  SELECT p.status INTO _status
+  FROM plans p
+  WHERE p.plan_id = _plan_id
+    AND p.user_id = auth.uid();
+
+  IF _status IS NULL THEN
+    RAISE EXCEPTION 'Plan not found';
+  END IF;
+
+  IF _status = 'draft' THEN
+    -- Get region_id from PLZ if provided
+    IF _user_plz IS NOT NULL AND _user_plz != '' THEN
+      SELECT pc.region_id INTO _region_id
+      FROM postal_codes pc
+      WHERE pc.plz = _user_plz
+      LIMIT 1;
+    END IF;
+
+    DELETE FROM plan_item_prices
+    WHERE plan_item_id IN (
+      SELECT pi.plan_item_id FROM plan_items pi WHERE pi.plan_id = _plan_id
+    );
+
+    -- One row per (plan item, ingredient): recipe quantities are scaled from
+    -- the dish's servings to the planned servings, baseline is priced in the
+    -- ingredient's default unit, the offer in the offer's base unit.
+    -- Ingredients without an offer cost their baseline.
+    INSERT INTO plan_item_prices (
+      plan_item_id,
+      ingredient_id,
+      qty,
+      unit,
+      baseline_price_per_unit,
+      baseline_total,
+      offer_price_per_unit,
+      offer_total,
+      offer_source,
+      offer_ref_id,
+      savings_abs,
+      savings_pct
+    )
+    SELECT
+      priced.plan_item_id,
+      priced.ingredient_id,
+      priced.qty,
+      priced.unit,
+      priced.baseline_price_per_unit,
+      ROUND(priced.baseline_total, 2),
+      priced.offer_price_per_unit,
+      ROUND(priced.offer_total, 2),
+      priced.offer_source,
+      priced.offer_ref_id,
+      ROUND(GREATEST(priced.baseline_total - priced.offer_total, 0), 2),
+      CASE WHEN priced.baseline_total > 0 THEN
+        ROUND(GREATEST(priced.baseline_total - priced.offer_total, 0) / priced.baseline_total * 100, 2)
+      ELSE 0 END
+    FROM (
+      SELECT
+        items.*,
+        COALESCE(
+          convert_unit(items.qty, items.unit, best_offer.unit_base, items.ingredient_id) * best_offer.price_per_unit,
+          items.baseline_total
+        ) AS offer_total,
+        best_offer.price_per_unit AS offer_price_per_unit,
+        best_offer.source AS offer_source,
+        best_offer.source_ref_id AS offer_ref_id
+      FROM (
+        SELECT
+          pi.plan_item_id,
+          di.ingredient_id,
+          di.qty * COALESCE(pi.servings, 1) / d.servings AS qty,
+          di.unit,
+          i.price_baseline_per_unit AS baseline_price_per_unit,
+          COALESCE(
+            convert_unit(di.qty * COALESCE(pi.servings, 1) / d.servings, di.unit, i.unit_default, di.ingredient_id) * i.price_baseline_per_unit,
+            0
+          ) AS baseline_total
+        FROM plan_items pi
+        JOIN dishes d ON d.dish_id = pi.dish_id
+        JOIN dish_ingredients di ON di.dish_id = pi.dish_id
+        JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+        WHERE pi.plan_id = _plan_id
+          AND di.qty IS NOT NULL
+          AND di.unit IS NOT NULL
+      ) items
+      LEFT JOIN LATERAL (
+        SELECT
+          o.price_per_unit,
+          o.unit_base,
+          o.source,
+          o.source_ref_id
+        FROM current_best_offers o
+        WHERE o.ingredient_id = items.ingredient_id
+          AND o.region_id = _region_id
+          AND o.valid_from <= CURRENT_DATE
+          AND o.valid_to >= CURRENT_DATE
+        ORDER BY o.price_per_unit ASC
+        LIMIT 1
+      ) best_offer ON TRUE
+    ) priced;
+
+    -- Roll up into plan_totals
+    INSERT INTO plan_totals (
+      plan_id,
+      total_baseline,
+      total_offer,
+      total_savings_abs,
+      total_savings_pct
+    )
+    SELECT
+      _plan_id,
+      COALESCE(SUM(pip.baseline_total), 0),
+      COALESCE(SUM(pip.offer_total), 0),
+      COALESCE(SUM(pip.savings_abs), 0),
+      CASE WHEN COALESCE(SUM(pip.baseline_total), 0) > 0 THEN
+        ROUND(SUM(pip.savings_abs) / SUM(pip.baseline_total) * 100, 2)
+      ELSE 0 END
+    FROM plan_item_prices pip
+    JOIN plan_items pi ON pi.plan_item_id = pip.plan_item_id
+    WHERE pi.plan_id = _plan_id
+    ON CONFLICT ON CONSTRAINT plan_totals_pkey DO UPDATE SET
+      total_baseline = EXCLUDED.total_baseline,
+      total_offer = EXCLUDED.total_offer,
+      total_savings_abs = EXCLUDED.total_savings_abs,
+      total_savings_pct = EXCLUDED.total_savings_pct;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    pt.plan_id,
+    pt.total_baseline,
+    pt.total_offer,
+    pt.total_savings_abs,
+    pt.total_savings_pct
+  FROM plan_totals pt
+  WHERE pt.plan_id = _plan_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_dishes_with_pricing(
+  _user_plz TEXT,
+  _chain_id TEXT DEFAULT NULL,
+  _category TEXT DEFAULT NULL,
+  _is_quick BOOLEAN DEFAULT NULL,
+  _is_meal_prep BOOLEAN DEFAULT NULL,
+  _sort_by TEXT DEFAULT 'name',
+  _sort_dir TEXT DEFAULT 'asc',
+  _limit INTEGER DEFAULT NULL,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  dish_id TEXT,
+  name TEXT,
+  category TEXT,
+  is_quick BOOLEAN,
+  is_meal_prep BOOLEAN,
+  season TEXT,
+  cuisine TEXT,
+  notes TEXT,
+  servings INTEGER,
+  total_aggregated_savings DECIMAL(10, 2),
+  ingredients_with_offers_count INTEGER,
+  available_offers_count INTEGER,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _region_id TEXT;
+BEGIN
+  IF _sort_by NOT IN ('name', 'savings', 'offers') THEN
+    RAISE EXCEPTION 'Invalid sort key: %. Use name, savings or offers', _sort_by;
+  END IF;
+
+  IF _sort_dir NOT IN ('asc', 'desc') THEN
+    RAISE EXCEPTION 'Invalid sort direction: %. Use asc or desc', _sort_dir;
+  END IF;
+
+  IF _user_plz IS NULL OR _user_plz = '' THEN
+    RETURN;
+  END IF;
+
+  SELECT pc.region_id INTO _region_id
+  FROM postal_codes pc
+  WHERE pc.plz = _user_plz
+  LIMIT 1;
+
+  IF _region_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH active_offers AS (
+    SELECT
+      o.ingredient_id,
+      o.price_per_unit,
+      o.active_offers_count
+    FROM current_best_offers o
+    WHERE o.region_id = _region_id
+      AND o.valid_from <= CURRENT_DATE
+      AND o.valid_to >= CURRENT_DATE
+      AND (_chain_id IS NULL OR o.chain_id = _chain_id)
+  ),
+  ingredient_offers AS (
+    SELECT
+      ao.ingredient_id,
+      MIN(ao.price_per_unit) AS min_price_per_unit
+    FROM active_offers ao
+    GROUP BY ao.ingredient_id
+  ),
+  dish_stats AS (
+    SELECT
+      di.dish_id,
+      COALESCE(SUM(
+        CASE WHEN i.price_baseline_per_unit > 0 AND io.min_price_per_unit < i.price_baseline_per_unit
+          THEN i.price_baseline_per_unit - io.min_price_per_unit
+        END
+      ), 0) AS savings,
+      COUNT(*) FILTER (
+        WHERE i.price_baseline_per_unit > 0 AND io.min_price_per_unit < i.price_baseline_per_unit
+      )::INTEGER AS ingredients_with_offers,
+      COUNT(*) FILTER (
+        WHERE io.ingredient_id IS NOT NULL
+          AND LOWER(TRIM(COALESCE(di.role, ''))) IN ('main', 'hauptzutat')
+      ) AS main_with_offers,
+      COUNT(*) FILTER (
+        WHERE io.ingredient_id IS NOT NULL
+          AND LOWER(TRIM(COALESCE(di.role, ''))) NOT IN ('main', 'hauptzutat')
+      ) AS secondary_with_offers
+    FROM dish_ingredients di
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    LEFT JOIN ingredient_offers io ON io.ingredient_id = di.ingredient_id
+    GROUP BY di.dish_id
+  ),
+  offer_counts AS (
+    SELECT
+      di.dish_id,
+      SUM(ao.active_offers_count)::INTEGER AS offers_count
+    FROM dish_ingredients di
+    JOIN active_offers ao ON ao.ingredient_id = di.ingredient_id
+    GROUP BY di.dish_id
+  ),
+  visible AS (
+    SELECT
+      d.dish_id,
+      d.name,
+      d.category,
+      d.is_quick,
+      d.is_meal_prep,
+      d.season,
+      d.cuisine,
+      d.notes,
+      d.servings,
+      ROUND(ds.savings, 2)::DECIMAL(10, 2) AS savings,
+      ds.ingredients_with_offers,
+      COALESCE(oc.offers_count, 0) AS offers_count
+    FROM dishes d
+    JOIN dish_stats ds ON ds.dish_id = d.dish_id
+    LEFT JOIN offer_counts oc ON oc.dish_id = d.dish_id
+    WHERE (_category IS NULL OR d.category = _category)
+      AND (_is_quick IS NULL OR d.is_quick = _is_quick)
+      AND (_is_meal_prep IS NULL OR d.is_meal_prep = _is_meal_prep)
+      AND (ds.main_with_offers >= 1 OR ds.secondary_with_offers >= 2)
+  )
+  SELECT
+    v.dish_id,
+    v.name,
+    v.category,
+    v.is_quick,
+    v.is_meal_prep,
+    v.season,
+    v.cuisine,
+    v.notes,
+    v.servings,
+    v.savings,
+    v.ingredients_with_offers,
+    v.offers_count,
+    COUNT(*) OVER ()
+  FROM visible v
+  ORDER BY
+    CASE WHEN _sort_by = 'savings' AND _sort_dir = 'asc' THEN v.savings END ASC,
+    CASE WHEN _sort_by = 'savings' AND _sort_dir = 'desc' THEN v.savings END DESC,
+    CASE WHEN _sort_by = 'offers' AND _sort_dir = 'asc' THEN v.offers_count END ASC,
+    CASE WHEN _sort_by = 'offers' AND _sort_dir = 'desc' THEN v.offers_count END DESC,
+    CASE WHEN _sort_by = 'name' AND _sort_dir = 'desc' THEN v.name END DESC,
+    v.name ASC,
+    v.dish_id ASC
+  LIMIT _limit
+  OFFSET COALESCE(_offset, 0);
+END;
+$$;
+
+COMMENT ON TABLE current_best_offers IS 'Cheapest active offer per (region, chain, ingredient); rebuilt by refresh_current_best_offers()';
+COMMENT ON FUNCTION refresh_current_best_offers() IS
+  'Rebuilds current_best_offers from offers valid today; called after offers imports and nightly via pg_cron';
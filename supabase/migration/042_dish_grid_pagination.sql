@@ -0,0 +1,202 @@
+-- ============================================================================
+-- Dish Grid Pagination
+-- get_dishes_with_pricing also returns each dish's pro-rata offer total, can
+-- sort by it, and can be restricted to a list of dish IDs (favorites view),
+-- so the dish grid is sorted, filtered and paginated entirely on the server.
+-- ============================================================================
+
+-- Return type changes, so the old signature has to go first
+DROP FUNCTION IF EXISTS get_dishes_with_pricing(TEXT, TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION get_dishes_with_pricing(
+  _user_plz TEXT,
+  _chain_id TEXT DEFAULT NULL,
+  _category TEXT DEFAULT NULL,
+  _is_quick BOOLEAN DEFAULT NULL,
+  _is_meal_prep BOOLEAN DEFAULT NULL,
+  _sort_by TEXT DEFAULT 'name',
+  _sort_dir TEXT DEFAULT 'asc',
+  _limit INTEGER DEFAULT NULL,
+  _offset INTEGER DEFAULT 0,
+  _dish_ids TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  dish_id TEXT,
+  name TEXT,
+  category TEXT,
+  is_quick BOOLEAN,
+  is_meal_prep BOOLEAN,
+  season TEXT,
+  cuisine TEXT,
+  notes TEXT,
+  servings INTEGER,
+  total_aggregated_savings DECIMAL(10, 2),
+  ingredients_with_offers_count INTEGER,
+  available_offers_count INTEGER,
+  offer_total DECIMAL(10, 2),
+  price_per_serving DECIMAL(10, 2),
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _region_id TEXT;
+BEGIN
+  IF _sort_by NOT IN ('name', 'savings', 'price', 'offers') THEN
+    RAISE EXCEPTION 'Invalid sort key: %. Use name, savings, price or offers', _sort_by;
+  END IF;
+
+  IF _sort_dir NOT IN ('asc', 'desc') THEN
+    RAISE EXCEPTION 'Invalid sort direction: %. Use asc or desc', _sort_dir;
+  END IF;
+
+  IF _user_plz IS NULL OR _user_plz = '' THEN
+    RETURN;
+  END IF;
+
+  SELECT pc.region_id INTO _region_id
+  FROM postal_codes pc
+  WHERE pc.plz = _user_plz
+  LIMIT 1;
+
+  IF _region_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH active_offers AS (
+    SELECT
+      o.ingredient_id,
+      o.price_per_unit,
+      o.unit_base,
+      o.active_offers_count
+    FROM current_best_offers o
+    WHERE o.region_id = _region_id
+      AND o.valid_from <= CURRENT_DATE
+      AND o.valid_to >= CURRENT_DATE
+      AND (_chain_id IS NULL OR o.chain_id = _chain_id)
+  ),
+  ingredient_offers AS (
+    SELECT DISTINCT ON (ao.ingredient_id)
+      ao.ingredient_id,
+      ao.price_per_unit AS min_price_per_unit,
+      ao.unit_base
+    FROM active_offers ao
+    ORDER BY ao.ingredient_id, ao.price_per_unit ASC
+  ),
+  dish_stats AS (
+    SELECT
+      di.dish_id,
+      COALESCE(SUM(
+        CASE WHEN i.price_baseline_per_unit > 0 AND io.min_price_per_unit < i.price_baseline_per_unit
+          THEN i.price_baseline_per_unit - io.min_price_per_unit
+        END
+      ), 0) AS savings,
+      COUNT(*) FILTER (
+        WHERE i.price_baseline_per_unit > 0 AND io.min_price_per_unit < i.price_baseline_per_unit
+      )::INTEGER AS ingredients_with_offers,
+      COUNT(*) FILTER (
+        WHERE io.ingredient_id IS NOT NULL
+          AND LOWER(TRIM(COALESCE(di.role, ''))) IN ('main', 'hauptzutat')
+      ) AS main_with_offers,
+      COUNT(*) FILTER (
+        WHERE io.ingredient_id IS NOT NULL
+          AND LOWER(TRIM(COALESCE(di.role, ''))) NOT IN ('main', 'hauptzutat')
+      ) AS secondary_with_offers
+    FROM dish_ingredients di
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    LEFT JOIN ingredient_offers io ON io.ingredient_id = di.ingredient_id
+    GROUP BY di.dish_id
+  ),
+  -- Pro-rata offer total as in calculate_dish_total_price: required
+  -- ingredients at their cheapest offer, otherwise at the baseline price
+  dish_totals AS (
+    SELECT
+      di.dish_id,
+      COALESCE(SUM(COALESCE(
+        convert_unit(di.qty, di.unit, io.unit_base, di.ingredient_id) * io.min_price_per_unit,
+        convert_unit(di.qty, di.unit, i.unit_default, di.ingredient_id) * i.price_baseline_per_unit,
+        0
+      )), 0) AS offer_total
+    FROM dish_ingredients di
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    LEFT JOIN ingredient_offers io ON io.ingredient_id = di.ingredient_id
+    WHERE COALESCE(di.optional, FALSE) = FALSE
+      AND di.qty IS NOT NULL
+      AND di.unit IS NOT NULL
+    GROUP BY di.dish_id
+  ),
+  offer_counts AS (
+    SELECT
+      di.dish_id,
+      SUM(ao.active_offers_count)::INTEGER AS offers_count
+    FROM dish_ingredients di
+    JOIN active_offers ao ON ao.ingredient_id = di.ingredient_id
+    GROUP BY di.dish_id
+  ),
+  visible AS (
+    SELECT
+      d.dish_id,
+      d.name,
+      d.category,
+      d.is_quick,
+      d.is_meal_prep,
+      d.season,
+      d.cuisine,
+      d.notes,
+      d.servings,
+      ROUND(ds.savings, 2)::DECIMAL(10, 2) AS savings,
+      ds.ingredients_with_offers,
+      COALESCE(oc.offers_count, 0) AS offers_count,
+      ROUND(COALESCE(dt.offer_total, 0), 2)::DECIMAL(10, 2) AS offer_total,
+      ROUND(COALESCE(dt.offer_total, 0) / d.servings, 2)::DECIMAL(10, 2) AS price_per_serving
+    FROM dishes d
+    JOIN dish_stats ds ON ds.dish_id = d.dish_id
+    LEFT JOIN offer_counts oc ON oc.dish_id = d.dish_id
+    LEFT JOIN dish_totals dt ON dt.dish_id = d.dish_id
+    WHERE (_dish_ids IS NULL OR d.dish_id = ANY(_dish_ids))
+      AND (_category IS NULL OR d.category = _category)
+      AND (_is_quick IS NULL OR d.is_quick = _is_quick)
+      AND (_is_meal_prep IS NULL OR d.is_meal_prep = _is_meal_prep)
+      AND (ds.main_with_offers >= 1 OR ds.secondary_with_offers >= 2)
+  )
+  SELECT
+    v.dish_id,
+    v.name,
+    v.category,
+    v.is_quick,
+    v.is_meal_prep,
+    v.season,
+    v.cuisine,
+    v.notes,
+    v.servings,
+    v.savings,
+    v.ingredients_with_offers,
+    v.offers_count,
+    v.offer_total,
+    v.price_per_serving,
+    COUNT(*) OVER ()
+  FROM visible v
+  ORDER BY
+    CASE WHEN _sort_by = 'savings' AND _sort_dir = 'asc' THEN v.savings END ASC,
+    CASE WHEN _sort_by = 'savings' AND _sort_dir = 'desc' THEN v.savings END DESC,
+    CASE WHEN _sort_by = 'price' AND _sort_dir = 'asc' THEN v.offer_total END ASC,
+    CASE WHEN _sort_by = 'price' AND _sort_dir = 'desc' THEN v.offer_total END DESC,
+    CASE WHEN _sort_by = 'offers' AND _sort_dir = 'asc' THEN v.offers_count END ASC,
+    CASE WHEN _sort_by = 'offers' AND _sort_dir = 'desc' THEN v.offers_count END DESC,
+    CASE WHEN _sort_by = 'name' AND _sort_dir = 'desc' THEN v.name END DESC,
+    v.name ASC,
+    v.dish_id ASC
+  LIMIT _limit
+  OFFSET COALESCE(_offset, 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_dishes_with_pricing TO anon, authenticated;
+
+COMMENT ON FUNCTION get_dishes_with_pricing(TEXT, TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT, TEXT, INTEGER, INTEGER, TEXT[]) IS
+  'Visible dishes for a PLZ (optionally one chain or a list of dish IDs) with aggregated savings, offer counts '
+  'and pro-rata offer total, filtered, sorted (name, savings, price, offers) and paginated in one query; '
+  'total_count ignores the page';
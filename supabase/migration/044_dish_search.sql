@@ -0,0 +1,344 @@
+-- ============================================================================
+-- Dish Search
+-- Full-text search over dish name, cuisine, notes and ingredient names with
+-- German stemming, umlaut/ß folding ("Kase" finds "Käse") and trigram-based
+-- typo tolerance, combined with the other dish grid filters.
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS unaccent;
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- German stemming on unaccented words
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'german_unaccent') THEN
+    CREATE TEXT SEARCH CONFIGURATION german_unaccent (COPY = german);
+    ALTER TEXT SEARCH CONFIGURATION german_unaccent
+      ALTER MAPPING FOR hword, hword_part, word WITH unaccent, german_stem;
+  END IF;
+END;
+$$;
+
+-- Lowercase and strip accents (ä -> a, ß -> ss) for trigram matching. The
+-- search_path is pinned so the unaccent dictionary also resolves where Postgres
+-- restricts it, e.g. while building an expression index (unaccent lives in the
+-- extensions schema on Supabase).
+CREATE OR REPLACE FUNCTION fold_search_text(_text TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+  SELECT LOWER(unaccent('unaccent'::regdictionary, COALESCE(_text, '')));
+$$;
+
+ALTER TABLE dishes
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR,
+ADD COLUMN IF NOT EXISTS search_text TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_dishes_search_vector ON dishes USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_dishes_search_text_trgm ON dishes USING GIN (search_text gin_trgm_ops);
+
+-- Rebuild the search document of one dish. Weights: name A, ingredients B,
+-- cuisine C, notes D.
+CREATE OR REPLACE FUNCTION refresh_dish_search_document(_dish_id TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE dishes d
+  SET
+    search_vector =
+      setweight(to_tsvector('german_unaccent', COALESCE(d.name, '')), 'A') ||
+      setweight(to_tsvector('german_unaccent', COALESCE(ing.names, '')), 'B') ||
+      setweight(to_tsvector('german_unaccent', COALESCE(d.cuisine, '')), 'C') ||
+      setweight(to_tsvector('german_unaccent', COALESCE(d.notes, '')), 'D'),
+    search_text = fold_search_text(CONCAT_WS(' ', d.name, d.cuisine, d.notes, ing.names))
+  FROM (
+    SELECT STRING_AGG(i.name_canonical, ' ' ORDER BY i.name_canonical) AS names
+    FROM dish_ingredients di
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    WHERE di.dish_id = _dish_id
+  ) ing
+  WHERE d.dish_id = _dish_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION dishes_search_document_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_dish_search_document(NEW.dish_id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION dish_ingredients_search_document_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM refresh_dish_search_document(OLD.dish_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.dish_id IS DISTINCT FROM OLD.dish_id) THEN
+    PERFORM refresh_dish_search_document(NEW.dish_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION ingredients_search_document_trigger()
+RETURNS TRIGGER AS $$
+DECLARE
+  _dish_id TEXT;
+BEGIN
+  FOR _dish_id IN
+    SELECT DISTINCT di.dish_id FROM dish_ingredients di WHERE di.ingredient_id = NEW.ingredient_id
+  LOOP
+    PERFORM refresh_dish_search_document(_dish_id);
+  END LOOP;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only fires for the searchable columns, so the UPDATE in
+-- refresh_dish_search_document does not trigger itself
+DROP TRIGGER IF EXISTS update_dishes_search_document ON dishes;
+CREATE TRIGGER update_dishes_search_document AFTER INSERT OR UPDATE OF name, cuisine, notes ON dishes
+  FOR EACH ROW EXECUTE FUNCTION dishes_search_document_trigger();
+
+DROP TRIGGER IF EXISTS update_dish_ingredients_search_document ON dish_ingredients;
+CREATE TRIGGER update_dish_ingredients_search_document AFTER INSERT OR UPDATE OR DELETE ON dish_ingredients
+  FOR EACH ROW EXECUTE FUNCTION dish_ingredients_search_document_trigger();
+
+DROP TRIGGER IF EXISTS update_ingredients_search_document ON ingredients;
+CREATE TRIGGER update_ingredients_search_document AFTER UPDATE OF name_canonical ON ingredients
+  FOR EACH ROW EXECUTE FUNCTION ingredients_search_document_trigger();
+
+-- Backfill existing dishes
+SELECT refresh_dish_search_document(d.dish_id) FROM dishes d;
+
+-- ============================================================================
+-- DISH LISTING WITH SEARCH
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS get_dishes_with_pricing(TEXT, TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT, TEXT, INTEGER, INTEGER, TEXT[], DECIMAL, TEXT);
+
+-- extensions is on the search_path for pg_trgm's <% operator
+CREATE OR REPLACE FUNCTION get_dishes_with_pricing(
+  _user_plz TEXT,
+  _chain_id TEXT DEFAULT NULL,
+  _category TEXT DEFAULT NULL,
+  _is_quick BOOLEAN DEFAULT NULL,
+  _is_meal_prep BOOLEAN DEFAULT NULL,
+  _sort_by TEXT DEFAULT 'name',
+  _sort_dir TEXT DEFAULT 'asc',
+  _limit INTEGER DEFAULT NULL,
+  _offset INTEGER DEFAULT 0,
+  _dish_ids TEXT[] DEFAULT NULL,
+  _max_price DECIMAL DEFAULT NULL,
+  _price_basis TEXT DEFAULT 'total',
+  _search TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  dish_id TEXT,
+  name TEXT,
+  category TEXT,
+  is_quick BOOLEAN,
+  is_meal_prep BOOLEAN,
+  season TEXT,
+  cuisine TEXT,
+  notes TEXT,
+  servings INTEGER,
+  total_aggregated_savings DECIMAL(10, 2),
+  ingredients_with_offers_count INTEGER,
+  available_offers_count INTEGER,
+  offer_total DECIMAL(10, 2),
+  price_per_serving DECIMAL(10, 2),
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  _region_id TEXT;
+  _search_query TSQUERY;
+  _search_folded TEXT;
+BEGIN
+  IF _sort_by NOT IN ('name', 'savings', 'price', 'offers') THEN
+    RAISE EXCEPTION 'Invalid sort key: %. Use name, savings, price or offers', _sort_by;
+  END IF;
+
+  IF _sort_dir NOT IN ('asc', 'desc') THEN
+    RAISE EXCEPTION 'Invalid sort direction: %. Use asc or desc', _sort_dir;
+  END IF;
+
+  IF _price_basis NOT IN ('total', 'per_serving') THEN
+    RAISE EXCEPTION 'Invalid price basis: %. Use total or per_serving', _price_basis;
+  END IF;
+
+  IF _user_plz IS NULL OR _user_plz = '' THEN
+    RETURN;
+  END IF;
+
+  IF _search IS NOT NULL AND TRIM(_search) != '' THEN
+    _search_query := websearch_to_tsquery('german_unaccent', _search);
+    _search_folded := fold_search_text(TRIM(_search));
+  END IF;
+
+  SELECT pc.region_id INTO _region_id
+  FROM postal_codes pc
+  WHERE pc.plz = _user_plz
+  LIMIT 1;
+
+  IF _region_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH active_offers AS (
+    SELECT
+      o.ingredient_id,
+      o.price_per_unit,
+      o.unit_base,
+      o.active_offers_count
+    FROM current_best_offers o
+    WHERE o.region_id = _region_id
+      AND o.valid_from <= CURRENT_DATE
+      AND o.valid_to >= CURRENT_DATE
+      AND (_chain_id IS NULL OR o.chain_id = _chain_id)
+  ),
+  ingredient_offers AS (
+    SELECT DISTINCT ON (ao.ingredient_id)
+      ao.ingredient_id,
+      ao.price_per_unit AS min_price_per_unit,
+      ao.unit_base
+    FROM active_offers ao
+    ORDER BY ao.ingredient_id, ao.price_per_unit ASC
+  ),
+  dish_stats AS (
+    SELECT
+      di.dish_id,
+      COALESCE(SUM(
+        CASE WHEN i.price_baseline_per_unit > 0 AND io.min_price_per_unit < i.price_baseline_per_unit
+          THEN i.price_baseline_per_unit - io.min_price_per_unit
+        END
+      ), 0) AS savings,
+      COUNT(*) FILTER (
+        WHERE i.price_baseline_per_unit > 0 AND io.min_price_per_unit < i.price_baseline_per_unit
+      )::INTEGER AS ingredients_with_offers,
+      COUNT(*) FILTER (
+        WHERE io.ingredient_id IS NOT NULL
+          AND LOWER(TRIM(COALESCE(di.role, ''))) IN ('main', 'hauptzutat')
+      ) AS main_with_offers,
+      COUNT(*) FILTER (
+        WHERE io.ingredient_id IS NOT NULL
+          AND LOWER(TRIM(COALESCE(di.role, ''))) NOT IN ('main', 'hauptzutat')
+      ) AS secondary_with_offers
+    FROM dish_ingredients di
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    LEFT JOIN ingredient_offers io ON io.ingredient_id = di.ingredient_id
+    GROUP BY di.dish_id
+  ),
+  -- Pro-rata offer total as in calculate_dish_total_price: required
+  -- ingredients at their cheapest offer, otherwise at the baseline price
+  dish_totals AS (
+    SELECT
+      di.dish_id,
+      COALESCE(SUM(COALESCE(
+        convert_unit(di.qty, di.unit, io.unit_base, di.ingredient_id) * io.min_price_per_unit,
+        convert_unit(di.qty, di.unit, i.unit_default, di.ingredient_id) * i.price_baseline_per_unit,
+        0
+      )), 0) AS offer_total
+    FROM dish_ingredients di
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    LEFT JOIN ingredient_offers io ON io.ingredient_id = di.ingredient_id
+    WHERE COALESCE(di.optional, FALSE) = FALSE
+      AND di.qty IS NOT NULL
+      AND di.unit IS NOT NULL
+    GROUP BY di.dish_id
+  ),
+  offer_counts AS (
+    SELECT
+      di.dish_id,
+      SUM(ao.active_offers_count)::INTEGER AS offers_count
+    FROM dish_ingredients di
+    JOIN active_offers ao ON ao.ingredient_id = di.ingredient_id
+    GROUP BY di.dish_id
+  ),
+  visible AS (
+    SELECT
+      d.dish_id,
+      d.name,
+      d.category,
+      d.is_quick,
+      d.is_meal_prep,
+      d.season,
+      d.cuisine,
+      d.notes,
+      d.servings,
+      ROUND(ds.savings, 2)::DECIMAL(10, 2) AS savings,
+      ds.ingredients_with_offers,
+      COALESCE(oc.offers_count, 0) AS offers_count,
+      ROUND(COALESCE(dt.offer_total, 0), 2)::DECIMAL(10, 2) AS offer_total,
+      ROUND(COALESCE(dt.offer_total, 0) / d.servings, 2)::DECIMAL(10, 2) AS price_per_serving
+    FROM dishes d
+    JOIN dish_stats ds ON ds.dish_id = d.dish_id
+    LEFT JOIN offer_counts oc ON oc.dish_id = d.dish_id
+    LEFT JOIN dish_totals dt ON dt.dish_id = d.dish_id
+    WHERE (_dish_ids IS NULL OR d.dish_id = ANY(_dish_ids))
+      AND (_category IS NULL OR d.category = _category)
+      AND (_is_quick IS NULL OR d.is_quick = _is_quick)
+      AND (_is_meal_prep IS NULL OR d.is_meal_prep = _is_meal_prep)
+      AND (
+        _search_folded IS NULL
+        OR d.search_vector @@ _search_query
+        -- Typo tolerance: word similarity of at least pg_trgm.word_similarity_threshold
+        -- (0.6 by default); the operator form can use the trigram index
+        OR _search_folded <% d.search_text
+      )
+      AND (ds.main_with_offers >= 1 OR ds.secondary_with_offers >= 2)
+  )
+  SELECT
+    v.dish_id,
+    v.name,
+    v.category,
+    v.is_quick,
+    v.is_meal_prep,
+    v.season,
+    v.cuisine,
+    v.notes,
+    v.servings,
+    v.savings,
+    v.ingredients_with_offers,
+    v.offers_count,
+    v.offer_total,
+    v.price_per_serving,
+    COUNT(*) OVER ()
+  FROM visible v
+  WHERE _max_price IS NULL
+    OR (_price_basis = 'total' AND v.offer_total <= _max_price)
+    OR (_price_basis = 'per_serving' AND v.price_per_serving <= _max_price)
+  ORDER BY
+    CASE WHEN _sort_by = 'savings' AND _sort_dir = 'asc' THEN v.savings END ASC,
+    CASE WHEN _sort_by = 'savings' AND _sort_dir = 'desc' THEN v.savings END DESC,
+    CASE WHEN _sort_by = 'price' AND _sort_dir = 'asc' THEN v.offer_total END ASC,
+    CASE WHEN _sort_by = 'price' AND _sort_dir = 'desc' THEN v.offer_total END DESC,
+    CASE WHEN _sort_by = 'offers' AND _sort_dir = 'asc' THEN v.offers_count END ASC,
+    CASE WHEN _sort_by = 'offers' AND _sort_dir = 'desc' THEN v.offers_count END DESC,
+    CASE WHEN _sort_by = 'name' AND _sort_dir = 'desc' THEN v.name END DESC,
+    v.name ASC,
+    v.dish_id ASC
+  LIMIT _limit
+  OFFSET COALESCE(_offset, 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_dishes_with_pricing TO anon, authenticated;
+
+COMMENT ON FUNCTION get_dishes_with_pricing(TEXT, TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT, TEXT, INTEGER, INTEGER, TEXT[], DECIMAL, TEXT, TEXT) IS
+  'Visible dishes for a PLZ (optionally one chain or a list of dish IDs) with aggregated savings, offer counts '
+  'and pro-rata offer total, filtered (incl. max price and full-text search), sorted (name, savings, price, '
+  'offers) and paginated in one query; total_count ignores the page';
+COMMENT ON FUNCTION refresh_dish_search_document(TEXT) IS
+  'Rebuilds dishes.search_vector (German stemming, umlauts folded) and dishes.search_text (folded, for trigram typo matching)';
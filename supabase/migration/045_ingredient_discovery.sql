@@ -0,0 +1,120 @@
+-- ============================================================================
+-- Ingredient Discovery ("What can I cook?")
+-- Ranks dishes by how many of their ingredients are covered by a set the user
+-- picked and/or by everything currently on offer in their region (optionally
+-- at one chain), listing the ingredients that are still missing.
+-- ============================================================================
+
+-- Uses the same main/secondary split as should_display_dish: dishes are ranked
+-- by covered main ingredients first, then by main coverage ratio and covered
+-- secondary ingredients. Optional dish ingredients are ignored. Only dishes
+-- with at least one covered ingredient are returned.
+CREATE OR REPLACE FUNCTION find_dishes_by_ingredients(
+  _ingredient_ids TEXT[] DEFAULT NULL,
+  _user_plz TEXT DEFAULT NULL,
+  _chain_id TEXT DEFAULT NULL,
+  _include_offers BOOLEAN DEFAULT FALSE,
+  _limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  dish_id TEXT,
+  name TEXT,
+  category TEXT,
+  is_quick BOOLEAN,
+  is_meal_prep BOOLEAN,
+  main_total INTEGER,
+  main_covered INTEGER,
+  secondary_total INTEGER,
+  secondary_covered INTEGER,
+  covered_ingredients TEXT[],
+  missing_main TEXT[],
+  missing_secondary TEXT[]
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _region_id TEXT;
+BEGIN
+  IF _include_offers AND _user_plz IS NOT NULL AND _user_plz <> '' THEN
+    SELECT pc.region_id INTO _region_id
+    FROM postal_codes pc
+    WHERE pc.plz = _user_plz
+    LIMIT 1;
+  END IF;
+
+  IF COALESCE(array_length(_ingredient_ids, 1), 0) = 0 AND _region_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH available AS (
+    SELECT UNNEST(COALESCE(_ingredient_ids, ARRAY[]::TEXT[])) AS ingredient_id
+    UNION
+    SELECT cbo.ingredient_id
+    FROM current_best_offers cbo
+    WHERE _region_id IS NOT NULL
+      AND cbo.region_id = _region_id
+      AND cbo.valid_from <= CURRENT_DATE
+      AND cbo.valid_to >= CURRENT_DATE
+      AND (_chain_id IS NULL OR cbo.chain_id = _chain_id)
+  ),
+  dish_lines AS (
+    SELECT
+      di.dish_id,
+      i.name_canonical,
+      LOWER(TRIM(COALESCE(di.role, ''))) IN ('main', 'hauptzutat') AS is_main,
+      EXISTS (SELECT 1 FROM available a WHERE a.ingredient_id = di.ingredient_id) AS is_covered
+    FROM dish_ingredients di
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    WHERE COALESCE(di.optional, FALSE) = FALSE
+  ),
+  dish_coverage AS (
+    SELECT
+      dl.dish_id,
+      COUNT(*) FILTER (WHERE dl.is_main)::INTEGER AS main_total,
+      COUNT(*) FILTER (WHERE dl.is_main AND dl.is_covered)::INTEGER AS main_covered,
+      COUNT(*) FILTER (WHERE NOT dl.is_main)::INTEGER AS secondary_total,
+      COUNT(*) FILTER (WHERE NOT dl.is_main AND dl.is_covered)::INTEGER AS secondary_covered,
+      COALESCE(ARRAY_AGG(dl.name_canonical ORDER BY dl.name_canonical)
+        FILTER (WHERE dl.is_covered), ARRAY[]::TEXT[]) AS covered_ingredients,
+      COALESCE(ARRAY_AGG(dl.name_canonical ORDER BY dl.name_canonical)
+        FILTER (WHERE dl.is_main AND NOT dl.is_covered), ARRAY[]::TEXT[]) AS missing_main,
+      COALESCE(ARRAY_AGG(dl.name_canonical ORDER BY dl.name_canonical)
+        FILTER (WHERE NOT dl.is_main AND NOT dl.is_covered), ARRAY[]::TEXT[]) AS missing_secondary
+    FROM dish_lines dl
+    GROUP BY dl.dish_id
+  )
+  SELECT
+    d.dish_id,
+    d.name,
+    d.category,
+    d.is_quick,
+    d.is_meal_prep,
+    dc.main_total,
+    dc.main_covered,
+    dc.secondary_total,
+    dc.secondary_covered,
+    dc.covered_ingredients,
+    dc.missing_main,
+    dc.missing_secondary
+  FROM dish_coverage dc
+  JOIN dishes d ON d.dish_id = dc.dish_id
+  WHERE dc.main_covered + dc.secondary_covered > 0
+  ORDER BY
+    dc.main_covered DESC,
+    CASE WHEN dc.main_total > 0 THEN dc.main_covered::DECIMAL / dc.main_total ELSE 0 END DESC,
+    dc.secondary_covered DESC,
+    dc.main_total + dc.secondary_total - dc.main_covered - dc.secondary_covered ASC,
+    d.name ASC,
+    d.dish_id ASC
+  LIMIT _limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION find_dishes_by_ingredients TO anon, authenticated;
+
+COMMENT ON FUNCTION find_dishes_by_ingredients(TEXT[], TEXT, TEXT, BOOLEAN, INTEGER) IS
+  'Dishes ranked by coverage of their main (then secondary) ingredients by the given ingredients '
+  'and/or everything currently on offer for a PLZ (optionally one chain), with missing ingredients';
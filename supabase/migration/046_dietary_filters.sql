@@ -0,0 +1,352 @@
+-- ============================================================================
+-- Allergen and Diet Filters
+-- Normalizes ingredients.allergen_tags against a fixed allergen list, derives
+-- vegetarian/vegan flags per dish from its ingredients, lets the dish listing
+-- exclude allergens or require a diet, and stores both as user preferences.
+-- ============================================================================
+
+-- The 14 allergens that must be declared in the EU. aliases lists other tags
+-- used in imported data for the same allergen (e.g. dairy -> lactose).
+CREATE TABLE IF NOT EXISTS lookups_allergens (
+  allergen_tag TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+INSERT INTO lookups_allergens (allergen_tag, label, aliases, sort_order) VALUES
+  ('gluten', 'Gluten', ARRAY['wheat', 'weizen'], 1),
+  ('lactose', 'Lactose', ARRAY['dairy', 'milk', 'milch', 'laktose'], 2),
+  ('eggs', 'Eggs', ARRAY['egg', 'ei', 'eier'], 3),
+  ('nuts', 'Tree nuts', ARRAY['nut', 'nüsse', 'schalenfrüchte'], 4),
+  ('peanuts', 'Peanuts', ARRAY['peanut', 'erdnüsse'], 5),
+  ('soy', 'Soy', ARRAY['soja', 'soya'], 6),
+  ('fish', 'Fish', ARRAY['fisch'], 7),
+  ('crustaceans', 'Crustaceans', ARRAY['shellfish', 'krebstiere'], 8),
+  ('molluscs', 'Molluscs', ARRAY['weichtiere'], 9),
+  ('celery', 'Celery', ARRAY['sellerie'], 10),
+  ('mustard', 'Mustard', ARRAY['senf'], 11),
+  ('sesame', 'Sesame', ARRAY['sesam'], 12),
+  ('sulphites', 'Sulphites', ARRAY['sulfites', 'sulfite', 'schwefeldioxid'], 13),
+  ('lupin', 'Lupin', ARRAY['lupine', 'lupinen'], 14)
+ON CONFLICT (allergen_tag) DO NOTHING;
+
+ALTER TABLE lookups_allergens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allergens lookup is publicly readable" ON lookups_allergens;
+CREATE POLICY "Allergens lookup is publicly readable"
+  ON lookups_allergens
+  FOR SELECT
+  TO public
+  USING (true);
+
+-- Diet class of an ingredient; NULL means unknown, which keeps dishes
+-- containing it from being flagged vegetarian or vegan
+ALTER TABLE ingredients
+  ADD COLUMN IF NOT EXISTS diet_class TEXT;
+
+ALTER TABLE ingredients
+  DROP CONSTRAINT IF EXISTS check_ingredients_diet_class;
+ALTER TABLE ingredients
+  ADD CONSTRAINT check_ingredients_diet_class
+  CHECK (diet_class IS NULL OR diet_class IN ('vegan', 'vegetarian', 'omnivore'));
+
+COMMENT ON COLUMN ingredients.diet_class IS
+  'vegan, vegetarian (e.g. dairy, eggs) or omnivore (meat, fish); NULL = unknown';
+
+-- Saved filter defaults for logged-in users
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS excluded_allergens TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS diet_preference TEXT;
+
+ALTER TABLE user_profiles
+  DROP CONSTRAINT IF EXISTS check_user_profiles_diet_preference;
+ALTER TABLE user_profiles
+  ADD CONSTRAINT check_user_profiles_diet_preference
+  CHECK (diet_preference IS NULL OR diet_preference IN ('vegetarian', 'vegan'));
+
+-- Maps tags to lookups_allergens.allergen_tag (by tag or alias, case-insensitive);
+-- unknown tags are kept lower-cased so they can still be shown and filtered
+CREATE OR REPLACE FUNCTION normalize_allergen_tags(_tags TEXT[])
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(ARRAY_AGG(DISTINCT COALESCE(la.allergen_tag, t.tag) ORDER BY COALESCE(la.allergen_tag, t.tag)), '{}')
+  FROM (
+    SELECT LOWER(TRIM(raw_tag)) AS tag
+    FROM UNNEST(COALESCE(_tags, '{}')) AS raw_tag
+    WHERE TRIM(raw_tag) <> ''
+  ) t
+  LEFT JOIN lookups_allergens la
+    ON la.allergen_tag = t.tag OR t.tag = ANY(la.aliases);
+$$;
+
+GRANT EXECUTE ON FUNCTION normalize_allergen_tags TO anon, authenticated;
+
+-- Allergens and diet flags of every dish, optional ingredients included
+-- (they are often used anyway). A dish is vegetarian/vegan only if every
+-- ingredient's diet_class is known and compatible.
+CREATE OR REPLACE VIEW dish_dietary_info AS
+SELECT
+  d.dish_id,
+  COALESCE((
+    SELECT ARRAY_AGG(DISTINCT tag ORDER BY tag)
+    FROM dish_ingredients di
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    CROSS JOIN LATERAL UNNEST(normalize_allergen_tags(i.allergen_tags)) AS tag
+    WHERE di.dish_id = d.dish_id
+  ), '{}') AS allergens,
+  COALESCE((
+    SELECT BOOL_AND(i.diet_class IN ('vegan', 'vegetarian'))
+    FROM dish_ingredients di
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    WHERE di.dish_id = d.dish_id
+  ), FALSE) AS is_vegetarian,
+  COALESCE((
+    SELECT BOOL_AND(i.diet_class = 'vegan')
+    FROM dish_ingredients di
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    WHERE di.dish_id = d.dish_id
+  ), FALSE) AS is_vegan
+FROM dishes d;
+
+GRANT SELECT ON dish_dietary_info TO anon, authenticated;
+
+-- Adds _exclude_allergens and _diet; otherwise unchanged from 044
+DROP FUNCTION IF EXISTS get_dishes_with_pricing(TEXT, TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT, TEXT, INTEGER, INTEGER, TEXT[], DECIMAL, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION get_dishes_with_pricing(
+  _user_plz TEXT,
+  _chain_id TEXT DEFAULT NULL,
+  _category TEXT DEFAULT NULL,
+  _is_quick BOOLEAN DEFAULT NULL,
+  _is_meal_prep BOOLEAN DEFAULT NULL,
+  _sort_by TEXT DEFAULT 'name',
+  _sort_dir TEXT DEFAULT 'asc',
+  _limit INTEGER DEFAULT NULL,
+  _offset INTEGER DEFAULT 0,
+  _dish_ids TEXT[] DEFAULT NULL,
+  _max_price DECIMAL DEFAULT NULL,
+  _price_basis TEXT DEFAULT 'total',
+  _search TEXT DEFAULT NULL,
+  _exclude_allergens TEXT[] DEFAULT NULL,
+  _diet TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  dish_id TEXT,
+  name TEXT,
+  category TEXT,
+  is_quick BOOLEAN,
+  is_meal_prep BOOLEAN,
+  season TEXT,
+  cuisine TEXT,
+  notes TEXT,
+  servings INTEGER,
+  total_aggregated_savings DECIMAL(10, 2),
+  ingredients_with_offers_count INTEGER,
+  available_offers_count INTEGER,
+  offer_total DECIMAL(10, 2),
+  price_per_serving DECIMAL(10, 2),
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  _region_id TEXT;
+  _search_query TSQUERY;
+  _search_folded TEXT;
+BEGIN
+  IF _sort_by NOT IN ('name', 'savings', 'price', 'offers') THEN
+    RAISE EXCEPTION 'Invalid sort key: %. Use name, savings, price or offers', _sort_by;
+  END IF;
+
+  IF _sort_dir NOT IN ('asc', 'desc') THEN
+    RAISE EXCEPTION 'Invalid sort direction: %. Use asc or desc', _sort_dir;
+  END IF;
+
+  IF _price_basis NOT IN ('total', 'per_serving') THEN
+    RAISE EXCEPTION 'Invalid price basis: %. Use total or per_serving', _price_basis;
+  END IF;
+
+  IF _diet IS NOT NULL AND _diet NOT IN ('vegetarian', 'vegan') THEN
+    RAISE EXCEPTION 'Invalid diet: %. Use vegetarian or vegan', _diet;
+  END IF;
+
+  IF _user_plz IS NULL OR _user_plz = '' THEN
+    RETURN;
+  END IF;
+
+  IF _search IS NOT NULL AND TRIM(_search) != '' THEN
+    _search_query := websearch_to_tsquery('german_unaccent', _search);
+    _search_folded := fold_search_text(TRIM(_search));
+  END IF;
+
+  SELECT pc.region_id INTO _region_id
+  FROM postal_codes pc
+  WHERE pc.plz = _user_plz
+  LIMIT 1;
+
+  IF _region_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH active_offers AS (
+    SELECT
+      o.ingredient_id,
+      o.price_per_unit,
+      o.unit_base,
+      o.active_offers_count
+    FROM current_best_offers o
+    WHERE o.region_id = _region_id
+      AND o.valid_from <= CURRENT_DATE
+      AND o.valid_to >= CURRENT_DATE
+      AND (_chain_id IS NULL OR o.chain_id = _chain_id)
+  ),
+  ingredient_offers AS (
+    SELECT DISTINCT ON (ao.ingredient_id)
+      ao.ingredient_id,
+      ao.price_per_unit AS min_price_per_unit,
+      ao.unit_base
+    FROM active_offers ao
+    ORDER BY ao.ingredient_id, ao.price_per_unit ASC
+  ),
+  dish_stats AS (
+    SELECT
+      di.dish_id,
+      COALESCE(SUM(
+        CASE WHEN i.price_baseline_per_unit > 0 AND io.min_price_per_unit < i.price_baseline_per_unit
+          THEN i.price_baseline_per_unit - io.min_price_per_unit
+        END
+      ), 0) AS savings,
+      COUNT(*) FILTER (
+        WHERE i.price_baseline_per_unit > 0 AND io.min_price_per_unit < i.price_baseline_per_unit
+      )::INTEGER AS ingredients_with_offers,
+      COUNT(*) FILTER (
+        WHERE io.ingredient_id IS NOT NULL
+          AND LOWER(TRIM(COALESCE(di.role, ''))) IN ('main', 'hauptzutat')
+      ) AS main_with_offers,
+      COUNT(*) FILTER (
+        WHERE io.ingredient_id IS NOT NULL
+          AND LOWER(TRIM(COALESCE(di.role, ''))) NOT IN ('main', 'hauptzutat')
+      ) AS secondary_with_offers
+    FROM dish_ingredients di
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    LEFT JOIN ingredient_offers io ON io.ingredient_id = di.ingredient_id
+    GROUP BY di.dish_id
+  ),
+  -- Pro-rata offer total as in calculate_dish_total_price: required
+  -- ingredients at their cheapest offer, otherwise at the baseline price
+  dish_totals AS (
+    SELECT
+      di.dish_id,
+      COALESCE(SUM(COALESCE(
+        convert_unit(di.qty, di.unit, io.unit_base, di.ingredient_id) * io.min_price_per_unit,
+        convert_unit(di.qty, di.unit, i.unit_default, di.ingredient_id) * i.price_baseline_per_unit,
+        0
+      )), 0) AS offer_total
+    FROM dish_ingredients di
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    LEFT JOIN ingredient_offers io ON io.ingredient_id = di.ingredient_id
+    WHERE COALESCE(di.optional, FALSE) = FALSE
+      AND di.qty IS NOT NULL
+      AND di.unit IS NOT NULL
+    GROUP BY di.dish_id
+  ),
+  offer_counts AS (
+    SELECT
+      di.dish_id,
+      SUM(ao.active_offers_count)::INTEGER AS offers_count
+    FROM dish_ingredients di
+    JOIN active_offers ao ON ao.ingredient_id = di.ingredient_id
+    GROUP BY di.dish_id
+  ),
+  visible AS (
+    SELECT
+      d.dish_id,
+      d.name,
+      d.category,
+      d.is_quick,
+      d.is_meal_prep,
+      d.season,
+      d.cuisine,
+      d.notes,
+      d.servings,
+      ROUND(ds.savings, 2)::DECIMAL(10, 2) AS savings,
+      ds.ingredients_with_offers,
+      COALESCE(oc.offers_count, 0) AS offers_count,
+      ROUND(COALESCE(dt.offer_total, 0), 2)::DECIMAL(10, 2) AS offer_total,
+      ROUND(COALESCE(dt.offer_total, 0) / d.servings, 2)::DECIMAL(10, 2) AS price_per_serving
+    FROM dishes d
+    JOIN dish_stats ds ON ds.dish_id = d.dish_id
+    LEFT JOIN offer_counts oc ON oc.dish_id = d.dish_id
+    LEFT JOIN dish_totals dt ON dt.dish_id = d.dish_id
+    LEFT JOIN dish_dietary_info ddi ON ddi.dish_id = d.dish_id
+    WHERE (_dish_ids IS NULL OR d.dish_id = ANY(_dish_ids))
+      AND (_category IS NULL OR d.category = _category)
+      AND (_is_quick IS NULL OR d.is_quick = _is_quick)
+      AND (_is_meal_prep IS NULL OR d.is_meal_prep = _is_meal_prep)
+      AND (
+        _search_folded IS NULL
+        OR d.search_vector @@ _search_query
+        -- Typo tolerance: word similarity of at least pg_trgm.word_similarity_threshold
+        -- (0.6 by default); the operator form can use the trigram index
+        OR _search_folded <% d.search_text
+      )
+      AND (
+        COALESCE(array_length(_exclude_allergens, 1), 0) = 0
+        OR NOT COALESCE(ddi.allergens && normalize_allergen_tags(_exclude_allergens), FALSE)
+      )
+      AND (_diet IS NULL OR (_diet = 'vegetarian' AND ddi.is_vegetarian) OR (_diet = 'vegan' AND ddi.is_vegan))
+      AND (ds.main_with_offers >= 1 OR ds.secondary_with_offers >= 2)
+  )
+  SELECT
+    v.dish_id,
+    v.name,
+    v.category,
+    v.is_quick,
+    v.is_meal_prep,
+    v.season,
+    v.cuisine,
+    v.notes,
+    v.servings,
+    v.savings,
+    v.ingredients_with_offers,
+    v.offers_count,
+    v.offer_total,
+    v.price_per_serving,
+    COUNT(*) OVER ()
+  FROM visible v
+  WHERE _max_price IS NULL
+    OR (_price_basis = 'total' AND v.offer_total <= _max_price)
+    OR (_price_basis = 'per_serving' AND v.price_per_serving <= _max_price)
+  ORDER BY
+    CASE WHEN _sort_by = 'savings' AND _sort_dir = 'asc' THEN v.savings END ASC,
+    CASE WHEN _sort_by = 'savings' AND _sort_dir = 'desc' THEN v.savings END DESC,
+    CASE WHEN _sort_by = 'price' AND _sort_dir = 'asc' THEN v.offer_total END ASC,
+    CASE WHEN _sort_by = 'price' AND _sort_dir = 'desc' THEN v.offer_total END DESC,
+    CASE WHEN _sort_by = 'offers' AND _sort_dir = 'asc' THEN v.offers_count END ASC,
+    CASE WHEN _sort_by = 'offers' AND _sort_dir = 'desc' THEN v.offers_count END DESC,
+    CASE WHEN _sort_by = 'name' AND _sort_dir = 'desc' THEN v.name END DESC,
+    v.name ASC,
+    v.dish_id ASC
+  LIMIT _limit
+  OFFSET COALESCE(_offset, 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_dishes_with_pricing TO anon, authenticated;
+
+COMMENT ON FUNCTION get_dishes_with_pricing(TEXT, TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT, TEXT, INTEGER, INTEGER, TEXT[], DECIMAL, TEXT, TEXT, TEXT[], TEXT) IS
+  'Visible dishes for a PLZ (optionally one chain or a list of dish IDs) with aggregated savings, offer counts '
+  'and pro-rata offer total, filtered (incl. max price, full-text search, allergens and diet), sorted (name, savings, price, '
+  'offers) and paginated in one query; total_count ignores the page';
+
+COMMENT ON FUNCTION normalize_allergen_tags(TEXT[]) IS
+  'Maps allergen tags and their aliases to lookups_allergens.allergen_tag; unknown tags are kept lower-cased';
+COMMENT ON VIEW dish_dietary_info IS
+  'Normalized allergens and derived vegetarian/vegan flags per dish';
@@ -0,0 +1,464 @@
+-- ============================================================================
+-- Season and Cuisine Filters, Facet Counts
+-- Adds season (spring/summer/autumn/winter) and cuisine filters to the dish
+-- listing and returns, for every filter option, how many visible dishes match
+-- it together with the other active filters.
+-- ============================================================================
+
+-- dishes.season is free text from the CSV import (e.g. 'Herbst/Winter',
+-- 'summer', 'ganzjährig'). Empty, all-year or unrecognized values count as
+-- every season so those dishes are never hidden by the season filter.
+CREATE OR REPLACE FUNCTION season_keys(_season TEXT)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN keys = '{}' THEN ARRAY['spring', 'summer', 'autumn', 'winter']
+    ELSE keys
+  END
+  FROM (
+    SELECT CASE
+      WHEN s IS NULL OR s ~ '(ganzj|all[ -]?year|year[ -]?round|immer)' THEN '{}'::TEXT[]
+      ELSE ARRAY_REMOVE(ARRAY[
+        CASE WHEN s ~ '(frühling|fruehling|frühjahr|fruehjahr|spring)' THEN 'spring' END,
+        CASE WHEN s ~ '(sommer|summer)' THEN 'summer' END,
+        CASE WHEN s ~ '(herbst|autumn|fall)' THEN 'autumn' END,
+        CASE WHEN s ~ 'winter' THEN 'winter' END
+      ], NULL)
+    END AS keys
+    FROM (SELECT NULLIF(LOWER(TRIM(_season)), '') AS s) normalized
+  ) parsed;
+$$;
+
+GRANT EXECUTE ON FUNCTION season_keys TO anon, authenticated;
+
+-- Adds _season and _cuisine; otherwise unchanged from 046
+DROP FUNCTION IF EXISTS get_dishes_with_pricing(TEXT, TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT, TEXT, INTEGER, INTEGER, TEXT[], DECIMAL, TEXT, TEXT, TEXT[], TEXT);
+
+CREATE OR REPLACE FUNCTION get_dishes_with_pricing(
+  _user_plz TEXT,
+  _chain_id TEXT DEFAULT NULL,
+  _category TEXT DEFAULT NULL,
+  _is_quick BOOLEAN DEFAULT NULL,
+  _is_meal_prep BOOLEAN DEFAULT NULL,
+  _sort_by TEXT DEFAULT 'name',
+  _sort_dir TEXT DEFAULT 'asc',
+  _limit INTEGER DEFAULT NULL,
+  _offset INTEGER DEFAULT 0,
+  _dish_ids TEXT[] DEFAULT NULL,
+  _max_price DECIMAL DEFAULT NULL,
+  _price_basis TEXT DEFAULT 'total',
+  _search TEXT DEFAULT NULL,
+  _exclude_allergens TEXT[] DEFAULT NULL,
+  _diet TEXT DEFAULT NULL,
+  _season TEXT DEFAULT NULL,
+  _cuisine TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  dish_id TEXT,
+  name TEXT,
+  category TEXT,
+  is_quick BOOLEAN,
+  is_meal_prep BOOLEAN,
+  season TEXT,
+  cuisine TEXT,
+  notes TEXT,
+  servings INTEGER,
+  total_aggregated_savings DECIMAL(10, 2),
+  ingredients_with_offers_count INTEGER,
+  available_offers_count INTEGER,
+  offer_total DECIMAL(10, 2),
+  price_per_serving DECIMAL(10, 2),
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  _region_id TEXT;
+  _search_query TSQUERY;
+  _search_folded TEXT;
+BEGIN
+  IF _sort_by NOT IN ('name', 'savings', 'price', 'offers') THEN
+    RAISE EXCEPTION 'Invalid sort key: %. Use name, savings, price or offers', _sort_by;
+  END IF;
+
+  IF _sort_dir NOT IN ('asc', 'desc') THEN
+    RAISE EXCEPTION 'Invalid sort direction: %. Use asc or desc', _sort_dir;
+  END IF;
+
+  IF _price_basis NOT IN ('total', 'per_serving') THEN
+    RAISE EXCEPTION 'Invalid price basis: %. Use total or per_serving', _price_basis;
+  END IF;
+
+  IF _diet IS NOT NULL AND _diet NOT IN ('vegetarian', 'vegan') THEN
+    RAISE EXCEPTION 'Invalid diet: %. Use vegetarian or vegan', _diet;
+  END IF;
+
+  IF _season IS NOT NULL AND _season NOT IN ('spring', 'summer', 'autumn', 'winter') THEN
+    RAISE EXCEPTION 'Invalid season: %. Use spring, summer, autumn or winter', _season;
+  END IF;
+
+  IF _user_plz IS NULL OR _user_plz = '' THEN
+    RETURN;
+  END IF;
+
+  IF _search IS NOT NULL AND TRIM(_search) != '' THEN
+    _search_query := websearch_to_tsquery('german_unaccent', _search);
+    _search_folded := fold_search_text(TRIM(_search));
+  END IF;
+
+  SELECT pc.region_id INTO _region_id
+  FROM postal_codes pc
+  WHERE pc.plz = _user_plz
+  LIMIT 1;
+
+  IF _region_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH active_offers AS (
+    SELECT
+      o.ingredient_id,
+      o.price_per_unit,
+      o.unit_base,
+      o.active_offers_count
+    FROM current_best_offers o
+    WHERE o.region_id = _region_id
+      AND o.valid_from <= CURRENT_DATE
+      AND o.valid_to >= CURRENT_DATE
+      AND (_chain_id IS NULL OR o.chain_id = _chain_id)
+  ),
+  ingredient_offers AS (
+    SELECT DISTINCT ON (ao.ingredient_id)
+      ao.ingredient_id,
+      ao.price_per_unit AS min_price_per_unit,
+      ao.unit_base
+    FROM active_offers ao
+    ORDER BY ao.ingredient_id, ao.price_per_unit ASC
+  ),
+  dish_stats AS (
+    SELECT
+      di.dish_id,
+      COALESCE(SUM(
+        CASE WHEN i.price_baseline_per_unit > 0 AND io.min_price_per_unit < i.price_baseline_per_unit
+          THEN i.price_baseline_per_unit - io.min_price_per_unit
+        END
+      ), 0) AS savings,
+      COUNT(*) FILTER (
+        WHERE i.price_baseline_per_unit > 0 AND io.min_price_per_unit < i.price_baseline_per_unit
+      )::INTEGER AS ingredients_with_offers,
+      COUNT(*) FILTER (
+        WHERE io.ingredient_id IS NOT NULL
+          AND LOWER(TRIM(COALESCE(di.role, ''))) IN ('main', 'hauptzutat')
+      ) AS main_with_offers,
+      COUNT(*) FILTER (
+        WHERE io.ingredient_id IS NOT NULL
+          AND LOWER(TRIM(COALESCE(di.role, ''))) NOT IN ('main', 'hauptzutat')
+      ) AS secondary_with_offers
+    FROM dish_ingredients di
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    LEFT JOIN ingredient_offers io ON io.ingredient_id = di.ingredient_id
+    GROUP BY di.dish_id
+  ),
+  -- Pro-rata offer total as in calculate_dish_total_price: required
+  -- ingredients at their cheapest offer, otherwise at the baseline price
+  dish_totals AS (
+    SELECT
+      di.dish_id,
+      COALESCE(SUM(COALESCE(
+        convert_unit(di.qty, di.unit, io.unit_base, di.ingredient_id) * io.min_price_per_unit,
+        convert_unit(di.qty, di.unit, i.unit_default, di.ingredient_id) * i.price_baseline_per_unit,
+        0
+      )), 0) AS offer_total
+    FROM dish_ingredients di
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    LEFT JOIN ingredient_offers io ON io.ingredient_id = di.ingredient_id
+    WHERE COALESCE(di.optional, FALSE) = FALSE
+      AND di.qty IS NOT NULL
+      AND di.unit IS NOT NULL
+    GROUP BY di.dish_id
+  ),
+  offer_counts AS (
+    SELECT
+      di.dish_id,
+      SUM(ao.active_offers_count)::INTEGER AS offers_count
+    FROM dish_ingredients di
+    JOIN active_offers ao ON ao.ingredient_id = di.ingredient_id
+    GROUP BY di.dish_id
+  ),
+  visible AS (
+    SELECT
+      d.dish_id,
+      d.name,
+      d.category,
+      d.is_quick,
+      d.is_meal_prep,
+      d.season,
+      d.cuisine,
+      d.notes,
+      d.servings,
+      ROUND(ds.savings, 2)::DECIMAL(10, 2) AS savings,
+      ds.ingredients_with_offers,
+      COALESCE(oc.offers_count, 0) AS offers_count,
+      ROUND(COALESCE(dt.offer_total, 0), 2)::DECIMAL(10, 2) AS offer_total,
+      ROUND(COALESCE(dt.offer_total, 0) / d.servings, 2)::DECIMAL(10, 2) AS price_per_serving
+    FROM dishes d
+    JOIN dish_stats ds ON ds.dish_id = d.dish_id
+    LEFT JOIN offer_counts oc ON oc.dish_id = d.dish_id
+    LEFT JOIN dish_totals dt ON dt.dish_id = d.dish_id
+    LEFT JOIN dish_dietary_info ddi ON ddi.dish_id = d.dish_id
+    WHERE (_dish_ids IS NULL OR d.dish_id = ANY(_dish_ids))
+      AND (_category IS NULL OR d.category = _category)
+      AND (_is_quick IS NULL OR d.is_quick = _is_quick)
+      AND (_is_meal_prep IS NULL OR d.is_meal_prep = _is_meal_prep)
+      AND (_season IS NULL OR _season = ANY(season_keys(d.season)))
+      AND (_cuisine IS NULL OR LOWER(TRIM(d.cuisine)) = LOWER(TRIM(_cuisine)))
+      AND (
+        _search_folded IS NULL
+        OR d.search_vector @@ _search_query
+        -- Typo tolerance: word similarity of at least pg_trgm.word_similarity_threshold
+        -- (0.6 by default); the operator form can use the trigram index
+        OR _search_folded <% d.search_text
+      )
+      AND (
+        COALESCE(array_length(_exclude_allergens, 1), 0) = 0
+        OR NOT COALESCE(ddi.allergens && normalize_allergen_tags(_exclude_allergens), FALSE)
+      )
+      AND (_diet IS NULL OR (_diet = 'vegetarian' AND ddi.is_vegetarian) OR (_diet = 'vegan' AND ddi.is_vegan))
+      AND (ds.main_with_offers >= 1 OR ds.secondary_with_offers >= 2)
+  )
+  SELECT
+    v.dish_id,
+    v.name,
+    v.category,
+    v.is_quick,
+    v.is_meal_prep,
+    v.season,
+    v.cuisine,
+    v.notes,
+    v.servings,
+    v.savings,
+    v.ingredients_with_offers,
+    v.offers_count,
+    v.offer_total,
+    v.price_per_serving,
+    COUNT(*) OVER ()
+  FROM visible v
+  WHERE _max_price IS NULL
+    OR (_price_basis = 'total' AND v.offer_total <= _max_price)
+    OR (_price_basis = 'per_serving' AND v.price_per_serving <= _max_price)
+  ORDER BY
+    CASE WHEN _sort_by = 'savings' AND _sort_dir = 'asc' THEN v.savings END ASC,
+    CASE WHEN _sort_by = 'savings' AND _sort_dir = 'desc' THEN v.savings END DESC,
+    CASE WHEN _sort_by = 'price' AND _sort_dir = 'asc' THEN v.offer_total END ASC,
+    CASE WHEN _sort_by = 'price' AND _sort_dir = 'desc' THEN v.offer_total END DESC,
+    CASE WHEN _sort_by = 'offers' AND _sort_dir = 'asc' THEN v.offers_count END ASC,
+    CASE WHEN _sort_by = 'offers' AND _sort_dir = 'desc' THEN v.offers_count END DESC,
+    CASE WHEN _sort_by = 'name' AND _sort_dir = 'desc' THEN v.name END DESC,
+    v.name ASC,
+    v.dish_id ASC
+  LIMIT _limit
+  OFFSET COALESCE(_offset, 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_dishes_with_pricing TO anon, authenticated;
+
+COMMENT ON FUNCTION get_dishes_with_pricing(TEXT, TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT, TEXT, INTEGER, INTEGER, TEXT[], DECIMAL, TEXT, TEXT, TEXT[], TEXT, TEXT, TEXT) IS
+  'Visible dishes for a PLZ (optionally one chain or a list of dish IDs) with aggregated savings, offer counts '
+  'and pro-rata offer total, filtered (incl. max price, full-text search, allergens, diet, season and cuisine), '
+  'sorted (name, savings, price, offers) and paginated in one query; total_count ignores the page';
+
+-- Counts per filter option. Each facet is counted with every other active
+-- filter applied but its own left open (a category's count is what the user
+-- would see after picking it). Quick/meal prep only report the TRUE option;
+-- allergens report how many dishes remain when that allergen is excluded too.
+CREATE OR REPLACE FUNCTION get_dish_facets(
+  _user_plz TEXT,
+  _chain_id TEXT DEFAULT NULL,
+  _category TEXT DEFAULT NULL,
+  _is_quick BOOLEAN DEFAULT NULL,
+  _is_meal_prep BOOLEAN DEFAULT NULL,
+  _dish_ids TEXT[] DEFAULT NULL,
+  _max_price DECIMAL DEFAULT NULL,
+  _price_basis TEXT DEFAULT 'total',
+  _search TEXT DEFAULT NULL,
+  _exclude_allergens TEXT[] DEFAULT NULL,
+  _diet TEXT DEFAULT NULL,
+  _season TEXT DEFAULT NULL,
+  _cuisine TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  facet TEXT,
+  value TEXT,
+  dish_count INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _region_id TEXT;
+BEGIN
+  IF _user_plz IS NULL OR _user_plz = '' THEN
+    RETURN;
+  END IF;
+
+  SELECT pc.region_id INTO _region_id
+  FROM postal_codes pc
+  WHERE pc.plz = _user_plz
+  LIMIT 1;
+
+  IF _region_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- List the dishes once with the facet filters (category, season, cuisine,
+  -- quick, meal prep, diet) left open; each facet applies the other ones to
+  -- that list. Only the chain facet needs a listing per chain, as the chain
+  -- changes which offers price the dishes.
+  RETURN QUERY
+  WITH listed AS MATERIALIZED (
+    SELECT
+      g.dish_id,
+      g.category,
+      g.season,
+      g.cuisine,
+      g.is_quick,
+      g.is_meal_prep,
+      ddi.is_vegetarian,
+      ddi.is_vegan,
+      ddi.allergens,
+      COALESCE(_category IS NULL OR g.category = _category, FALSE) AS matches_category,
+      COALESCE(_is_quick IS NULL OR g.is_quick = _is_quick, FALSE) AS matches_quick,
+      COALESCE(_is_meal_prep IS NULL OR g.is_meal_prep = _is_meal_prep, FALSE) AS matches_meal_prep,
+      COALESCE(_season IS NULL OR _season = ANY(season_keys(g.season)), FALSE) AS matches_season,
+      COALESCE(_cuisine IS NULL OR LOWER(TRIM(g.cuisine)) = LOWER(TRIM(_cuisine)), FALSE) AS matches_cuisine,
+      COALESCE(_diet IS NULL OR (_diet = 'vegetarian' AND ddi.is_vegetarian) OR (_diet = 'vegan' AND ddi.is_vegan), FALSE) AS matches_diet
+    FROM get_dishes_with_pricing(
+      _user_plz => _user_plz, _chain_id => _chain_id, _category => NULL,
+      _is_quick => NULL, _is_meal_prep => NULL, _dish_ids => _dish_ids,
+      _max_price => _max_price, _price_basis => _price_basis, _search => _search,
+      _exclude_allergens => _exclude_allergens, _diet => NULL, _season => NULL, _cuisine => NULL
+    ) g
+    LEFT JOIN dish_dietary_info ddi ON ddi.dish_id = g.dish_id
+  )
+  SELECT 'category'::TEXT, l.category, COUNT(*)::INTEGER
+  FROM listed l
+  WHERE l.matches_quick
+    AND l.matches_meal_prep
+    AND l.matches_season
+    AND l.matches_cuisine
+    AND l.matches_diet
+  GROUP BY l.category
+
+  UNION ALL
+
+  SELECT 'season'::TEXT, s.season_key, COUNT(*)::INTEGER
+  FROM listed l
+  CROSS JOIN LATERAL UNNEST(season_keys(l.season)) AS s(season_key)
+  WHERE l.matches_category
+    AND l.matches_quick
+    AND l.matches_meal_prep
+    AND l.matches_cuisine
+    AND l.matches_diet
+  GROUP BY s.season_key
+
+  UNION ALL
+
+  SELECT 'cuisine'::TEXT, MIN(TRIM(l.cuisine)), COUNT(*)::INTEGER
+  FROM listed l
+  WHERE l.matches_category
+    AND l.matches_quick
+    AND l.matches_meal_prep
+    AND l.matches_season
+    AND l.matches_diet
+    AND TRIM(COALESCE(l.cuisine, '')) <> ''
+  GROUP BY LOWER(TRIM(l.cuisine))
+
+  UNION ALL
+
+  SELECT 'quick'::TEXT, 'true'::TEXT, COUNT(*)::INTEGER
+  FROM listed l
+  WHERE l.is_quick
+    AND l.matches_category
+    AND l.matches_meal_prep
+    AND l.matches_season
+    AND l.matches_cuisine
+    AND l.matches_diet
+
+  UNION ALL
+
+  SELECT 'meal_prep'::TEXT, 'true'::TEXT, COUNT(*)::INTEGER
+  FROM listed l
+  WHERE l.is_meal_prep
+    AND l.matches_category
+    AND l.matches_quick
+    AND l.matches_season
+    AND l.matches_cuisine
+    AND l.matches_diet
+
+  UNION ALL
+
+  SELECT 'diet'::TEXT, diet.value, COUNT(*)::INTEGER
+  FROM listed l
+  CROSS JOIN LATERAL (
+    SELECT 'vegetarian'::TEXT AS value WHERE l.is_vegetarian
+    UNION ALL
+    SELECT 'vegan'::TEXT WHERE l.is_vegan
+  ) diet
+  WHERE l.matches_category
+    AND l.matches_quick
+    AND l.matches_meal_prep
+    AND l.matches_season
+    AND l.matches_cuisine
+  GROUP BY diet.value
+
+  UNION ALL
+
+  SELECT 'allergen'::TEXT, la.allergen_tag, COUNT(l.dish_id)::INTEGER
+  FROM lookups_allergens la
+  LEFT JOIN listed l ON NOT (la.allergen_tag = ANY(l.allergens))
+    AND l.matches_category
+    AND l.matches_quick
+    AND l.matches_meal_prep
+    AND l.matches_season
+    AND l.matches_cuisine
+    AND l.matches_diet
+  GROUP BY la.allergen_tag
+
+  UNION ALL
+
+  -- One listing per chain with offers in the region; value is the chain name
+  -- as used by the supermarket filter
+  SELECT 'chain'::TEXT, ch.chain_name, (
+    SELECT COUNT(*)::INTEGER
+    FROM get_dishes_with_pricing(
+      _user_plz => _user_plz, _chain_id => c.chain_id, _category => _category,
+      _is_quick => _is_quick, _is_meal_prep => _is_meal_prep, _dish_ids => _dish_ids,
+      _max_price => _max_price, _price_basis => _price_basis, _search => _search,
+      _exclude_allergens => _exclude_allergens, _diet => _diet, _season => _season, _cuisine => _cuisine
+    )
+  )
+  FROM (
+    SELECT DISTINCT cbo.chain_id
+    FROM current_best_offers cbo
+    WHERE cbo.region_id = _region_id
+      AND cbo.valid_from <= CURRENT_DATE
+      AND cbo.valid_to >= CURRENT_DATE
+  ) c
+  JOIN chains ch ON ch.chain_id = c.chain_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_dish_facets TO anon, authenticated;
+
+COMMENT ON FUNCTION season_keys(TEXT) IS
+  'Seasons (spring, summer, autumn, winter) of a free-text dishes.season value; empty, all-year or unknown = all four';
+COMMENT ON FUNCTION get_dish_facets(TEXT, TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT[], DECIMAL, TEXT, TEXT, TEXT[], TEXT, TEXT, TEXT) IS
+  'Visible dish counts per filter option (category, season, cuisine, quick, meal_prep, diet, allergen, chain), '
+  'each with all other active filters applied';
@@ -0,0 +1,524 @@
+-- ============================================================================
+-- Configurable Dish Visibility Rules
+-- Replaces the hard-coded "at least 1 main or 2 side ingredients on offer"
+-- rule with thresholds admins can change from the dashboard (plus a minimum
+-- savings percent), normalizes dish_ingredients.role to an enum and makes
+-- should_display_dish STABLE so it follows offer and rule changes.
+-- ============================================================================
+
+DO $$
+BEGIN
+  CREATE TYPE ingredient_role AS ENUM ('main', 'side');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Existing values: 'main'/'Hauptzutat' become main, everything else
+-- ('side', 'Nebenzutat', empty, NULL) becomes side
+ALTER TABLE dish_ingredients
+  ALTER COLUMN role TYPE ingredient_role
+  USING (
+    CASE WHEN LOWER(TRIM(COALESCE(role::TEXT, ''))) IN ('main', 'hauptzutat') THEN 'main' ELSE 'side' END
+  )::ingredient_role;
+
+ALTER TABLE dish_ingredients
+  ALTER COLUMN role SET DEFAULT 'side',
+  ALTER COLUMN role SET NOT NULL;
+
+-- Single-row settings table (id is always TRUE)
+CREATE TABLE IF NOT EXISTS dish_visibility_rules (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  min_main_offers INTEGER NOT NULL DEFAULT 1 CHECK (min_main_offers >= 0),
+  min_side_offers INTEGER NOT NULL DEFAULT 2 CHECK (min_side_offers >= 0),
+  min_savings_percent DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (min_savings_percent BETWEEN 0 AND 100),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL
+);
+
+INSERT INTO dish_visibility_rules (id) VALUES (TRUE)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE dish_visibility_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Dish visibility rules are publicly readable" ON dish_visibility_rules;
+CREATE POLICY "Dish visibility rules are publicly readable"
+  ON dish_visibility_rules
+  FOR SELECT
+  TO public
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can update dish visibility rules" ON dish_visibility_rules;
+CREATE POLICY "Admins can update dish visibility rules"
+  ON dish_visibility_rules
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles
+      WHERE user_roles.user_id = auth.uid()
+      AND user_roles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_roles
+      WHERE user_roles.user_id = auth.uid()
+      AND user_roles.role = 'admin'
+    )
+  );
+
+-- A dish is shown if enough main OR side ingredients are on offer, and it
+-- saves at least min_savings_percent. Falls back to the old defaults if the
+-- settings row is missing.
+CREATE OR REPLACE FUNCTION dish_passes_visibility_rules(
+  _main_with_offers INTEGER,
+  _side_with_offers INTEGER,
+  _savings_percent DECIMAL
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT (_main_with_offers >= r.min_main_offers OR _side_with_offers >= r.min_side_offers)
+        AND COALESCE(_savings_percent, 0) >= r.min_savings_percent
+      FROM dish_visibility_rules r
+      LIMIT 1
+    ),
+    _main_with_offers >= 1 OR _side_with_offers >= 2
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION dish_passes_visibility_rules TO anon, authenticated;
+
+-- Was IMMUTABLE although it reads offers and CURRENT_DATE, so results could
+-- be cached across offer changes. Now STABLE, reads the current offer
+-- snapshot and applies the configured rules.
+CREATE OR REPLACE FUNCTION should_display_dish(
+  _dish_id TEXT,
+  _region_id TEXT,
+  _chain_id TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _main_with_offers INTEGER;
+  _side_with_offers INTEGER;
+  _baseline_total DECIMAL;
+  _offer_total DECIMAL;
+BEGIN
+  IF _region_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  WITH ingredient_offers AS (
+    SELECT DISTINCT ON (o.ingredient_id)
+      o.ingredient_id,
+      o.price_per_unit,
+      o.unit_base
+    FROM current_best_offers o
+    WHERE o.region_id = _region_id
+      AND o.valid_from <= CURRENT_DATE
+      AND o.valid_to >= CURRENT_DATE
+      AND (_chain_id IS NULL OR o.chain_id = _chain_id)
+    ORDER BY o.ingredient_id, o.price_per_unit ASC
+  )
+  SELECT
+    COUNT(DISTINCT di.ingredient_id) FILTER (WHERE io.ingredient_id IS NOT NULL AND di.role = 'main')::INTEGER,
+    COUNT(DISTINCT di.ingredient_id) FILTER (WHERE io.ingredient_id IS NOT NULL AND di.role = 'side')::INTEGER,
+    COALESCE(SUM(COALESCE(
+      convert_unit(di.qty, di.unit, i.unit_default, di.ingredient_id) * i.price_baseline_per_unit,
+      convert_unit(di.qty, di.unit, io.unit_base, di.ingredient_id) * io.price_per_unit,
+      0
+    )) FILTER (WHERE COALESCE(di.optional, FALSE) = FALSE), 0),
+    COALESCE(SUM(COALESCE(
+      convert_unit(di.qty, di.unit, io.unit_base, di.ingredient_id) * io.price_per_unit,
+      convert_unit(di.qty, di.unit, i.unit_default, di.ingredient_id) * i.price_baseline_per_unit,
+      0
+    )) FILTER (WHERE COALESCE(di.optional, FALSE) = FALSE), 0)
+  INTO _main_with_offers, _side_with_offers, _baseline_total, _offer_total
+  FROM dish_ingredients di
+  JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+  LEFT JOIN ingredient_offers io ON io.ingredient_id = di.ingredient_id
+  WHERE di.dish_id = _dish_id;
+
+  RETURN dish_passes_visibility_rules(
+    _main_with_offers,
+    _side_with_offers,
+    CASE WHEN _baseline_total > 0
+      THEN GREATEST(_baseline_total - _offer_total, 0) / _baseline_total * 100
+      ELSE 0
+    END
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION should_display_dish TO anon, authenticated;
+
+-- Role comparisons use the enum; visibility uses dish_passes_visibility_rules
+-- and needs the baseline total for the savings percent. Otherwise unchanged from 047.
+CREATE OR REPLACE FUNCTION get_dishes_with_pricing(
+  _user_plz TEXT,
+  _chain_id TEXT DEFAULT NULL,
+  _category TEXT DEFAULT NULL,
+  _is_quick BOOLEAN DEFAULT NULL,
+  _is_meal_prep BOOLEAN DEFAULT NULL,
+  _sort_by TEXT DEFAULT 'name',
+  _sort_dir TEXT DEFAULT 'asc',
+  _limit INTEGER DEFAULT NULL,
+  _offset INTEGER DEFAULT 0,
+  _dish_ids TEXT[] DEFAULT NULL,
+  _max_price DECIMAL DEFAULT NULL,
+  _price_basis TEXT DEFAULT 'total',
+  _search TEXT DEFAULT NULL,
+  _exclude_allergens TEXT[] DEFAULT NULL,
+  _diet TEXT DEFAULT NULL,
+  _season TEXT DEFAULT NULL,
+  _cuisine TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  dish_id TEXT,
+  name TEXT,
+  category TEXT,
+  is_quick BOOLEAN,
+  is_meal_prep BOOLEAN,
+  season TEXT,
+  cuisine TEXT,
+  notes TEXT,
+  servings INTEGER,
+  total_aggregated_savings DECIMAL(10, 2),
+  ingredients_with_offers_count INTEGER,
+  available_offers_count INTEGER,
+  offer_total DECIMAL(10, 2),
+  price_per_serving DECIMAL(10, 2),
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  _region_id TEXT;
+  _search_query TSQUERY;
+  _search_folded TEXT;
+BEGIN
+  IF _sort_by NOT IN ('name', 'savings', 'price', 'offers') THEN
+    RAISE EXCEPTION 'Invalid sort key: %. Use name, savings, price or offers', _sort_by;
+  END IF;
+
+  IF _sort_dir NOT IN ('asc', 'desc') THEN
+    RAISE EXCEPTION 'Invalid sort direction: %. Use asc or desc', _sort_dir;
+  END IF;
+
+  IF _price_basis NOT IN ('total', 'per_serving') THEN
+    RAISE EXCEPTION 'Invalid price basis: %. Use total or per_serving', _price_basis;
+  END IF;
+
+  IF _diet IS NOT NULL AND _diet NOT IN ('vegetarian', 'vegan') THEN
+    RAISE EXCEPTION 'Invalid diet: %. Use vegetarian or vegan', _diet;
+  END IF;
+
+  IF _season IS NOT NULL AND _season NOT IN ('spring', 'summer', 'autumn', 'winter') THEN
+    RAISE EXCEPTION 'Invalid season: %. Use spring, summer, autumn or winter', _season;
+  END IF;
+
+  IF _user_plz IS NULL OR _user_plz = '' THEN
+    RETURN;
+  END IF;
+
+  IF _search IS NOT NULL AND TRIM(_search) != '' THEN
+    _search_query := websearch_to_tsquery('german_unaccent', _search);
+    _search_folded := fold_search_text(TRIM(_search));
+  END IF;
+
+  SELECT pc.region_id INTO _region_id
+  FROM postal_codes pc
+  WHERE pc.plz = _user_plz
+  LIMIT 1;
+
+  IF _region_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH active_offers AS (
+    SELECT
+      o.ingredient_id,
+      o.price_per_unit,
+      o.unit_base,
+      o.active_offers_count
+    FROM current_best_offers o
+    WHERE o.region_id = _region_id
+      AND o.valid_from <= CURRENT_DATE
+      AND o.valid_to >= CURRENT_DATE
+      AND (_chain_id IS NULL OR o.chain_id = _chain_id)
+  ),
+  ingredient_offers AS (
+    SELECT DISTINCT ON (ao.ingredient_id)
+      ao.ingredient_id,
+      ao.price_per_unit AS min_price_per_unit,
+      ao.unit_base
+    FROM active_offers ao
+    ORDER BY ao.ingredient_id, ao.price_per_unit ASC
+  ),
+  dish_stats AS (
+    SELECT
+      di.dish_id,
+      COALESCE(SUM(
+        CASE WHEN i.price_baseline_per_unit > 0 AND io.min_price_per_unit < i.price_baseline_per_unit
+          THEN i.price_baseline_per_unit - io.min_price_per_unit
+        END
+      ), 0) AS savings,
+      COUNT(*) FILTER (
+        WHERE i.price_baseline_per_unit > 0 AND io.min_price_per_unit < i.price_baseline_per_unit
+      )::INTEGER AS ingredients_with_offers,
+      COUNT(*) FILTER (
+        WHERE io.ingredient_id IS NOT NULL
+          AND di.role = 'main'
+      ) AS main_with_offers,
+      COUNT(*) FILTER (
+        WHERE io.ingredient_id IS NOT NULL
+          AND di.role = 'side'
+      ) AS secondary_with_offers
+    FROM dish_ingredients di
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    LEFT JOIN ingredient_offers io ON io.ingredient_id = di.ingredient_id
+    GROUP BY di.dish_id
+  ),
+  -- Pro-rata totals as in calculate_dish_total_price: required ingredients
+  -- at their cheapest offer (otherwise at the baseline price) and at the
+  -- baseline price (otherwise at the offer)
+  dish_totals AS (
+    SELECT
+      di.dish_id,
+      COALESCE(SUM(COALESCE(
+        convert_unit(di.qty, di.unit, io.unit_base, di.ingredient_id) * io.min_price_per_unit,
+        convert_unit(di.qty, di.unit, i.unit_default, di.ingredient_id) * i.price_baseline_per_unit,
+        0
+      )), 0) AS offer_total,
+      COALESCE(SUM(COALESCE(
+        convert_unit(di.qty, di.unit, i.unit_default, di.ingredient_id) * i.price_baseline_per_unit,
+        convert_unit(di.qty, di.unit, io.unit_base, di.ingredient_id) * io.min_price_per_unit,
+        0
+      )), 0) AS baseline_total
+    FROM dish_ingredients di
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    LEFT JOIN ingredient_offers io ON io.ingredient_id = di.ingredient_id
+    WHERE COALESCE(di.optional, FALSE) = FALSE
+      AND di.qty IS NOT NULL
+      AND di.unit IS NOT NULL
+    GROUP BY di.dish_id
+  ),
+  offer_counts AS (
+    SELECT
+      di.dish_id,
+      SUM(ao.active_offers_count)::INTEGER AS offers_count
+    FROM dish_ingredients di
+    JOIN active_offers ao ON ao.ingredient_id = di.ingredient_id
+    GROUP BY di.dish_id
+  ),
+  visible AS (
+    SELECT
+      d.dish_id,
+      d.name,
+      d.category,
+      d.is_quick,
+      d.is_meal_prep,
+      d.season,
+      d.cuisine,
+      d.notes,
+      d.servings,
+      ROUND(ds.savings, 2)::DECIMAL(10, 2) AS savings,
+      ds.ingredients_with_offers,
+      COALESCE(oc.offers_count, 0) AS offers_count,
+      ROUND(COALESCE(dt.offer_total, 0), 2)::DECIMAL(10, 2) AS offer_total,
+      ROUND(COALESCE(dt.offer_total, 0) / d.servings, 2)::DECIMAL(10, 2) AS price_per_serving
+    FROM dishes d
+    JOIN dish_stats ds ON ds.dish_id = d.dish_id
+    LEFT JOIN offer_counts oc ON oc.dish_id = d.dish_id
+    LEFT JOIN dish_totals dt ON dt.dish_id = d.dish_id
+    LEFT JOIN dish_dietary_info ddi ON ddi.dish_id = d.dish_id
+    WHERE (_dish_ids IS NULL OR d.dish_id = ANY(_dish_ids))
+      AND (_category IS NULL OR d.category = _category)
+      AND (_is_quick IS NULL OR d.is_quick = _is_quick)
+      AND (_is_meal_prep IS NULL OR d.is_meal_prep = _is_meal_prep)
+      AND (_season IS NULL OR _season = ANY(season_keys(d.season)))
+      AND (_cuisine IS NULL OR LOWER(TRIM(d.cuisine)) = LOWER(TRIM(_cuisine)))
+      AND (
+        _search_folded IS NULL
+        OR d.search_vector @@ _search_query
+        -- Typo tolerance: word similarity of at least pg_trgm.word_similarity_threshold
+        -- (0.6 by default); the operator form can use the trigram index
+        OR _search_folded <% d.search_text
+      )
+      AND (
+        COALESCE(array_length(_exclude_allergens, 1), 0) = 0
+        OR NOT COALESCE(ddi.allergens && normalize_allergen_tags(_exclude_allergens), FALSE)
+      )
+      AND (_diet IS NULL OR (_diet = 'vegetarian' AND ddi.is_vegetarian) OR (_diet = 'vegan' AND ddi.is_vegan))
+      AND dish_passes_visibility_rules(
+        ds.main_with_offers::INTEGER,
+        ds.secondary_with_offers::INTEGER,
+        CASE WHEN dt.baseline_total > 0
+          THEN GREATEST(dt.baseline_total - dt.offer_total, 0) / dt.baseline_total * 100
+          ELSE 0
+        END
+      )
+  )
+  SELECT
+    v.dish_id,
+    v.name,
+    v.category,
+    v.is_quick,
+    v.is_meal_prep,
+    v.season,
+    v.cuisine,
+    v.notes,
+    v.servings,
+    v.savings,
+    v.ingredients_with_offers,
+    v.offers_count,
+    v.offer_total,
+    v.price_per_serving,
+    COUNT(*) OVER ()
+  FROM visible v
+  WHERE _max_price IS NULL
+    OR (_price_basis = 'total' AND v.offer_total <= _max_price)
+    OR (_price_basis = 'per_serving' AND v.price_per_serving <= _max_price)
+  ORDER BY
+    CASE WHEN _sort_by = 'savings' AND _sort_dir = 'asc' THEN v.savings END ASC,
+    CASE WHEN _sort_by = 'savings' AND _sort_dir = 'desc' THEN v.savings END DESC,
+    CASE WHEN _sort_by = 'price' AND _sort_dir = 'asc' THEN v.offer_total END ASC,
+    CASE WHEN _sort_by = 'price' AND _sort_dir = 'desc' THEN v.offer_total END DESC,
+    CASE WHEN _sort_by = 'offers' AND _sort_dir = 'asc' THEN v.offers_count END ASC,
+    CASE WHEN _sort_by = 'offers' AND _sort_dir = 'desc' THEN v.offers_count END DESC,
+    CASE WHEN _sort_by = 'name' AND _sort_dir = 'desc' THEN v.name END DESC,
+    v.name ASC,
+    v.dish_id ASC
+  LIMIT _limit
+  OFFSET COALESCE(_offset, 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_dishes_with_pricing TO anon, authenticated;
+
+COMMENT ON FUNCTION get_dishes_with_pricing(TEXT, TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT, TEXT, INTEGER, INTEGER, TEXT[], DECIMAL, TEXT, TEXT, TEXT[], TEXT, TEXT, TEXT) IS
+  'Visible dishes for a PLZ (optionally one chain or a list of dish IDs) with aggregated savings, offer counts '
+  'and pro-rata offer total, filtered (incl. max price, full-text search, allergens, diet, season and cuisine), '
+  'sorted (name, savings, price, offers) and paginated in one query; total_count ignores the page';
+
+-- Role comparison uses the enum; otherwise unchanged from 045
+CREATE OR REPLACE FUNCTION find_dishes_by_ingredients(
+  _ingredient_ids TEXT[] DEFAULT NULL,
+  _user_plz TEXT DEFAULT NULL,
+  _chain_id TEXT DEFAULT NULL,
+  _include_offers BOOLEAN DEFAULT FALSE,
+  _limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  dish_id TEXT,
+  name TEXT,
+  category TEXT,
+  is_quick BOOLEAN,
+  is_meal_prep BOOLEAN,
+  main_total INTEGER,
+  main_covered INTEGER,
+  secondary_total INTEGER,
+  secondary_covered INTEGER,
+  covered_ingredients TEXT[],
+  missing_main TEXT[],
+  missing_secondary TEXT[]
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _region_id TEXT;
+BEGIN
+  IF _include_offers AND _user_plz IS NOT NULL AND _user_plz <> '' THEN
+    SELECT pc.region_id INTO _region_id
+    FROM postal_codes pc
+    WHERE pc.plz = _user_plz
+    LIMIT 1;
+  END IF;
+
+  IF COALESCE(array_length(_ingredient_ids, 1), 0) = 0 AND _region_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH available AS (
+    SELECT UNNEST(COALESCE(_ingredient_ids, ARRAY[]::TEXT[])) AS ingredient_id
+    UNION
+    SELECT cbo.ingredient_id
+    FROM current_best_offers cbo
+    WHERE _region_id IS NOT NULL
+      AND cbo.region_id = _region_id
+      AND cbo.valid_from <= CURRENT_DATE
+      AND cbo.valid_to >= CURRENT_DATE
+      AND (_chain_id IS NULL OR cbo.chain_id = _chain_id)
+  ),
+  dish_lines AS (
+    SELECT
+      di.dish_id,
+      i.name_canonical,
+      di.role = 'main' AS is_main,
+      EXISTS (SELECT 1 FROM available a WHERE a.ingredient_id = di.ingredient_id) AS is_covered
+    FROM dish_ingredients di
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    WHERE COALESCE(di.optional, FALSE) = FALSE
+  ),
+  dish_coverage AS (
+    SELECT
+      dl.dish_id,
+      COUNT(*) FILTER (WHERE dl.is_main)::INTEGER AS main_total,
+      COUNT(*) FILTER (WHERE dl.is_main AND dl.is_covered)::INTEGER AS main_covered,
+      COUNT(*) FILTER (WHERE NOT dl.is_main)::INTEGER AS secondary_total,
+      COUNT(*) FILTER (WHERE NOT dl.is_main AND dl.is_covered)::INTEGER AS secondary_covered,
+      COALESCE(ARRAY_AGG(dl.name_canonical ORDER BY dl.name_canonical)
+        FILTER (WHERE dl.is_covered), ARRAY[]::TEXT[]) AS covered_ingredients,
+      COALESCE(ARRAY_AGG(dl.name_canonical ORDER BY dl.name_canonical)
+        FILTER (WHERE dl.is_main AND NOT dl.is_covered), ARRAY[]::TEXT[]) AS missing_main,
+      COALESCE(ARRAY_AGG(dl.name_canonical ORDER BY dl.name_canonical)
+        FILTER (WHERE NOT dl.is_main AND NOT dl.is_covered), ARRAY[]::TEXT[]) AS missing_secondary
+    FROM dish_lines dl
+    GROUP BY dl.dish_id
+  )
+  SELECT
+    d.dish_id,
+    d.name,
+    d.category,
+    d.is_quick,
+    d.is_meal_prep,
+    dc.main_total,
+    dc.main_covered,
+    dc.secondary_total,
+    dc.secondary_covered,
+    dc.covered_ingredients,
+    dc.missing_main,
+    dc.missing_secondary
+  FROM dish_coverage dc
+  JOIN dishes d ON d.dish_id = dc.dish_id
+  WHERE dc.main_covered + dc.secondary_covered > 0
+  ORDER BY
+    dc.main_covered DESC,
+    CASE WHEN dc.main_total > 0 THEN dc.main_covered::DECIMAL / dc.main_total ELSE 0 END DESC,
+    dc.secondary_covered DESC,
+    dc.main_total + dc.secondary_total - dc.main_covered - dc.secondary_covered ASC,
+    d.name ASC,
+    d.dish_id ASC
+  LIMIT _limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION find_dishes_by_ingredients TO anon, authenticated;
+
+COMMENT ON FUNCTION dish_passes_visibility_rules(INTEGER, INTEGER, DECIMAL) IS
+  'Applies dish_visibility_rules: enough main or side ingredients on offer, and at least the minimum savings percent';
+COMMENT ON FUNCTION should_display_dish(TEXT, TEXT, TEXT) IS
+  'Whether a dish is shown in a region (optionally one chain) under the current offers and dish_visibility_rules';
@@ -0,0 +1,904 @@
+-- ============================================================================
+-- Offer As-Of Date
+-- Supermarkets publish next week's flyers days ahead. Pricing functions take
+-- an optional _as_of date and price dishes with the offers valid on that day
+-- instead of today's snapshot, so users can plan ahead. They read offers
+-- through best_offers_for_plz(), which looks up each chain's region for the
+-- PLZ in resolve_plz_regions().
+-- ============================================================================
+
+-- Cheapest offer per (region, chain, ingredient) valid on _as_of, chosen as in
+-- refresh_current_best_offers(). NULL or today reads the current_best_offers
+-- snapshot (skipping offers that ended since it was rebuilt); any other date
+-- is computed from the offers table.
+CREATE OR REPLACE FUNCTION best_offers_as_of(
+  _as_of DATE DEFAULT NULL,
+  _region_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  region_id TEXT,
+  chain_id TEXT,
+  ingredient_id TEXT,
+  offer_id INTEGER,
+  price_total DECIMAL(10, 2),
+  pack_size DECIMAL(10, 3),
+  unit_base TEXT,
+  price_per_unit DECIMAL(12, 6),
+  valid_from DATE,
+  valid_to DATE,
+  source TEXT,
+  source_ref_id TEXT,
+  active_offers_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    cbo.region_id,
+    cbo.chain_id,
+    cbo.ingredient_id,
+    cbo.offer_id,
+    cbo.price_total,
+    cbo.pack_size,
+    cbo.unit_base,
+    cbo.price_per_unit,
+    cbo.valid_from,
+    cbo.valid_to,
+    cbo.source,
+    cbo.source_ref_id,
+    cbo.active_offers_count
+  FROM current_best_offers cbo
+  WHERE (_as_of IS NULL OR _as_of = CURRENT_DATE)
+    AND (_region_id IS NULL OR cbo.region_id = _region_id)
+    AND cbo.valid_from <= CURRENT_DATE
+    AND cbo.valid_to >= CURRENT_DATE
+  UNION ALL
+  (
+    SELECT DISTINCT ON (o.region_id, o.chain_id, o.ingredient_id)
+      o.region_id,
+      o.chain_id,
+      o.ingredient_id,
+      o.offer_id,
+      o.price_total,
+      o.pack_size,
+      o.unit_base,
+      (o.price_total / o.pack_size)::DECIMAL(12, 6),
+      o.valid_from,
+      o.valid_to,
+      o.source,
+      o.source_ref_id,
+      COUNT(*) OVER (PARTITION BY o.region_id, o.chain_id, o.ingredient_id)::INTEGER
+    FROM offers o
+    WHERE _as_of IS NOT NULL
+      AND _as_of <> CURRENT_DATE
+      AND (_region_id IS NULL OR o.region_id = _region_id)
+      AND o.valid_from <= _as_of
+      AND o.valid_to >= _as_of
+      AND o.pack_size > 0
+    ORDER BY o.region_id, o.chain_id, o.ingredient_id, o.price_total / o.pack_size ASC, o.offer_id ASC
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION best_offers_as_of TO anon, authenticated;
+
+-- Ad region per chain for a PLZ: the PLZ's region from postal_codes for every
+-- chain
+CREATE OR REPLACE FUNCTION resolve_plz_regions(_user_plz TEXT)
+RETURNS TABLE (
+  chain_id TEXT,
+  region_id TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT ch.chain_id, pc.region_id
+  FROM postal_codes pc
+  CROSS JOIN chains ch
+  WHERE pc.plz = _user_plz;
+$$;
+
+GRANT EXECUTE ON FUNCTION resolve_plz_regions TO anon, authenticated;
+
+-- Cheapest offer per chain and ingredient for a PLZ, each chain in its own
+-- region (see resolve_plz_regions); otherwise like best_offers_as_of
+CREATE OR REPLACE FUNCTION best_offers_for_plz(
+  _as_of DATE DEFAULT NULL,
+  _user_plz TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  region_id TEXT,
+  chain_id TEXT,
+  ingredient_id TEXT,
+  offer_id INTEGER,
+  price_total DECIMAL(10, 2),
+  pack_size DECIMAL(10, 3),
+  unit_base TEXT,
+  price_per_unit DECIMAL(12, 6),
+  valid_from DATE,
+  valid_to DATE,
+  source TEXT,
+  source_ref_id TEXT,
+  active_offers_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT o.*
+  FROM resolve_plz_regions(_user_plz) r
+  CROSS JOIN LATERAL best_offers_as_of(_as_of, r.region_id) o
+  WHERE o.chain_id = r.chain_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION best_offers_for_plz TO anon, authenticated;
+
+-- ============================================================================
+-- PRICING FUNCTIONS TAKE AN OPTIONAL _as_of DATE
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS calculate_dish_aggregated_savings(TEXT, TEXT, TEXT);
+
+-- Offers valid on _as_of (default today) from best_offers_for_plz();
+-- otherwise unchanged from 041
+CREATE OR REPLACE FUNCTION calculate_dish_aggregated_savings(
+  _dish_id TEXT,
+  _user_plz TEXT DEFAULT NULL,
+  _chain_id TEXT DEFAULT NULL,
+  _as_of DATE DEFAULT NULL
+)
+RETURNS TABLE (
+  dish_id TEXT,
+  total_aggregated_savings DECIMAL(10, 2),
+  ingredients_with_offers_count INTEGER,
+  available_offers_count INTEGER
+) AS $$
+DECLARE
+  _region_id TEXT;
+  _total_savings DECIMAL(10, 2) := 0;
+  _ingredients_with_offers INTEGER := 0;
+  _offers_count INTEGER := 0;
+  _ingredient_savings RECORD;
+BEGIN
+  -- Get region_id from PLZ if provided
+  IF _user_plz IS NOT NULL AND _user_plz != '' THEN
+    SELECT region_id INTO _region_id
+    FROM postal_codes
+    WHERE plz = _user_plz
+    LIMIT 1;
+  END IF;
+
+  -- If no region provided, return zeros
+  IF _region_id IS NULL THEN
+    RETURN QUERY SELECT
+      _dish_id,
+      0::DECIMAL(10, 2),
+      0,
+      0;
+    RETURN;
+  END IF;
+
+  -- Calculate per-unit savings for each ingredient and aggregate
+  -- Includes both main and side ingredients (no optional filter)
+  FOR _ingredient_savings IN
+    SELECT 
+      di.ingredient_id,
+      COALESCE(i.price_baseline_per_unit, 0) as baseline_price,
+      COALESCE(MIN(o.price_per_unit), i.price_baseline_per_unit) as offer_price
+    FROM dish_ingredients di
+    JOIN ingredients i ON di.ingredient_id = i.ingredient_id
+    LEFT JOIN best_offers_for_plz(_as_of, _user_plz) o ON
+      o.ingredient_id = di.ingredient_id
+      AND (_chain_id IS NULL OR o.chain_id = _chain_id)
+    WHERE di.dish_id = _dish_id
+      AND i.price_baseline_per_unit IS NOT NULL
+      AND i.price_baseline_per_unit > 0
+    GROUP BY di.ingredient_id, i.price_baseline_per_unit
+  LOOP
+    -- Calculate savings per unit
+    IF _ingredient_savings.baseline_price > 0 AND _ingredient_savings.offer_price < _ingredient_savings.baseline_price THEN
+      _total_savings := _total_savings + (_ingredient_savings.baseline_price - _ingredient_savings.offer_price);
+      _ingredients_with_offers := _ingredients_with_offers + 1;
+    END IF;
+  END LOOP;
+
+  -- Count total available offers for this dish (optionally filtered by chain_id)
+  SELECT COALESCE(SUM(o.active_offers_count), 0) INTO _offers_count
+  FROM dish_ingredients di
+  JOIN best_offers_for_plz(_as_of, _user_plz) o ON o.ingredient_id = di.ingredient_id
+  WHERE di.dish_id = _dish_id
+    AND (_chain_id IS NULL OR o.chain_id = _chain_id);
+
+  -- Return results
+  RETURN QUERY SELECT
+    _dish_id,
+    ROUND(COALESCE(_total_savings, 0), 2)::DECIMAL(10, 2),
+    COALESCE(_ingredients_with_offers, 0),
+    COALESCE(_offers_count, 0);
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION calculate_dish_aggregated_savings TO anon, authenticated;
+
+DROP FUNCTION IF EXISTS calculate_dish_total_price(TEXT, TEXT, TEXT, TEXT);
+
+-- Offers valid on _as_of (default today) from best_offers_for_plz();
+-- otherwise unchanged from 041
+CREATE OR REPLACE FUNCTION calculate_dish_total_price(
+  _dish_id TEXT,
+  _user_plz TEXT DEFAULT NULL,
+  _chain_id TEXT DEFAULT NULL,
+  _pricing_mode TEXT DEFAULT 'pro_rata',
+  _as_of DATE DEFAULT NULL
+)
+RETURNS TABLE (
+  dish_id TEXT,
+  servings INTEGER,
+  baseline_total DECIMAL(10, 2),
+  offer_total DECIMAL(10, 2),
+  price_per_serving DECIMAL(10, 2),
+  savings_abs DECIMAL(10, 2),
+  savings_percent DECIMAL(5, 2),
+  ingredients_with_offers_count INTEGER,
+  unconvertible_ingredients TEXT[],
+  leftover_total DECIMAL(10, 2)
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF _pricing_mode NOT IN ('pro_rata', 'whole_packs') THEN
+    RAISE EXCEPTION 'Invalid pricing mode: %', _pricing_mode;
+  END IF;
+
+  RETURN QUERY
+  WITH ingredient_lines AS (
+    SELECT
+      di.ingredient_id,
+      convert_unit(di.qty, di.unit, i.unit_default, di.ingredient_id) * i.price_baseline_per_unit AS line_baseline,
+      best_offer.price_per_unit IS NOT NULL AS has_offer,
+      best_offer.price_per_unit,
+      best_offer.price_total,
+      best_offer.pack_size,
+      convert_unit(di.qty, di.unit, best_offer.unit_base, di.ingredient_id) AS offer_qty,
+      convert_unit(di.qty, di.unit, i.unit_default, di.ingredient_id) IS NULL
+        OR (best_offer.price_per_unit IS NOT NULL AND convert_unit(di.qty, di.unit, best_offer.unit_base, di.ingredient_id) IS NULL)
+        AS is_unconvertible
+    FROM dish_ingredients di
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    LEFT JOIN LATERAL (
+      SELECT
+        o.price_per_unit,
+        o.price_total,
+        o.pack_size,
+        o.unit_base
+      FROM best_offers_for_plz(_as_of, _user_plz) o
+      WHERE o.ingredient_id = di.ingredient_id
+        AND (_chain_id IS NULL OR o.chain_id = _chain_id)
+      ORDER BY o.price_per_unit ASC
+      LIMIT 1
+    ) best_offer ON TRUE
+    WHERE di.dish_id = _dish_id
+      AND COALESCE(di.optional, FALSE) = FALSE
+      AND di.qty IS NOT NULL
+      AND di.unit IS NOT NULL
+  ),
+  offer_lines AS (
+    SELECT
+      l.*,
+      CEIL(l.offer_qty / l.pack_size) AS packs,
+      CASE
+        WHEN _pricing_mode = 'whole_packs' THEN CEIL(l.offer_qty / l.pack_size) * l.price_total
+        ELSE l.offer_qty * l.price_per_unit
+      END AS line_offer
+    FROM ingredient_lines l
+  ),
+  priced AS (
+    SELECT
+      l.ingredient_id,
+      l.has_offer,
+      l.is_unconvertible,
+      -- Without a baseline price the offer is the best reference we have.
+      -- Unconvertible lines count in neither total.
+      CASE WHEN l.is_unconvertible THEN 0 ELSE COALESCE(l.line_baseline, l.line_offer, 0) END AS line_baseline,
+      CASE WHEN l.is_unconvertible THEN 0 ELSE COALESCE(l.line_offer, l.line_baseline, 0) END AS line_offer,
+      -- What is left of the bought packs, valued at the offer's per-unit price
+      CASE
+        WHEN _pricing_mode = 'whole_packs' THEN
+          COALESCE((l.packs * l.pack_size - l.offer_qty) * l.price_per_unit, 0)
+        ELSE 0
+      END AS line_leftover
+    FROM offer_lines l
+  ),
+  totals AS (
+    SELECT
+      COALESCE(SUM(p.line_baseline), 0) AS baseline_total,
+      COALESCE(SUM(p.line_offer), 0) AS offer_total,
+      COUNT(*) FILTER (WHERE p.has_offer)::INTEGER AS ingredients_with_offers,
+      COALESCE(
+        ARRAY_AGG(p.ingredient_id ORDER BY p.ingredient_id) FILTER (WHERE p.is_unconvertible),
+        ARRAY[]::TEXT[]
+      ) AS unconvertible,
+      COALESCE(SUM(p.line_leftover), 0) AS leftover
+    FROM priced p
+  )
+  SELECT
+    d.dish_id,
+    d.servings,
+    ROUND(t.baseline_total, 2)::DECIMAL(10, 2),
+    ROUND(t.offer_total, 2)::DECIMAL(10, 2),
+    ROUND(t.offer_total / d.servings, 2)::DECIMAL(10, 2),
+    ROUND(GREATEST(t.baseline_total - t.offer_total, 0), 2)::DECIMAL(10, 2),
+    CASE WHEN t.baseline_total > 0 THEN
+      ROUND(GREATEST(t.baseline_total - t.offer_total, 0) / t.baseline_total * 100, 2)::DECIMAL(5, 2)
+    ELSE 0::DECIMAL(5, 2) END,
+    t.ingredients_with_offers,
+    t.unconvertible,
+    ROUND(t.leftover, 2)::DECIMAL(10, 2)
+  FROM dishes d
+  CROSS JOIN totals t
+  WHERE d.dish_id = _dish_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION calculate_dish_total_price TO anon, authenticated;
+
+DROP FUNCTION IF EXISTS get_dishes_with_pricing(TEXT, TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT, TEXT, INTEGER, INTEGER, TEXT[], DECIMAL, TEXT, TEXT, TEXT[], TEXT, TEXT, TEXT);
+
+-- Adds _as_of and reads offers from best_offers_for_plz(); otherwise unchanged
+-- from 048
+CREATE OR REPLACE FUNCTION get_dishes_with_pricing(
+  _user_plz TEXT,
+  _chain_id TEXT DEFAULT NULL,
+  _category TEXT DEFAULT NULL,
+  _is_quick BOOLEAN DEFAULT NULL,
+  _is_meal_prep BOOLEAN DEFAULT NULL,
+  _sort_by TEXT DEFAULT 'name',
+  _sort_dir TEXT DEFAULT 'asc',
+  _limit INTEGER DEFAULT NULL,
+  _offset INTEGER DEFAULT 0,
+  _dish_ids TEXT[] DEFAULT NULL,
+  _max_price DECIMAL DEFAULT NULL,
+  _price_basis TEXT DEFAULT 'total',
+  _search TEXT DEFAULT NULL,
+  _exclude_allergens TEXT[] DEFAULT NULL,
+  _diet TEXT DEFAULT NULL,
+  _season TEXT DEFAULT NULL,
+  _cuisine TEXT DEFAULT NULL,
+  _as_of DATE DEFAULT NULL
+)
+RETURNS TABLE (
+  dish_id TEXT,
+  name TEXT,
+  category TEXT,
+  is_quick BOOLEAN,
+  is_meal_prep BOOLEAN,
+  season TEXT,
+  cuisine TEXT,
+  notes TEXT,
+  servings INTEGER,
+  total_aggregated_savings DECIMAL(10, 2),
+  ingredients_with_offers_count INTEGER,
+  available_offers_count INTEGER,
+  offer_total DECIMAL(10, 2),
+  price_per_serving DECIMAL(10, 2),
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  _region_id TEXT;
+  _search_query TSQUERY;
+  _search_folded TEXT;
+BEGIN
+  IF _sort_by NOT IN ('name', 'savings', 'price', 'offers') THEN
+    RAISE EXCEPTION 'Invalid sort key: %. Use name, savings, price or offers', _sort_by;
+  END IF;
+
+  IF _sort_dir NOT IN ('asc', 'desc') THEN
+    RAISE EXCEPTION 'Invalid sort direction: %. Use asc or desc', _sort_dir;
+  END IF;
+
+  IF _price_basis NOT IN ('total', 'per_serving') THEN
+    RAISE EXCEPTION 'Invalid price basis: %. Use total or per_serving', _price_basis;
+  END IF;
+
+  IF _diet IS NOT NULL AND _diet NOT IN ('vegetarian', 'vegan') THEN
+    RAISE EXCEPTION 'Invalid diet: %. Use vegetarian or vegan', _diet;
+  END IF;
+
+  IF _season IS NOT NULL AND _season NOT IN ('spring', 'summer', 'autumn', 'winter') THEN
+    RAISE EXCEPTION 'Invalid season: %. Use spring, summer, autumn or winter', _season;
+  END IF;
+
+  IF _user_plz IS NULL OR _user_plz = '' THEN
+    RETURN;
+  END IF;
+
+  IF _search IS NOT NULL AND TRIM(_search) != '' THEN
+    _search_query := websearch_to_tsquery('german_unaccent', _search);
+    _search_folded := fold_search_text(TRIM(_search));
+  END IF;
+
+  SELECT pc.region_id INTO _region_id
+  FROM postal_codes pc
+  WHERE pc.plz = _user_plz
+  LIMIT 1;
+
+  IF _region_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH active_offers AS (
+    SELECT
+      o.ingredient_id,
+      o.price_per_unit,
+      o.unit_base,
+      o.active_offers_count
+    FROM best_offers_for_plz(_as_of, _user_plz) o
+    WHERE (_chain_id IS NULL OR o.chain_id = _chain_id)
+  ),
+  ingredient_offers AS (
+    SELECT DISTINCT ON (ao.ingredient_id)
+      ao.ingredient_id,
+      ao.price_per_unit AS min_price_per_unit,
+      ao.unit_base
+    FROM active_offers ao
+    ORDER BY ao.ingredient_id, ao.price_per_unit ASC
+  ),
+  dish_stats AS (
+    SELECT
+      di.dish_id,
+      COALESCE(SUM(
+        CASE WHEN i.price_baseline_per_unit > 0 AND io.min_price_per_unit < i.price_baseline_per_unit
+          THEN i.price_baseline_per_unit - io.min_price_per_unit
+        END
+      ), 0) AS savings,
+      COUNT(*) FILTER (
+        WHERE i.price_baseline_per_unit > 0 AND io.min_price_per_unit < i.price_baseline_per_unit
+      )::INTEGER AS ingredients_with_offers,
+      COUNT(*) FILTER (
+        WHERE io.ingredient_id IS NOT NULL
+          AND di.role = 'main'
+      ) AS main_with_offers,
+      COUNT(*) FILTER (
+        WHERE io.ingredient_id IS NOT NULL
+          AND di.role = 'side'
+      ) AS secondary_with_offers
+    FROM dish_ingredients di
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    LEFT JOIN ingredient_offers io ON io.ingredient_id = di.ingredient_id
+    GROUP BY di.dish_id
+  ),
+  -- Pro-rata totals as in calculate_dish_total_price: required ingredients
+  -- at their cheapest offer (otherwise at the baseline price) and at the
+  -- baseline price (otherwise at the offer)
+  dish_totals AS (
+    SELECT
+      di.dish_id,
+      COALESCE(SUM(COALESCE(
+        convert_unit(di.qty, di.unit, io.unit_base, di.ingredient_id) * io.min_price_per_unit,
+        convert_unit(di.qty, di.unit, i.unit_default, di.ingredient_id) * i.price_baseline_per_unit,
+        0
+      )), 0) AS offer_total,
+      COALESCE(SUM(COALESCE(
+        convert_unit(di.qty, di.unit, i.unit_default, di.ingredient_id) * i.price_baseline_per_unit,
+        convert_unit(di.qty, di.unit, io.unit_base, di.ingredient_id) * io.min_price_per_unit,
+        0
+      )), 0) AS baseline_total
+    FROM dish_ingredients di
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    LEFT JOIN ingredient_offers io ON io.ingredient_id = di.ingredient_id
+    WHERE COALESCE(di.optional, FALSE) = FALSE
+      AND di.qty IS NOT NULL
+      AND di.unit IS NOT NULL
+    GROUP BY di.dish_id
+  ),
+  offer_counts AS (
+    SELECT
+      di.dish_id,
+      SUM(ao.active_offers_count)::INTEGER AS offers_count
+    FROM dish_ingredients di
+    JOIN active_offers ao ON ao.ingredient_id = di.ingredient_id
+    GROUP BY di.dish_id
+  ),
+  visible AS (
+    SELECT
+      d.dish_id,
+      d.name,
+      d.category,
+      d.is_quick,
+      d.is_meal_prep,
+      d.season,
+      d.cuisine,
+      d.notes,
+      d.servings,
+      ROUND(ds.savings, 2)::DECIMAL(10, 2) AS savings,
+      ds.ingredients_with_offers,
+      COALESCE(oc.offers_count, 0) AS offers_count,
+      ROUND(COALESCE(dt.offer_total, 0), 2)::DECIMAL(10, 2) AS offer_total,
+      ROUND(COALESCE(dt.offer_total, 0) / d.servings, 2)::DECIMAL(10, 2) AS price_per_serving
+    FROM dishes d
+    JOIN dish_stats ds ON ds.dish_id = d.dish_id
+    LEFT JOIN offer_counts oc ON oc.dish_id = d.dish_id
+    LEFT JOIN dish_totals dt ON dt.dish_id = d.dish_id
+    LEFT JOIN dish_dietary_info ddi ON ddi.dish_id = d.dish_id
+    WHERE (_dish_ids IS NULL OR d.dish_id = ANY(_dish_ids))
+      AND (_category IS NULL OR d.category = _category)
+      AND (_is_quick IS NULL OR d.is_quick = _is_quick)
+      AND (_is_meal_prep IS NULL OR d.is_meal_prep = _is_meal_prep)
+      AND (_season IS NULL OR _season = ANY(season_keys(d.season)))
+      AND (_cuisine IS NULL OR LOWER(TRIM(d.cuisine)) = LOWER(TRIM(_cuisine)))
+      AND (
+        _search_folded IS NULL
+        OR d.search_vector @@ _search_query
+        -- Typo tolerance: word similarity of at least pg_trgm.word_similarity_threshold
+        -- (0.6 by default); the operator form can use the trigram index
+        OR _search_folded <% d.search_text
+      )
+      AND (
+        COALESCE(array_length(_exclude_allergens, 1), 0) = 0
+        OR NOT COALESCE(ddi.allergens && normalize_allergen_tags(_exclude_allergens), FALSE)
+      )
+      AND (_diet IS NULL OR (_diet = 'vegetarian' AND ddi.is_vegetarian) OR (_diet = 'vegan' AND ddi.is_vegan))
+      AND dish_passes_visibility_rules(
+        ds.main_with_offers::INTEGER,
+        ds.secondary_with_offers::INTEGER,
+        CASE WHEN dt.baseline_total > 0
+          THEN GREATEST(dt.baseline_total - dt.offer_total, 0) / dt.baseline_total * 100
+          ELSE 0
+        END
+      )
+  )
+  SELECT
+    v.dish_id,
+    v.name,
+    v.category,
+    v.is_quick,
+    v.is_meal_prep,
+    v.season,
+    v.cuisine,
+    v.notes,
+    v.servings,
+    v.savings,
+    v.ingredients_with_offers,
+    v.offers_count,
+    v.offer_total,
+    v.price_per_serving,
+    COUNT(*) OVER ()
+  FROM visible v
+  WHERE _max_price IS NULL
+    OR (_price_basis = 'total' AND v.offer_total <= _max_price)
+    OR (_price_basis = 'per_serving' AND v.price_per_serving <= _max_price)
+  ORDER BY
+    CASE WHEN _sort_by = 'savings' AND _sort_dir = 'asc' THEN v.savings END ASC,
+    CASE WHEN _sort_by = 'savings' AND _sort_dir = 'desc' THEN v.savings END DESC,
+    CASE WHEN _sort_by = 'price' AND _sort_dir = 'asc' THEN v.offer_total END ASC,
+    CASE WHEN _sort_by = 'price' AND _sort_dir = 'desc' THEN v.offer_total END DESC,
+    CASE WHEN _sort_by = 'offers' AND _sort_dir = 'asc' THEN v.offers_count END ASC,
+    CASE WHEN _sort_by = 'offers' AND _sort_dir = 'desc' THEN v.offers_count END DESC,
+    CASE WHEN _sort_by = 'name' AND _sort_dir = 'desc' THEN v.name END DESC,
+    v.name ASC,
+    v.dish_id ASC
+  LIMIT _limit
+  OFFSET COALESCE(_offset, 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_dishes_with_pricing TO anon, authenticated;
+
+DROP FUNCTION IF EXISTS get_dish_facets(TEXT, TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT[], DECIMAL, TEXT, TEXT, TEXT[], TEXT, TEXT, TEXT);
+
+-- Adds _as_of, also for the chains listed in the chain facet, which come from
+-- best_offers_for_plz(); otherwise unchanged from 047
+CREATE OR REPLACE FUNCTION get_dish_facets(
+  _user_plz TEXT,
+  _chain_id TEXT DEFAULT NULL,
+  _category TEXT DEFAULT NULL,
+  _is_quick BOOLEAN DEFAULT NULL,
+  _is_meal_prep BOOLEAN DEFAULT NULL,
+  _dish_ids TEXT[] DEFAULT NULL,
+  _max_price DECIMAL DEFAULT NULL,
+  _price_basis TEXT DEFAULT 'total',
+  _search TEXT DEFAULT NULL,
+  _exclude_allergens TEXT[] DEFAULT NULL,
+  _diet TEXT DEFAULT NULL,
+  _season TEXT DEFAULT NULL,
+  _cuisine TEXT DEFAULT NULL,
+  _as_of DATE DEFAULT NULL
+)
+RETURNS TABLE (
+  facet TEXT,
+  value TEXT,
+  dish_count INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _region_id TEXT;
+BEGIN
+  IF _user_plz IS NULL OR _user_plz = '' THEN
+    RETURN;
+  END IF;
+
+  SELECT pc.region_id INTO _region_id
+  FROM postal_codes pc
+  WHERE pc.plz = _user_plz
+  LIMIT 1;
+
+  IF _region_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- List the dishes once with the facet filters (category, season, cuisine,
+  -- quick, meal prep, diet) left open; each facet applies the other ones to
+  -- that list. Only the chain facet needs a listing per chain, as the chain
+  -- changes which offers price the dishes.
+  RETURN QUERY
+  WITH listed AS MATERIALIZED (
+    SELECT
+      g.dish_id,
+      g.category,
+      g.season,
+      g.cuisine,
+      g.is_quick,
+      g.is_meal_prep,
+      ddi.is_vegetarian,
+      ddi.is_vegan,
+      ddi.allergens,
+      COALESCE(_category IS NULL OR g.category = _category, FALSE) AS matches_category,
+      COALESCE(_is_quick IS NULL OR g.is_quick = _is_quick, FALSE) AS matches_quick,
+      COALESCE(_is_meal_prep IS NULL OR g.is_meal_prep = _is_meal_prep, FALSE) AS matches_meal_prep,
+      COALESCE(_season IS NULL OR _season = ANY(season_keys(g.season)), FALSE) AS matches_season,
+      COALESCE(_cuisine IS NULL OR LOWER(TRIM(g.cuisine)) = LOWER(TRIM(_cuisine)), FALSE) AS matches_cuisine,
+      COALESCE(_diet IS NULL OR (_diet = 'vegetarian' AND ddi.is_vegetarian) OR (_diet = 'vegan' AND ddi.is_vegan), FALSE) AS matches_diet
+    FROM get_dishes_with_pricing(
+      _user_plz => _user_plz, _chain_id => _chain_id, _category => NULL,
+      _is_quick => NULL, _is_meal_prep => NULL, _dish_ids => _dish_ids,
+      _max_price => _max_price, _price_basis => _price_basis, _search => _search,
+      _exclude_allergens => _exclude_allergens, _diet => NULL, _season => NULL, _cuisine => NULL,
+      _as_of => _as_of
+    ) g
+    LEFT JOIN dish_dietary_info ddi ON ddi.dish_id = g.dish_id
+  )
+  SELECT 'category'::TEXT, l.category, COUNT(*)::INTEGER
+  FROM listed l
+  WHERE l.matches_quick
+    AND l.matches_meal_prep
+    AND l.matches_season
+    AND l.matches_cuisine
+    AND l.matches_diet
+  GROUP BY l.category
+
+  UNION ALL
+
+  SELECT 'season'::TEXT, s.season_key, COUNT(*)::INTEGER
+  FROM listed l
+  CROSS JOIN LATERAL UNNEST(season_keys(l.season)) AS s(season_key)
+  WHERE l.matches_category
+    AND l.matches_quick
+    AND l.matches_meal_prep
+    AND l.matches_cuisine
+    AND l.matches_diet
+  GROUP BY s.season_key
+
+  UNION ALL
+
+  SELECT 'cuisine'::TEXT, MIN(TRIM(l.cuisine)), COUNT(*)::INTEGER
+  FROM listed l
+  WHERE l.matches_category
+    AND l.matches_quick
+    AND l.matches_meal_prep
+    AND l.matches_season
+    AND l.matches_diet
+    AND TRIM(COALESCE(l.cuisine, '')) <> ''
+  GROUP BY LOWER(TRIM(l.cuisine))
+
+  UNION ALL
+
+  SELECT 'quick'::TEXT, 'true'::TEXT, COUNT(*)::INTEGER
+  FROM listed l
+  WHERE l.is_quick
+    AND l.matches_category
+    AND l.matches_meal_prep
+    AND l.matches_season
+    AND l.matches_cuisine
+    AND l.matches_diet
+
+  UNION ALL
+
+  SELECT 'meal_prep'::TEXT, 'true'::TEXT, COUNT(*)::INTEGER
+  FROM listed l
+  WHERE l.is_meal_prep
+    AND l.matches_category
+    AND l.matches_quick
+    AND l.matches_season
+    AND l.matches_cuisine
+    AND l.matches_diet
+
+  UNION ALL
+
+  SELECT 'diet'::TEXT, diet.value, COUNT(*)::INTEGER
+  FROM listed l
+  CROSS JOIN LATERAL (
+    SELECT 'vegetarian'::TEXT AS value WHERE l.is_vegetarian
+    UNION ALL
+    SELECT 'vegan'::TEXT WHERE l.is_vegan
+  ) diet
+  WHERE l.matches_category
+    AND l.matches_quick
+    AND l.matches_meal_prep
+    AND l.matches_season
+    AND l.matches_cuisine
+  GROUP BY diet.value
+
+  UNION ALL
+
+  SELECT 'allergen'::TEXT, la.allergen_tag, COUNT(l.dish_id)::INTEGER
+  FROM lookups_allergens la
+  LEFT JOIN listed l ON NOT (la.allergen_tag = ANY(l.allergens))
+    AND l.matches_category
+    AND l.matches_quick
+    AND l.matches_meal_prep
+    AND l.matches_season
+    AND l.matches_cuisine
+    AND l.matches_diet
+  GROUP BY la.allergen_tag
+
+  UNION ALL
+
+  -- One listing per chain with offers in the region; value is the chain name
+  -- as used by the supermarket filter
+  SELECT 'chain'::TEXT, ch.chain_name, (
+    SELECT COUNT(*)::INTEGER
+    FROM get_dishes_with_pricing(
+      _user_plz => _user_plz, _chain_id => c.chain_id, _category => _category,
+      _is_quick => _is_quick, _is_meal_prep => _is_meal_prep, _dish_ids => _dish_ids,
+      _max_price => _max_price, _price_basis => _price_basis, _search => _search,
+      _exclude_allergens => _exclude_allergens, _diet => _diet, _season => _season, _cuisine => _cuisine,
+      _as_of => _as_of
+    )
+  )
+  FROM (
+    SELECT DISTINCT cbo.chain_id
+    FROM best_offers_for_plz(_as_of, _user_plz) cbo
+  ) c
+  JOIN chains ch ON ch.chain_id = c.chain_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_dish_facets TO anon, authenticated;
+
+-- Offers from best_offers_for_plz(); otherwise unchanged from 048
+CREATE OR REPLACE FUNCTION find_dishes_by_ingredients(
+  _ingredient_ids TEXT[] DEFAULT NULL,
+  _user_plz TEXT DEFAULT NULL,
+  _chain_id TEXT DEFAULT NULL,
+  _include_offers BOOLEAN DEFAULT FALSE,
+  _limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  dish_id TEXT,
+  name TEXT,
+  category TEXT,
+  is_quick BOOLEAN,
+  is_meal_prep BOOLEAN,
+  main_total INTEGER,
+  main_covered INTEGER,
+  secondary_total INTEGER,
+  secondary_covered INTEGER,
+  covered_ingredients TEXT[],
+  missing_main TEXT[],
+  missing_secondary TEXT[]
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _region_id TEXT;
+BEGIN
+  IF _include_offers AND _user_plz IS NOT NULL AND _user_plz <> '' THEN
+    SELECT pc.region_id INTO _region_id
+    FROM postal_codes pc
+    WHERE pc.plz = _user_plz
+    LIMIT 1;
+  END IF;
+
+  IF COALESCE(array_length(_ingredient_ids, 1), 0) = 0 AND _region_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH available AS (
+    SELECT UNNEST(COALESCE(_ingredient_ids, ARRAY[]::TEXT[])) AS ingredient_id
+    UNION
+    SELECT cbo.ingredient_id
+    FROM best_offers_for_plz(NULL, _user_plz) cbo
+    WHERE _region_id IS NOT NULL
+      AND (_chain_id IS NULL OR cbo.chain_id = _chain_id)
+  ),
+  dish_lines AS (
+    SELECT
+      di.dish_id,
+      i.name_canonical,
+      di.role = 'main' AS is_main,
+      EXISTS (SELECT 1 FROM available a WHERE a.ingredient_id = di.ingredient_id) AS is_covered
+    FROM dish_ingredients di
+    JOIN ingredients i ON i.ingredient_id = di.ingredient_id
+    WHERE COALESCE(di.optional, FALSE) = FALSE
+  ),
+  dish_coverage AS (
+    SELECT
+      dl.dish_id,
+      COUNT(*) FILTER (WHERE dl.is_main)::INTEGER AS main_total,
+      COUNT(*) FILTER (WHERE dl.is_main AND dl.is_covered)::INTEGER AS main_covered,
+      COUNT(*) FILTER (WHERE NOT dl.is_main)::INTEGER AS secondary_total,
+      COUNT(*) FILTER (WHERE NOT dl.is_main AND dl.is_covered)::INTEGER AS secondary_covered,
+      COALESCE(ARRAY_AGG(dl.name_canonical ORDER BY dl.name_canonical)
+        FILTER (WHERE dl.is_covered), ARRAY[]::TEXT[]) AS covered_ingredients,
+      COALESCE(ARRAY_AGG(dl.name_canonical ORDER BY dl.name_canonical)
+        FILTER (WHERE dl.is_main AND NOT dl.is_covered), ARRAY[]::TEXT[]) AS missing_main,
+      COALESCE(ARRAY_AGG(dl.name_canonical ORDER BY dl.name_canonical)
+        FILTER (WHERE NOT dl.is_main AND NOT dl.is_covered), ARRAY[]::TEXT[]) AS missing_secondary
+    FROM dish_lines dl
+    GROUP BY dl.dish_id
+  )
+  SELECT
+    d.dish_id,
+    d.name,
+    d.category,
+    d.is_quick,
+    d.is_meal_prep,
+    dc.main_total,
+    dc.main_covered,
+    dc.secondary_total,
+    dc.secondary_covered,
+    dc.covered_ingredients,
+    dc.missing_main,
+    dc.missing_secondary
+  FROM dish_coverage dc
+  JOIN dishes d ON d.dish_id = dc.dish_id
+  WHERE dc.main_covered + dc.secondary_covered > 0
+  ORDER BY
+    dc.main_covered DESC,
+    CASE WHEN dc.main_total > 0 THEN dc.main_covered::DECIMAL / dc.main_total ELSE 0 END DESC,
+    dc.secondary_covered DESC,
+    dc.main_total + dc.secondary_total - dc.main_covered - dc.secondary_covered ASC,
+    d.name ASC,
+    d.dish_id ASC
+  LIMIT _limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION find_dishes_by_ingredients TO anon, authenticated;
+
+COMMENT ON FUNCTION best_offers_as_of(DATE, TEXT) IS
+  'Cheapest offer per (region, chain, ingredient) valid on a date; today (or NULL) reads current_best_offers';
+COMMENT ON FUNCTION resolve_plz_regions(TEXT) IS
+  'Ad region per chain for a PLZ (the PLZ''s region from postal_codes)';
+COMMENT ON FUNCTION best_offers_for_plz(DATE, TEXT) IS
+  'Cheapest offer per (chain, ingredient) for a PLZ, each chain in its region from resolve_plz_regions(), '
+  'valid on a date (default today)';
+COMMENT ON FUNCTION calculate_dish_aggregated_savings(TEXT, TEXT, TEXT, DATE) IS
+  'Per-unit savings and offer counts of a dish for a PLZ (optionally one chain) with offers valid on _as_of (default today)';
+COMMENT ON FUNCTION calculate_dish_total_price(TEXT, TEXT, TEXT, TEXT, DATE) IS
+  'Baseline and offer totals of a dish from its real ingredient quantities, with price per serving and savings percent. '
+  'In whole_packs mode the offer side is rounded up to whole packs and leftover_total holds the value of the unused rest. '
+  'Ingredients whose units cannot be converted are listed in unconvertible_ingredients and left out of both totals. '
+  'Uses offers valid on _as_of (default today).';
+COMMENT ON FUNCTION get_dishes_with_pricing(TEXT, TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT, TEXT, INTEGER, INTEGER, TEXT[], DECIMAL, TEXT, TEXT, TEXT[], TEXT, TEXT, TEXT, DATE) IS
+  'Visible dishes for a PLZ (optionally one chain or a list of dish IDs) with aggregated savings, offer counts '
+  'and pro-rata offer total, filtered (incl. max price, full-text search, allergens, diet, season and cuisine), '
+  'sorted (name, savings, price, offers) and paginated in one query; total_count ignores the page. '
+  'Prices use offers valid on _as_of (default today)';
+COMMENT ON FUNCTION get_dish_facets(TEXT, TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT[], DECIMAL, TEXT, TEXT, TEXT[], TEXT, TEXT, TEXT, DATE) IS
+  'Visible dish counts per filter option (category, season, cuisine, quick, meal_prep, diet, allergen, chain), '
+  'each with all other active filters applied and offers valid on _as_of (default today)';
@@ -0,0 +1,147 @@
+-- ============================================================================
+-- Offer Price History
+-- The offers table keeps expired rows. Exposes an ingredient's per-unit offer
+-- prices over time per chain and region, and rates offers against the same
+-- chain's earlier offers ("lowest in 90 days" / "above typical price").
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_offers_price_history ON offers(ingredient_id, region_id, chain_id, valid_from);
+
+-- Offers of an ingredient that were valid in the last _days (or start later),
+-- optionally for one PLZ (each chain in its region from resolve_plz_regions())
+-- and one chain. price_per_unit is in the ingredient's default unit so packs
+-- of different sizes and units compare; offers whose unit cannot be converted
+-- are left out.
+CREATE OR REPLACE FUNCTION get_ingredient_price_history(
+  _ingredient_id TEXT,
+  _user_plz TEXT DEFAULT NULL,
+  _chain_id TEXT DEFAULT NULL,
+  _days INTEGER DEFAULT 180
+)
+RETURNS TABLE (
+  offer_id INTEGER,
+  region_id TEXT,
+  chain_id TEXT,
+  chain_name TEXT,
+  valid_from DATE,
+  valid_to DATE,
+  price_total DECIMAL(10, 2),
+  pack_size DECIMAL(10, 3),
+  unit_base TEXT,
+  price_per_unit DECIMAL(12, 6),
+  unit TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _region_id TEXT;
+BEGIN
+  IF _user_plz IS NOT NULL AND _user_plz <> '' THEN
+    SELECT pc.region_id INTO _region_id
+    FROM postal_codes pc
+    WHERE pc.plz = _user_plz
+    LIMIT 1;
+
+    IF _region_id IS NULL THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    o.offer_id,
+    o.region_id,
+    o.chain_id,
+    ch.chain_name,
+    o.valid_from,
+    o.valid_to,
+    o.price_total,
+    o.pack_size,
+    o.unit_base,
+    ROUND(o.price_total / conv.pack_in_default_unit, 6)::DECIMAL(12, 6),
+    i.unit_default
+  FROM offers o
+  JOIN ingredients i ON i.ingredient_id = o.ingredient_id
+  JOIN chains ch ON ch.chain_id = o.chain_id
+  CROSS JOIN LATERAL (
+    SELECT convert_unit(o.pack_size, o.unit_base, i.unit_default, o.ingredient_id) AS pack_in_default_unit
+  ) conv
+  WHERE o.ingredient_id = _ingredient_id
+    AND (
+      _region_id IS NULL
+      OR (o.chain_id, o.region_id) IN (SELECT r.chain_id, r.region_id FROM resolve_plz_regions(_user_plz) r)
+    )
+    AND (_chain_id IS NULL OR o.chain_id = _chain_id)
+    AND o.valid_to >= CURRENT_DATE - _days
+    AND conv.pack_in_default_unit > 0
+  ORDER BY o.valid_from ASC, ch.chain_name ASC, o.region_id ASC, o.offer_id ASC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_ingredient_price_history TO anon, authenticated;
+
+-- Rates each offer against the same chain's offers for the ingredient in the
+-- same region that started in the _days before it, compared per unit of the
+-- rated offer: 'lowest' when none of them was cheaper, 'above_typical' when
+-- it costs more than their median, otherwise 'typical'. Offers without
+-- earlier offers to compare with get no rating.
+CREATE OR REPLACE FUNCTION get_offer_deal_ratings(
+  _offer_ids INTEGER[],
+  _days INTEGER DEFAULT 90
+)
+RETURNS TABLE (
+  offer_id INTEGER,
+  price_per_unit DECIMAL(12, 6),
+  min_price_per_unit DECIMAL(12, 6),
+  typical_price_per_unit DECIMAL(12, 6),
+  history_count INTEGER,
+  deal_rating TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    o.offer_id,
+    ROUND(o.price_total / o.pack_size, 6)::DECIMAL(12, 6),
+    ROUND(h.min_price, 6)::DECIMAL(12, 6),
+    ROUND(h.typical_price::DECIMAL, 6)::DECIMAL(12, 6),
+    h.history_count,
+    CASE
+      WHEN h.history_count = 0 THEN NULL
+      WHEN o.price_total / o.pack_size <= h.min_price THEN 'lowest'
+      WHEN o.price_total / o.pack_size > h.typical_price THEN 'above_typical'
+      ELSE 'typical'
+    END
+  FROM offers o
+  CROSS JOIN LATERAL (
+    SELECT
+      MIN(p.price_per_unit) AS min_price,
+      PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY p.price_per_unit) AS typical_price,
+      COUNT(*)::INTEGER AS history_count
+    FROM offers prev
+    CROSS JOIN LATERAL (
+      SELECT prev.price_total / NULLIF(convert_unit(prev.pack_size, prev.unit_base, o.unit_base, o.ingredient_id), 0) AS price_per_unit
+    ) p
+    WHERE prev.ingredient_id = o.ingredient_id
+      AND prev.region_id = o.region_id
+      AND prev.chain_id = o.chain_id
+      AND prev.offer_id <> o.offer_id
+      AND prev.valid_from < o.valid_from
+      AND prev.valid_from >= o.valid_from - _days
+      AND p.price_per_unit IS NOT NULL
+  ) h
+  WHERE o.offer_id = ANY(_offer_ids)
+    AND o.pack_size > 0;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_offer_deal_ratings TO anon, authenticated;
+
+COMMENT ON FUNCTION get_ingredient_price_history(TEXT, TEXT, TEXT, INTEGER) IS
+  'Per-unit offer prices of an ingredient over the last _days per chain and region (optionally one PLZ and chain), '
+  'in the ingredient''s default unit';
+COMMENT ON FUNCTION get_offer_deal_ratings(INTEGER[], INTEGER) IS
+  'Rates offers as lowest, typical or above_typical against the same chain''s offers for the ingredient in the '
+  'same region during the _days before them';
@@ -0,0 +1,1039 @@
+-- ============================================================================
+-- Derived Baseline Prices
+-- ingredients.price_baseline_per_unit is maintained by hand. This adds a
+-- baseline per ingredient and region computed from the offer history (a
+-- percentile of per-unit offer prices over the last weeks; the offers table
+-- holds no regular shelf prices) and an admin setting that decides which
+-- baseline the pricing functions use. ingredient_baseline_drift compares both.
+-- ============================================================================
+
+-- Single row; the pricing functions fall back to the manual baseline when it
+-- is missing or an ingredient has no computed baseline for the region
+CREATE TABLE IF NOT EXISTS baseline_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  baseline_source TEXT NOT NULL DEFAULT 'manual' CHECK (baseline_source IN ('manual', 'computed')),
+  window_weeks INTEGER NOT NULL DEFAULT 12 CHECK (window_weeks > 0),
+  percentile DECIMAL(3, 2) NOT NULL DEFAULT 0.75 CHECK (percentile > 0 AND percentile <= 1),
+  min_offers INTEGER NOT NULL DEFAULT 3 CHECK (min_offers > 0), -- Fewer offers in the window = no computed baseline
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+INSERT INTO baseline_settings (id) VALUES (TRUE) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE baseline_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Baseline settings are publicly readable" ON baseline_settings;
+CREATE POLICY "Baseline settings are publicly readable"
+  ON baseline_settings
+  FOR SELECT
+  TO public
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can update baseline settings" ON baseline_settings;
+CREATE POLICY "Admins can update baseline settings"
+  ON baseline_settings
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles
+      WHERE user_roles.user_id = auth.uid()
+      AND user_roles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_roles
+      WHERE user_roles.user_id = auth.uid()
+      AND user_roles.role = 'admin'
+    )
+  );
+
+CREATE TABLE IF NOT EXISTS ingredient_region_baselines (
+  ingredient_id TEXT NOT NULL REFERENCES ingredients(ingredient_id) ON DELETE CASCADE ON UPDATE CASCADE,
+  region_id TEXT NOT NULL,
+  price_per_unit DECIMAL(12, 6) NOT NULL, -- In the ingredient's unit_default
+  offers_count INTEGER NOT NULL,
+  computed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (ingredient_id, region_id)
+);
+
+ALTER TABLE ingredient_region_baselines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Ingredient region baselines are publicly readable" ON ingredient_region_baselines;
+CREATE POLICY "Ingredient region baselines are publicly readable"
+  ON ingredient_region_baselines
+  FOR SELECT
+  TO public
+  USING (true);
+
+-- Recomputes ingredient_region_baselines with the current settings from
+-- offers that started in the last window_weeks, priced per unit_default.
+-- Callable by admins (e.g. after changing the settings), the service role
+-- and pg_cron.
+CREATE OR REPLACE FUNCTION refresh_ingredient_baselines()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings baseline_settings%ROWTYPE;
+  _count INTEGER;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM user_roles
+    WHERE user_roles.user_id = auth.uid()
+    AND user_roles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can recompute baselines';
+  END IF;
+
+  SELECT * INTO _settings FROM baseline_settings LIMIT 1;
+  IF _settings.id IS NULL THEN
+    _settings.window_weeks := 12;
+    _settings.percentile := 0.75;
+    _settings.min_offers := 3;
+  END IF;
+
+  -- Called over RPC by import-csv, where pg-safeupdate needs a WHERE clause
+  DELETE FROM ingredient_region_baselines WHERE TRUE;
+
+  INSERT INTO ingredient_region_baselines (ingredient_id, region_id, price_per_unit, offers_count)
+  SELECT
+    o.ingredient_id,
+    o.region_id,
+    ROUND(PERCENTILE_CONT(_settings.percentile::DOUBLE PRECISION)
+      WITHIN GROUP (ORDER BY (o.price_total / conv.pack_in_default_unit)::DOUBLE PRECISION)::DECIMAL, 6),
+    COUNT(*)::INTEGER
+  FROM offers o
+  JOIN ingredients i ON i.ingredient_id = o.ingredient_id
+  CROSS JOIN LATERAL (
+    SELECT convert_unit(o.pack_size, o.unit_base, i.unit_default, o.ingredient_id) AS pack_in_default_unit
+  ) conv
+  WHERE o.valid_from >= CURRENT_DATE - _settings.window_weeks * 7
+    AND o.valid_from <= CURRENT_DATE
+    AND conv.pack_in_default_unit > 0
+  GROUP BY o.ingredient_id, o.region_id
+  HAVING COUNT(*) >= _settings.min_offers;
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_ingredient_baselines() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION refresh_ingredient_baselines() TO authenticated, service_role;
+
+SELECT refresh_ingredient_baselines();
+
+-- Nightly after the offer snapshot; skipped where pg_cron is not enabled
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'refresh-ingredient-baselines',
+      '15 0 * * *',
+      'SELECT public.refresh_ingredient_baselines()'
+    );
+  END IF;
+END;
+$$;
+
+-- Ingredients with the baseline the pricing functions use for a region: the
+-- computed one when baseline_source = 'computed' and it exists, otherwise
+-- the manual price_baseline_per_unit
+CREATE OR REPLACE FUNCTION ingredient_baselines(_region_id TEXT DEFAULT NULL)
+RETURNS TABLE (
+  ingredient_id TEXT,
+  unit_default TEXT,
+  price_baseline_per_unit DECIMAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    i.ingredient_id,
+    i.unit_default,
+    CASE
+      WHEN s.baseline_source = 'computed' AND b.price_per_unit IS NOT NULL THEN b.price_per_unit
+      ELSE i.price_baseline_per_unit
+    END::DECIMAL
+  FROM ingredients i
+  LEFT JOIN baseline_settings s ON TRUE
+  LEFT JOIN ingredient_region_baselines b
+    ON b.ingredient_id = i.ingredient_id
+    AND b.region_id = _region_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION ingredient_baselines TO anon, authenticated;
+
+-- Manual vs. computed baseline per ingredient and region; drift_percent is
+-- relative to the manual baseline (NULL when there is none)
+CREATE OR REPLACE VIEW ingredient_baseline_drift AS
+SELECT
+  b.ingredient_id,
+  i.name_canonical,
+  b.region_id,
+  i.unit_default,
+  i.price_baseline_per_unit AS manual_baseline,
+  b.price_per_unit AS computed_baseline,
+  CASE WHEN i.price_baseline_per_unit > 0 THEN
+    ROUND((b.price_per_unit - i.price_baseline_per_unit) / i.price_baseline_per_unit * 100, 2)
+  END AS drift_percent,
+  b.offers_count,
+  b.computed_at
+FROM ingredient_region_baselines b
+JOIN ingredients i ON i.ingredient_id = b.ingredient_id;
+
+GRANT SELECT ON ingredient_baseline_drift TO anon, authenticated;
+
+-- ============================================================================
+-- PRICING FUNCTIONS USE THE CONFIGURED BASELINE
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS calculate_ingredient_savings_per_unit(TEXT, TEXT, TEXT, TEXT);
+
+-- Baselines from ingredient_baselines() and offers from best_offers_for_plz();
+-- takes the PLZ instead of its region; otherwise unchanged from 041
+CREATE OR REPLACE FUNCTION calculate_ingredient_savings_per_unit(
+  _ingredient_id TEXT,
+  _user_plz TEXT,
+  _chain_id TEXT DEFAULT NULL,
+  _unit TEXT DEFAULT NULL  -- Optional: if provided, ensures unit matches
+)
+RETURNS TABLE (
+  ingredient_id TEXT,
+  base_price_per_unit DECIMAL(10, 4),
+  offer_price_per_unit DECIMAL(10, 4),
+  savings_per_unit DECIMAL(10, 4),
+  unit TEXT,
+  has_offer BOOLEAN
+) AS $$
+DECLARE
+  _region_id TEXT;
+  _ingredient_unit TEXT;
+  _base_price DECIMAL(10, 4);
+  _lowest_offer_price_per_unit DECIMAL(10, 4);
+BEGIN
+  -- Get region_id from PLZ if provided (for baselines)
+  IF _user_plz IS NOT NULL AND _user_plz != '' THEN
+    SELECT pc.region_id INTO _region_id
+    FROM postal_codes pc
+    WHERE pc.plz = _user_plz
+    LIMIT 1;
+  END IF;
+
+  -- Get ingredient's default unit and base price
+  SELECT i.unit_default, i.price_baseline_per_unit
+  INTO _ingredient_unit, _base_price
+  FROM ingredient_baselines(_region_id) i
+  WHERE i.ingredient_id = _ingredient_id;
+
+  -- If ingredient not found, return empty
+  IF _ingredient_unit IS NULL OR _base_price IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- If unit parameter provided, check if it matches ingredient's default unit
+  IF _unit IS NOT NULL AND _unit != '' THEN
+    IF LOWER(TRIM(_unit)) != LOWER(TRIM(_ingredient_unit)) THEN
+      IF convert_unit(1.0, _unit, _ingredient_unit) IS NULL THEN
+        RETURN;
+      END IF;
+    END IF;
+  END IF;
+
+  -- Get lowest offer price per unit for this ingredient, each chain in its region for the PLZ
+  -- (optionally filtered by chain_id)
+  SELECT MIN(o.price_per_unit)
+  INTO _lowest_offer_price_per_unit
+  FROM best_offers_for_plz(NULL, _user_plz) o
+  WHERE o.ingredient_id = _ingredient_id
+    AND (_chain_id IS NULL OR o.chain_id = _chain_id);
+
+  -- Return results
+  RETURN QUERY SELECT
+    _ingredient_id::TEXT,
+    COALESCE(_base_price, 0)::DECIMAL(10, 4),
+    COALESCE(_lowest_offer_price_per_unit, _base_price)::DECIMAL(10, 4),
+    CASE 
+      WHEN _lowest_offer_price_per_unit IS NOT NULL AND _lowest_offer_price_per_unit < _base_price THEN
+        (_base_price - _lowest_offer_price_per_unit)::DECIMAL(10, 4)
+      ELSE
+        0::DECIMAL(10, 4)
+    END,
+    _ingredient_unit::TEXT,
+    (_lowest_offer_price_per_unit IS NOT NULL)::BOOLEAN;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION calculate_ingredient_savings_per_unit TO anon, authenticated;
+
+-- Baselines from ingredient_baselines(); otherwise unchanged from 049
+CREATE OR REPLACE FUNCTION calculate_dish_aggregated_savings(
+  _dish_id TEXT,
+  _user_plz TEXT DEFAULT NULL,
+  _chain_id TEXT DEFAULT NULL,
+  _as_of DATE DEFAULT NULL
+)
+RETURNS TABLE (
+  dish_id TEXT,
+  total_aggregated_savings DECIMAL(10, 2),
+  ingredients_with_offers_count INTEGER,
+  available_offers_count INTEGER
+) AS $$
+DECLARE
+  _region_id TEXT;
+  _total_savings DECIMAL(10, 2) := 0;
+  _ingredients_with_offers INTEGER := 0;
+  _offers_count INTEGER := 0;
+  _ingredient_savings RECORD;
+BEGIN
+  -- Get region_id from PLZ if provided
+  IF _user_plz IS NOT NULL AND _user_plz != '' THEN
+    SELECT region_id INTO _region_id
+    FROM postal_codes
+    WHERE plz = _user_plz
+    LIMIT 1;
+  END IF;
+
+  -- If no region provided, return zeros
+  IF _region_id IS NULL THEN
+    RETURN QUERY SELECT
+      _dish_id,
+      0::DECIMAL(10, 2),
+      0,
+      0;
+    RETURN;
+  END IF;
+
+  -- Calculate per-unit savings for each ingredient and aggregate
+  -- Includes both main and side ingredients (no optional filter)
+  FOR _ingredient_savings IN
+    SELECT 
+      di.ingredient_id,
+      COALESCE(i.price_baseline_per_unit, 0) as baseline_price,
+      COALESCE(MIN(o.price_per_unit), i.price_baseline_per_unit) as offer_price
+    FROM dish_ingredients di
+    JOIN ingredient_baselines(_region_id) i ON di.ingredient_id = i.ingredient_id
+    LEFT JOIN best_offers_for_plz(_as_of, _user_plz) o ON
+      o.ingredient_id = di.ingredient_id
+      AND (_chain_id IS NULL OR o.chain_id = _chain_id)
+    WHERE di.dish_id = _dish_id
+      AND i.price_baseline_per_unit IS NOT NULL
+      AND i.price_baseline_per_unit > 0
+    GROUP BY di.ingredient_id, i.price_baseline_per_unit
+  LOOP
+    -- Calculate savings per unit
+    IF _ingredient_savings.baseline_price > 0 AND _ingredient_savings.offer_price < _ingredient_savings.baseline_price THEN
+      _total_savings := _total_savings + (_ingredient_savings.baseline_price - _ingredient_savings.offer_price);
+      _ingredients_with_offers := _ingredients_with_offers + 1;
+    END IF;
+  END LOOP;
+
+  -- Count total available offers for this dish (optionally filtered by chain_id)
+  SELECT COALESCE(SUM(o.active_offers_count), 0) INTO _offers_count
+  FROM dish_ingredients di
+  JOIN best_offers_for_plz(_as_of, _user_plz) o ON o.ingredient_id = di.ingredient_id
+  WHERE di.dish_id = _dish_id
+    AND (_chain_id IS NULL OR o.chain_id = _chain_id);
+
+  -- Return results
+  RETURN QUERY SELECT
+    _dish_id,
+    ROUND(COALESCE(_total_savings, 0), 2)::DECIMAL(10, 2),
+    COALESCE(_ingredients_with_offers, 0),
+    COALESCE(_offers_count, 0);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Baselines from ingredient_baselines(); otherwise unchanged from 049
+CREATE OR REPLACE FUNCTION calculate_dish_total_price(
+  _dish_id TEXT,
+  _user_plz TEXT DEFAULT NULL,
+  _chain_id TEXT DEFAULT NULL,
+  _pricing_mode TEXT DEFAULT 'pro_rata',
+  _as_of DATE DEFAULT NULL
+)
+RETURNS TABLE (
+  dish_id TEXT,
+  servings INTEGER,
+  baseline_total DECIMAL(10, 2),
+  offer_total DECIMAL(10, 2),
+  price_per_serving DECIMAL(10, 2),
+  savings_abs DECIMAL(10, 2),
+  savings_percent DECIMAL(5, 2),
+  ingredients_with_offers_count INTEGER,
+  unconvertible_ingredients TEXT[],
+  leftover_total DECIMAL(10, 2)
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _region_id TEXT;
+BEGIN
+  IF _pricing_mode NOT IN ('pro_rata', 'whole_packs') THEN
+    RAISE EXCEPTION 'Invalid pricing mode: %', _pricing_mode;
+  END IF;
+
+  -- Get region_id from PLZ if provided
+  IF _user_plz IS NOT NULL AND _user_plz != '' THEN
+    SELECT pc.region_id INTO _region_id
+    FROM postal_codes pc
+    WHERE pc.plz = _user_plz
+    LIMIT 1;
+  END IF;
+
+  RETURN QUERY
+  WITH ingredient_lines AS (
+    SELECT
+      di.ingredient_id,
+      convert_unit(di.qty, di.unit, i.unit_default, di.ingredient_id) * i.price_baseline_per_unit AS line_baseline,
+      best_offer.price_per_unit IS NOT NULL AS has_offer,
+      best_offer.price_per_unit,
+      best_offer.price_total,
+      best_offer.pack_size,
+      convert_unit(di.qty, di.unit, best_offer.unit_base, di.ingredient_id) AS offer_qty,
+      convert_unit(di.qty, di.unit, i.unit_default, di.ingredient_id) IS NULL
+        OR (best_offer.price_per_unit IS NOT NULL AND convert_unit(di.qty, di.unit, best_offer.unit_base, di.ingredient_id) IS NULL)
+        AS is_unconvertible
+    FROM dish_ingredients di
+    JOIN ingredient_baselines(_region_id) i ON i.ingredient_id = di.ingredient_id
+    LEFT JOIN LATERAL (
+      SELECT
+        o.price_per_unit,
+        o.price_total,
+        o.pack_size,
+        o.unit_base
+      FROM best_offers_for_plz(_as_of, _user_plz) o
+      WHERE o.ingredient_id = di.ingredient_id
+        AND (_chain_id IS NULL OR o.chain_id = _chain_id)
+      ORDER BY o.price_per_unit ASC
+      LIMIT 1
+    ) best_offer ON TRUE
+    WHERE di.dish_id = _dish_id
+      AND COALESCE(di.optional, FALSE) = FALSE
+      AND di.qty IS NOT NULL
+      AND di.unit IS NOT NULL
+  ),
+  offer_lines AS (
+    SELECT
+      l.*,
+      CEIL(l.offer_qty / l.pack_size) AS packs,
+      CASE
+        WHEN _pricing_mode = 'whole_packs' THEN CEIL(l.offer_qty / l.pack_size) * l.price_total
+        ELSE l.offer_qty * l.price_per_unit
+      END AS line_offer
+    FROM ingredient_lines l
+  ),
+  priced AS (
+    SELECT
+      l.ingredient_id,
+      l.has_offer,
+      l.is_unconvertible,
+      -- Without a baseline price the offer is the best reference we have.
+      -- Unconvertible lines count in neither total.
+      CASE WHEN l.is_unconvertible THEN 0 ELSE COALESCE(l.line_baseline, l.line_offer, 0) END AS line_baseline,
+      CASE WHEN l.is_unconvertible THEN 0 ELSE COALESCE(l.line_offer, l.line_baseline, 0) END AS line_offer,
+      -- What is left of the bought packs, valued at the offer's per-unit price
+      CASE
+        WHEN _pricing_mode = 'whole_packs' THEN
+          COALESCE((l.packs * l.pack_size - l.offer_qty) * l.price_per_unit, 0)
+        ELSE 0
+      END AS line_leftover
+    FROM offer_lines l
+  ),
+  totals AS (
+    SELECT
+      COALESCE(SUM(p.line_baseline), 0) AS baseline_total,
+      COALESCE(SUM(p.line_offer), 0) AS offer_total,
+      COUNT(*) FILTER (WHERE p.has_offer)::INTEGER AS ingredients_with_offers,
+      COALESCE(
+        ARRAY_AGG(p.ingredient_id ORDER BY p.ingredient_id) FILTER (WHERE p.is_unconvertible),
+        ARRAY[]::TEXT[]
+      ) AS unconvertible,
+      COALESCE(SUM(p.line_leftover), 0) AS leftover
+    FROM priced p
+  )
+  SELECT
+    d.dish_id,
+    d.servings,
+    ROUND(t.baseline_total, 2)::DECIMAL(10, 2),
+    ROUND(t.offer_total, 2)::DECIMAL(10, 2),
+    ROUND(t.offer_total / d.servings, 2)::DECIMAL(10, 2),
+    ROUND(GREATEST(t.baseline_total - t.offer_total, 0), 2)::DECIMAL(10, 2),
+    CASE WHEN t.baseline_total > 0 THEN
+      ROUND(GREATEST(t.baseline_total - t.offer_total, 0) / t.baseline_total * 100, 2)::DECIMAL(5, 2)
+    ELSE 0::DECIMAL(5, 2) END,
+    t.ingredients_with_offers,
+    t.unconvertible,
+    ROUND(t.leftover, 2)::DECIMAL(10, 2)
+  FROM dishes d
+  CROSS JOIN totals t
+  WHERE d.dish_id = _dish_id;
+END;
+$$;
+
+-- Baselines from ingredient_baselines() and each chain in its region from
+-- resolve_plz_regions(); otherwise unchanged from 041
+CREATE OR REPLACE FUNCTION calculate_shopping_list_chain_costs(
+  _dish_ids TEXT[],
+  _servings INTEGER[] DEFAULT NULL,
+  _user_plz TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  ingredient_id TEXT,
+  ingredient_name TEXT,
+  qty DECIMAL(10, 3),
+  unit TEXT,
+  chain_id TEXT,
+  chain_name TEXT,
+  offer_price_per_unit DECIMAL(10, 4),
+  offer_unit TEXT,
+  offer_total DECIMAL(10, 2),
+  baseline_total DECIMAL(10, 2)
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _region_id TEXT;
+BEGIN
+  IF _user_plz IS NULL OR _user_plz = '' THEN
+    RETURN;
+  END IF;
+
+  SELECT pc.region_id INTO _region_id
+  FROM postal_codes pc
+  WHERE pc.plz = _user_plz
+  LIMIT 1;
+
+  IF _region_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    sl.ingredient_id,
+    sl.ingredient_name,
+    sl.qty,
+    sl.unit,
+    c.chain_id,
+    c.chain_name,
+    best_offer.price_per_unit::DECIMAL(10, 4),
+    best_offer.unit_base,
+    ROUND(convert_unit(sl.qty, sl.unit, best_offer.unit_base, sl.ingredient_id) * best_offer.price_per_unit, 2)::DECIMAL(10, 2),
+    ROUND(COALESCE(convert_unit(sl.qty, sl.unit, i.unit_default, sl.ingredient_id) * i.price_baseline_per_unit, 0), 2)::DECIMAL(10, 2)
+  FROM get_shopping_list(_dish_ids, _servings) sl
+  JOIN ingredient_baselines(_region_id) i ON i.ingredient_id = sl.ingredient_id
+  CROSS JOIN (
+    SELECT DISTINCT ch.chain_id, ch.chain_name, r.region_id
+    FROM resolve_plz_regions(_user_plz) r
+    JOIN ad_regions ar ON ar.region_id = r.region_id AND ar.chain_id = r.chain_id
+    JOIN chains ch ON ch.chain_id = r.chain_id
+  ) c
+  LEFT JOIN LATERAL (
+    SELECT
+      o.price_per_unit,
+      o.unit_base
+    FROM current_best_offers o
+    WHERE o.ingredient_id = sl.ingredient_id
+      AND o.chain_id = c.chain_id
+      AND o.region_id = c.region_id
+      AND o.valid_from <= CURRENT_DATE
+      AND o.valid_to >= CURRENT_DATE
+    ORDER BY o.price_per_unit ASC
+    LIMIT 1
+  ) best_offer ON TRUE
+  ORDER BY sl.ingredient_name, c.chain_name;
+END;
+$$;
+
+-- Baselines from ingredient_baselines() and offers from best_offers_for_plz();
+-- otherwise unchanged from 041
+CREATE OR REPLACE FUNCTION calculate_plan_prices(
+  _plan_id UUID,
+  _user_plz TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  plan_id UUID,
+  total_baseline DECIMAL(10, 2),
+  total_offer DECIMAL(10, 2),
+  total_savings_abs DECIMAL(10, 2),
+  total_savings_pct DECIMAL(5, 2)
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _region_id TEXT;
+  _status TEXT;
+BEGIN
+  SELECT p.status INTO _status
+  FROM plans p
+  WHERE p.plan_id = _plan_id
+    AND p.user_id = auth.uid();
+
+  IF _status IS NULL THEN
+    RAISE EXCEPTION 'Plan not found';
+  END IF;
+
+  IF _status = 'draft' THEN
+    -- Get region_id from PLZ if provided
+    IF _user_plz IS NOT NULL AND _user_plz != '' THEN
+      SELECT pc.region_id INTO _region_id
+      FROM postal_codes pc
+      WHERE pc.plz = _user_plz
+      LIMIT 1;
+    END IF;
+
+    DELETE FROM plan_item_prices
+    WHERE plan_item_id IN (
+      SELECT pi.plan_item_id FROM plan_items pi WHERE pi.plan_id = _plan_id
+    );
+
+    -- One row per (plan item, ingredient): recipe quantities are scaled from
+    -- the dish's servings to the planned servings, baseline is priced in the
+    -- ingredient's default unit, the offer in the offer's base unit.
+    -- Ingredients without an offer cost their baseline.
+    INSERT INTO plan_item_prices (
+      plan_item_id,
+      ingredient_id,
+      qty,
+      unit,
+      baseline_price_per_unit,
+      baseline_total,
+      offer_price_per_unit,
+      offer_total,
+      offer_source,
+      offer_ref_id,
+      savings_abs,
+      savings_pct
+    )
+    SELECT
+      priced.plan_item_id,
+      priced.ingredient_id,
+      priced.qty,
+      priced.unit,
+      priced.baseline_price_per_unit,
+      ROUND(priced.baseline_total, 2),
+      priced.offer_price_per_unit,
+      ROUND(priced.offer_total, 2),
+      priced.offer_source,
+      priced.offer_ref_id,
+      ROUND(GREATEST(priced.baseline_total - priced.offer_total, 0), 2),
+      CASE WHEN priced.baseline_total > 0 THEN
+        ROUND(GREATEST(priced.baseline_total - priced.offer_total, 0) / priced.baseline_total * 100, 2)
+      ELSE 0 END
+    FROM (
+      SELECT
+        items.*,
+        COALESCE(
+          convert_unit(items.qty, items.unit, best_offer.unit_base, items.ingredient_id) * best_offer.price_per_unit,
+          items.baseline_total
+        ) AS offer_total,
+        best_offer.price_per_unit AS offer_price_per_unit,
+        best_offer.source AS offer_source,
+        best_offer.source_ref_id AS offer_ref_id
+      FROM (
+        SELECT
+          pi.plan_item_id,
+          di.ingredient_id,
+          di.qty * COALESCE(pi.servings, 1) / d.servings AS qty,
+          di.unit,
+          i.price_baseline_per_unit AS baseline_price_per_unit,
+          COALESCE(
+            convert_unit(di.qty * COALESCE(pi.servings, 1) / d.servings, di.unit, i.unit_default, di.ingredient_id) * i.price_baseline_per_unit,
+            0
+          ) AS baseline_total
+        FROM plan_items pi
+        JOIN dishes d ON d.dish_id = pi.dish_id
+        JOIN dish_ingredients di ON di.dish_id = pi.dish_id
+        JOIN ingredient_baselines(_region_id) i ON i.ingredient_id = di.ingredient_id
+        WHERE pi.plan_id = _plan_id
+          AND di.qty IS NOT NULL
+          AND di.unit IS NOT NULL
+      ) items
+      LEFT JOIN LATERAL (
+        SELECT
+          o.price_per_unit,
+          o.unit_base,
+          o.source,
+          o.source_ref_id
+        FROM best_offers_for_plz(NULL, _user_plz) o
+        WHERE o.ingredient_id = items.ingredient_id
+        ORDER BY o.price_per_unit ASC
+        LIMIT 1
+      ) best_offer ON TRUE
+    ) priced;
+
+    -- Roll up into plan_totals
+    INSERT INTO plan_totals (
+      plan_id,
+      total_baseline,
+      total_offer,
+      total_savings_abs,
+      total_savings_pct
+    )
+    SELECT
+      _plan_id,
+      COALESCE(SUM(pip.baseline_total), 0),
+      COALESCE(SUM(pip.offer_total), 0),
+      COALESCE(SUM(pip.savings_abs), 0),
+      CASE WHEN COALESCE(SUM(pip.baseline_total), 0) > 0 THEN
+        ROUND(SUM(pip.savings_abs) / SUM(pip.baseline_total) * 100, 2)
+      ELSE 0 END
+    FROM plan_item_prices pip
+    JOIN plan_items pi ON pi.plan_item_id = pip.plan_item_id
+    WHERE pi.plan_id = _plan_id
+    ON CONFLICT ON CONSTRAINT plan_totals_pkey DO UPDATE SET
+      total_baseline = EXCLUDED.total_baseline,
+      total_offer = EXCLUDED.total_offer,
+      total_savings_abs = EXCLUDED.total_savings_abs,
+      total_savings_pct = EXCLUDED.total_savings_pct;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    pt.plan_id,
+    pt.total_baseline,
+    pt.total_offer,
+    pt.total_savings_abs,
+    pt.total_savings_pct
+  FROM plan_totals pt
+  WHERE pt.plan_id = _plan_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS should_display_dish(TEXT, TEXT, TEXT);
+
+-- Baselines from ingredient_baselines() and offers from best_offers_for_plz();
+-- takes the PLZ instead of its region; otherwise unchanged from 048
+CREATE OR REPLACE FUNCTION should_display_dish(
+  _dish_id TEXT,
+  _user_plz TEXT,
+  _chain_id TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _region_id TEXT;
+  _main_with_offers INTEGER;
+  _side_with_offers INTEGER;
+  _baseline_total DECIMAL;
+  _offer_total DECIMAL;
+BEGIN
+  IF _user_plz IS NOT NULL AND _user_plz != '' THEN
+    SELECT pc.region_id INTO _region_id
+    FROM postal_codes pc
+    WHERE pc.plz = _user_plz
+    LIMIT 1;
+  END IF;
+
+  IF _region_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  WITH ingredient_offers AS (
+    SELECT DISTINCT ON (o.ingredient_id)
+      o.ingredient_id,
+      o.price_per_unit,
+      o.unit_base
+    FROM best_offers_for_plz(NULL, _user_plz) o
+    WHERE (_chain_id IS NULL OR o.chain_id = _chain_id)
+    ORDER BY o.ingredient_id, o.price_per_unit ASC
+  )
+  SELECT
+    COUNT(DISTINCT di.ingredient_id) FILTER (WHERE io.ingredient_id IS NOT NULL AND di.role = 'main')::INTEGER,
+    COUNT(DISTINCT di.ingredient_id) FILTER (WHERE io.ingredient_id IS NOT NULL AND di.role = 'side')::INTEGER,
+    COALESCE(SUM(COALESCE(
+      convert_unit(di.qty, di.unit, i.unit_default, di.ingredient_id) * i.price_baseline_per_unit,
+      convert_unit(di.qty, di.unit, io.unit_base, di.ingredient_id) * io.price_per_unit,
+      0
+    )) FILTER (WHERE COALESCE(di.optional, FALSE) = FALSE), 0),
+    COALESCE(SUM(COALESCE(
+      convert_unit(di.qty, di.unit, io.unit_base, di.ingredient_id) * io.price_per_unit,
+      convert_unit(di.qty, di.unit, i.unit_default, di.ingredient_id) * i.price_baseline_per_unit,
+      0
+    )) FILTER (WHERE COALESCE(di.optional, FALSE) = FALSE), 0)
+  INTO _main_with_offers, _side_with_offers, _baseline_total, _offer_total
+  FROM dish_ingredients di
+  JOIN ingredient_baselines(_region_id) i ON i.ingredient_id = di.ingredient_id
+  LEFT JOIN ingredient_offers io ON io.ingredient_id = di.ingredient_id
+  WHERE di.dish_id = _dish_id;
+
+  RETURN dish_passes_visibility_rules(
+    _main_with_offers,
+    _side_with_offers,
+    CASE WHEN _baseline_total > 0
+      THEN GREATEST(_baseline_total - _offer_total, 0) / _baseline_total * 100
+      ELSE 0
+    END
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION should_display_dish TO anon, authenticated;
+
+-- Baselines from ingredient_baselines(); otherwise unchanged from 049
+CREATE OR REPLACE FUNCTION get_dishes_with_pricing(
+  _user_plz TEXT,
+  _chain_id TEXT DEFAULT NULL,
+  _category TEXT DEFAULT NULL,
+  _is_quick BOOLEAN DEFAULT NULL,
+  _is_meal_prep BOOLEAN DEFAULT NULL,
+  _sort_by TEXT DEFAULT 'name',
+  _sort_dir TEXT DEFAULT 'asc',
+  _limit INTEGER DEFAULT NULL,
+  _offset INTEGER DEFAULT 0,
+  _dish_ids TEXT[] DEFAULT NULL,
+  _max_price DECIMAL DEFAULT NULL,
+  _price_basis TEXT DEFAULT 'total',
+  _search TEXT DEFAULT NULL,
+  _exclude_allergens TEXT[] DEFAULT NULL,
+  _diet TEXT DEFAULT NULL,
+  _season TEXT DEFAULT NULL,
+  _cuisine TEXT DEFAULT NULL,
+  _as_of DATE DEFAULT NULL
+)
+RETURNS TABLE (
+  dish_id TEXT,
+  name TEXT,
+  category TEXT,
+  is_quick BOOLEAN,
+  is_meal_prep BOOLEAN,
+  season TEXT,
+  cuisine TEXT,
+  notes TEXT,
+  servings INTEGER,
+  total_aggregated_savings DECIMAL(10, 2),
+  ingredients_with_offers_count INTEGER,
+  available_offers_count INTEGER,
+  offer_total DECIMAL(10, 2),
+  price_per_serving DECIMAL(10, 2),
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  _region_id TEXT;
+  _search_query TSQUERY;
+  _search_folded TEXT;
+BEGIN
+  IF _sort_by NOT IN ('name', 'savings', 'price', 'offers') THEN
+    RAISE EXCEPTION 'Invalid sort key: %. Use name, savings, price or offers', _sort_by;
+  END IF;
+
+  IF _sort_dir NOT IN ('asc', 'desc') THEN
+    RAISE EXCEPTION 'Invalid sort direction: %. Use asc or desc', _sort_dir;
+  END IF;
+
+  IF _price_basis NOT IN ('total', 'per_serving') THEN
+    RAISE EXCEPTION 'Invalid price basis: %. Use total or per_serving', _price_basis;
+  END IF;
+
+  IF _diet IS NOT NULL AND _diet NOT IN ('vegetarian', 'vegan') THEN
+    RAISE EXCEPTION 'Invalid diet: %. Use vegetarian or vegan', _diet;
+  END IF;
+
+  IF _season IS NOT NULL AND _season NOT IN ('spring', 'summer', 'autumn', 'winter') THEN
+    RAISE EXCEPTION 'Invalid season: %. Use spring, summer, autumn or winter', _season;
+  END IF;
+
+  IF _user_plz IS NULL OR _user_plz = '' THEN
+    RETURN;
+  END IF;
+
+  IF _search IS NOT NULL AND TRIM(_search) != '' THEN
+    _search_query := websearch_to_tsquery('german_unaccent', _search);
+    _search_folded := fold_search_text(TRIM(_search));
+  END IF;
+
+  SELECT pc.region_id INTO _region_id
+  FROM postal_codes pc
+  WHERE pc.plz = _user_plz
+  LIMIT 1;
+
+  IF _region_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH active_offers AS (
+    SELECT
+      o.ingredient_id,
+      o.price_per_unit,
+      o.unit_base,
+      o.active_offers_count
+    FROM best_offers_for_plz(_as_of, _user_plz) o
+    WHERE (_chain_id IS NULL OR o.chain_id = _chain_id)
+  ),
+  ingredient_offers AS (
+    SELECT DISTINCT ON (ao.ingredient_id)
+      ao.ingredient_id,
+      ao.price_per_unit AS min_price_per_unit,
+      ao.unit_base
+    FROM active_offers ao
+    ORDER BY ao.ingredient_id, ao.price_per_unit ASC
+  ),
+  dish_stats AS (
+    SELECT
+      di.dish_id,
+      COALESCE(SUM(
+        CASE WHEN i.price_baseline_per_unit > 0 AND io.min_price_per_unit < i.price_baseline_per_unit
+          THEN i.price_baseline_per_unit - io.min_price_per_unit
+        END
+      ), 0) AS savings,
+      COUNT(*) FILTER (
+        WHERE i.price_baseline_per_unit > 0 AND io.min_price_per_unit < i.price_baseline_per_unit
+      )::INTEGER AS ingredients_with_offers,
+      COUNT(*) FILTER (
+        WHERE io.ingredient_id IS NOT NULL
+          AND di.role = 'main'
+      ) AS main_with_offers,
+      COUNT(*) FILTER (
+        WHERE io.ingredient_id IS NOT NULL
+          AND di.role = 'side'
+      ) AS secondary_with_offers
+    FROM dish_ingredients di
+    JOIN ingredient_baselines(_region_id) i ON i.ingredient_id = di.ingredient_id
+    LEFT JOIN ingredient_offers io ON io.ingredient_id = di.ingredient_id
+    GROUP BY di.dish_id
+  ),
+  -- Pro-rata totals as in calculate_dish_total_price: required ingredients
+  -- at their cheapest offer (otherwise at the baseline price) and at the
+  -- baseline price (otherwise at the offer)
+  dish_totals AS (
+    SELECT
+      di.dish_id,
+      COALESCE(SUM(COALESCE(
+        convert_unit(di.qty, di.unit, io.unit_base, di.ingredient_id) * io.min_price_per_unit,
+        convert_unit(di.qty, di.unit, i.unit_default, di.ingredient_id) * i.price_baseline_per_unit,
+        0
+      )), 0) AS offer_total,
+      COALESCE(SUM(COALESCE(
+        convert_unit(di.qty, di.unit, i.unit_default, di.ingredient_id) * i.price_baseline_per_unit,
+        convert_unit(di.qty, di.unit, io.unit_base, di.ingredient_id) * io.min_price_per_unit,
+        0
+      )), 0) AS baseline_total
+    FROM dish_ingredients di
+    JOIN ingredient_baselines(_region_id) i ON i.ingredient_id = di.ingredient_id
+    LEFT JOIN ingredient_offers io ON io.ingredient_id = di.ingredient_id
+    WHERE COALESCE(di.optional, FALSE) = FALSE
+      AND di.qty IS NOT NULL
+      AND di.unit IS NOT NULL
+    GROUP BY di.dish_id
+  ),
+  offer_counts AS (
+    SELECT
+      di.dish_id,
+      SUM(ao.active_offers_count)::INTEGER AS offers_count
+    FROM dish_ingredients di
+    JOIN active_offers ao ON ao.ingredient_id = di.ingredient_id
+    GROUP BY di.dish_id
+  ),
+  visible AS (
+    SELECT
+      d.dish_id,
+      d.name,
+      d.category,
+      d.is_quick,
+      d.is_meal_prep,
+      d.season,
+      d.cuisine,
+      d.notes,
+      d.servings,
+      ROUND(ds.savings, 2)::DECIMAL(10, 2) AS savings,
+      ds.ingredients_with_offers,
+      COALESCE(oc.offers_count, 0) AS offers_count,
+      ROUND(COALESCE(dt.offer_total, 0), 2)::DECIMAL(10, 2) AS offer_total,
+      ROUND(COALESCE(dt.offer_total, 0) / d.servings, 2)::DECIMAL(10, 2) AS price_per_serving
+    FROM dishes d
+    JOIN dish_stats ds ON ds.dish_id = d.dish_id
+    LEFT JOIN offer_counts oc ON oc.dish_id = d.dish_id
+    LEFT JOIN dish_totals dt ON dt.dish_id = d.dish_id
+    LEFT JOIN dish_dietary_info ddi ON ddi.dish_id = d.dish_id
+    WHERE (_dish_ids IS NULL OR d.dish_id = ANY(_dish_ids))
+      AND (_category IS NULL OR d.category = _category)
+      AND (_is_quick IS NULL OR d.is_quick = _is_quick)
+      AND (_is_meal_prep IS NULL OR d.is_meal_prep = _is_meal_prep)
+      AND (_season IS NULL OR _season = ANY(season_keys(d.season)))
+      AND (_cuisine IS NULL OR LOWER(TRIM(d.cuisine)) = LOWER(TRIM(_cuisine)))
+      AND (
+        _search_folded IS NULL
+        OR d.search_vector @@ _search_query
+        -- Typo tolerance: word similarity of at least pg_trgm.word_similarity_threshold
+        -- (0.6 by default); the operator form can use the trigram index
+        OR _search_folded <% d.search_text
+      )
+      AND (
+        COALESCE(array_length(_exclude_allergens, 1), 0) = 0
+        OR NOT COALESCE(ddi.allergens && normalize_allergen_tags(_exclude_allergens), FALSE)
+      )
+      AND (_diet IS NULL OR (_diet = 'vegetarian' AND ddi.is_vegetarian) OR (_diet = 'vegan' AND ddi.is_vegan))
+      AND dish_passes_visibility_rules(
+        ds.main_with_offers::INTEGER,
+        ds.secondary_with_offers::INTEGER,
+        CASE WHEN dt.baseline_total > 0
+          THEN GREATEST(dt.baseline_total - dt.offer_total, 0) / dt.baseline_total * 100
+          ELSE 0
+        END
+      )
+  )
+  SELECT
+    v.dish_id,
+    v.name,
+    v.category,
+    v.is_quick,
+    v.is_meal_prep,
+    v.season,
+    v.cuisine,
+    v.notes,
+    v.servings,
+    v.savings,
+    v.ingredients_with_offers,
+    v.offers_count,
+    v.offer_total,
+    v.price_per_serving,
+    COUNT(*) OVER ()
+  FROM visible v
+  WHERE _max_price IS NULL
+    OR (_price_basis = 'total' AND v.offer_total <= _max_price)
+    OR (_price_basis = 'per_serving' AND v.price_per_serving <= _max_price)
+  ORDER BY
+    CASE WHEN _sort_by = 'savings' AND _sort_dir = 'asc' THEN v.savings END ASC,
+    CASE WHEN _sort_by = 'savings' AND _sort_dir = 'desc' THEN v.savings END DESC,
+    CASE WHEN _sort_by = 'price' AND _sort_dir = 'asc' THEN v.offer_total END ASC,
+    CASE WHEN _sort_by = 'price' AND _sort_dir = 'desc' THEN v.offer_total END DESC,
+    CASE WHEN _sort_by = 'offers' AND _sort_dir = 'asc' THEN v.offers_count END ASC,
+    CASE WHEN _sort_by = 'offers' AND _sort_dir = 'desc' THEN v.offers_count END DESC,
+    CASE WHEN _sort_by = 'name' AND _sort_dir = 'desc' THEN v.name END DESC,
+    v.name ASC,
+    v.dish_id ASC
+  LIMIT _limit
+  OFFSET COALESCE(_offset, 0);
+END;
+$$;
+
+COMMENT ON TABLE baseline_settings IS 'Single row: which baseline pricing uses (manual or computed) and how computed baselines are derived';
+COMMENT ON TABLE ingredient_region_baselines IS 'Baseline per ingredient and region derived from offer history; rebuilt by refresh_ingredient_baselines()';
+COMMENT ON FUNCTION refresh_ingredient_baselines() IS
+  'Recomputes ingredient_region_baselines as the configured percentile of per-unit offer prices over the last window_weeks';
+COMMENT ON FUNCTION ingredient_baselines(TEXT) IS
+  'Ingredients with the baseline per unit used for pricing in a region (computed or manual, see baseline_settings)';
+COMMENT ON VIEW ingredient_baseline_drift IS 'Manual vs. computed baseline per ingredient and region, with drift in percent';
+COMMENT ON FUNCTION calculate_ingredient_savings_per_unit(TEXT, TEXT, TEXT, TEXT) IS
+  'Per-unit baseline, lowest offer price and savings of an ingredient for a PLZ (optionally one chain)';
+COMMENT ON FUNCTION should_display_dish(TEXT, TEXT, TEXT) IS
+  'Whether a dish is shown for a PLZ (optionally one chain) under the current offers and dish_visibility_rules';
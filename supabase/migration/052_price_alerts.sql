@@ -0,0 +1,202 @@
+-- ============================================================================
+-- Price Alerts
+-- Users watch a dish or an ingredient for a PLZ with a price threshold.
+-- process_price_watches() runs after every offers import (and nightly, when
+-- offers starting that day become current) and turns matches into in-app
+-- notifications. Users who opt in get them as an email digest, sent by the
+-- send-alert-digests Edge Function.
+-- ============================================================================
+
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS alert_email_digest BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Dish watches compare the offer price per serving (cheapest offers of any
+-- chain), ingredient watches the cheapest offer per unit_default
+CREATE TABLE IF NOT EXISTS price_watches (
+  watch_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  dish_id TEXT REFERENCES dishes(dish_id) ON DELETE CASCADE ON UPDATE CASCADE,
+  ingredient_id TEXT REFERENCES ingredients(ingredient_id) ON DELETE CASCADE ON UPDATE CASCADE,
+  plz TEXT NOT NULL,
+  max_price DECIMAL(10, 2) NOT NULL CHECK (max_price > 0),
+  last_notified_at TIMESTAMPTZ,
+  last_notified_price DECIMAL(10, 2),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT check_price_watch_target CHECK (num_nonnulls(dish_id, ingredient_id) = 1)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_price_watches_unique
+  ON price_watches(user_id, COALESCE(dish_id, ''), COALESCE(ingredient_id, ''), plz);
+
+CREATE TABLE IF NOT EXISTS notifications (
+  notification_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  watch_id UUID REFERENCES price_watches(watch_id) ON DELETE SET NULL,
+  kind TEXT NOT NULL DEFAULT 'price_drop' CHECK (kind IN ('price_drop')),
+  title TEXT NOT NULL,
+  body TEXT,
+  link TEXT, -- App path to open, e.g. /dish/<dish_id>
+  price DECIMAL(10, 2),
+  read_at TIMESTAMPTZ,
+  emailed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_notifications_not_emailed ON notifications(created_at) WHERE emailed_at IS NULL;
+
+ALTER TABLE price_watches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own price watches" ON price_watches;
+CREATE POLICY "Users can manage own price watches"
+  ON price_watches
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Notifications are created by process_price_watches(); users read them and
+-- mark them as read
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own notifications" ON notifications;
+CREATE POLICY "Users can view own notifications"
+  ON notifications
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own notifications" ON notifications;
+CREATE POLICY "Users can update own notifications"
+  ON notifications
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own notifications" ON notifications;
+CREATE POLICY "Users can delete own notifications"
+  ON notifications
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Checks every watch against the current offers and creates a notification
+-- when the price is at or below the threshold. A watch is not notified again
+-- for the same price within 7 days, only when the price drops further.
+-- Returns the number of notifications created. Callable by admins, the
+-- service role (import-csv) and pg_cron.
+CREATE OR REPLACE FUNCTION process_price_watches()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _watch RECORD;
+  _price DECIMAL(10, 2);
+  _chain_name TEXT;
+  _title TEXT;
+  _body TEXT;
+  _link TEXT;
+  _count INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM user_roles
+    WHERE user_roles.user_id = auth.uid()
+    AND user_roles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can process price watches';
+  END IF;
+
+  FOR _watch IN
+    SELECT
+      w.*,
+      d.name AS dish_name,
+      i.name_canonical AS ingredient_name,
+      i.unit_default
+    FROM price_watches w
+    LEFT JOIN dishes d ON d.dish_id = w.dish_id
+    LEFT JOIN ingredients i ON i.ingredient_id = w.ingredient_id
+  LOOP
+    _price := NULL;
+    _chain_name := NULL;
+
+    IF _watch.dish_id IS NOT NULL THEN
+      -- Only dishes that are actually cheaper thanks to an offer
+      SELECT t.price_per_serving INTO _price
+      FROM calculate_dish_total_price(_watch.dish_id, _watch.plz) t
+      WHERE t.ingredients_with_offers_count > 0;
+
+      _title := _watch.dish_name || ' for €' || TO_CHAR(_price, 'FM999990.00') || ' per serving';
+      _body := 'Your price alert for ' || _watch.dish_name || ' (max. €'
+        || TO_CHAR(_watch.max_price, 'FM999990.00') || ' per serving) matches current offers in ' || _watch.plz || '.';
+      _link := '/dish/' || _watch.dish_id;
+    ELSE
+      SELECT
+        ROUND(cbo.price_total / conv.pack_in_default_unit, 2)::DECIMAL(10, 2),
+        ch.chain_name
+      INTO _price, _chain_name
+      FROM best_offers_for_plz(NULL, _watch.plz) cbo
+      JOIN chains ch ON ch.chain_id = cbo.chain_id
+      CROSS JOIN LATERAL (
+        SELECT convert_unit(cbo.pack_size, cbo.unit_base, _watch.unit_default, cbo.ingredient_id) AS pack_in_default_unit
+      ) conv
+      WHERE cbo.ingredient_id = _watch.ingredient_id
+        AND conv.pack_in_default_unit > 0
+      ORDER BY cbo.price_total / conv.pack_in_default_unit ASC
+      LIMIT 1;
+
+      _title := _watch.ingredient_name || ' for €' || TO_CHAR(_price, 'FM999990.00') || '/' || _watch.unit_default
+        || ' at ' || _chain_name;
+      _body := 'Your price alert for ' || _watch.ingredient_name || ' (max. €'
+        || TO_CHAR(_watch.max_price, 'FM999990.00') || '/' || _watch.unit_default
+        || ') matches current offers in ' || _watch.plz || '.';
+      _link := '/cook-with?ingredients=' || _watch.ingredient_id;
+    END IF;
+
+    IF _price IS NOT NULL
+      AND _price <= _watch.max_price
+      AND (
+        _watch.last_notified_at IS NULL
+        OR _price < _watch.last_notified_price
+        OR _watch.last_notified_at < NOW() - INTERVAL '7 days'
+      )
+    THEN
+      INSERT INTO notifications (user_id, watch_id, kind, title, body, link, price)
+      VALUES (_watch.user_id, _watch.watch_id, 'price_drop', _title, _body, _link, _price);
+
+      UPDATE price_watches
+      SET last_notified_at = NOW(),
+          last_notified_price = _price
+      WHERE watch_id = _watch.watch_id;
+
+      _count := _count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION process_price_watches() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION process_price_watches() TO authenticated, service_role;
+
+-- Nightly after the offer snapshot and baselines; skipped where pg_cron is
+-- not enabled. Only creates the notifications: the email digests are sent by
+-- the send-alert-digests Edge Function, which this job does not call.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'process-price-watches',
+      '30 0 * * *',
+      'SELECT public.process_price_watches()'
+    );
+  END IF;
+END;
+$$;
+
+COMMENT ON TABLE price_watches IS
+  'Price alerts: a dish (offer price per serving) or ingredient (offer price per unit_default) watched for a PLZ';
+COMMENT ON TABLE notifications IS 'In-app notifications, e.g. price alerts created by process_price_watches()';
+COMMENT ON COLUMN user_profiles.alert_email_digest IS 'Whether new notifications are also sent as an email digest';
+COMMENT ON FUNCTION process_price_watches() IS
+  'Creates notifications for price watches whose current offer price is at or below the threshold';
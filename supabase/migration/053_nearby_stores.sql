@@ -0,0 +1,157 @@
+-- ============================================================================
+-- Nearby Stores
+-- stores carry lat/lon and store_region_map says which ad regions (and so
+-- which offers) a store belongs to. Adds optional PLZ centroids and a
+-- haversine search for the stores around a PLZ.
+-- ============================================================================
+
+-- Optional centroid per PLZ; without one, the average position of the PLZ's
+-- stores is used
+ALTER TABLE postal_codes
+ADD COLUMN IF NOT EXISTS lat DECIMAL(10, 8),
+ADD COLUMN IF NOT EXISTS lon DECIMAL(11, 8);
+
+CREATE INDEX IF NOT EXISTS idx_stores_lat_lon ON stores(lat, lon) WHERE lat IS NOT NULL AND lon IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_stores_plz ON stores(plz);
+CREATE INDEX IF NOT EXISTS idx_store_region_map_region ON store_region_map(region_id);
+
+-- Great-circle distance in km
+CREATE OR REPLACE FUNCTION haversine_km(
+  _lat1 DOUBLE PRECISION,
+  _lon1 DOUBLE PRECISION,
+  _lat2 DOUBLE PRECISION,
+  _lon2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT 2 * 6371 * ASIN(SQRT(
+    POWER(SIN(RADIANS(_lat2 - _lat1) / 2), 2)
+    + COS(RADIANS(_lat1)) * COS(RADIANS(_lat2)) * POWER(SIN(RADIANS(_lon2 - _lon1) / 2), 2)
+  ));
+$$;
+
+GRANT EXECUTE ON FUNCTION haversine_km TO anon, authenticated;
+
+-- Position of a PLZ: its centroid, else the average of its stores' positions
+CREATE OR REPLACE FUNCTION get_plz_centroid(_plz TEXT)
+RETURNS TABLE (
+  lat DOUBLE PRECISION,
+  lon DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT c.lat, c.lon
+  FROM (
+    SELECT pc.lat::DOUBLE PRECISION AS lat, pc.lon::DOUBLE PRECISION AS lon, 1 AS priority
+    FROM postal_codes pc
+    WHERE pc.plz = _plz
+      AND pc.lat IS NOT NULL
+      AND pc.lon IS NOT NULL
+    UNION ALL
+    SELECT AVG(s.lat)::DOUBLE PRECISION, AVG(s.lon)::DOUBLE PRECISION, 2
+    FROM stores s
+    WHERE s.plz = _plz
+      AND s.lat IS NOT NULL
+      AND s.lon IS NOT NULL
+    HAVING COUNT(*) > 0
+  ) c
+  ORDER BY c.priority
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_plz_centroid TO anon, authenticated;
+
+-- Stores within _radius_km of a PLZ, nearest first. region_ids are the
+-- store's ad regions from store_region_map; in_user_region tells whether the
+-- store belongs to its chain's region for the PLZ (see resolve_plz_regions),
+-- i.e. has the offers shown for that PLZ (NULL when the store has no region
+-- mapping).
+CREATE OR REPLACE FUNCTION get_nearby_stores(
+  _user_plz TEXT,
+  _radius_km DECIMAL DEFAULT 10,
+  _chain_id TEXT DEFAULT NULL,
+  _limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  store_id TEXT,
+  chain_id TEXT,
+  chain_name TEXT,
+  store_name TEXT,
+  plz TEXT,
+  city TEXT,
+  street TEXT,
+  lat DOUBLE PRECISION,
+  lon DOUBLE PRECISION,
+  distance_km DECIMAL(8, 2),
+  region_ids TEXT[],
+  in_user_region BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _lat DOUBLE PRECISION;
+  _lon DOUBLE PRECISION;
+  _lat_delta DOUBLE PRECISION;
+  _lon_delta DOUBLE PRECISION;
+BEGIN
+  SELECT c.lat, c.lon INTO _lat, _lon
+  FROM get_plz_centroid(_user_plz) c;
+
+  IF _lat IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Bounding box first so the index can be used, then the exact distance
+  _lat_delta := _radius_km / 111.0;
+  _lon_delta := _radius_km / (111.0 * GREATEST(COS(RADIANS(_lat)), 0.01));
+
+  RETURN QUERY
+  SELECT
+    s.store_id,
+    s.chain_id,
+    ch.chain_name,
+    s.store_name,
+    s.plz,
+    s.city,
+    s.street,
+    s.lat::DOUBLE PRECISION,
+    s.lon::DOUBLE PRECISION,
+    ROUND(d.distance_km::DECIMAL, 2)::DECIMAL(8, 2),
+    COALESCE(r.region_ids, ARRAY[]::TEXT[]),
+    CASE WHEN r.region_ids IS NULL THEN NULL ELSE COALESCE(pr.region_id = ANY(r.region_ids), FALSE) END
+  FROM stores s
+  JOIN chains ch ON ch.chain_id = s.chain_id
+  CROSS JOIN LATERAL (
+    SELECT haversine_km(_lat, _lon, s.lat::DOUBLE PRECISION, s.lon::DOUBLE PRECISION) AS distance_km
+  ) d
+  LEFT JOIN LATERAL (
+    SELECT ARRAY_AGG(srm.region_id ORDER BY srm.region_id) AS region_ids
+    FROM store_region_map srm
+    WHERE srm.store_id = s.store_id
+  ) r ON TRUE
+  LEFT JOIN resolve_plz_regions(_user_plz) pr ON pr.chain_id = s.chain_id
+  WHERE s.lat BETWEEN _lat - _lat_delta AND _lat + _lat_delta
+    AND s.lon BETWEEN _lon - _lon_delta AND _lon + _lon_delta
+    AND (_chain_id IS NULL OR s.chain_id = _chain_id)
+    AND d.distance_km <= _radius_km
+  ORDER BY d.distance_km ASC, s.store_id ASC
+  LIMIT _limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_nearby_stores TO anon, authenticated;
+
+COMMENT ON FUNCTION haversine_km(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) IS
+  'Great-circle distance between two points in km';
+COMMENT ON FUNCTION get_plz_centroid(TEXT) IS
+  'Position of a PLZ: postal_codes.lat/lon, else the average position of its stores';
+COMMENT ON FUNCTION get_nearby_stores(TEXT, DECIMAL, TEXT, INTEGER) IS
+  'Stores within a radius of a PLZ centroid (haversine), nearest first, with their ad regions and whether they '
+  'belong to the region their chain''s offers for the PLZ come from';
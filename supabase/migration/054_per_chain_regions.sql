@@ -0,0 +1,77 @@
+-- ============================================================================
+-- Per-Chain Regions
+-- postal_codes maps a PLZ to one region_id, but offers are keyed by
+-- (region_id, chain_id) and a PLZ near a border can be served by different ad
+-- regions per chain. resolve_plz_regions() now returns one region per chain:
+-- the region of the chain's nearest store (store_region_map), falling back to
+-- the PLZ's own region. Pricing, alerts, price history and nearby stores read
+-- regions through it (directly or via best_offers_for_plz()), so chains whose
+-- region differs from the PLZ's region get their offers. Baselines stay those
+-- of the PLZ's own region.
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS resolve_plz_regions(TEXT);
+
+-- One region per chain for a PLZ: the region of the chain's nearest store
+-- within _max_distance_km of the PLZ (see get_plz_centroid), otherwise the
+-- PLZ's region from postal_codes. store_id and distance_km tell which store
+-- the region comes from (NULL for the fallback).
+CREATE OR REPLACE FUNCTION resolve_plz_regions(
+  _user_plz TEXT,
+  _max_distance_km DECIMAL DEFAULT 30
+)
+RETURNS TABLE (
+  chain_id TEXT,
+  region_id TEXT,
+  store_id TEXT,
+  distance_km DECIMAL(8, 2)
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH centroid AS (
+    SELECT c.lat, c.lon
+    FROM get_plz_centroid(_user_plz) c
+  ),
+  nearest AS (
+    SELECT DISTINCT ON (s.chain_id)
+      s.chain_id,
+      srm.region_id,
+      s.store_id,
+      d.distance_km
+    FROM centroid c
+    JOIN stores s
+      ON s.lat BETWEEN c.lat - _max_distance_km / 111.0 AND c.lat + _max_distance_km / 111.0
+    JOIN store_region_map srm ON srm.store_id = s.store_id
+    CROSS JOIN LATERAL (
+      SELECT haversine_km(c.lat, c.lon, s.lat::DOUBLE PRECISION, s.lon::DOUBLE PRECISION) AS distance_km
+    ) d
+    WHERE s.lon BETWEEN c.lon - _max_distance_km / (111.0 * GREATEST(COS(RADIANS(c.lat)), 0.01))
+                    AND c.lon + _max_distance_km / (111.0 * GREATEST(COS(RADIANS(c.lat)), 0.01))
+      AND d.distance_km <= _max_distance_km
+    ORDER BY s.chain_id, d.distance_km ASC, s.store_id ASC, srm.region_id ASC
+  )
+  SELECT
+    n.chain_id,
+    n.region_id,
+    n.store_id,
+    ROUND(n.distance_km::DECIMAL, 2)::DECIMAL(8, 2)
+  FROM nearest n
+  UNION ALL
+  SELECT
+    ch.chain_id,
+    pc.region_id,
+    NULL::TEXT,
+    NULL::DECIMAL(8, 2)
+  FROM postal_codes pc
+  CROSS JOIN chains ch
+  WHERE pc.plz = _user_plz
+    AND NOT EXISTS (SELECT 1 FROM nearest n WHERE n.chain_id = ch.chain_id);
+$$;
+
+GRANT EXECUTE ON FUNCTION resolve_plz_regions TO anon, authenticated;
+
+COMMENT ON FUNCTION resolve_plz_regions(TEXT, DECIMAL) IS
+  'Ad region per chain for a PLZ: the region of the chain''s nearest store (store_region_map) within '
+  '_max_distance_km, else the PLZ''s region from postal_codes';
@@ -0,0 +1,142 @@
+-- ============================================================================
+-- PLZ Search
+-- Suggestions for the location input: postal codes by PLZ prefix or city name
+-- (umlaut folding and typo tolerance as in the dish search), each with how
+-- many chains have offers there, and the nearest PLZ to a browser position.
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_postal_codes_plz_pattern ON postal_codes(plz text_pattern_ops);
+CREATE INDEX IF NOT EXISTS idx_postal_codes_city_trgm ON postal_codes USING GIN (fold_search_text(city) gin_trgm_ops);
+
+-- PLZs starting with _query (digits), otherwise PLZs whose city starts with
+-- or resembles _query; exact city matches first. chains_with_offers is a hint
+-- for the suggestion list: the chains with offers in the PLZ's own region in
+-- the current_best_offers snapshot, without resolving each chain's nearest
+-- region as best_offers_for_plz does (get_plz_coverage has the full answer).
+-- extensions is on the search_path for pg_trgm.
+CREATE OR REPLACE FUNCTION search_postal_codes(
+  _query TEXT,
+  _limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  plz TEXT,
+  city TEXT,
+  region_id TEXT,
+  chains_with_offers INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  _term TEXT := TRIM(COALESCE(_query, ''));
+  _is_plz BOOLEAN;
+  _folded TEXT;
+BEGIN
+  IF _term = '' THEN
+    RETURN;
+  END IF;
+
+  _is_plz := _term ~ '^[0-9]+$';
+  _folded := fold_search_text(_term);
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      pc.plz,
+      pc.city,
+      pc.region_id,
+      ROW_NUMBER() OVER (
+        ORDER BY
+          CASE WHEN NOT _is_plz THEN fold_search_text(pc.city) = _folded END DESC,
+          CASE WHEN NOT _is_plz THEN fold_search_text(pc.city) LIKE _folded || '%' END DESC,
+          CASE WHEN NOT _is_plz THEN word_similarity(_folded, fold_search_text(pc.city)) END DESC,
+          pc.city ASC,
+          pc.plz ASC
+      ) AS match_rank
+    FROM postal_codes pc
+    WHERE (_is_plz AND pc.plz LIKE _term || '%')
+      OR (
+        NOT _is_plz
+        AND (
+          fold_search_text(pc.city) LIKE _folded || '%'
+          -- Typo tolerance as in the dish search; <% can use idx_postal_codes_city_trgm
+          OR _folded <% fold_search_text(pc.city)
+        )
+      )
+    ORDER BY match_rank
+    LIMIT _limit
+  ),
+  region_chains AS (
+    SELECT
+      cbo.region_id,
+      COUNT(DISTINCT cbo.chain_id)::INTEGER AS chains_with_offers
+    FROM current_best_offers cbo
+    WHERE cbo.region_id IN (SELECT m.region_id FROM matches m)
+      AND cbo.valid_from <= CURRENT_DATE
+      AND cbo.valid_to >= CURRENT_DATE
+    GROUP BY cbo.region_id
+  )
+  SELECT
+    m.plz,
+    m.city,
+    m.region_id,
+    COALESCE(rc.chains_with_offers, 0)
+  FROM matches m
+  LEFT JOIN region_chains rc ON rc.region_id = m.region_id
+  ORDER BY m.match_rank;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_postal_codes TO anon, authenticated;
+
+-- Nearest known PLZ to a position (e.g. the browser's geolocation) within
+-- _max_distance_km, by the same positions as get_plz_centroid
+CREATE OR REPLACE FUNCTION get_nearest_plz(
+  _lat DOUBLE PRECISION,
+  _lon DOUBLE PRECISION,
+  _max_distance_km DECIMAL DEFAULT 25
+)
+RETURNS TABLE (
+  plz TEXT,
+  city TEXT,
+  distance_km DECIMAL(8, 2)
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH positions AS (
+    SELECT pc.plz, pc.lat::DOUBLE PRECISION AS lat, pc.lon::DOUBLE PRECISION AS lon
+    FROM postal_codes pc
+    WHERE pc.lat IS NOT NULL
+      AND pc.lon IS NOT NULL
+    UNION ALL
+    SELECT s.plz, AVG(s.lat)::DOUBLE PRECISION, AVG(s.lon)::DOUBLE PRECISION
+    FROM stores s
+    JOIN postal_codes pc ON pc.plz = s.plz
+    WHERE (pc.lat IS NULL OR pc.lon IS NULL)
+      AND s.lat IS NOT NULL
+      AND s.lon IS NOT NULL
+    GROUP BY s.plz
+  )
+  SELECT
+    pc.plz,
+    pc.city,
+    ROUND(d.distance_km::DECIMAL, 2)::DECIMAL(8, 2)
+  FROM positions p
+  JOIN postal_codes pc ON pc.plz = p.plz
+  CROSS JOIN LATERAL (
+    SELECT haversine_km(_lat, _lon, p.lat, p.lon) AS distance_km
+  ) d
+  WHERE d.distance_km <= _max_distance_km
+  ORDER BY d.distance_km ASC, pc.plz ASC
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_nearest_plz TO anon, authenticated;
+
+COMMENT ON FUNCTION search_postal_codes(TEXT, INTEGER) IS
+  'PLZ suggestions by PLZ prefix or (folded, typo-tolerant) city name, with the number of chains with current offers in the PLZ''s region';
+COMMENT ON FUNCTION get_nearest_plz(DOUBLE PRECISION, DOUBLE PRECISION, DECIMAL) IS
+  'Nearest PLZ to a position within _max_distance_km (postal_codes centroids, else the average position of its stores)';
@@ -0,0 +1,155 @@
+-- ============================================================================
+-- PLZ Coverage and Waitlist
+-- get_plz_coverage() tells which chains have offers for a PLZ and how fresh
+-- they are. Visitors whose PLZ is not covered can join plz_waitlist through
+-- the join-waitlist Edge Function and confirm by email; admins see the
+-- waitlist ranked by demand, and the notify-waitlist Edge Function mails
+-- everyone confirmed once their PLZ is covered.
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_offers_region_chain_valid ON offers(region_id, chain_id, valid_to);
+
+CREATE TABLE IF NOT EXISTS plz_waitlist (
+  waitlist_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  plz TEXT NOT NULL CHECK (plz ~ '^[0-9]{5}$'),
+  email TEXT NOT NULL CHECK (email ~ '^[^@\s]+@[^@\s]+\.[^@\s]+$'),
+  user_id UUID REFERENCES user_profiles(id) ON DELETE SET NULL ON UPDATE CASCADE,
+  -- Double opt-in: the confirmation link carries the token
+  confirm_token UUID NOT NULL DEFAULT uuid_generate_v4(),
+  confirmed_at TIMESTAMPTZ,
+  notified_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_plz_waitlist_unique ON plz_waitlist(plz, LOWER(email));
+CREATE UNIQUE INDEX IF NOT EXISTS idx_plz_waitlist_confirm_token ON plz_waitlist(confirm_token);
+CREATE INDEX IF NOT EXISTS idx_plz_waitlist_pending ON plz_waitlist(plz)
+  WHERE confirmed_at IS NOT NULL AND notified_at IS NULL;
+
+-- Signups only go through join-waitlist (service role), which mails the
+-- confirmation link; only admins and the service role read the list
+ALTER TABLE plz_waitlist ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read the waitlist" ON plz_waitlist;
+CREATE POLICY "Admins can read the waitlist"
+  ON plz_waitlist
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles
+      WHERE user_roles.user_id = auth.uid()
+      AND user_roles.role = 'admin'
+    )
+  );
+
+-- Confirms the signup of a confirmation link; returns its PLZ, NULL for an
+-- unknown token. Confirming again is a no-op.
+CREATE OR REPLACE FUNCTION confirm_waitlist_signup(_token UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _plz TEXT;
+BEGIN
+  UPDATE plz_waitlist
+  SET confirmed_at = COALESCE(confirmed_at, NOW())
+  WHERE confirm_token = _token
+  RETURNING plz INTO _plz;
+
+  RETURN _plz;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION confirm_waitlist_signup(UUID) TO anon, authenticated;
+
+-- Chains with offers for a PLZ, each in its region (see resolve_plz_regions):
+-- how many offers are valid today, until when, and when the chain's offers
+-- for the region were last imported. Chains without any offers there are left
+-- out, so no rows means the PLZ is not covered.
+CREATE OR REPLACE FUNCTION get_plz_coverage(_user_plz TEXT)
+RETURNS TABLE (
+  chain_id TEXT,
+  chain_name TEXT,
+  region_id TEXT,
+  active_offers_count INTEGER,
+  valid_until DATE,
+  last_imported_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    r.chain_id,
+    ch.chain_name,
+    r.region_id,
+    (COUNT(*) FILTER (WHERE CURRENT_DATE BETWEEN o.valid_from AND o.valid_to))::INTEGER,
+    MAX(o.valid_to) FILTER (WHERE CURRENT_DATE BETWEEN o.valid_from AND o.valid_to),
+    MAX(COALESCE(o.updated_at, o.created_at))
+  FROM resolve_plz_regions(_user_plz) r
+  JOIN chains ch ON ch.chain_id = r.chain_id
+  JOIN offers o ON o.region_id = r.region_id AND o.chain_id = r.chain_id
+  GROUP BY r.chain_id, ch.chain_name, r.region_id
+  ORDER BY 4 DESC, ch.chain_name ASC;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_plz_coverage TO anon, authenticated;
+
+-- Confirmed waitlist signups per PLZ, most requested first. is_covered: the
+-- PLZ is known and has offers valid today, i.e. the people waiting can be
+-- notified.
+CREATE OR REPLACE FUNCTION get_plz_waitlist_demand()
+RETURNS TABLE (
+  plz TEXT,
+  city TEXT,
+  signups INTEGER,
+  pending INTEGER,
+  first_signup_at TIMESTAMPTZ,
+  last_signup_at TIMESTAMPTZ,
+  is_covered BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM user_roles
+    WHERE user_roles.user_id = auth.uid()
+    AND user_roles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can view the waitlist';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    w.plz,
+    pc.city,
+    COUNT(*)::INTEGER,
+    (COUNT(*) FILTER (WHERE w.notified_at IS NULL))::INTEGER,
+    MIN(w.created_at),
+    MAX(w.created_at),
+    pc.plz IS NOT NULL AND EXISTS (
+      SELECT 1 FROM get_plz_coverage(w.plz) c WHERE c.active_offers_count > 0
+    )
+  FROM plz_waitlist w
+  LEFT JOIN postal_codes pc ON pc.plz = w.plz
+  WHERE w.confirmed_at IS NOT NULL
+  GROUP BY w.plz, pc.plz, pc.city
+  ORDER BY COUNT(*) FILTER (WHERE w.notified_at IS NULL) DESC, COUNT(*) DESC, MIN(w.created_at) ASC, w.plz ASC;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_plz_waitlist_demand() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_plz_waitlist_demand() TO authenticated, service_role;
+
+COMMENT ON TABLE plz_waitlist IS 'Visitors to notify by email once their PLZ is covered, after confirming their email (notified_at set by notify-waitlist)';
+COMMENT ON FUNCTION confirm_waitlist_signup(UUID) IS
+  'Confirms a waitlist signup from its emailed link; returns the PLZ, NULL for an unknown token';
+COMMENT ON FUNCTION get_plz_coverage(TEXT) IS
+  'Chains with offers for a PLZ (per chain region): offers valid today, valid until, and last import time';
+COMMENT ON FUNCTION get_plz_waitlist_demand() IS
+  'Confirmed waitlist signups per PLZ ranked by pending demand, with whether the PLZ is covered now (admins and service role)';
@@ -0,0 +1,131 @@
+-- ============================================================================
+-- Saved Locations
+-- Users save several named locations (home, work, parents) and switch between
+-- them; user_profiles.plz stays the PLZ currently in use. Favorites, price
+-- watches and plans remember the PLZ they were priced for and the saved
+-- location it belongs to.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS user_locations (
+  location_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  name TEXT NOT NULL CHECK (LENGTH(TRIM(name)) > 0),
+  plz TEXT NOT NULL CHECK (plz ~ '^[0-9]{5}$'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_locations_name_unique ON user_locations(user_id, LOWER(TRIM(name)));
+CREATE INDEX IF NOT EXISTS idx_user_locations_user_plz ON user_locations(user_id, plz);
+
+ALTER TABLE user_locations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own locations" ON user_locations;
+CREATE POLICY "Users can manage own locations"
+  ON user_locations
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Where favorites, watches and plans were priced. The PLZ is kept when the
+-- saved location is deleted.
+ALTER TABLE favorites
+ADD COLUMN IF NOT EXISTS plz TEXT,
+ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES user_locations(location_id) ON DELETE SET NULL;
+
+ALTER TABLE plans
+ADD COLUMN IF NOT EXISTS plz TEXT,
+ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES user_locations(location_id) ON DELETE SET NULL;
+
+ALTER TABLE price_watches
+ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES user_locations(location_id) ON DELETE SET NULL;
+
+-- Existing PLZs become the users' "Home" location
+INSERT INTO user_locations (user_id, name, plz)
+SELECT up.id, 'Home', up.plz
+FROM user_profiles up
+WHERE up.plz ~ '^[0-9]{5}$'
+  AND NOT EXISTS (SELECT 1 FROM user_locations ul WHERE ul.user_id = up.id);
+
+-- Existing favorites and plans were priced for the PLZ in use
+UPDATE favorites f
+SET plz = up.plz
+FROM user_profiles up
+WHERE f.plz IS NULL
+  AND up.id = f.user_id
+  AND up.plz ~ '^[0-9]{5}$';
+
+UPDATE plans p
+SET plz = up.plz
+FROM user_profiles up
+WHERE p.plz IS NULL
+  AND up.id = p.user_id
+  AND up.plz ~ '^[0-9]{5}$';
+
+UPDATE favorites f
+SET location_id = ul.location_id
+FROM user_locations ul
+WHERE f.location_id IS NULL
+  AND ul.user_id = f.user_id
+  AND ul.plz = f.plz;
+
+UPDATE plans p
+SET location_id = ul.location_id
+FROM user_locations ul
+WHERE p.location_id IS NULL
+  AND ul.user_id = p.user_id
+  AND ul.plz = p.plz;
+
+UPDATE price_watches w
+SET location_id = ul.location_id
+FROM user_locations ul
+WHERE w.location_id IS NULL
+  AND ul.user_id = w.user_id
+  AND ul.plz = w.plz;
+
+-- Fills in the PLZ in use (user_profiles.plz) when none is given, and the
+-- user's saved location with that PLZ (the oldest, if several share it)
+CREATE OR REPLACE FUNCTION remember_user_location()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.plz IS NULL THEN
+    SELECT up.plz INTO NEW.plz
+    FROM user_profiles up
+    WHERE up.id = NEW.user_id;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.plz IS DISTINCT FROM OLD.plz THEN
+    SELECT ul.location_id INTO NEW.location_id
+    FROM user_locations ul
+    WHERE ul.user_id = NEW.user_id
+      AND ul.plz = NEW.plz
+    ORDER BY ul.created_at ASC
+    LIMIT 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS remember_favorite_location ON favorites;
+CREATE TRIGGER remember_favorite_location
+  BEFORE INSERT ON favorites
+  FOR EACH ROW
+  EXECUTE FUNCTION remember_user_location();
+
+DROP TRIGGER IF EXISTS remember_plan_location ON plans;
+CREATE TRIGGER remember_plan_location
+  BEFORE INSERT OR UPDATE OF plz ON plans
+  FOR EACH ROW
+  EXECUTE FUNCTION remember_user_location();
+
+DROP TRIGGER IF EXISTS remember_price_watch_location ON price_watches;
+CREATE TRIGGER remember_price_watch_location
+  BEFORE INSERT ON price_watches
+  FOR EACH ROW
+  EXECUTE FUNCTION remember_user_location();
+
+COMMENT ON TABLE user_locations IS 'Named locations (PLZs) a user switches between; user_profiles.plz is the one in use';
+COMMENT ON COLUMN favorites.plz IS 'PLZ the dish was priced for when it was favorited';
+COMMENT ON COLUMN plans.plz IS 'PLZ the plan is priced for';
+COMMENT ON FUNCTION remember_user_location() IS
+  'Trigger: fills in plz (user_profiles.plz if none given) and location_id (saved location with that PLZ)';